@@ -0,0 +1,99 @@
+/**
+ * Typed errors for Bybit API responses.
+ * Every non-zero ret_code/retCode (and every HTTP-level failure) is turned into
+ * one of these classes so callers can react to the kind of failure instead of
+ * comparing magic numbers.
+ */
+
+/**
+ * Base class for all errors returned by the Bybit API
+ */
+export class BybitApiError extends Error {
+  retCode: number;
+  retMsg: string;
+  endpoint: string;
+  response?: unknown;
+  httpStatus?: number;
+
+  /** Whether repeating the same request may succeed */
+  readonly retryable: boolean = false;
+  /** Whether the server rejected the request before acting on it, so even a write can be sent again */
+  readonly rejectedUnprocessed: boolean = false;
+
+  constructor(retCode: number, retMsg: string, endpoint: string, response?: unknown, httpStatus?: number) {
+    super(`Bybit API error ${retCode} on ${endpoint}: ${retMsg}`);
+    this.name = new.target.name;
+    this.retCode = retCode;
+    this.retMsg = retMsg;
+    this.endpoint = endpoint;
+    this.response = response;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * Invalid API key, bad signature, missing permission or IP not whitelisted
+ */
+export class BybitAuthError extends BybitApiError {}
+
+/**
+ * Request timestamp is outside of the recv_window accepted by the server
+ */
+export class BybitTimestampError extends BybitApiError {
+  override readonly retryable = true;
+  override readonly rejectedUnprocessed = true;
+}
+
+/**
+ * Too many requests for the API key or IP
+ */
+export class BybitRateLimitError extends BybitApiError {
+  override readonly retryable = true;
+  override readonly rejectedUnprocessed = true;
+}
+
+/**
+ * Request parameters were rejected (including invalid time ranges)
+ */
+export class BybitParameterError extends BybitApiError {}
+
+/**
+ * Server-side failure, timeout or network error
+ */
+export class BybitServerError extends BybitApiError {
+  override readonly retryable = true;
+}
+
+// ret_code values documented by Bybit for API v5
+const AUTH_ERROR_CODES = new Set([10003, 10004, 10005, 10007, 10008, 10009, 10010, 10024, 10027, 33004]);
+const TIMESTAMP_ERROR_CODES = new Set([10002]);
+const RATE_LIMIT_ERROR_CODES = new Set([10006, 10018]);
+const PARAMETER_ERROR_CODES = new Set([10001, 10017]);
+const SERVER_ERROR_CODES = new Set([10000, 10016]);
+
+/**
+ * Map a Bybit ret_code (and optionally the HTTP status) to a typed error
+ * @param retCode - ret_code/retCode from the response body (or -1 if there is none)
+ * @param retMsg - ret_msg/retMsg from the response body
+ * @param endpoint - API endpoint the request was sent to
+ * @param response - Response body, kept for diagnostics
+ * @param httpStatus - HTTP status code, if the request reached the server
+ * @returns Instance of the matching error class
+ */
+export function classifyBybitError(
+  retCode: number,
+  retMsg: string,
+  endpoint: string,
+  response?: unknown,
+  httpStatus?: number
+): BybitApiError {
+  const args = [retCode, retMsg, endpoint, response, httpStatus] as const;
+
+  if (AUTH_ERROR_CODES.has(retCode) || httpStatus === 401) return new BybitAuthError(...args);
+  if (TIMESTAMP_ERROR_CODES.has(retCode)) return new BybitTimestampError(...args);
+  if (RATE_LIMIT_ERROR_CODES.has(retCode) || httpStatus === 403 || httpStatus === 429) return new BybitRateLimitError(...args);
+  if (PARAMETER_ERROR_CODES.has(retCode)) return new BybitParameterError(...args);
+  if (SERVER_ERROR_CODES.has(retCode) || (httpStatus !== undefined && httpStatus >= 500)) return new BybitServerError(...args);
+
+  return new BybitApiError(...args);
+}
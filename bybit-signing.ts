@@ -0,0 +1,85 @@
+/**
+ * Request signing schemes of Bybit API keys.
+ * System-generated keys sign with HMAC-SHA256 of the API secret (hex digest);
+ * self-generated keys sign with RSA-SHA256 of our private key (base64), Bybit
+ * only keeps the public key. Both sign the same string:
+ * timestamp + api key + recv window + (query string | request body).
+ */
+
+import crypto from 'crypto';
+
+/**
+ * Signing scheme of an API key, same values as the BybitAuthScheme enum in schema.prisma
+ */
+export type BybitAuthScheme = 'HMAC' | 'RSA';
+
+export const BYBIT_AUTH_SCHEMES: readonly BybitAuthScheme[] = ['HMAC', 'RSA'];
+
+/**
+ * Whether a secret is a PEM private key (PKCS#1 or PKCS#8)
+ */
+export function isPemPrivateKey(secret: string): boolean {
+  return /-----BEGIN (RSA |ENCRYPTED )?PRIVATE KEY-----/.test(secret);
+}
+
+/**
+ * Scheme of a secret when none is configured: PEM private keys are RSA, anything else HMAC
+ */
+export function detectAuthScheme(secret: string): BybitAuthScheme {
+  return isPemPrivateKey(secret) ? 'RSA' : 'HMAC';
+}
+
+/**
+ * Parse a scheme name, case-insensitive
+ * @throws Error for unknown names
+ */
+export function parseAuthScheme(value: string): BybitAuthScheme {
+  const scheme = value.trim().toUpperCase();
+  if (!(BYBIT_AUTH_SCHEMES as readonly string[]).includes(scheme)) {
+    throw new Error(`Unknown Bybit auth scheme "${value}", expected one of ${BYBIT_AUTH_SCHEMES.join(', ')}`);
+  }
+  return scheme as BybitAuthScheme;
+}
+
+/**
+ * Signs request strings with one API secret
+ */
+export interface RequestSigner {
+  readonly scheme: BybitAuthScheme;
+  sign(payload: string): string;
+}
+
+/**
+ * Build the signer of a secret
+ * @param scheme - HMAC or RSA
+ * @param secret - API secret for HMAC, PEM private key for RSA
+ * @throws Error if an RSA secret is not a usable RSA private key or an HMAC secret is a PEM private key
+ */
+export function createRequestSigner(scheme: BybitAuthScheme, secret: string): RequestSigner {
+  if (scheme === 'HMAC') {
+    // Закрытый ключ как секрет HMAC дает подписи, которые Bybit всегда отклоняет
+    if (isPemPrivateKey(secret)) {
+      throw new Error('HMAC auth scheme got a PEM private key as the API secret: set the scheme to RSA or leave it empty to detect it');
+    }
+    return {
+      scheme,
+      sign: payload => crypto.createHmac('sha256', secret).update(payload).digest('hex')
+    };
+  }
+
+  let privateKey: crypto.KeyObject;
+  try {
+    // Переносы строк в переменных окружения часто приходят как \n
+    privateKey = crypto.createPrivateKey(secret.replace(/\\n/g, '\n'));
+  } catch (error: any) {
+    throw new Error(`RSA auth scheme needs a PEM private key as the API secret: ${error.message}`);
+  }
+  if (privateKey.asymmetricKeyType !== 'rsa') {
+    throw new Error(`RSA auth scheme needs an RSA private key, got ${privateKey.asymmetricKeyType}`);
+  }
+
+  return {
+    scheme,
+    sign: payload => crypto.createSign('RSA-SHA256').update(payload).sign(privateKey, 'base64')
+  };
+}
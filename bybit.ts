@@ -1,6 +1,63 @@
 import crypto from 'crypto';
-import axios from 'axios';
+import axios, { type AxiosResponse } from 'axios';
 import fs from 'fs';
+import {
+  BybitApiError,
+  BybitParameterError,
+  BybitServerError,
+  BybitTimestampError,
+  classifyBybitError
+} from './bybit-errors';
+import { parseLimitHeaders, sharedRateLimiter, type RateLimiterRegistry } from './rate-limiter';
+import { sharedClocks, type ServerClock } from './clock-sync';
+import {
+  OrderSide,
+  OrderStatus,
+  ORDER_STATUS_LABELS,
+  decodeP2POrders,
+  decodeP2POrderDetail,
+  formatDecodeIssues,
+  P2POrderDecodeError,
+  type P2POrder,
+  type P2POrderDetail,
+  type RejectedP2POrder
+} from './p2p-order';
+import {
+  decodeP2PAd,
+  decodeP2PAds,
+  mergeAdChanges,
+  toAdRequestParams,
+  validateAdParams,
+  P2PAdDecodeError,
+  P2PAdValidationError,
+  type NewP2PAd,
+  type P2PAd,
+  type P2PAdChanges,
+  type P2PAdFilter
+} from './p2p-ad';
+import {
+  assertOrderNo,
+  getChatFileType,
+  OrderActionError,
+  sharedReleaseGuard,
+  type ChatContentType,
+  type OrderAction,
+  type OrderActionAudit,
+  type OrderActionAuditEntry,
+  type ReleaseGuard
+} from './order-actions';
+import { decodeChatMessages, type ChatMessage } from './p2p-chat';
+import { decodeOnlineAds, type OnlineAd, type OnlineAdFilter } from './p2p-market';
+import { Decimal } from './money';
+import { DEFAULT_OWNER, type ChainCredentialProvider, type CredentialOwner } from './credentials';
+import { createRequestSigner, detectAuthScheme, type BybitAuthScheme, type RequestSigner } from './bybit-signing';
+import { formatBybitTransactionCsv, toBybitTransactionCsvRow } from './transaction-csv';
+
+/**
+ * Base URLs of the Bybit API
+ */
+export const BYBIT_MAINNET_URL = 'https://api.bybit.com';
+export const BYBIT_TESTNET_URL = 'https://api-testnet.bybit.com';
 
 interface P2POrderListParams {
   page: number;
@@ -12,18 +69,50 @@ interface P2POrderListParams {
   status?: number[];
 }
 
-interface TransactionSummary {
+/**
+ * Filter for iterating over P2P orders in a time range
+ */
+export interface P2POrderFilter {
+  beginTime: number; // timestamp в миллисекундах для начала периода
+  endTime: number; // timestamp в миллисекундах для конца периода
+  tokenId?: string;
+  side?: OrderSide[];
+  status?: OrderStatus[];
+  pageSize?: number; // default: 50
+  maxPagesPerWindow?: number; // window is split when it holds more pages (default: 100); not a limit for windows at minWindowMs
+  minWindowMs?: number; // windows are never split below this size (default: 1 minute)
+}
+
+/**
+ * Retry settings of the request pipeline
+ */
+export interface RetryPolicy {
+  maxRetries: number; // additional attempts after the first one
+  baseDelayMs: number; // delay before the first retry, doubled on every attempt
+  maxDelayMs: number; // upper bound for a single delay
+}
+
+/**
+ * Options of a single request
+ */
+export interface RequestOptions {
+  // false for writes that must not run twice (release, payment, new ad): a lost response
+  // does not prove the request failed, so only rate limit and timestamp rejections are retried
+  idempotent?: boolean;
+}
+
+export interface TransactionSummary {
   count: number;
-  volume: number;
+  volume: Decimal; // exact fiat volume
 }
 
-interface TokenSummary {
+export interface TokenSummary {
   count: number;
-  volume: number;
-  tokenVolume: number;
+  volume: Decimal; // exact fiat volume
+  tokenVolume: Decimal; // exact token quantity
 }
 
-interface ProcessedData {
+export interface ProcessedData {
   totalCount: number;
   summary: {
     buy: TransactionSummary;
@@ -35,10 +124,10 @@ interface ProcessedData {
       sell: TokenSummary;
     };
   };
-  transactions: any[];
+  transactions: P2POrder[];
 }
 
-interface ApiResponse {
+export interface ApiResponse {
   ret_code: number;
   ret_msg?: string;
   result?: {
@@ -56,6 +145,7 @@ interface ProcessResult {
   message?: string;
   rawResponse?: any;
   error?: any;
+  rejected?: RejectedP2POrder[]; // items that failed validation
 }
 
 /**
@@ -64,11 +154,17 @@ interface ProcessResult {
  */
 class BybitP2PParser {
   apiKey: string;
-  apiSecret: string;
+  apiSecret: string; // HMAC secret or PEM private key, see authScheme
+  authScheme: BybitAuthScheme;
   baseUrl: string;
-  timeOffset: number = 0;
-  recvWindow: number = 5000;
-  timeSyncComplete: boolean = false;
+  recvWindow: number = 5000; // configured recv_window, raised by the clock when the network needs more
+  clock: ServerClock; // shared by all instances talking to the same API server
+  retryPolicy: RetryPolicy = { maxRetries: 3, baseDelayMs: 500, maxDelayMs: 10000 };
+  rateLimiter: RateLimiterRegistry = sharedRateLimiter; // shared by all instances in the process
+  releaseGuard: ReleaseGuard = sharedReleaseGuard; // prevents releasing an order twice from this process
+  orderAudit?: OrderActionAudit; // audit trail of order actions, e.g. PrismaOrderActionAudit; order actions refuse to run without it
+  private selfUserId?: string; // our Bybit user ID, loaded once by getSelfUserId
+  private signer: RequestSigner;
 
   /**
    * Creates a new BybitP2PParser instance
@@ -76,36 +172,72 @@ class BybitP2PParser {
    * @param apiSecret - Bybit API secret
    * @param testnet - Whether to use testnet (default: false)
    * @param recvWindow - Receive window in milliseconds (default: 5000)
+   * @param baseUrl - Other API server, e.g. a local stand-in; BYBIT_BASE_URL is used when omitted
+   * @param authScheme - HMAC or RSA signing (default: RSA for PEM private keys, otherwise HMAC)
+   * @throws Error if RSA is used without a valid RSA private key
    */
-  constructor(apiKey: string, apiSecret: string, testnet: boolean = false, recvWindow: number = 5000) {
+  constructor(
+    apiKey: string,
+    apiSecret: string,
+    testnet: boolean = false,
+    recvWindow: number = 5000,
+    baseUrl?: string,
+    authScheme?: BybitAuthScheme
+  ) {
     this.apiKey = apiKey;
     this.apiSecret = apiSecret;
-    this.baseUrl = testnet 
-      ? 'https://api-testnet.bybit.com' 
-      : 'https://api.bybit.com';
+    this.authScheme = authScheme ?? detectAuthScheme(apiSecret);
+    this.signer = createRequestSigner(this.authScheme, apiSecret);
+    this.baseUrl = (baseUrl || process.env.BYBIT_BASE_URL || (testnet ? BYBIT_TESTNET_URL : BYBIT_MAINNET_URL)).replace(/\/+$/, '');
     this.recvWindow = recvWindow;
+    this.clock = sharedClocks.clock(this.baseUrl);
+  }
+
+  /**
+   * Create a parser with keys resolved by a credential provider
+   * @param provider - Credential provider, e.g. defaultCredentialProvider()
+   * @param owner - Whose keys to use (default: the default account)
+   * @param testnet - Whether to use testnet (default: false)
+   * @param recvWindow - Receive window in milliseconds (default: 5000)
+   * @param baseUrl - Other API server (see constructor)
+   * @throws MissingCredentialsError if no provider has keys for the owner
+   */
+  static async fromCredentials(
+    provider: ChainCredentialProvider,
+    owner: CredentialOwner = DEFAULT_OWNER,
+    testnet: boolean = false,
+    recvWindow: number = 5000,
+    baseUrl?: string
+  ): Promise<BybitP2PParser> {
+    const { apiKey, apiSecret, authScheme } = await provider.require(owner);
+    return new BybitP2PParser(apiKey, apiSecret, testnet, recvWindow, baseUrl, authScheme);
+  }
+
+  /**
+   * Server time minus local time, measured by the shared clock
+   */
+  get timeOffset(): number {
+    return this.clock.offsetMs;
+  }
+
+  /**
+   * Whether the shared clock has been synced with the server
+   */
+  get timeSyncComplete(): boolean {
+    return this.clock.synced;
   }
 
   /**
    * Synchronize time with Bybit server
-   * This should be called before making authenticated requests
+   * Signed requests do this on their own when the shared clock is stale, so
+   * calling it is only needed to fail early. Errors are logged, the previous offset stays.
+   * @param force - Measure again even if the clock is fresh (e.g. after a timestamp error)
    */
-  async syncTime(): Promise<void> {
+  async syncTime(force: boolean = false): Promise<void> {
     try {
-      // Call Bybit's time endpoint (this endpoint doesn't require authentication)
-      const response = await axios.get(`${this.baseUrl}/v5/market/time`);
-      
-      if (response.data && response.data.result && response.data.result.timeNano) {
-        const serverTime = Math.floor(Number(response.data.result.timeNano) / 1000000);
-        const localTime = Date.now();
-        this.timeOffset = serverTime - localTime;
-        
-        console.log(`Time synchronized with Bybit server. Offset: ${this.timeOffset}ms`);
-        this.timeSyncComplete = true;
-      }
+      await (force ? this.clock.sync() : this.clock.ensureSynced());
     } catch (error: any) {
       console.error('Failed to synchronize time with Bybit server:', error.message);
-      this.timeOffset = 0; // Reset offset on error
     }
   }
 
@@ -114,25 +246,32 @@ class BybitP2PParser {
    * @returns Adjusted timestamp
    */
   getTimestamp(): number {
-    return Date.now() + this.timeOffset;
+    return this.clock.now();
   }
 
   /**
    * Generate signature for Bybit API authentication
+   * HMAC keys produce a hex HMAC-SHA256 digest, RSA keys a base64 RSA-SHA256 signature
    * @param timestamp - Request timestamp
    * @param method - HTTP method (GET or POST)
    * @param path - API endpoint path
    * @param queryString - Query string for GET requests
    * @param requestBody - Request body for POST requests
+   * @param recvWindow - recv_window sent with the request (default: the configured one)
    * @returns Signature string
    */
-  generateSignature(timestamp: string, method: string, path: string, queryString: string = '', requestBody: string = ''): string {
+  generateSignature(
+    timestamp: string,
+    method: string,
+    path: string,
+    queryString: string = '',
+    requestBody: string = '',
+    recvWindow: number = this.recvWindow
+  ): string {
     // Bybit V5 API signature pattern is: timestamp + api_key + recv_window + (queryString for GET or requestBody for POST)
-    const signString = timestamp + this.apiKey + this.recvWindow + (method === 'GET' ? queryString : requestBody);
+    const signString = timestamp + this.apiKey + recvWindow + (method === 'GET' ? queryString : requestBody);
     
-    return crypto.createHmac('sha256', this.apiSecret)
-      .update(signString)
-      .digest('hex');
+    return this.signer.sign(signString);
   }
 
   /**
@@ -143,75 +282,147 @@ class BybitP2PParser {
    * @returns API response
    */
   async makeRequest(endpoint: string, method: 'GET' | 'POST' = 'GET', params: Record<string, any> = {}): Promise<any> {
-    // Ensure time is synchronized before making authenticated requests
-    if (!this.timeSyncComplete) {
-      throw new Error('Time synchronization required before making API requests. Call syncTime() first.');
-    }
+    return await this.request(method, endpoint, params);
+  }
+
+  /**
+   * Single request pipeline used by every authenticated call.
+   * Signs and sends the request, normalizes retCode/ret_code responses, turns
+   * failures into typed BybitApiError subclasses and retries transient ones
+   * with exponential backoff and jitter. Timestamp errors trigger a time re-sync.
+   * @param method - HTTP method (GET or POST)
+   * @param endpoint - API endpoint starting with /
+   * @param params - Request parameters, or FormData for file uploads
+   * @param options - idempotent: false limits retries to requests the server did not process
+   * @returns Normalized API response with ret_code === 0
+   */
+  async request(
+    method: 'GET' | 'POST',
+    endpoint: string,
+    params: Record<string, any> | FormData = {},
+    options: RequestOptions = {}
+  ): Promise<ApiResponse> {
+    // Общие часы синхронизируются при первом запросе и затем по расписанию
+    await this.syncTime();
     
-    try {
-      const path = endpoint;
-      const timestamp = this.getTimestamp().toString();
-      console.log(`Making ${method} request to: ${this.baseUrl}${endpoint}`);
-      
-      let response;
-      
-      if (method === 'GET') {
-        // For GET requests, convert params to query string
-        let queryString = '';
-        if (Object.keys(params).length > 0) {
-          const queryParams = new URLSearchParams();
-          
-          Object.entries(params).forEach(([key, value]) => {
-            if (value !== undefined && value !== null) {
-              queryParams.append(key, String(value));
-            }
-          });
-          
-          queryString = queryParams.toString();
-          console.log('Query params:', queryString);
-        }
-        
-        // Generate signature
-        const signature = this.generateSignature(timestamp, 'GET', path, queryString);
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.sendSigned(method, endpoint, params);
+      } catch (error: any) {
+        const apiError = error instanceof BybitApiError
+          ? error
+          : new BybitServerError(-1, error.message, endpoint);
         
-        // Set headers for authentication
-        const headers = {
-          'X-BAPI-API-KEY': this.apiKey,
-          'X-BAPI-SIGN': signature,
-          'X-BAPI-TIMESTAMP': timestamp,
-          'X-BAPI-RECV-WINDOW': this.recvWindow.toString()
-        };
-        
-        // Make GET request
-        const url = queryString ? `${this.baseUrl}${path}?${queryString}` : `${this.baseUrl}${path}`;
-        response = await axios.get(url, { headers });
-      } else { // POST
-        // For POST requests, send params in request body
-        const requestBody = JSON.stringify(params);
-        console.log('Request body:', requestBody);
+        const retryable = options.idempotent === false ? apiError.rejectedUnprocessed : apiError.retryable;
+        if (!retryable || attempt >= this.retryPolicy.maxRetries) {
+          console.error(`API request error (${method} ${endpoint}):`, apiError.response ?? apiError.message);
+          throw apiError;
+        }
         
-        // Generate signature
-        const signature = this.generateSignature(timestamp, 'POST', path, '', requestBody);
+        if (apiError instanceof BybitTimestampError) {
+          await this.syncTime(true);
+        }
         
-        // Set headers for authentication
-        const headers = {
+        const delay = this.getRetryDelay(attempt);
+        console.log(`Повтор запроса ${method} ${endpoint} через ${delay}мс (попытка ${attempt + 2}/${this.retryPolicy.maxRetries + 1}): ${apiError.message}`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Exponential backoff with full jitter for the given retry attempt
+   * @param attempt - Zero-based retry attempt
+   * @returns Delay in milliseconds
+   */
+  getRetryDelay(attempt: number): number {
+    const exponential = Math.min(this.retryPolicy.maxDelayMs, this.retryPolicy.baseDelayMs * 2 ** attempt);
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  }
+
+  /**
+   * Sign and send a single request without retries
+   * @param method - HTTP method (GET or POST)
+   * @param endpoint - API endpoint starting with /
+   * @param params - Request parameters, or FormData for file uploads
+   * @returns Normalized API response with ret_code === 0
+   */
+  private async sendSigned(method: 'GET' | 'POST', endpoint: string, params: Record<string, any> | FormData): Promise<ApiResponse> {
+    const timestamp = this.getTimestamp().toString();
+    const recvWindow = this.clock.recvWindow(this.recvWindow);
+    let url = `${this.baseUrl}${endpoint}`;
+    let queryString = '';
+    let requestBody = '';
+    const isMultipart = params instanceof FormData;
+    
+    if (isMultipart) {
+      // Multipart uploads are signed without a body
+    } else if (method === 'GET') {
+      // For GET requests, convert params to query string
+      const queryParams = new URLSearchParams();
+      Object.entries(params).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          queryParams.append(key, String(value));
+        }
+      });
+      queryString = queryParams.toString();
+      if (queryString) url = `${url}?${queryString}`;
+    } else {
+      // For POST requests, the exact body string is both signed and sent
+      requestBody = JSON.stringify(params);
+    }
+    
+    // Ждем свободный токен в общем для всех экземпляров лимитере этого API ключа
+    const bucket = this.rateLimiter.bucket(this.apiKey, endpoint);
+    await bucket.acquire();
+    
+    console.log(`Making ${method} request to: ${url}`);
+    
+    let response: AxiosResponse;
+    try {
+      response = await axios.request({
+        method,
+        url,
+        data: isMultipart ? params : method === 'POST' ? requestBody : undefined,
+        headers: {
           'X-BAPI-API-KEY': this.apiKey,
-          'X-BAPI-SIGN': signature,
+          'X-BAPI-SIGN': this.generateSignature(timestamp, method, endpoint, queryString, requestBody, recvWindow),
           'X-BAPI-TIMESTAMP': timestamp,
-          'X-BAPI-RECV-WINDOW': this.recvWindow.toString(),
-          'Content-Type': 'application/json'
-        };
-        
-        // Make POST request
-        response = await axios.post(`${this.baseUrl}${path}`, params, { headers });
-      }
-      
-      // Return the response data
-      return response?.data;
+          'X-BAPI-RECV-WINDOW': recvWindow.toString(),
+          // Для multipart заголовок с boundary выставляет axios
+          ...(isMultipart ? {} : { 'Content-Type': 'application/json' })
+        }
+      });
     } catch (error: any) {
-      console.error('API request error:', error.response ? error.response.data : error.message);
-      throw error;
+      if (error.response) {
+        bucket.update(parseLimitHeaders(error.response.headers, this.timeOffset));
+        const body = error.response.data;
+        const retCode = Number(body?.retCode ?? body?.ret_code ?? -1);
+        const retMsg = body?.retMsg ?? body?.ret_msg ?? error.message;
+        throw classifyBybitError(retCode, retMsg, endpoint, body, error.response.status);
+      }
+      // No response at all: network failure or timeout
+      throw new BybitServerError(-1, error.message, endpoint);
+    }
+    
+    bucket.update(parseLimitHeaders(response.headers, this.timeOffset));
+    
+    const body = this.normalizeResponse(response.data);
+    if (body.ret_code !== 0) {
+      throw classifyBybitError(body.ret_code, body.ret_msg || 'Unknown error', endpoint, body, response.status);
     }
+    return body;
+  }
+
+  /**
+   * Bring V5 (retCode/retMsg) and legacy (ret_code/ret_msg) responses to one shape
+   * @param data - Raw response body
+   * @returns Response with ret_code and ret_msg always set
+   */
+  normalizeResponse(data: any): ApiResponse {
+    const retCode = Number(data?.ret_code ?? data?.retCode ?? -1);
+    const retMsg = data?.ret_msg ?? data?.retMsg;
+    return { ...data, ret_code: retCode, ret_msg: retMsg };
   }
 
   /**
@@ -219,8 +430,8 @@ class BybitP2PParser {
    * @param page - Page number (default: 1)
    * @param size - Items per page (default: 50)
    * @param tokenId - Filter by token (optional)
-   * @param side - Filter by side (optional - 0: Buy, 1: Sell)
-   * @param status - Filter by status (optional - 50: Completed, etc.)
+   * @param side - Filter by side (optional, see OrderSide)
+   * @param status - Filter by status (optional, see OrderStatus)
    * @param beginTime - Filter by begin time (timestamp in ms)
    * @param endTime - Filter by end time (timestamp in ms)
    * @returns API response with P2P order history
@@ -229,8 +440,8 @@ class BybitP2PParser {
     page: number = 1, 
     size: number = 50, 
     tokenId?: string, 
-    side?: number[],
-    status?: number[],
+    side?: OrderSide[],
+    status?: OrderStatus[],
     beginTime?: number,
     endTime?: number
   ): Promise<ApiResponse> {
@@ -257,18 +468,426 @@ class BybitP2PParser {
     return await this.makeRequest(endpoint, 'POST', params);
   }
 
+  /**
+   * Get all orders that are still in progress (waiting for payment, release, in appeal, etc.)
+   * Pages through /v5/p2p/order/pending/simplifyList until every order is loaded.
+   * @param filter - Optional token/side/status filters and page size (default: 50)
+   * @returns Decoded pending orders
+   */
+  async getPendingOrders(filter: Omit<P2POrderFilter, 'beginTime' | 'endTime' | 'maxPagesPerWindow' | 'minWindowMs'> = {}): Promise<P2POrder[]> {
+    const pageSize = filter.pageSize ?? 50;
+    const orders: P2POrder[] = [];
+    
+    for (let page = 1; ; page++) {
+      const params: P2POrderListParams = { page, size: pageSize };
+      if (filter.tokenId) params.tokenId = filter.tokenId;
+      if (filter.side) params.side = filter.side;
+      if (filter.status) params.status = filter.status;
+      
+      const response = await this.request('POST', '/v5/p2p/order/pending/simplifyList', params);
+      const items = response.result?.items || [];
+      
+      const decoded = decodeP2POrders(items);
+      decoded.rejected.forEach(item => console.error(`Отклонена заявка в работе с некорректными полями: ${formatDecodeIssues(item.issues)}`));
+      orders.push(...decoded.orders);
+      
+      const totalCount = response.result?.count || 0;
+      if (items.length < pageSize || page * pageSize >= totalCount) break;
+    }
+    
+    return orders;
+  }
+
+  /**
+   * Get full details of a single P2P order
+   * @param orderId - Order ID (the same value as the order number)
+   * @returns Decoded order details (fee, fiat currency, payment method, counterparty, status timestamps)
+   */
+  async getOrderInfo(orderId: string): Promise<P2POrderDetail> {
+    const response = await this.request('POST', '/v5/p2p/order/info', { orderId });
+    const decoded = decodeP2POrderDetail(response.result);
+    
+    if (!decoded.ok) {
+      throw new P2POrderDecodeError(decoded.issues);
+    }
+    return decoded.value;
+  }
+
+  /**
+   * Get our own advertisements
+   * Pages through /v5/p2p/item/personal/list until every ad is loaded.
+   * @param filter - Optional status/side/token/currency filters
+   * @returns Decoded ads
+   */
+  async getMyAds(filter: P2PAdFilter = {}): Promise<P2PAd[]> {
+    const pageSize = 30;
+    const ads: P2PAd[] = [];
+    
+    for (let page = 1; ; page++) {
+      const params: Record<string, any> = { page: String(page), size: String(pageSize) };
+      if (filter.status !== undefined) params.status = String(filter.status);
+      if (filter.side !== undefined) params.side = String(filter.side);
+      if (filter.tokenId) params.tokenId = filter.tokenId;
+      if (filter.currencyId) params.currencyId = filter.currencyId;
+      
+      const response = await this.request('POST', '/v5/p2p/item/personal/list', params);
+      const items = response.result?.items || [];
+      
+      const decoded = decodeP2PAds(items);
+      decoded.rejected.forEach(item => console.error(`Отклонено объявление с некорректными полями: ${formatDecodeIssues(item.issues)}`));
+      ads.push(...decoded.ads);
+      
+      const totalCount = Number(response.result?.count) || 0;
+      if (items.length < pageSize || page * pageSize >= totalCount) break;
+    }
+    
+    return ads;
+  }
+
+  /**
+   * Get a single advertisement
+   * @param itemId - Ad ID
+   * @returns Decoded ad
+   */
+  async getAdInfo(itemId: string): Promise<P2PAd> {
+    const response = await this.request('POST', '/v5/p2p/item/info', { itemId });
+    const decoded = decodeP2PAd(response.result);
+    
+    if (!decoded.ok) {
+      throw new P2PAdDecodeError(decoded.issues);
+    }
+    return decoded.value;
+  }
+
+  /**
+   * Post a new advertisement
+   * @param ad - Ad parameters
+   * @returns ID of the created ad
+   */
+  async postAd(ad: NewP2PAd): Promise<string> {
+    const problems = validateAdParams(ad);
+    if (problems.length > 0) {
+      throw new P2PAdValidationError(problems);
+    }
+    
+    // Повтор после потерянного ответа создал бы второе объявление
+    const response = await this.request('POST', '/v5/p2p/item/create', {
+      tokenId: ad.tokenId,
+      currencyId: ad.currencyId,
+      side: String(ad.side),
+      itemType: 'ORIGIN',
+      ...toAdRequestParams(ad)
+    }, { idempotent: false });
+    return String(response.result?.itemId ?? '');
+  }
+
+  /**
+   * Change price, quantity, limits or payment methods of an advertisement.
+   * The update endpoint replaces every field, so the current ad is loaded and merged with the changes first.
+   * @param itemId - Ad ID
+   * @param changes - Fields to change
+   * @returns Ad parameters that were sent
+   */
+  async updateAd(itemId: string, changes: P2PAdChanges): Promise<NewP2PAd> {
+    const current = await this.getAdInfo(itemId);
+    const updated = mergeAdChanges(current, changes);
+    
+    const problems = validateAdParams(updated);
+    if (problems.length > 0) {
+      throw new P2PAdValidationError(problems);
+    }
+    
+    await this.request('POST', '/v5/p2p/item/update', {
+      id: itemId,
+      actionType: 'MODIFY',
+      ...toAdRequestParams(updated)
+    });
+    return updated;
+  }
+
+  /**
+   * Take an advertisement offline
+   * @param itemId - Ad ID
+   */
+  async removeAd(itemId: string): Promise<void> {
+    await this.request('POST', '/v5/p2p/item/cancel', { itemId });
+  }
+
+  /**
+   * Get ads of other merchants currently listed on the market
+   * @param filter - Token, fiat currency, ad side and optional payment methods
+   * @returns Decoded online ads, best prices first as returned by Bybit
+   */
+  async getOnlineAds(filter: OnlineAdFilter): Promise<OnlineAd[]> {
+    const pageSize = filter.pageSize ?? 100;
+    const maxPages = filter.maxPages ?? 5;
+    const ads: OnlineAd[] = [];
+    
+    for (let page = 1; page <= maxPages; page++) {
+      const params: Record<string, any> = {
+        tokenId: filter.tokenId,
+        currencyId: filter.currencyId,
+        side: String(filter.side),
+        page: String(page),
+        size: String(pageSize)
+      };
+      if (filter.paymentMethods?.length) params.payment = filter.paymentMethods;
+      
+      const response = await this.request('POST', '/v5/p2p/item/online', params);
+      const items = response.result?.items || [];
+      
+      const decoded = decodeOnlineAds(items);
+      decoded.rejected.forEach(item => console.error(`Отклонено объявление рынка с некорректными полями: ${formatDecodeIssues(item.issues)}`));
+      ads.push(...decoded.ads);
+      
+      const totalCount = Number(response.result?.count) || 0;
+      if (items.length < pageSize || page * pageSize >= totalCount) break;
+    }
+    
+    return ads;
+  }
+
+  /**
+   * Get the Bybit user ID of this API key's account (cached after the first call)
+   * @returns User ID from /v5/p2p/user/personal/info
+   */
+  async getSelfUserId(): Promise<string> {
+    if (this.selfUserId === undefined) {
+      const response = await this.request('POST', '/v5/p2p/user/personal/info', {});
+      this.selfUserId = String(response.result?.userId ?? '');
+    }
+    return this.selfUserId;
+  }
+
+  /**
+   * Get the complete chat history of an order
+   * Pages through /v5/p2p/order/message/listpage until every message is loaded.
+   * @param orderId - Order number
+   * @param pageSize - Messages per page (default: 30)
+   * @returns Messages in chronological order
+   */
+  async getChatMessages(orderId: string, pageSize: number = 30): Promise<ChatMessage[]> {
+    const selfUserId = await this.getSelfUserId();
+    const messagesById = new Map<string, ChatMessage>();
+    
+    for (let page = 1; ; page++) {
+      const response = await this.request('POST', '/v5/p2p/order/message/listpage', {
+        orderId,
+        currentPage: String(page),
+        size: String(pageSize)
+      });
+      
+      // Список сообщений приходит либо массивом в result, либо в result.result
+      const result: any = response.result;
+      const items: unknown[] = Array.isArray(result) ? result : result?.result || result?.items || [];
+      
+      const decoded = decodeChatMessages(items, selfUserId || undefined, this.baseUrl);
+      decoded.rejected.forEach(item => console.error(`Отклонено сообщение чата заявки ${orderId} с некорректными полями: ${formatDecodeIssues(item.issues)}`));
+      
+      const sizeBefore = messagesById.size;
+      decoded.messages.forEach(message => messagesById.set(message.id, message));
+      
+      // Останавливаемся на последней странице или если страница не принесла новых сообщений
+      if (items.length < pageSize || messagesById.size === sizeBefore) break;
+    }
+    
+    return Array.from(messagesById.values())
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  /**
+   * Mark a buy order as paid
+   * @param orderId - Order number
+   * @param paymentType - Payment method code of the seller's payment term
+   * @param paymentId - ID of the seller's payment term the money was sent to
+   * @returns true if the order was marked as paid, false if it had already been paid
+   */
+  async markOrderPaid(orderId: string, paymentType: string, paymentId: string): Promise<boolean> {
+    assertOrderNo('markPaid', orderId);
+    this.requireOrderAudit('markPaid', orderId);
+    if (!paymentType || !paymentId) {
+      throw new OrderActionError('markPaid', orderId, 'paymentType and paymentId are required');
+    }
+    
+    const params = { orderId, paymentType, paymentId };
+    let previousStatus: number | undefined;
+    try {
+      const order = await this.getOrderInfo(orderId);
+      previousStatus = order.status;
+      
+      if (order.side !== OrderSide.Buy) {
+        throw new OrderActionError('markPaid', orderId, 'only buy orders can be marked as paid');
+      }
+      if (order.status === OrderStatus.WaitingForRelease || order.status === OrderStatus.Completed) {
+        return false;
+      }
+      if (order.status !== OrderStatus.WaitingForPayment) {
+        throw new OrderActionError('markPaid', orderId, `order is ${ORDER_STATUS_LABELS[order.status]}`);
+      }
+      if (order.paymentTerms.length > 0 && !order.paymentTerms.some(term => term.id === paymentId)) {
+        throw new OrderActionError('markPaid', orderId, `payment term ${paymentId} does not belong to the order`);
+      }
+      
+      const response = await this.request('POST', '/v5/p2p/order/pay', params, { idempotent: false });
+      await this.recordOrderAction({ action: 'markPaid', orderNo: orderId, success: true, params, previousStatus, result: response.result });
+      return true;
+    } catch (error: any) {
+      await this.recordOrderAction({ action: 'markPaid', orderNo: orderId, success: false, params, previousStatus, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Release the crypto of a sell order to the buyer.
+   * The same order is never released twice: concurrent and repeated calls in this
+   * process share one release, and orders with a successful release in the audit
+   * trail or already completed on Bybit are skipped.
+   * @param orderId - Order number
+   * @returns true if the order was released by this call, false if it had already been released
+   */
+  async releaseOrder(orderId: string): Promise<boolean> {
+    assertOrderNo('release', orderId);
+    const audit = this.requireOrderAudit('release', orderId);
+    
+    return this.releaseGuard.run(orderId, async () => {
+      if (await audit.hasSucceeded(orderId, 'release')) {
+        return false;
+      }
+      
+      const params = { orderId };
+      let previousStatus: number | undefined;
+      try {
+        const order = await this.getOrderInfo(orderId);
+        previousStatus = order.status;
+        
+        if (order.side !== OrderSide.Sell) {
+          throw new OrderActionError('release', orderId, 'only sell orders can be released');
+        }
+        if (order.status === OrderStatus.Completed) {
+          return false;
+        }
+        if (order.status !== OrderStatus.WaitingForRelease) {
+          throw new OrderActionError('release', orderId, `order is ${ORDER_STATUS_LABELS[order.status]}`);
+        }
+        
+        const response = await this.request('POST', '/v5/p2p/order/finish', params, { idempotent: false });
+        await this.recordOrderAction({ action: 'release', orderNo: orderId, success: true, params, previousStatus, result: response.result });
+        return true;
+      } catch (error: any) {
+        await this.recordOrderAction({ action: 'release', orderNo: orderId, success: false, params, previousStatus, error: error.message });
+        throw error;
+      }
+    });
+  }
+
+  /**
+   * Send a message to the order chat
+   * @param orderId - Order number
+   * @param message - Text, or the URL of an uploaded file for other content types
+   * @param contentType - Message type (default: 'str')
+   * @returns Message UUID; it is generated once so retries never duplicate the message
+   */
+  async sendChatMessage(orderId: string, message: string, contentType: ChatContentType = 'str'): Promise<string> {
+    assertOrderNo('sendMessage', orderId);
+    this.requireOrderAudit('sendMessage', orderId);
+    if (typeof message !== 'string' || message.trim() === '') {
+      throw new OrderActionError('sendMessage', orderId, 'message must not be empty');
+    }
+    if (!['str', 'pic', 'pdf', 'video'].includes(contentType)) {
+      throw new OrderActionError('sendMessage', orderId, `unsupported content type "${contentType}"`);
+    }
+    
+    const params = { orderId, message, contentType, msgUuid: crypto.randomUUID().replace(/-/g, '') };
+    try {
+      await this.request('POST', '/v5/p2p/order/message/send', params);
+      await this.recordOrderAction({ action: 'sendMessage', orderNo: orderId, success: true, params });
+      return params.msgUuid;
+    } catch (error: any) {
+      await this.recordOrderAction({ action: 'sendMessage', orderNo: orderId, success: false, params, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Upload a picture, PDF or video and post it to the order chat
+   * @param orderId - Order number
+   * @param fileName - File name; its extension defines the content type (jpg, jpeg, png, pdf, mp4)
+   * @param data - File contents
+   * @returns URL of the uploaded file
+   */
+  async uploadChatFile(orderId: string, fileName: string, data: Uint8Array): Promise<string> {
+    assertOrderNo('uploadFile', orderId);
+    this.requireOrderAudit('uploadFile', orderId);
+    const contentType = getChatFileType(fileName);
+    if (!contentType) {
+      throw new OrderActionError('uploadFile', orderId, `unsupported file type "${fileName}"`);
+    }
+    if (data.length === 0) {
+      throw new OrderActionError('uploadFile', orderId, 'file is empty');
+    }
+    
+    const params = { orderId, fileName, size: data.length, contentType };
+    try {
+      // Типы FormData без lib "dom" пустые, поэтому описываем нужный метод явно
+      const form = new FormData() as FormData & { append(name: string, value: Blob, fileName?: string): void };
+      form.append('upload_file', new Blob([data]), fileName);
+      const upload = await this.request('POST', '/v5/p2p/oss/upload_file', form, { idempotent: false });
+      
+      const url = upload.result?.url;
+      if (!url) {
+        throw new OrderActionError('uploadFile', orderId, 'upload response contains no file URL');
+      }
+      
+      await this.request('POST', '/v5/p2p/order/message/send', {
+        orderId,
+        message: url,
+        contentType,
+        fileName,
+        msgUuid: crypto.randomUUID().replace(/-/g, '')
+      });
+      await this.recordOrderAction({ action: 'uploadFile', orderNo: orderId, success: true, params, result: { url } });
+      return url;
+    } catch (error: any) {
+      await this.recordOrderAction({ action: 'uploadFile', orderNo: orderId, success: false, params, error: error.message });
+      throw error;
+    }
+  }
+
+  /**
+   * Audit trail every order action is written to
+   * @throws OrderActionError when no audit trail is configured: actions are never performed untracked
+   */
+  private requireOrderAudit(action: OrderAction, orderId: string): OrderActionAudit {
+    if (!this.orderAudit) {
+      throw new OrderActionError(action, orderId, 'no audit trail configured (set orderAudit, e.g. PrismaOrderActionAudit)');
+    }
+    return this.orderAudit;
+  }
+
+  /**
+   * Write an audit record of an order action.
+   * A failed audit write is logged but never hides the outcome of the action itself.
+   */
+  private async recordOrderAction(entry: OrderActionAuditEntry): Promise<void> {
+    try {
+      await this.requireOrderAudit(entry.action, entry.orderNo).record(entry);
+    } catch (error: any) {
+      console.error(`Не удалось записать аудит действия ${entry.action} по заявке ${entry.orderNo}:`, error.message);
+    }
+  }
+
   /**
    * Process and analyze P2P transaction history
-   * @param transactions - Array of P2P orders
+   * @param transactions - Array of decoded P2P orders
    * @returns Processed transaction data
    */
-  processTransactions(transactions: any[]): ProcessedData {
+  processTransactions(transactions: P2POrder[]): ProcessedData {
     if (!transactions || !transactions.length) {
       return {
         totalCount: 0,
         summary: {
-          buy: { count: 0, volume: 0 },
-          sell: { count: 0, volume: 0 }
+          buy: { count: 0, volume: Decimal.ZERO },
+          sell: { count: 0, volume: Decimal.ZERO }
         },
         byCoin: {},
         transactions: []
@@ -276,8 +895,8 @@ class BybitP2PParser {
     }
 
     const summary = {
-      buy: { count: 0, volume: 0 },
-      sell: { count: 0, volume: 0 }
+      buy: { count: 0, volume: Decimal.ZERO },
+      sell: { count: 0, volume: Decimal.ZERO }
     };
     
     const byCoin: {
@@ -289,32 +908,26 @@ class BybitP2PParser {
     
     // Process each transaction
     transactions.forEach(tx => {
-      // In the P2P API, side: 0 is Buy, 1 is Sell
-      const orderType = tx.side === 0 ? 'buy' : 'sell';
-      const coin = tx.tokenId || '';
-      const amount = parseFloat(tx.amount || 0);
-      // Calculate fiat amount (price * amount)
-      const price = parseFloat(tx.price || 0);
-      const fiatAmount = price * amount;
-      
-      // Skip invalid transactions
-      if (!coin) return;
+      const orderType = tx.side === OrderSide.Buy ? 'buy' : 'sell';
+      const coin = tx.tokenId;
+      const amount = tx.tokenQuantity;
+      const fiatAmount = tx.fiatAmount;
       
       // Update summary
       summary[orderType].count += 1;
-      summary[orderType].volume += fiatAmount;
+      summary[orderType].volume = summary[orderType].volume.plus(fiatAmount);
       
       // Update coin statistics
       if (!byCoin[coin]) {
         byCoin[coin] = {
-          buy: { count: 0, volume: 0, tokenVolume: 0 },
-          sell: { count: 0, volume: 0, tokenVolume: 0 }
+          buy: { count: 0, volume: Decimal.ZERO, tokenVolume: Decimal.ZERO },
+          sell: { count: 0, volume: Decimal.ZERO, tokenVolume: Decimal.ZERO }
         };
       }
       
       byCoin[coin][orderType].count += 1;
-      byCoin[coin][orderType].volume += fiatAmount;
-      byCoin[coin][orderType].tokenVolume += amount;
+      byCoin[coin][orderType].volume = byCoin[coin][orderType].volume.plus(fiatAmount);
+      byCoin[coin][orderType].tokenVolume = byCoin[coin][orderType].tokenVolume.plus(amount);
     });
     
     return {
@@ -330,8 +943,8 @@ class BybitP2PParser {
    * @param initialPage - Starting page number (default: 1)
    * @param pageSize - Items per page (default: 50)
    * @param tokenId - Filter by token (optional)
-   * @param side - Filter by side (optional - 0: Buy, 1: Sell)
-   * @param status - Filter by status (optional - 50: Completed, etc.)
+   * @param side - Filter by side (optional, see OrderSide)
+   * @param status - Filter by status (optional, see OrderStatus)
    * @param beginTime - Filter by begin time (timestamp in ms)
    * @param endTime - Filter by end time (timestamp in ms)
    * @returns Processed transaction data
@@ -340,34 +953,26 @@ class BybitP2PParser {
     initialPage: number = 1, 
     pageSize: number = 50, 
     tokenId?: string, 
-    side?: number[],
-    status?: number[],
+    side?: OrderSide[],
+    status?: OrderStatus[],
     beginTime?: number,
     endTime?: number
   ): Promise<ProcessResult> {
     try {
       // Максимальное количество страниц для обработки
       const maxPages = 100;
-      let allTransactions: any[] = [];
+      const allTransactions: unknown[] = [];
       let totalItemsFound = 0;
       
       // Получаем первую страницу данных
       console.log(`Запрос страницы ${initialPage} (размер ${pageSize})...`);
-      let response = await this.getAllOrders(initialPage, pageSize, tokenId, side, status, beginTime, endTime);
-      
-      // Проверяем успешность первого запроса
-      if (response.ret_code !== 0) {
-        return {
-          success: false,
-          message: response.ret_msg || 'Failed to fetch P2P orders',
-          rawResponse: response
-        };
-      }
+      // Ошибка первого запроса приводит к исключению и обрабатывается ниже
+      const response = await this.getAllOrders(initialPage, pageSize, tokenId, side, status, beginTime, endTime);
       
       // Получаем данные первой страницы
       const firstPageTransactions = response.result?.items || [];
       const totalCount = response.result?.count || 0;
-      allTransactions = [...allTransactions, ...firstPageTransactions];
+      allTransactions.push(...firstPageTransactions);
       totalItemsFound += firstPageTransactions.length;
       
       console.log(`Найдено ${firstPageTransactions.length} транзакций на странице ${initialPage} из ${Math.ceil(totalCount / pageSize)} страниц`);
@@ -380,128 +985,133 @@ class BybitP2PParser {
         // Получаем оставшиеся страницы данных
         for (let currentPage = initialPage + 1; currentPage <= totalPages; currentPage++) {
           console.log(`Запрос страницы ${currentPage} из ${totalPages}...`);
-          response = await this.getAllOrders(currentPage, pageSize, tokenId, side, status, beginTime, endTime);
-          
-          if (response.ret_code === 0) {
-            const pageTransactions = response.result?.items || [];
-            allTransactions = [...allTransactions, ...pageTransactions];
+          try {
+            const pageResponse = await this.getAllOrders(currentPage, pageSize, tokenId, side, status, beginTime, endTime);
+            const pageTransactions = pageResponse.result?.items || [];
+            allTransactions.push(...pageTransactions);
             totalItemsFound += pageTransactions.length;
             console.log(`Получено ${pageTransactions.length} транзакций на странице ${currentPage}`);
-          } else {
-            console.error(`Ошибка при получении страницы ${currentPage}: ${response.ret_msg}`);
+          } catch (pageError: any) {
+            console.error(`Ошибка при получении страницы ${currentPage}: ${pageError.message}`);
             break; // Прерываем цикл при ошибке
           }
-          
-          // Небольшая пауза между запросами, чтобы избежать ограничения API
-          await new Promise(resolve => setTimeout(resolve, 300));
         }
       }
       
       console.log(`Всего получено ${totalItemsFound} P2P транзакций из ${totalCount} существующих`);
       
-      // Если найдены транзакции, показываем образец полей
-      if (allTransactions.length > 0) {
-        console.log('Sample transaction fields:', Object.keys(allTransactions[0]).join(', '));
+      // Проверяем и приводим к типизированной модели все полученные транзакции
+      const { orders, rejected } = decodeP2POrders(allTransactions);
+      if (rejected.length > 0) {
+        console.error(`Отклонено ${rejected.length} транзакций с некорректными полями`);
+        rejected.forEach(item => console.error(`  ${formatDecodeIssues(item.issues)}`));
       }
       
       // Обрабатываем все полученные транзакции
-      const processedData = this.processTransactions(allTransactions);
+      const processedData = this.processTransactions(orders);
       
       return {
         success: true,
-        data: processedData
+        data: processedData,
+        rejected
       };
     } catch (error: any) {
       return {
         success: false,
-        message: error.message,
+        message: error instanceof BybitApiError ? error.retMsg : error.message,
+        rawResponse: error instanceof BybitApiError ? error.response : undefined,
         error
       };
     }
   }
 
+  /**
+   * Iterate over all P2P orders in a time range, yielding them as pages arrive.
+   * Windows are bisected when the API rejects the range or when a window holds
+   * more pages than maxPagesPerWindow, so arbitrarily long ranges can be walked.
+   * A window that cannot be split any further is paged to the end, however many
+   * pages it holds. Orders are de-duplicated by id across windows.
+   * @param filter - Time range and optional token/side/status filters
+   * @returns Async generator of decoded P2P orders (newest windows first)
+   */
+  async *iterateOrders(filter: P2POrderFilter): AsyncGenerator<P2POrder> {
+    const pageSize = filter.pageSize ?? 50;
+    const maxPagesPerWindow = filter.maxPagesPerWindow ?? 100;
+    const minWindowMs = filter.minWindowMs ?? 60 * 1000;
+    const seenIds = new Set<string>();
+    
+    // Стек окон: последним кладем более новое окно, чтобы обрабатывать его первым
+    const windows: Array<[number, number]> = [[filter.beginTime, filter.endTime]];
+    
+    while (windows.length > 0) {
+      const [beginTime, endTime] = windows.pop()!;
+      const canSplit = endTime - beginTime > minWindowMs;
+      const middle = Math.floor((beginTime + endTime) / 2);
+      
+      let response: ApiResponse;
+      try {
+        response = await this.getAllOrders(1, pageSize, filter.tokenId, filter.side, filter.status, beginTime, endTime);
+      } catch (error) {
+        // API отклонил диапазон - делим окно пополам
+        if (error instanceof BybitParameterError && canSplit) {
+          console.log(`Диапазон ${new Date(beginTime).toISOString()} - ${new Date(endTime).toISOString()} отклонен API, делим пополам`);
+          windows.push([beginTime, middle], [middle + 1, endTime]);
+          continue;
+        }
+        throw error;
+      }
+      
+      const totalCount = response.result?.count || 0;
+      const totalPages = Math.ceil(totalCount / pageSize);
+      
+      // Окно содержит больше страниц, чем разрешено - делим его пополам
+      if (totalPages > maxPagesPerWindow && canSplit) {
+        console.log(`В окне ${totalCount} транзакций (${totalPages} страниц), делим пополам`);
+        windows.push([beginTime, middle], [middle + 1, endTime]);
+        continue;
+      }
+      
+      // Окно меньше minWindowMs уже не делится: читаем все страницы, чтобы не потерять заявки
+      if (totalPages > maxPagesPerWindow) {
+        console.log(`В окне ${new Date(beginTime).toISOString()} - ${new Date(endTime).toISOString()} ${totalPages} страниц, окно не делится, читаем все страницы`);
+      }
+      
+      for (let page = 1; page <= totalPages; page++) {
+        if (page > 1) {
+          response = await this.getAllOrders(page, pageSize, filter.tokenId, filter.side, filter.status, beginTime, endTime);
+        }
+        
+        const items = response.result?.items || [];
+        if (items.length === 0) break;
+        
+        const { orders, rejected } = decodeP2POrders(items);
+        rejected.forEach(item => console.error(`Отклонена транзакция с некорректными полями: ${formatDecodeIssues(item.issues)}`));
+        
+        for (const order of orders) {
+          if (seenIds.has(order.id)) continue;
+          seenIds.add(order.id);
+          yield order;
+        }
+      }
+    }
+  }
+
   /**
    * Export P2P orders in the same format as BybitTransaction.csv
-   * @param transactions - Array of P2P orders
+   * @param transactions - Array of decoded P2P orders
    * @param filepath - Path to save CSV file
+   * @param details - Optional order details by order ID (see getOrderInfo), used for updatedAt
    * @returns Success status
    */
-  exportToMatchingFormat(transactions: any[], filepath: string): boolean {
+  exportToMatchingFormat(transactions: P2POrder[], filepath: string, details: Map<string, P2POrderDetail> = new Map()): boolean {
     if (!transactions || !transactions.length) {
       console.error('No transactions to export');
       return false;
     }
     
-    // Create headers to match the BybitTransaction.csv format
-    const headers = [
-      'id',
-      'orderNo',
-      'counterparty',
-      'status',
-      'userId',
-      'createdAt',
-      'updatedAt',
-      'amount',
-      'asset',
-      'dateTime',
-      'originalData',
-      'totalPrice',
-      'type',
-      'unitPrice'
-    ].join(',');
-    
-    // Format transactions as CSV rows
-    const rows = transactions.map(tx => {
-      // Convert timestamp to date format
-      const createDate = new Date(parseInt(tx.createDate));
-      const dateFormatted = createDate.toISOString();
-      
-      // Calculate total price
-      const amount = parseFloat(tx.amount);
-      const unitPrice = parseFloat(tx.price);
-      const totalPrice = (amount * unitPrice).toFixed(2);
-      
-      // Determine order type
-      const type = tx.side === 0 ? 'Buy' : 'Sell';
-      
-      // Map status to readable text
-      let status = "Unknown";
-      switch (tx.status) {
-        case 5: status = "Waiting for chain"; break;
-        case 10: status = "Waiting for payment"; break;
-        case 20: status = "Waiting for release"; break;
-        case 30: status = "Appealing"; break;
-        case 40: status = "Cancelled"; break;
-        case 50: status = "Completed"; break;
-        case 60: status = "Paying"; break;
-        case 70: status = "Payment failed"; break;
-        case 80: status = "Exception cancelled"; break;
-        case 90: status = "Waiting selection"; break;
-        case 100: status = "Objecting"; break;
-        case 110: status = "Waiting objection"; break;
-      }
-      
-      // Create a row that matches the CSV format
-      return [
-        tx.id,                       // id
-        tx.id,                       // orderNo (using id as a fallback since orderNo isn't available)
-        tx.targetNickName,           // counterparty
-        status,                      // status
-        tx.userId,                   // userId
-        dateFormatted,               // createdAt
-        dateFormatted,               // updatedAt (using create date as a fallback)
-        amount,                      // amount
-        tx.tokenId,                  // asset
-        dateFormatted,               // dateTime
-        JSON.stringify(tx),          // originalData (storing full JSON)
-        totalPrice,                  // totalPrice
-        type,                        // type
-        unitPrice                    // unitPrice
-      ].join(',');
-    });
-    
-    // Combine headers and rows
-    const csvContent = [headers, ...rows].join('\n');
+    // Rows share the schema with index.ts, so both exports produce the same file
+    const rows = transactions.map(tx => toBybitTransactionCsvRow(tx, details.get(tx.id)));
+    const csvContent = formatBybitTransactionCsv(rows);
     
     // Write to file
     try {
@@ -516,13 +1126,15 @@ class BybitP2PParser {
   
   /**
    * Filter orders for completed transactions only and export to CSV
-   * @param transactions - Array of P2P orders
+   * @param transactions - Array of decoded P2P orders
    * @param filepath - Path to save CSV file
    * @returns Success status
    */
-  filterAndExportCompletedOrders(transactions: any[], filepath: string): boolean {
-    // Filter for completed orders (status 50)
-    const completedOrders = transactions.filter(tx => tx.status === 50).filter(tx => tx.type === 'Sell' || tx.type === 'SELL');
+  filterAndExportCompletedOrders(transactions: P2POrder[], filepath: string): boolean {
+    // Filter for completed sell orders
+    const completedOrders = transactions
+      .filter(tx => tx.status === OrderStatus.Completed)
+      .filter(tx => tx.side === OrderSide.Sell);
     console.log(`Filtered ${completedOrders.length} completed orders from ${transactions.length} total orders`);
     
     if (completedOrders.length === 0) {
@@ -542,61 +1154,7 @@ class BybitP2PParser {
    * @returns API response
    */
   async p2pRequest(method: 'GET' | 'POST', endpoint: string, params: Record<string, any> = {}): Promise<any> {
-    try {
-      // Ensure time synchronization is complete
-      if (!this.timeSyncComplete) {
-        await this.syncTime();
-      }
-      
-      const timestamp = this.getTimestamp().toString();
-      const recvWindow = this.recvWindow.toString();
-      
-      // Create request configuration
-      const config: any = {
-        method: method,
-        url: `${this.baseUrl}${endpoint}`,
-        headers: {
-          'X-BAPI-API-KEY': this.apiKey,
-          'X-BAPI-TIMESTAMP': timestamp,
-          'X-BAPI-RECV-WINDOW': recvWindow,
-          'Content-Type': 'application/json'
-        }
-      };
-      
-      // For POST requests, add params to request body
-      if (method === 'POST') {
-        const requestBody = JSON.stringify(params);
-        config.data = requestBody;
-        config.headers['X-BAPI-SIGN'] = this.generateSignature(
-          timestamp,
-          method,
-          endpoint,
-          '',
-          requestBody
-        );
-      } else {
-        // For GET requests, add params to query string
-        const queryString = new URLSearchParams(params).toString();
-        config.url = `${config.url}?${queryString}`;
-        config.headers['X-BAPI-SIGN'] = this.generateSignature(
-          timestamp,
-          method,
-          endpoint,
-          queryString
-        );
-      }
-      
-      // Make the request
-      const response = await axios(config);
-      return response.data;
-      
-    } catch (error: any) {
-      console.error(`Error in p2pRequest (${method} ${endpoint}):`, error.message);
-      if (error.response) {
-        console.error('Response data:', error.response.data);
-      }
-      throw error;
-    }
+    return await this.request(method, endpoint, params);
   }
 }
 
@@ -0,0 +1,783 @@
+#!/usr/bin/env bun
+/**
+ * bybitparser command-line interface.
+ *
+ *   bybitparser sync (--cabinet <id> | --user <id>) [--from <date>] [--to <date>]
+ *   bybitparser backfill (--cabinet <id> | --user <id>) --from <date> [--to <date>] [--window <days>] | --job <id>
+ *   bybitparser export [--format csv|jsonl|xlsx] [--output <file>] [filters]
+ *   bybitparser import <file> (--user <id> | --cabinet <id>) [--utc-offset <minutes>] [--apply]
+ *   bybitparser chat <orderNo> [--cabinet <id> | --user <id>]
+ *   bybitparser order release|pay|message|upload <orderNo> [--cabinet <id> | --user <id>] [--actor <userId>] [action options]
+ *   bybitparser timeline <orderNo> (--cabinet <id> | --user <id>)
+ *   bybitparser report appeals|release-times|cancelled-after-payment (--cabinet <id> | --user <id>) [--from <date>] [--to <date>]
+ *   bybitparser summary [filters]
+ *
+ * Filters of export and summary: --status <code|label> (repeatable), --side buy|sell,
+ * --token <id>, --from/--to (YYYY-MM-DD in UTC or ISO 8601), --source api|db.
+ * --cabinet/--user select whose API keys (api) or stored rows (db) are used.
+ * With --json every command prints exactly one JSON document to stdout; logs of
+ * the parser and the sync service go to stderr. Exit codes are listed in ExitCode.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { parseArgs, type ParseArgsConfig } from 'util';
+import { PrismaClient } from '@prisma/client';
+import BybitP2PParser from './bybit';
+import { defaultCredentialProvider, MissingCredentialsError, type CredentialOwner } from './credentials';
+import {
+  createExporter,
+  exportFormatFromPath,
+  exportRecordFromOrder,
+  loadExportRecords,
+  parseExportFormat,
+  summarizeExportRecords,
+  type ExportRecord,
+  type ExportSummary
+} from './exporters';
+import {
+  applyOrderHistoryImport,
+  formatImportPlan,
+  planOrderHistoryImport,
+  readOrderHistoryFile,
+  type ImportTarget
+} from './order-history-import';
+import { PrismaOrderActionAudit } from './order-actions';
+import {
+  formatDecodeIssues,
+  ORDER_STATUS_LABELS,
+  OrderSide,
+  parseOrderSide,
+  parseOrderStatus,
+  type OrderStatus,
+  type P2POrder
+} from './p2p-order';
+import {
+  findCancelledAfterPayment,
+  findOrdersInAppeal,
+  findReleaseTimes,
+  loadStatusTimeline,
+  type StatusHistoryOwner
+} from './order-status-history';
+import { BybitSyncService, type BackfillResult, type SyncRange } from './sync-service';
+import { BackfillValidationError, DEFAULT_BACKFILL_WINDOW_DAYS } from './sync-backfill';
+
+/**
+ * Process exit codes
+ */
+export enum ExitCode {
+  Success = 0,
+  Failure = 1, // the command ran but failed: API or database error, rows that could not be saved
+  Usage = 2, // unknown command or invalid arguments
+  MissingCredentials = 3 // no API keys configured for the account
+}
+
+/**
+ * Invalid command line arguments
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+/**
+ * Everything the commands need from the outside world; replaced by fakes in tests
+ */
+export interface CliEnvironment {
+  stdout(text: string): void;
+  stderr(text: string): void;
+  prisma(): PrismaClient;
+  parser(owner: CredentialOwner): Promise<BybitP2PParser>;
+  syncService(): Pick<BybitSyncService, 'syncCabinet' | 'syncUser' | 'createBackfillJob' | 'runBackfillJob'>;
+  now(): Date;
+}
+
+/**
+ * Environment of a real run: clients are created on first use and closed by close()
+ */
+export class DefaultCliEnvironment implements CliEnvironment {
+  private prismaClient?: PrismaClient;
+  private service?: BybitSyncService;
+
+  stdout(text: string): void {
+    process.stdout.write(text);
+  }
+
+  stderr(text: string): void {
+    process.stderr.write(text);
+  }
+
+  prisma(): PrismaClient {
+    return this.prismaClient ??= new PrismaClient();
+  }
+
+  parser(owner: CredentialOwner): Promise<BybitP2PParser> {
+    // Ключи пользователей и кабинетов могут храниться в базе, для ключей по умолчанию база не нужна
+    const provider = defaultCredentialProvider(owner.kind === 'default' ? undefined : this.prisma());
+    return BybitP2PParser.fromCredentials(provider, owner);
+  }
+
+  syncService(): BybitSyncService {
+    return this.service ??= new BybitSyncService();
+  }
+
+  now(): Date {
+    return new Date();
+  }
+
+  async close(): Promise<void> {
+    await this.prismaClient?.$disconnect();
+    await this.service?.disconnect();
+  }
+}
+
+type OptionValues = Record<string, string | string[] | boolean | undefined>;
+
+/**
+ * Output of a command: a JSON document for --json and a text report otherwise
+ */
+interface CommandOutput {
+  json: unknown;
+  text: string;
+  exitCode?: ExitCode;
+}
+
+interface CliCommand {
+  usage: string;
+  positionals: number;
+  options: NonNullable<ParseArgsConfig['options']>;
+  run(values: OptionValues, positionals: string[], env: CliEnvironment): Promise<CommandOutput>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_PERIOD_DAYS = 7; // период запроса к API, если --from не указан
+
+const OWNER_OPTIONS = {
+  cabinet: { type: 'string' },
+  user: { type: 'string' }
+} as const;
+
+const FILTER_OPTIONS = {
+  ...OWNER_OPTIONS,
+  status: { type: 'string', multiple: true },
+  side: { type: 'string' },
+  token: { type: 'string' },
+  from: { type: 'string' },
+  to: { type: 'string' },
+  source: { type: 'string' }
+} as const;
+
+const stringOption = (values: OptionValues, name: string): string | undefined => {
+  const value = values[name];
+  return typeof value === 'string' ? value : undefined;
+};
+
+/**
+ * Positive integer option such as --cabinet 3
+ */
+function idOption(values: OptionValues, name: string): number | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+  const id = Number(value);
+  if (!Number.isInteger(id) || id <= 0) throw new UsageError(`--${name}: ожидается положительное целое число, получено "${value}"`);
+  return id;
+}
+
+/**
+ * Account selected with --cabinet or --user; the default account when neither is given
+ */
+function ownerOption(values: OptionValues): CredentialOwner {
+  const cabinetId = idOption(values, 'cabinet');
+  const userId = idOption(values, 'user');
+  if (cabinetId !== undefined && userId !== undefined) throw new UsageError('Укажите только один из параметров --cabinet и --user');
+  if (cabinetId !== undefined) return { kind: 'cabinet', cabinetId };
+  if (userId !== undefined) return { kind: 'user', userId };
+  return { kind: 'default' };
+}
+
+function ownerLabel(owner: CredentialOwner): string {
+  switch (owner.kind) {
+    case 'default': return 'аккаунт по умолчанию';
+    case 'user': return `пользователь ${owner.userId}`;
+    case 'cabinet': return `кабинет ${owner.cabinetId}`;
+  }
+}
+
+/**
+ * Date option; a date without time means the start of the day, or its end for --to (UTC)
+ */
+function dateOption(values: OptionValues, name: string): Date | undefined {
+  const value = stringOption(values, name);
+  if (value === undefined) return undefined;
+  const time = Date.parse(value);
+  if (Number.isNaN(time)) throw new UsageError(`--${name}: неверная дата "${value}" (ожидается YYYY-MM-DD или ISO 8601)`);
+  return new Date(name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value) ? time + DAY_MS - 1 : time);
+}
+
+function rangeOption(values: OptionValues): { from?: Date; to?: Date } {
+  const from = dateOption(values, 'from');
+  const to = dateOption(values, 'to');
+  if (from && to && from > to) throw new UsageError('--from должен быть раньше --to');
+  return { from, to };
+}
+
+/**
+ * Status, side and token filters
+ */
+interface RecordFilter {
+  statuses?: OrderStatus[];
+  side?: OrderSide;
+  tokenId?: string;
+}
+
+function filterOption(values: OptionValues): RecordFilter {
+  const statuses = (values.status as string[] | undefined)?.map(value => {
+    const status = parseOrderStatus(value);
+    if (status === undefined) throw new UsageError(`--status: неизвестный статус "${value}"`);
+    return status;
+  });
+  const sideValue = stringOption(values, 'side');
+  const side = sideValue === undefined ? undefined : parseOrderSide(sideValue);
+  if (sideValue !== undefined && side === undefined) throw new UsageError(`--side: ожидается buy или sell, получено "${sideValue}"`);
+  return { statuses, side, tokenId: stringOption(values, 'token')?.toUpperCase() };
+}
+
+function matchesFilter(record: ExportRecord, filter: RecordFilter): boolean {
+  if (filter.side !== undefined && record.side !== filter.side) return false;
+  if (filter.tokenId && record.tokenId.toUpperCase() !== filter.tokenId) return false;
+  if (filter.statuses) {
+    const label = record.statusLabel.toLowerCase();
+    return filter.statuses.some(status => ORDER_STATUS_LABELS[status].toLowerCase() === label);
+  }
+  return true;
+}
+
+/**
+ * Filtered orders with their totals
+ */
+interface LoadedRecords {
+  source: 'api' | 'db';
+  owner: CredentialOwner;
+  from?: Date;
+  to?: Date;
+  records: ExportRecord[];
+  summary: ExportSummary;
+}
+
+/**
+ * Load orders for export and summary from the API (default) or from the stored rows (--source db)
+ * @param withDetails - Request order details for the time of the last status change (API only)
+ */
+async function loadRecords(values: OptionValues, env: CliEnvironment, withDetails: boolean): Promise<LoadedRecords> {
+  const owner = ownerOption(values);
+  const filter = filterOption(values);
+  const range = rangeOption(values);
+  const source = stringOption(values, 'source') ?? 'api';
+
+  if (source === 'db') {
+    if (owner.kind === 'default') throw new UsageError('--source db требует --cabinet <id> или --user <id>');
+    const stored = await loadExportRecords(
+      env.prisma(),
+      owner.kind === 'user' ? { kind: 'user', userId: owner.userId } : { kind: 'cabinet', cabinetId: owner.cabinetId },
+      range
+    );
+    const records = stored.filter(record => matchesFilter(record, filter));
+    return { source, owner, ...range, records, summary: summarizeExportRecords(records) };
+  }
+  if (source !== 'api') throw new UsageError(`--source: ожидается api или db, получено "${source}"`);
+
+  const to = range.to ?? env.now();
+  const from = range.from ?? new Date(to.getTime() - DEFAULT_PERIOD_DAYS * DAY_MS);
+  const parser = await env.parser(owner);
+
+  const orders: P2POrder[] = [];
+  for await (const order of parser.iterateOrders({
+    beginTime: from.getTime(),
+    endTime: to.getTime(),
+    tokenId: filter.tokenId,
+    side: filter.side === undefined ? undefined : [filter.side],
+    status: filter.statuses
+  })) {
+    // API может не учитывать часть фильтров, поэтому проверяем заявки еще раз
+    if (matchesFilter(exportRecordFromOrder(order), filter)) orders.push(order);
+  }
+
+  const records: ExportRecord[] = [];
+  for (const order of orders) {
+    let detail;
+    if (withDetails) {
+      try {
+        detail = await parser.getOrderInfo(order.id);
+      } catch (error: any) {
+        env.stderr(`Не удалось получить детали заявки ${order.id}: ${error.message}\n`);
+      }
+    }
+    records.push(exportRecordFromOrder(order, detail));
+  }
+
+  return { source, owner, from, to, records, summary: parser.processTransactions(orders) };
+}
+
+/**
+ * Plain text table with aligned columns; numeric cells are right-aligned
+ */
+export function formatTable(rows: (string | number)[][]): string {
+  const cells = rows.map(row => row.map(String));
+  const widths: number[] = [];
+  cells.forEach(row => row.forEach((cell, index) => {
+    widths[index] = Math.max(widths[index] ?? 0, cell.length);
+  }));
+  return cells
+    .map(row => row
+      .map((cell, index) => /^-?\d+(\.\d+)?$/.test(cell) ? cell.padStart(widths[index]!) : cell.padEnd(widths[index]!))
+      .join('  ')
+      .trimEnd())
+    .join('\n');
+}
+
+function formatSummary(summary: ExportSummary): string {
+  const { buy, sell } = summary.summary;
+  const sides = formatTable([
+    ['Сторона', 'Заявок', 'Объем (фиат)'],
+    ['Покупка', buy.count, buy.volume.toString()],
+    ['Продажа', sell.count, sell.volume.toString()],
+    ['Итого', buy.count + sell.count, buy.volume.plus(sell.volume).toString()]
+  ]);
+  const coins = Object.entries(summary.byCoin);
+  if (coins.length === 0) return sides;
+
+  const tokens = formatTable([
+    ['Токен', 'Сторона', 'Заявок', 'Объем (фиат)', 'Объем (токен)'],
+    ...coins.flatMap(([token, coin]) => [
+      [token, 'Покупка', coin.buy.count, coin.buy.volume.toString(), coin.buy.tokenVolume.toString()],
+      [token, 'Продажа', coin.sell.count, coin.sell.volume.toString(), coin.sell.tokenVolume.toString()]
+    ])
+  ]);
+  return `${sides}\n\n${tokens}`;
+}
+
+function periodLabel(from?: Date, to?: Date): string {
+  return from || to ? `${from?.toISOString() ?? '...'} - ${to?.toISOString() ?? '...'}` : 'все время';
+}
+
+/**
+ * Duration as h:mm:ss
+ */
+export function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Stored rows of --cabinet or --user; commands reading the status history require one of them
+ */
+function historyOwnerOption(values: OptionValues, command: string): StatusHistoryOwner {
+  const owner = ownerOption(values);
+  if (owner.kind === 'default') throw new UsageError(`${command} требует --cabinet <id> или --user <id>`);
+  return owner;
+}
+
+const REPORTS = ['appeals', 'release-times', 'cancelled-after-payment'] as const;
+
+const COMMANDS: Record<string, CliCommand> = {
+  sync: {
+    usage: 'sync (--cabinet <id> | --user <id>) [--from <дата>] [--to <дата>]',
+    positionals: 0,
+    options: { ...OWNER_OPTIONS, from: { type: 'string' }, to: { type: 'string' } },
+    async run(values, _positionals, env) {
+      const owner = ownerOption(values);
+      if (owner.kind === 'default') throw new UsageError('sync требует --cabinet <id> или --user <id>');
+      const { from, to } = rangeOption(values);
+
+      // Без дат сервис использует свой период по умолчанию
+      let range: SyncRange | undefined;
+      if (from || to) {
+        const endTime = (to ?? env.now()).getTime();
+        range = { beginTime: from?.getTime() ?? endTime - DEFAULT_PERIOD_DAYS * DAY_MS, endTime };
+      }
+
+      const service = env.syncService();
+      const result = owner.kind === 'cabinet'
+        ? await service.syncCabinet(owner.cabinetId, range)
+        : await service.syncUser(owner.userId, range);
+
+      const lines = [`Синхронизация (${ownerLabel(owner)}): получено ${result.fetched}, создано ${result.created}, обновлено ${result.updated}`];
+      if (result.error) lines.push(`Ошибка: ${result.error}`);
+      return {
+        json: {
+          owner,
+          range: range ? { from: new Date(range.beginTime), to: new Date(range.endTime) } : null,
+          ...result
+        },
+        text: lines.join('\n'),
+        exitCode: result.error ? ExitCode.Failure : ExitCode.Success
+      };
+    }
+  },
+
+  backfill: {
+    usage: `backfill (--cabinet <id> | --user <id>) --from <дата> [--to <дата>] [--window <дни, по умолчанию ${DEFAULT_BACKFILL_WINDOW_DAYS}>] | --job <id>`,
+    positionals: 0,
+    options: { ...OWNER_OPTIONS, from: { type: 'string' }, to: { type: 'string' }, window: { type: 'string' }, job: { type: 'string' } },
+    async run(values, _positionals, env) {
+      const service = env.syncService();
+      let jobId = idOption(values, 'job');
+
+      // Без --job создаем новое задание, с --job продолжаем существующее с последней контрольной точки
+      if (jobId === undefined) {
+        const owner = ownerOption(values);
+        if (owner.kind === 'default') throw new UsageError('backfill требует --cabinet <id>, --user <id> или --job <id>');
+        const { from, to } = rangeOption(values);
+        if (!from) throw new UsageError('backfill требует --from <дата>');
+        const windowDays = idOption(values, 'window') ?? DEFAULT_BACKFILL_WINDOW_DAYS;
+        try {
+          const job = await service.createBackfillJob(owner, { beginTime: from.getTime(), endTime: (to ?? env.now()).getTime() }, windowDays);
+          jobId = job.id as number;
+        } catch (error) {
+          if (error instanceof BackfillValidationError) throw new UsageError(error.message);
+          throw error;
+        }
+      } else if (values.cabinet !== undefined || values.user !== undefined || values.from !== undefined || values.to !== undefined || values.window !== undefined) {
+        throw new UsageError('--job нельзя сочетать с --cabinet, --user, --from, --to и --window');
+      }
+
+      const result: BackfillResult = await service.runBackfillJob(jobId);
+      const lines = [
+        `Задание ${result.jobId} (${result.status}): окон ${result.windows}, получено ${result.fetched}, создано ${result.created}, обновлено ${result.updated}`,
+        result.cursorAt ? `Сохранены заявки с ${result.cursorAt.toISOString()}` : 'Ни одно окно еще не сохранено'
+      ];
+      if (result.error) lines.push(`Ошибка: ${result.error}. Продолжить: bybitparser backfill --job ${result.jobId}`);
+      return {
+        json: result,
+        text: lines.join('\n'),
+        exitCode: result.error ? ExitCode.Failure : ExitCode.Success
+      };
+    }
+  },
+
+  export: {
+    usage: 'export [--format csv|jsonl|xlsx] [--output <файл>] [--source api|db] [--cabinet <id> | --user <id>] [--status <статус>]... [--side buy|sell] [--token <токен>] [--from <дата>] [--to <дата>]',
+    positionals: 0,
+    options: { ...FILTER_OPTIONS, format: { type: 'string' }, output: { type: 'string' } },
+    async run(values, _positionals, env) {
+      const formatValue = stringOption(values, 'format');
+      const output = stringOption(values, 'output');
+      const format = formatValue !== undefined
+        ? parseExportFormat(formatValue)
+        : (output && exportFormatFromPath(output)) || 'csv';
+      if (!format) throw new UsageError(`--format: ожидается csv, jsonl или xlsx, получено "${formatValue}"`);
+
+      const exporter = createExporter(format);
+      const filepath = path.resolve(output ?? `BybitTransaction${exporter.extension}`);
+      const loaded = await loadRecords(values, env, true);
+      const written = await exporter.write(filepath, loaded.records, loaded.summary);
+
+      return {
+        json: { format, output: filepath, source: loaded.source, from: loaded.from ?? null, to: loaded.to ?? null, count: written },
+        text: `Сохранено ${written} заявок в ${filepath}`
+      };
+    }
+  },
+
+  import: {
+    usage: 'import <файл.csv|файл.xlsx> (--user <id> | --cabinet <id>) [--utc-offset <минуты>] [--apply]',
+    positionals: 1,
+    options: { ...OWNER_OPTIONS, 'utc-offset': { type: 'string' }, apply: { type: 'boolean' } },
+    async run(values, [filepath], env) {
+      const owner = ownerOption(values);
+      if (owner.kind === 'default') throw new UsageError('import требует --user <id> или --cabinet <id>');
+      const target: ImportTarget = owner;
+      const utcOffsetMinutes = Number(stringOption(values, 'utc-offset') ?? 0);
+      if (!Number.isFinite(utcOffsetMinutes)) throw new UsageError('--utc-offset: ожидается число минут');
+
+      const parsed = await readOrderHistoryFile(filepath!, { utcOffsetMinutes });
+      const plan = await planOrderHistoryImport(env.prisma(), target, parsed.orders);
+      const lines = [`Файл ${filepath} (${parsed.format === 'bybit' ? 'выгрузка Bybit' : 'BybitTransaction.csv'}): ${parsed.orders.length} заявок`];
+      if (parsed.duplicates > 0) lines.push(`Повторяющихся номеров заявок: ${parsed.duplicates} (используется последняя строка)`);
+      parsed.rejected.forEach(row => lines.push(`Строка ${row.line} пропущена: ${formatDecodeIssues(row.issues)}`));
+      lines.push(formatImportPlan(plan));
+
+      const json = {
+        file: path.resolve(filepath!),
+        format: parsed.format,
+        orders: parsed.orders.length,
+        duplicates: parsed.duplicates,
+        rejected: parsed.rejected,
+        plan: {
+          create: plan.create.map(order => order.orderNo),
+          update: plan.update.map(({ order, changes }) => ({ orderNo: order.orderNo, changes })),
+          unchanged: plan.unchanged.length,
+          conflicts: plan.conflicts.map(({ order, ownerId }) => ({ orderNo: order.orderNo, ownerId }))
+        },
+        applied: null as Awaited<ReturnType<typeof applyOrderHistoryImport>> | null
+      };
+
+      if (!values.apply) {
+        lines.push('Dry run: изменения не записаны. Запустите с --apply для импорта.');
+        return { json, text: lines.join('\n') };
+      }
+
+      const result = await applyOrderHistoryImport(env.prisma(), plan);
+      json.applied = result;
+      result.failed.forEach(item => lines.push(`Не удалось сохранить заявку ${item.orderNo}: ${item.message}`));
+      lines.push(`Импорт завершен: создано ${result.created}, обновлено ${result.updated}, ошибок ${result.failed.length}`);
+      return { json, text: lines.join('\n'), exitCode: result.failed.length > 0 ? ExitCode.Failure : ExitCode.Success };
+    }
+  },
+
+  chat: {
+    usage: 'chat <номер заявки> [--cabinet <id> | --user <id>]',
+    positionals: 1,
+    options: { ...OWNER_OPTIONS },
+    async run(values, [orderNo], env) {
+      const parser = await env.parser(ownerOption(values));
+      const messages = await parser.getChatMessages(orderNo!);
+      const rows = messages.map(({ raw, ...message }) => message);
+
+      const text = messages.length === 0
+        ? `Сообщений по заявке ${orderNo} нет`
+        : formatTable(messages.map(message => [
+          message.createdAt.toISOString(),
+          message.senderRole === 'self' ? 'я' : message.senderNickName ?? message.senderRole,
+          message.text ?? message.attachmentUrl ?? ''
+        ]));
+      return { json: { orderNo, messages: rows }, text };
+    }
+  },
+
+  timeline: {
+    usage: 'timeline <номер заявки> (--cabinet <id> | --user <id>)',
+    positionals: 1,
+    options: { ...OWNER_OPTIONS },
+    async run(values, [orderNo], env) {
+      const owner = historyOwnerOption(values, 'timeline');
+      const changes = await loadStatusTimeline(env.prisma(), owner, orderNo!);
+
+      const text = changes.length === 0
+        ? `История статусов заявки ${orderNo} пуста`
+        : formatTable([
+          ['Время', 'Было', 'Стало'],
+          ...changes.map(change => [change.observedAt.toISOString(), change.fromStatus ?? '-', change.toStatus])
+        ]);
+      return { json: { orderNo, owner, changes }, text };
+    }
+  },
+
+  report: {
+    usage: `report ${REPORTS.join('|')} (--cabinet <id> | --user <id>) [--from <дата>] [--to <дата>]`,
+    positionals: 1,
+    options: { ...OWNER_OPTIONS, from: { type: 'string' }, to: { type: 'string' } },
+    async run(values, [name], env) {
+      const owner = historyOwnerOption(values, 'report');
+      const range = rangeOption(values);
+      const prisma = env.prisma();
+
+      switch (name) {
+        case 'appeals': {
+          // Текущие апелляции не зависят от периода создания заявки
+          if (range.from || range.to) throw new UsageError('report appeals не поддерживает --from и --to');
+          const orders = await findOrdersInAppeal(prisma, owner);
+          const text = orders.length === 0
+            ? `Заявок в апелляции нет (${ownerLabel(owner)})`
+            : formatTable([
+              ['Заявка', 'Тип', 'Сумма', 'Контрагент', 'Создана', 'Апелляция с'],
+              ...orders.map(order => [
+                order.orderNo, order.type, order.totalPrice, order.counterparty ?? '',
+                order.createdAt.toISOString(), order.appealSince?.toISOString() ?? 'неизвестно'
+              ])
+            ]);
+          return { json: { report: name, owner, orders }, text };
+        }
+        case 'release-times': {
+          const orders = await findReleaseTimes(prisma, owner, range);
+          if (orders.length === 0) {
+            return {
+              json: { report: name, owner, ...range, orders, averageReleaseMs: null },
+              text: `Завершенных заявок нет (${ownerLabel(owner)}, ${periodLabel(range.from, range.to)})`
+            };
+          }
+          const averageReleaseMs = Math.round(orders.reduce((sum, order) => sum + order.releaseMs, 0) / orders.length);
+          const table = formatTable([
+            ['Заявка', 'Тип', 'Сумма', 'Создана', 'Отпущена', 'С создания', 'С оплаты'],
+            ...orders.map(order => [
+              order.orderNo, order.type, order.totalPrice, order.createdAt.toISOString(), order.releasedAt.toISOString(),
+              formatDuration(order.releaseMs), order.paidToReleaseMs === null ? '' : formatDuration(order.paidToReleaseMs)
+            ])
+          ]);
+          return {
+            json: { report: name, owner, ...range, orders, averageReleaseMs },
+            text: `${table}\n\nСреднее время от создания до отпуска: ${formatDuration(averageReleaseMs)} (${orders.length} заявок)`
+          };
+        }
+        case 'cancelled-after-payment': {
+          const orders = await findCancelledAfterPayment(prisma, owner, range);
+          const text = orders.length === 0
+            ? `Отмененных после оплаты заявок нет (${ownerLabel(owner)}, ${periodLabel(range.from, range.to)})`
+            : formatTable([
+              ['Заявка', 'Тип', 'Сумма', 'Контрагент', 'Оплачена', 'Отменена', 'Статусы'],
+              ...orders.map(order => [
+                order.orderNo, order.type, order.totalPrice, order.counterparty ?? '',
+                order.paidAt?.toISOString() ?? '', order.cancelledAt?.toISOString() ?? '', order.path.join(' > ')
+              ])
+            ]);
+          return { json: { report: name, owner, ...range, orders }, text };
+        }
+        default:
+          throw new UsageError(`report: ожидается ${REPORTS.join(', ')}, получено "${name}"`);
+      }
+    }
+  },
+
+  order: {
+    usage: 'order release|pay|message|upload <номер заявки> [--cabinet <id> | --user <id>] [--actor <id пользователя>] [--payment-type <код> --payment-id <id>] [--text <текст>] [--file <файл>]',
+    positionals: 2,
+    options: {
+      ...OWNER_OPTIONS,
+      actor: { type: 'string' },
+      'payment-type': { type: 'string' },
+      'payment-id': { type: 'string' },
+      text: { type: 'string' },
+      file: { type: 'string' }
+    },
+    async run(values, [action, orderNo], env) {
+      const owner = ownerOption(values);
+      // Каждое действие записывается в AuditLog от имени пользователя: --actor или --user
+      const actorId = idOption(values, 'actor') ?? (owner.kind === 'user' ? owner.userId : undefined);
+      if (actorId === undefined) throw new UsageError('order требует --actor <id пользователя> для записи в AuditLog');
+
+      const parser = await env.parser(owner);
+      parser.orderAudit = new PrismaOrderActionAudit(env.prisma(), actorId);
+
+      switch (action) {
+        case 'release': {
+          const released = await parser.releaseOrder(orderNo!);
+          return {
+            json: { action, orderNo, released },
+            text: released ? `Средства по заявке ${orderNo} отпущены` : `Заявка ${orderNo} уже завершена, повторный отпуск не отправлен`
+          };
+        }
+        case 'pay': {
+          const paymentType = stringOption(values, 'payment-type');
+          const paymentId = stringOption(values, 'payment-id');
+          if (!paymentType || !paymentId) throw new UsageError('order pay требует --payment-type <код> и --payment-id <id>');
+          const paid = await parser.markOrderPaid(orderNo!, paymentType, paymentId);
+          return {
+            json: { action, orderNo, paid },
+            text: paid ? `Заявка ${orderNo} отмечена оплаченной` : `Заявка ${orderNo} уже оплачена`
+          };
+        }
+        case 'message': {
+          const text = stringOption(values, 'text');
+          if (text === undefined) throw new UsageError('order message требует --text <текст>');
+          const msgUuid = await parser.sendChatMessage(orderNo!, text);
+          return { json: { action, orderNo, msgUuid }, text: `Сообщение отправлено в чат заявки ${orderNo}` };
+        }
+        case 'upload': {
+          const file = stringOption(values, 'file');
+          if (file === undefined) throw new UsageError('order upload требует --file <файл>');
+          const url = await parser.uploadChatFile(orderNo!, path.basename(file), fs.readFileSync(file));
+          return { json: { action, orderNo, url }, text: `Файл отправлен в чат заявки ${orderNo}: ${url}` };
+        }
+        default:
+          throw new UsageError(`order: ожидается release, pay, message или upload, получено "${action}"`);
+      }
+    }
+  },
+
+  summary: {
+    usage: 'summary [--source api|db] [--cabinet <id> | --user <id>] [--status <статус>]... [--side buy|sell] [--token <токен>] [--from <дата>] [--to <дата>]',
+    positionals: 0,
+    options: { ...FILTER_OPTIONS },
+    async run(values, _positionals, env) {
+      const loaded = await loadRecords(values, env, false);
+      return {
+        json: {
+          source: loaded.source,
+          owner: loaded.owner,
+          from: loaded.from ?? null,
+          to: loaded.to ?? null,
+          count: loaded.records.length,
+          summary: loaded.summary.summary,
+          byCoin: loaded.summary.byCoin
+        },
+        text: `Заявок: ${loaded.records.length} (${ownerLabel(loaded.owner)}, ${periodLabel(loaded.from, loaded.to)})\n\n${formatSummary(loaded.summary)}`
+      };
+    }
+  }
+};
+
+/**
+ * Usage of all commands
+ */
+export function formatUsage(): string {
+  return [
+    'Использование: bybitparser <команда> [параметры] [--json]',
+    ...Object.values(COMMANDS).map(command => `  bybitparser ${command.usage}`)
+  ].join('\n');
+}
+
+/**
+ * Run a command
+ * @param argv - Arguments after the program name
+ * @param env - Output streams and clients
+ * @returns Exit code
+ */
+export async function runCli(argv: string[], env: CliEnvironment): Promise<ExitCode> {
+  const [name, ...args] = argv;
+  const json = args.includes('--json');
+
+  if (name === 'help' || name === '--help' || name === '-h') {
+    env.stdout(formatUsage() + '\n');
+    return ExitCode.Success;
+  }
+
+  const command = name ? COMMANDS[name] : undefined;
+  try {
+    if (!command) throw new UsageError(name ? `Неизвестная команда "${name}"` : 'Не указана команда');
+
+    const { values, positionals } = parseArgs({
+      args,
+      options: { ...command.options, json: { type: 'boolean' } },
+      allowPositionals: true,
+      strict: true
+    });
+    if (positionals.length !== command.positionals) {
+      throw new UsageError(`Использование: bybitparser ${command.usage}`);
+    }
+
+    const output = await command.run(values, positionals, env);
+    env.stdout((json ? JSON.stringify(output.json, null, 2) : output.text) + '\n');
+    return output.exitCode ?? ExitCode.Success;
+  } catch (error: any) {
+    const exitCode = error instanceof UsageError || String(error?.code ?? '').startsWith('ERR_PARSE_ARGS')
+      ? ExitCode.Usage
+      : error instanceof MissingCredentialsError ? ExitCode.MissingCredentials : ExitCode.Failure;
+
+    if (json) env.stdout(JSON.stringify({ error: error.message, exitCode }, null, 2) + '\n');
+    env.stderr(`Ошибка: ${error.message}\n`);
+    if (exitCode === ExitCode.Usage && !command) env.stderr(formatUsage() + '\n');
+    return exitCode;
+  }
+}
+
+// Если файл запущен напрямую, а не импортирован как модуль
+if (require.main === module) {
+  // Логи парсера и сервиса синхронизации уходят в stderr, чтобы stdout содержал только результат команды
+  console.log = console.error;
+  console.info = console.error;
+
+  const env = new DefaultCliEnvironment();
+  runCli(process.argv.slice(2), env)
+    .then(async code => {
+      await env.close();
+      process.exit(code);
+    })
+    .catch(async error => {
+      console.error('Необработанная ошибка:', error);
+      await env.close();
+      process.exit(ExitCode.Failure);
+    });
+}
@@ -0,0 +1,227 @@
+/**
+ * Server clock of the Bybit API.
+ * Signed requests carry a timestamp that has to fall into recv_window of the
+ * server clock, so the offset between the local and the server clock is
+ * measured with several /v5/market/time samples: every sample is corrected by
+ * half of its round trip and the median offset wins. Clocks live in a registry
+ * shared by every BybitP2PParser talking to the same API server; they are
+ * re-synced when they get old and after timestamp errors, and recv_window grows
+ * with the measured network jitter within safe bounds.
+ */
+
+import axios from 'axios';
+
+/**
+ * One measurement of the server clock
+ */
+export interface ClockSample {
+  offsetMs: number; // server time minus local time at the middle of the round trip
+  rttMs: number; // round trip of the /v5/market/time request
+}
+
+/**
+ * Offset estimated from several samples
+ */
+export interface ClockEstimate {
+  offsetMs: number; // median offset
+  maxRttMs: number;
+  spreadMs: number; // largest distance of a sample from the median
+}
+
+export interface ClockSyncOptions {
+  samples: number; // /v5/market/time requests per sync
+  resyncIntervalMs: number; // clocks older than this are synced again before the next request
+  retryAfterFailureMs: number; // pause after a failed sync before requests try again
+  maxRecvWindowMs: number; // upper bound of the adaptive recv_window
+}
+
+export const DEFAULT_CLOCK_SYNC_OPTIONS: ClockSyncOptions = {
+  samples: 5,
+  resyncIntervalMs: 10 * 60 * 1000,
+  retryAfterFailureMs: 5000,
+  maxRecvWindowMs: 20000
+};
+
+/**
+ * Returns the current server time in milliseconds
+ */
+export type ServerTimeSource = () => Promise<number>;
+
+/**
+ * Server time of a Bybit API server from /v5/market/time (no authentication)
+ * @param baseUrl - API server, e.g. https://api.bybit.com
+ */
+export function fetchBybitServerTime(baseUrl: string): ServerTimeSource {
+  return async () => {
+    const response = await axios.get(`${baseUrl}/v5/market/time`);
+    const result = response.data?.result;
+    // timeNano точнее timeSecond, но берем любое из полей
+    const serverTime = result?.timeNano !== undefined
+      ? Math.floor(Number(result.timeNano) / 1000000)
+      : Number(result?.timeSecond) * 1000;
+    if (!Number.isFinite(serverTime) || serverTime <= 0) {
+      throw new Error(`Unexpected /v5/market/time response: ${JSON.stringify(response.data)}`);
+    }
+    return serverTime;
+  };
+}
+
+/**
+ * Median offset of samples and how far the samples disagree
+ * @throws Error for an empty list
+ */
+export function estimateOffset(samples: ClockSample[]): ClockEstimate {
+  if (samples.length === 0) throw new Error('No clock samples');
+
+  const offsets = samples.map(sample => sample.offsetMs).sort((a, b) => a - b);
+  const middle = Math.floor(offsets.length / 2);
+  const offsetMs = offsets.length % 2 === 1
+    ? offsets[middle]!
+    : Math.round((offsets[middle - 1]! + offsets[middle]!) / 2);
+
+  return {
+    offsetMs,
+    maxRttMs: Math.max(...samples.map(sample => sample.rttMs)),
+    spreadMs: Math.max(...offsets.map(offset => Math.abs(offset - offsetMs)))
+  };
+}
+
+/**
+ * Offset to the clock of one API server
+ */
+export class ServerClock {
+  offsetMs: number = 0; // server time minus local time
+  lastSyncAt?: number; // local time of the last successful sync
+  lastEstimate?: ClockEstimate;
+  lastError?: string; // message of the last failed sync
+  private lastFailureAt?: number;
+  private inFlight?: Promise<void>;
+  private options: ClockSyncOptions;
+
+  /**
+   * @param source - Server time source, e.g. fetchBybitServerTime(baseUrl)
+   * @param options - Sampling, re-sync and recv_window settings (see DEFAULT_CLOCK_SYNC_OPTIONS)
+   * @param localNow - Local clock (default: Date.now)
+   */
+  constructor(
+    private source: ServerTimeSource,
+    options: Partial<ClockSyncOptions> = {},
+    private localNow: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULT_CLOCK_SYNC_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether the clock has been synced at least once
+   */
+  get synced(): boolean {
+    return this.lastSyncAt !== undefined;
+  }
+
+  /**
+   * Current time on the server clock
+   */
+  now(): number {
+    return this.localNow() + this.offsetMs;
+  }
+
+  /**
+   * Whether the clock was never synced or the last sync is older than resyncIntervalMs
+   */
+  isStale(): boolean {
+    return this.lastSyncAt === undefined || this.localNow() - this.lastSyncAt >= this.options.resyncIntervalMs;
+  }
+
+  /**
+   * Sync when the clock is stale, unless the last attempt failed less than retryAfterFailureMs ago
+   */
+  async ensureSynced(): Promise<void> {
+    if (!this.isStale()) return;
+    if (this.lastFailureAt !== undefined && this.localNow() - this.lastFailureAt < this.options.retryAfterFailureMs) return;
+    await this.sync();
+  }
+
+  /**
+   * Measure the offset now. Concurrent calls share one measurement.
+   * A failed sync keeps the previous offset.
+   * @throws Error of the last sample when every sample failed
+   */
+  sync(): Promise<void> {
+    if (!this.inFlight) {
+      this.inFlight = this.measure().finally(() => {
+        this.inFlight = undefined;
+      });
+    }
+    return this.inFlight;
+  }
+
+  /**
+   * recv_window for signed requests: the configured value, raised when the
+   * network jitter measured by the last sync needs more, never above maxRecvWindowMs
+   * @param base - Configured recv_window
+   */
+  recvWindow(base: number): number {
+    if (!this.lastEstimate) return base;
+    // Запрос должен дойти до сервера, пока его timestamp еще в окне: берем двойной запас на RTT и разброс
+    const needed = Math.ceil(2 * (this.lastEstimate.maxRttMs + this.lastEstimate.spreadMs));
+    return Math.max(base, Math.min(needed, this.options.maxRecvWindowMs));
+  }
+
+  private async measure(): Promise<void> {
+    const samples: ClockSample[] = [];
+    let lastError: unknown;
+
+    for (let i = 0; i < this.options.samples; i++) {
+      try {
+        const sentAt = this.localNow();
+        const serverTime = await this.source();
+        const receivedAt = this.localNow();
+        const rttMs = receivedAt - sentAt;
+        samples.push({ offsetMs: serverTime - (sentAt + rttMs / 2), rttMs });
+      } catch (error) {
+        lastError = error;
+      }
+    }
+
+    if (samples.length === 0) {
+      this.lastFailureAt = this.localNow();
+      this.lastError = lastError instanceof Error ? lastError.message : String(lastError);
+      throw lastError;
+    }
+
+    const estimate = estimateOffset(samples);
+    this.offsetMs = Math.round(estimate.offsetMs);
+    this.lastEstimate = estimate;
+    this.lastSyncAt = this.localNow();
+    this.lastFailureAt = undefined;
+    this.lastError = undefined;
+    console.log(`Время синхронизировано: смещение ${this.offsetMs}мс, RTT до ${estimate.maxRttMs}мс, разброс ${estimate.spreadMs}мс (${samples.length}/${this.options.samples} замеров)`);
+  }
+}
+
+/**
+ * Registry of server clocks keyed by API base URL
+ */
+export class ClockRegistry {
+  private clocks = new Map<string, ServerClock>();
+
+  constructor(private options: Partial<ClockSyncOptions> = {}) {}
+
+  /**
+   * Get (or create) the clock of an API server
+   * @param baseUrl - API server without a trailing slash
+   */
+  clock(baseUrl: string): ServerClock {
+    let clock = this.clocks.get(baseUrl);
+    if (!clock) {
+      clock = new ServerClock(fetchBybitServerTime(baseUrl), this.options);
+      this.clocks.set(baseUrl, clock);
+    }
+    return clock;
+  }
+}
+
+/**
+ * Registry shared by all parser instances in the process
+ */
+export const sharedClocks = new ClockRegistry();
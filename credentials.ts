@@ -0,0 +1,260 @@
+/**
+ * Resolution of Bybit API credentials.
+ * Keys come from environment variables, a local secrets file or the database
+ * (User / BybitCabinet), never from source code. Providers are tried in
+ * order; when none of them knows the keys a MissingCredentialsError says
+ * where they were looked for.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import { isEncryptedSecret, loadSecretBox, type SecretBox } from './secret-box';
+import { parseAuthScheme, type BybitAuthScheme } from './bybit-signing';
+
+/**
+ * Whose keys are needed
+ */
+export type CredentialOwner =
+  | { kind: 'default' } // single-account tools such as index.ts
+  | { kind: 'user'; userId: number }
+  | { kind: 'cabinet'; cabinetId: number };
+
+export const DEFAULT_OWNER: CredentialOwner = { kind: 'default' };
+
+/**
+ * API key pair and where it was found
+ */
+export interface BybitCredentials {
+  apiKey: string;
+  apiSecret: string; // HMAC secret or PEM private key of a self-generated RSA key
+  authScheme?: BybitAuthScheme; // detected from apiSecret when not set
+  source: string; // e.g. "env BYBIT_API_KEY", for logs; never contains the secret
+}
+
+/**
+ * Source of credentials
+ */
+export interface CredentialProvider {
+  readonly name: string;
+
+  /**
+   * Look up the keys of an owner
+   * @returns Credentials or undefined when this source has none
+   */
+  resolve(owner: CredentialOwner): Promise<BybitCredentials | undefined>;
+
+  /**
+   * Where this source looks for the keys of an owner, for error messages
+   */
+  describe?(owner: CredentialOwner): string;
+}
+
+/**
+ * Error thrown when no provider has credentials for the owner
+ */
+export class MissingCredentialsError extends Error {
+  owner: CredentialOwner;
+  tried: string[];
+
+  constructor(owner: CredentialOwner, tried: string[]) {
+    super(`No Bybit API credentials for ${describeOwner(owner)}. Looked in: ${tried.join('; ')}`);
+    this.name = 'MissingCredentialsError';
+    this.owner = owner;
+    this.tried = tried;
+  }
+}
+
+/**
+ * Human readable owner, e.g. "cabinet 3"
+ */
+export function describeOwner(owner: CredentialOwner): string {
+  switch (owner.kind) {
+    case 'default': return 'the default account';
+    case 'user': return `user ${owner.userId}`;
+    case 'cabinet': return `cabinet ${owner.cabinetId}`;
+  }
+}
+
+const isBlank = (value: unknown): boolean => typeof value !== 'string' || value.trim() === '';
+
+/**
+ * Build credentials from a key pair, or undefined if either half is empty
+ * @param authScheme - Declared signing scheme; blank means detect it from the secret
+ */
+function pair(apiKey: unknown, apiSecret: unknown, source: string, authScheme?: unknown): BybitCredentials | undefined {
+  if (isBlank(apiKey) || isBlank(apiSecret)) return undefined;
+  const credentials: BybitCredentials = { apiKey: (apiKey as string).trim(), apiSecret: (apiSecret as string).trim(), source };
+  if (!isBlank(authScheme)) credentials.authScheme = parseAuthScheme(authScheme as string);
+  return credentials;
+}
+
+/**
+ * Environment variables: BYBIT_API_KEY / BYBIT_API_SECRET for the default account,
+ * BYBIT_API_KEY_USER_<id> / BYBIT_API_SECRET_USER_<id> and
+ * BYBIT_API_KEY_CABINET_<id> / BYBIT_API_SECRET_CABINET_<id> for users and cabinets,
+ * optional BYBIT_API_AUTH_SCHEME<suffix> (HMAC or RSA) next to each pair
+ */
+export class EnvCredentialProvider implements CredentialProvider {
+  readonly name = 'env';
+
+  constructor(private env: Record<string, string | undefined> = process.env) {}
+
+  /**
+   * Variable name suffix of an owner
+   */
+  static suffix(owner: CredentialOwner): string {
+    switch (owner.kind) {
+      case 'default': return '';
+      case 'user': return `_USER_${owner.userId}`;
+      case 'cabinet': return `_CABINET_${owner.cabinetId}`;
+    }
+  }
+
+  async resolve(owner: CredentialOwner): Promise<BybitCredentials | undefined> {
+    const suffix = EnvCredentialProvider.suffix(owner);
+    return pair(
+      this.env[`BYBIT_API_KEY${suffix}`],
+      this.env[`BYBIT_API_SECRET${suffix}`],
+      `env BYBIT_API_KEY${suffix}`,
+      this.env[`BYBIT_API_AUTH_SCHEME${suffix}`]
+    );
+  }
+
+  describe(owner: CredentialOwner): string {
+    const suffix = EnvCredentialProvider.suffix(owner);
+    return `environment variables BYBIT_API_KEY${suffix} and BYBIT_API_SECRET${suffix}`;
+  }
+}
+
+/**
+ * Shape of the secrets file
+ */
+export interface SecretsFile {
+  default?: SecretsFileEntry;
+  users?: Record<string, SecretsFileEntry>;
+  cabinets?: Record<string, SecretsFileEntry>;
+}
+
+export interface SecretsFileEntry {
+  apiKey?: string;
+  apiSecret?: string;
+  authScheme?: BybitAuthScheme;
+}
+
+/**
+ * Default path of the secrets file, overridable with BYBIT_SECRETS_FILE
+ */
+export const DEFAULT_SECRETS_FILE = '.bybit-secrets.json';
+
+/**
+ * Local JSON file (see SecretsFile); kept out of git
+ */
+export class FileCredentialProvider implements CredentialProvider {
+  readonly name = 'file';
+  readonly filepath: string;
+
+  constructor(filepath: string = process.env.BYBIT_SECRETS_FILE || DEFAULT_SECRETS_FILE) {
+    this.filepath = path.resolve(filepath);
+  }
+
+  async resolve(owner: CredentialOwner): Promise<BybitCredentials | undefined> {
+    if (!fs.existsSync(this.filepath)) return undefined;
+
+    let secrets: SecretsFile;
+    try {
+      secrets = JSON.parse(fs.readFileSync(this.filepath, 'utf8'));
+    } catch (error: any) {
+      throw new Error(`Cannot read Bybit secrets file ${this.filepath}: ${error.message}`);
+    }
+
+    const entry = owner.kind === 'default' ? secrets.default
+      : owner.kind === 'user' ? secrets.users?.[String(owner.userId)]
+      : secrets.cabinets?.[String(owner.cabinetId)];
+    return pair(entry?.apiKey, entry?.apiSecret, `file ${this.filepath}`, entry?.authScheme);
+  }
+
+  describe(owner: CredentialOwner): string {
+    const key = owner.kind === 'default' ? 'default'
+      : owner.kind === 'user' ? `users.${owner.userId}` : `cabinets.${owner.cabinetId}`;
+    return `secrets file ${this.filepath} (${key})`;
+  }
+}
+
+/**
+ * bybitApiToken / bybitApiSecret columns of User and BybitCabinet, plus BybitCabinet.bybitAuthScheme.
+ * Encrypted secrets (see secret-box.ts) are decrypted here, so callers only ever see the plain key pair
+ */
+export class DatabaseCredentialProvider implements CredentialProvider {
+  readonly name = 'database';
+
+  /**
+   * @param prisma - Prisma client
+   * @param secretBox - Master keys for encrypted secrets; plaintext rows are read without it
+   */
+  constructor(private prisma: PrismaClient, private secretBox?: SecretBox) {}
+
+  async resolve(owner: CredentialOwner): Promise<BybitCredentials | undefined> {
+    if (owner.kind === 'default') return undefined;
+
+    const record: any = owner.kind === 'user'
+      ? await this.prisma.user.findUnique({ where: { id: owner.userId }, select: { bybitApiToken: true, bybitApiSecret: true } })
+      : await this.prisma.bybitCabinet.findUnique({
+          where: { id: owner.cabinetId },
+          select: { bybitApiToken: true, bybitApiSecret: true, bybitAuthScheme: true }
+        });
+    let secret = record?.bybitApiSecret;
+    if (isEncryptedSecret(secret)) {
+      if (!this.secretBox) {
+        throw new Error(`Bybit API secret of ${describeOwner(owner)} is encrypted, but no master key is configured (BYBIT_MASTER_KEY or BYBIT_MASTER_KEY_FILE)`);
+      }
+      secret = this.secretBox.decrypt(secret);
+    }
+    return pair(record?.bybitApiToken, secret, `database ${describeOwner(owner)}`, record?.bybitAuthScheme);
+  }
+
+  describe(owner: CredentialOwner): string {
+    return owner.kind === 'default'
+      ? 'database (only users and cabinets)'
+      : `database (${owner.kind === 'user' ? 'User' : 'BybitCabinet'}.bybitApiToken/bybitApiSecret)`;
+  }
+}
+
+/**
+ * Tries providers in order and returns the first credentials found
+ */
+export class ChainCredentialProvider implements CredentialProvider {
+  readonly name = 'chain';
+
+  constructor(readonly providers: CredentialProvider[]) {}
+
+  async resolve(owner: CredentialOwner): Promise<BybitCredentials | undefined> {
+    for (const provider of this.providers) {
+      const credentials = await provider.resolve(owner);
+      if (credentials) return credentials;
+    }
+    return undefined;
+  }
+
+  /**
+   * Like resolve(), but throws when nothing is configured
+   * @throws MissingCredentialsError listing every place that was checked
+   */
+  async require(owner: CredentialOwner = DEFAULT_OWNER): Promise<BybitCredentials> {
+    const credentials = await this.resolve(owner);
+    if (credentials) return credentials;
+    const tried = this.providers.map(provider => provider.describe?.(owner) ?? provider.name);
+    throw new MissingCredentialsError(owner, tried);
+  }
+}
+
+/**
+ * Environment first, then the secrets file, then the database when a Prisma client is given
+ * @param prisma - Prisma client for user and cabinet keys (optional)
+ * @param secretBox - Master keys for encrypted database secrets, loaded from the environment by default
+ */
+export function defaultCredentialProvider(prisma?: PrismaClient, secretBox: SecretBox | undefined = loadSecretBox()): ChainCredentialProvider {
+  const providers: CredentialProvider[] = [new EnvCredentialProvider(), new FileCredentialProvider()];
+  if (prisma) providers.push(new DatabaseCredentialProvider(prisma, secretBox));
+  return new ChainCredentialProvider(providers);
+}
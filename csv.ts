@@ -0,0 +1,247 @@
+/**
+ * RFC 4180 CSV reading and writing.
+ * Fields containing the delimiter, quotes or line breaks are quoted and inner
+ * quotes are doubled. Reading works on whole strings or incrementally on
+ * chunks, so large files can be streamed without loading them into memory.
+ */
+
+import fs from 'fs';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+/**
+ * Options shared by the reader and the writer
+ */
+export interface CsvOptions {
+  delimiter?: string; // default: ","
+  newline?: string; // line break written between records (default: "\r\n" as in RFC 4180)
+  quoteAll?: boolean; // quote every field, not only the ones that need it (default: false)
+  bom?: boolean; // write a UTF-8 byte order mark so Excel detects the encoding (default: false)
+}
+
+/**
+ * Error thrown for malformed CSV input
+ */
+export class CsvError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`CSV line ${line}: ${message}`);
+    this.name = 'CsvError';
+    this.line = line;
+  }
+}
+
+export const UTF8_BOM = '\uFEFF';
+
+/**
+ * Format a single field
+ * @param value - Field value; null and undefined become an empty field
+ * @param options - Delimiter and quoting options
+ * @returns Field ready to be joined into a record
+ */
+export function formatCsvField(value: unknown, options: CsvOptions = {}): string {
+  const delimiter = options.delimiter ?? ',';
+  const text = value === null || value === undefined ? '' : String(value);
+  const needsQuotes = options.quoteAll
+    || text.includes(delimiter)
+    || text.includes('"')
+    || text.includes('\n')
+    || text.includes('\r');
+  return needsQuotes ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format a record without the trailing line break
+ * @param values - Field values
+ * @param options - Delimiter and quoting options
+ */
+export function formatCsvRow(values: unknown[], options: CsvOptions = {}): string {
+  return values.map(value => formatCsvField(value, options)).join(options.delimiter ?? ',');
+}
+
+/**
+ * Format a whole document
+ * @param rows - Records, usually starting with the header
+ * @param options - Delimiter, quoting, line break and BOM options
+ */
+export function formatCsv(rows: unknown[][], options: CsvOptions = {}): string {
+  const newline = options.newline ?? '\r\n';
+  const body = rows.map(row => formatCsvRow(row, options) + newline).join('');
+  return (options.bom ? UTF8_BOM : '') + body;
+}
+
+/**
+ * Incremental RFC 4180 parser.
+ * Feed it chunks with push() and call end() after the last one; both return the records completed so far.
+ * Accepts CRLF and LF line breaks and skips a leading byte order mark.
+ */
+export class CsvParser {
+  private delimiter: string;
+  private field = '';
+  private record: string[] = [];
+  private inQuotes = false;
+  private quotePending = false; // a quote was seen inside a quoted field: either "" or the closing quote
+  private fieldWasQuoted = false;
+  private lastWasCR = false;
+  private started = false;
+  private line = 1;
+
+  constructor(options: CsvOptions = {}) {
+    this.delimiter = options.delimiter ?? ',';
+    if (this.delimiter.length !== 1 || this.delimiter === '"' || this.delimiter === '\r' || this.delimiter === '\n') {
+      throw new CsvError(`unsupported delimiter ${JSON.stringify(this.delimiter)}`, 0);
+    }
+  }
+
+  /**
+   * Parse the next chunk of text
+   * @returns Records completed in this chunk
+   */
+  push(chunk: string): string[][] {
+    const records: string[][] = [];
+    let text = chunk;
+    if (!this.started && text.length > 0) {
+      this.started = true;
+      if (text.startsWith(UTF8_BOM)) text = text.slice(1);
+    }
+
+    for (const char of text) {
+      if (this.lastWasCR) {
+        this.lastWasCR = false;
+        if (char === '\n') continue; // second half of CRLF
+      }
+
+      if (this.inQuotes) {
+        if (this.quotePending) {
+          this.quotePending = false;
+          if (char === '"') {
+            this.field += '"';
+            continue;
+          }
+          this.inQuotes = false; // the pending quote closed the field, handle char below
+        } else if (char === '"') {
+          this.quotePending = true;
+          continue;
+        } else {
+          if (char === '\n') this.line++;
+          this.field += char;
+          continue;
+        }
+      }
+
+      if (char === this.delimiter) {
+        this.endField();
+      } else if (char === '\r' || char === '\n') {
+        this.lastWasCR = char === '\r';
+        this.endField();
+        records.push(this.record);
+        this.record = [];
+        this.line++;
+      } else if (char === '"') {
+        if (this.field !== '' || this.fieldWasQuoted) {
+          throw new CsvError('unexpected quote inside an unquoted field', this.line);
+        }
+        this.inQuotes = true;
+        this.fieldWasQuoted = true;
+      } else {
+        if (this.fieldWasQuoted) {
+          throw new CsvError('unexpected text after a closing quote', this.line);
+        }
+        this.field += char;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Finish parsing after the last chunk
+   * @returns The last record if the input did not end with a line break
+   */
+  end(): string[][] {
+    if (this.inQuotes && !this.quotePending) {
+      throw new CsvError('unterminated quoted field', this.line);
+    }
+    this.inQuotes = false;
+    this.quotePending = false;
+
+    if (this.field === '' && this.record.length === 0 && !this.fieldWasQuoted) return [];
+    this.endField();
+    const record = this.record;
+    this.record = [];
+    return [record];
+  }
+
+  private endField(): void {
+    this.record.push(this.field);
+    this.field = '';
+    this.fieldWasQuoted = false;
+  }
+}
+
+/**
+ * Parse a whole CSV document
+ * @param text - CSV text
+ * @param options - Delimiter option
+ * @returns Records as arrays of fields
+ */
+export function parseCsv(text: string, options: CsvOptions = {}): string[][] {
+  const parser = new CsvParser(options);
+  return [...parser.push(text), ...parser.end()];
+}
+
+/**
+ * Read records from a stream of text or UTF-8 chunks
+ * @param chunks - Any async iterable of chunks, e.g. fs.createReadStream(path, 'utf8')
+ * @param options - Delimiter option
+ */
+export async function* readCsvRecords(chunks: AsyncIterable<string | Buffer>, options: CsvOptions = {}): AsyncGenerator<string[]> {
+  const parser = new CsvParser(options);
+  const decoder = new TextDecoder('utf-8');
+
+  for await (const chunk of chunks) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true });
+    yield* parser.push(text);
+  }
+  yield* parser.push(decoder.decode());
+  yield* parser.end();
+}
+
+/**
+ * Read records of a CSV file without loading it into memory
+ * @param filepath - Path to the file
+ * @param options - Delimiter option
+ */
+export function readCsvFile(filepath: string, options: CsvOptions = {}): AsyncGenerator<string[]> {
+  return readCsvRecords(fs.createReadStream(filepath), options);
+}
+
+/**
+ * Write records to a CSV file one by one, waiting for the stream to drain.
+ * Open and write errors reject the returned promise, also while the next row is awaited.
+ * @param filepath - Path to the file (overwritten)
+ * @param rows - Records, usually starting with the header
+ * @param options - Delimiter, quoting, line break and BOM options
+ * @returns Number of records written
+ */
+export async function writeCsvFile(
+  filepath: string,
+  rows: Iterable<unknown[]> | AsyncIterable<unknown[]>,
+  options: CsvOptions = {}
+): Promise<number> {
+  const newline = options.newline ?? '\r\n';
+  let count = 0;
+
+  async function* lines(): AsyncGenerator<string> {
+    if (options.bom) yield UTF8_BOM;
+    for await (const row of rows) {
+      yield formatCsvRow(row, options) + newline;
+      count++;
+    }
+  }
+
+  // pipeline слушает ошибки файла все время записи и учитывает заполнение буфера
+  await pipeline(Readable.from(lines()), fs.createWriteStream(filepath, { encoding: 'utf8' }));
+  return count;
+}
@@ -0,0 +1,290 @@
+/**
+ * Pluggable export formats for P2P orders: CSV (the BybitTransaction.csv
+ * layout), JSON Lines and XLSX with a summary sheet. Every exporter works on
+ * ExportRecord, which is built either from API results or from rows of
+ * BybitTransaction / BybitTransactionFromCabinet.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { BybitTransaction, BybitTransactionFromCabinet, PrismaClient } from '@prisma/client';
+import type { ProcessedData } from './bybit';
+import type { CsvOptions } from './csv';
+import { Decimal } from './money';
+import { isRecord, ORDER_STATUS_LABELS, OrderSide, parseStoredOrderStatus, type P2POrder, type P2POrderDetail } from './p2p-order';
+import {
+  formatBybitTransactionCsvRow,
+  orderToCsvSource,
+  writeBybitTransactionCsv,
+  type BybitTransactionCsvSource
+} from './transaction-csv';
+import { writeXlsx, type XlsxCellValue } from './xlsx';
+
+export type ExportFormat = 'csv' | 'jsonl' | 'xlsx';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonl', 'xlsx'];
+
+/**
+ * Order as exported, independent of where it was loaded from
+ */
+export interface ExportRecord extends BybitTransactionCsvSource {
+  originalData: unknown; // raw API order or the stored originalData
+}
+
+/**
+ * Totals of the summary sheet, as computed by BybitP2PParser.processTransactions
+ */
+export type ExportSummary = Pick<ProcessedData, 'summary' | 'byCoin'>;
+
+/**
+ * Owner of the stored rows to export
+ */
+export type ExportSource =
+  | { kind: 'user'; userId: number } // BybitTransaction
+  | { kind: 'cabinet'; cabinetId: number }; // BybitTransactionFromCabinet
+
+/**
+ * Writer of one export format
+ */
+export interface TransactionExporter {
+  readonly format: ExportFormat;
+  readonly extension: string;
+
+  /**
+   * Write records to a file, replacing it
+   * @param filepath - Path to the file
+   * @param records - Records to write
+   * @param summary - Totals for formats with a summary; computed from the records when omitted
+   * @returns Number of records written
+   */
+  write(filepath: string, records: ExportRecord[], summary?: ExportSummary): Promise<number>;
+}
+
+/**
+ * BybitTransaction.csv layout
+ */
+export class CsvTransactionExporter implements TransactionExporter {
+  readonly format = 'csv';
+  readonly extension = '.csv';
+
+  constructor(private options: CsvOptions = {}) {}
+
+  write(filepath: string, records: ExportRecord[]): Promise<number> {
+    return writeBybitTransactionCsv(filepath, records.map(formatBybitTransactionCsvRow), this.options);
+  }
+}
+
+/**
+ * One JSON object per line; money values are strings so they stay exact
+ */
+export class JsonLinesTransactionExporter implements TransactionExporter {
+  readonly format = 'jsonl';
+  readonly extension = '.jsonl';
+
+  async write(filepath: string, records: ExportRecord[]): Promise<number> {
+    const lines = records.map(record => JSON.stringify({
+      orderNo: record.orderNo,
+      userId: record.userId,
+      side: record.side === OrderSide.Buy ? 'BUY' : 'SELL',
+      status: record.statusLabel,
+      tokenId: record.tokenId,
+      currencyId: record.currencyId,
+      price: record.price,
+      tokenQuantity: record.tokenQuantity,
+      fiatAmount: record.fiatAmount,
+      fee: record.fee,
+      counterparty: record.counterparty,
+      dateTime: record.dateTime,
+      updatedAt: record.updatedAt,
+      originalData: record.originalData
+    }) + '\n');
+    await fs.promises.writeFile(filepath, lines.join(''), 'utf8');
+    return records.length;
+  }
+}
+
+/**
+ * Workbook with a "Transactions" sheet of typed numeric and date cells and a "Summary" sheet
+ */
+export class XlsxTransactionExporter implements TransactionExporter {
+  readonly format = 'xlsx';
+  readonly extension = '.xlsx';
+
+  async write(filepath: string, records: ExportRecord[], summary: ExportSummary = summarizeExportRecords(records)): Promise<number> {
+    const transactions: XlsxCellValue[][] = [
+      ['Order No.', 'Time', 'Updated', 'Type', 'Status', 'Cryptocurrency', 'Coin Amount', 'Price', 'Fiat Amount', 'Currency', 'Transaction Fees', 'Counterparty'],
+      ...records.map(record => [
+        record.orderNo, // номер заявки длиннее 15 цифр, поэтому остается текстом
+        record.dateTime,
+        record.updatedAt,
+        record.side === OrderSide.Buy ? 'BUY' : 'SELL',
+        record.statusLabel,
+        record.tokenId,
+        record.tokenQuantity.toNumber(),
+        record.price.toNumber(),
+        record.fiatAmount.toNumber(),
+        record.currencyId,
+        record.fee.toNumber(),
+        record.counterparty
+      ])
+    ];
+
+    const { buy, sell } = summary.summary;
+    const totals: XlsxCellValue[][] = [
+      ['Side', 'Orders', 'Fiat volume'],
+      ['Buy', buy.count, buy.volume.toNumber()],
+      ['Sell', sell.count, sell.volume.toNumber()],
+      ['Total', buy.count + sell.count, buy.volume.plus(sell.volume).toNumber()],
+      [],
+      ['Token', 'Side', 'Orders', 'Fiat volume', 'Token volume'],
+      ...Object.entries(summary.byCoin).flatMap(([token, sides]) => [
+        [token, 'Buy', sides.buy.count, sides.buy.volume.toNumber(), sides.buy.tokenVolume.toNumber()],
+        [token, 'Sell', sides.sell.count, sides.sell.volume.toNumber(), sides.sell.tokenVolume.toNumber()]
+      ])
+    ];
+
+    await fs.promises.writeFile(filepath, writeXlsx([
+      { name: 'Transactions', rows: transactions },
+      { name: 'Summary', rows: totals }
+    ]));
+    return records.length;
+  }
+}
+
+/**
+ * Create the exporter of a format
+ */
+export function createExporter(format: ExportFormat): TransactionExporter {
+  switch (format) {
+    case 'csv': return new CsvTransactionExporter();
+    case 'jsonl': return new JsonLinesTransactionExporter();
+    case 'xlsx': return new XlsxTransactionExporter();
+  }
+}
+
+/**
+ * Parse a format name given on the command line
+ */
+export function parseExportFormat(value: string): ExportFormat | undefined {
+  const format = value.trim().toLowerCase().replace(/^\./, '');
+  return EXPORT_FORMATS.find(candidate => candidate === format) ?? (format === 'json' ? 'jsonl' : undefined);
+}
+
+/**
+ * Detect the format from a file extension
+ */
+export function exportFormatFromPath(filepath: string): ExportFormat | undefined {
+  const extension = path.extname(filepath);
+  return extension ? parseExportFormat(extension) : undefined;
+}
+
+/**
+ * Build a record from an API order
+ * @param order - Decoded order
+ * @param detail - Order details; updatedAt falls back to the creation time when they are unknown
+ */
+export function exportRecordFromOrder(order: P2POrder, detail?: P2POrderDetail): ExportRecord {
+  return { ...orderToCsvSource(order, detail), originalData: order.raw };
+}
+
+/**
+ * Label of a stored status column value; unknown values are kept as they are
+ */
+function storedStatusLabel(value: string): string {
+  const status = parseStoredOrderStatus(String(value));
+  return status === undefined ? value : ORDER_STATUS_LABELS[status];
+}
+
+/**
+ * Columns of a BybitTransaction or BybitTransactionFromCabinet row that an export reads
+ */
+export type StoredTransactionRow = Pick<
+  BybitTransaction | BybitTransactionFromCabinet,
+  | 'orderNo'
+  | 'counterparty'
+  | 'status'
+  | 'amount'
+  | 'asset'
+  | 'dateTime'
+  | 'originalData'
+  | 'totalPrice'
+  | 'type'
+  | 'unitPrice'
+  | 'fee'
+  | 'fiatCurrency'
+  | 'completedAt'
+  | 'updatedAt'
+>;
+
+/**
+ * Build a record from a row of BybitTransaction or BybitTransactionFromCabinet
+ * @param row - Stored row
+ */
+export function exportRecordFromStoredRow(row: StoredTransactionRow): ExportRecord {
+  const original = isRecord(row.originalData) ? row.originalData : {};
+  const decimal = (value: unknown) => Decimal.tryFrom(value === null || value === undefined ? undefined : String(value)) ?? Decimal.ZERO;
+
+  return {
+    orderNo: row.orderNo,
+    userId: original.userId !== undefined ? String(original.userId) : '',
+    side: String(row.type).toUpperCase() === 'BUY' ? OrderSide.Buy : OrderSide.Sell,
+    statusLabel: storedStatusLabel(row.status),
+    tokenId: row.asset,
+    currencyId: row.fiatCurrency ?? (typeof original.currencyId === 'string' ? original.currencyId : ''),
+    price: decimal(row.unitPrice),
+    tokenQuantity: decimal(row.amount),
+    fiatAmount: decimal(row.totalPrice),
+    fee: decimal(row.fee),
+    counterparty: row.counterparty ?? '',
+    dateTime: row.dateTime,
+    updatedAt: row.completedAt ?? row.updatedAt ?? row.dateTime,
+    originalData: row.originalData ?? null
+  };
+}
+
+/**
+ * Load stored rows of a user or cabinet, oldest first
+ * @param prisma - Prisma client
+ * @param source - User or cabinet
+ * @param range - Optional bounds of dateTime
+ */
+export async function loadExportRecords(
+  prisma: PrismaClient,
+  source: ExportSource,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ExportRecord[]> {
+  const dateTime = range.from || range.to ? { dateTime: { gte: range.from, lte: range.to } } : {};
+  const rows: StoredTransactionRow[] = source.kind === 'user'
+    ? await prisma.bybitTransaction.findMany({ where: { userId: source.userId, ...dateTime }, orderBy: { dateTime: 'asc' } })
+    : await prisma.bybitTransactionFromCabinet.findMany({ where: { cabinetId: source.cabinetId, ...dateTime }, orderBy: { dateTime: 'asc' } });
+  return rows.map(exportRecordFromStoredRow);
+}
+
+/**
+ * Totals by side and by token, the same as BybitP2PParser.processTransactions computes for API orders
+ */
+export function summarizeExportRecords(records: ExportRecord[]): ExportSummary {
+  const result: ExportSummary = {
+    summary: {
+      buy: { count: 0, volume: Decimal.ZERO },
+      sell: { count: 0, volume: Decimal.ZERO }
+    },
+    byCoin: {}
+  };
+
+  for (const record of records) {
+    const side = record.side === OrderSide.Buy ? 'buy' : 'sell';
+    result.summary[side].count += 1;
+    result.summary[side].volume = result.summary[side].volume.plus(record.fiatAmount);
+
+    const coin = result.byCoin[record.tokenId] ??= {
+      buy: { count: 0, volume: Decimal.ZERO, tokenVolume: Decimal.ZERO },
+      sell: { count: 0, volume: Decimal.ZERO, tokenVolume: Decimal.ZERO }
+    };
+    coin[side].count += 1;
+    coin[side].volume = coin[side].volume.plus(record.fiatAmount);
+    coin[side].tokenVolume = coin[side].tokenVolume.plus(record.tokenQuantity);
+  }
+
+  return result;
+}
@@ -0,0 +1,19 @@
+import { DefaultCliEnvironment, runCli } from './cli';
+
+/**
+ * Импорт истории заявок из файла в базу данных
+ * Использование: bun run import-history.ts <файл.csv|файл.xlsx> (--user <id> | --cabinet <id>) [--utc-offset <минуты>] [--apply]
+ * Без --apply выводит только список изменений (dry run)
+ * То же, что bybitparser import
+ */
+const env = new DefaultCliEnvironment();
+runCli(['import', ...process.argv.slice(2)], env)
+  .then(async code => {
+    await env.close();
+    process.exit(code);
+  })
+  .catch(async error => {
+    console.error('Ошибка импорта:', error.message);
+    await env.close();
+    process.exit(1);
+  });
@@ -1,19 +1,21 @@
 import BybitP2PParser from './bybit';
-import fs from 'fs';
+import { defaultCredentialProvider } from './credentials';
+import { OrderStatus, type P2POrder, type P2POrderDetail } from './p2p-order';
+import { mergeIntoBybitTransactionCsv, toBybitTransactionCsvRow, writeBybitTransactionCsv } from './transaction-csv';
+import { createExporter, exportRecordFromOrder, parseExportFormat, type ExportFormat } from './exporters';
 import path from 'path';
 
 /**
  * Обработка и экспорт данных Bybit транзакций
  * Сохраняет только завершенные транзакции в требуемом формате
+ * @param overwrite - Перезаписать файл вместо добавления новых транзакций к уже сохраненным
+ * @param format - Формат выгрузки: csv (BybitTransaction.csv), jsonl или xlsx
  */
-async function processCompletedTransactions() {
-  // API ключи Bybit
-  const apiKey = '2KVut3JZrNzrbSK7bO';
-  const apiSecret = 'JAfkHwP7eZrbczPcOgGTvI8fU37YofwvRLuh';
-  
+async function processCompletedTransactions(overwrite: boolean = false, format: ExportFormat = 'csv') {
   try {
     console.log('Инициализация парсера Bybit P2P...');
-    const parser = new BybitP2PParser(apiKey, apiSecret);
+    // API ключи берутся из переменных окружения BYBIT_API_KEY/BYBIT_API_SECRET или файла .bybit-secrets.json
+    const parser = await BybitP2PParser.fromCredentials(defaultCredentialProvider());
     
     // Синхронизация времени с сервером Bybit
     await parser.syncTime();
@@ -21,11 +23,11 @@ async function processCompletedTransactions() {
     // Пробуем сначала запрос без параметров времени
     console.log('Получение завершенных P2P транзакций из API Bybit (без параметров времени)...');
     
-    // Указываем статус 50 (Completed) для фильтрации при запросе к API
-    const completedStatus = [50]; // 50 = Completed в API Bybit
+    // Фильтруем по статусу Completed при запросе к API
+    const completedStatus = [OrderStatus.Completed];
     
     // Объявляем переменную для хранения транзакций
-    let completedTransactions: any[] = [];
+    let completedTransactions: P2POrder[] = [];
 
     try {
       // Стратегия 1: Пробуем без параметров времени
@@ -80,90 +82,38 @@ async function processCompletedTransactions() {
     }
     
     // Путь к файлу для сохранения
-    const outputFilePath = path.join(__dirname, 'BybitTransaction.csv');
+    const outputFilePath = path.join(__dirname, `BybitTransaction.${format}`);
     
-    // Проверяем существование файла и создаем/добавляем данные
-    let existingTransactions: any[] = [];
-    let headers = 'id,orderNo,counterparty,status,userId,createdAt,updatedAt,amount,asset,dateTime,originalData,totalPrice,type,unitPrice';
-    
-    if (fs.existsSync(outputFilePath)) {
-      // Если файл существует, читаем его
-      console.log('Файл CSV существует, чтение данных...');
-      const fileContent = fs.readFileSync(outputFilePath, 'utf8');
-      const lines = fileContent.split('\n');
-      
-      // Получаем заголовки из файла
-      headers = lines[0];
-      
-      // Пропускаем заголовок, парсим только строки с данными
-      if (lines.length > 1) {
-        existingTransactions = lines.slice(1)
-          .filter(line => line.trim() !== '')
-          .map(line => {
-            const values = line.split(',');
-            return {
-              id: values[0].replace(/"/g, ''),
-              orderNo: values[1].replace(/"/g, ''),
-            };
-          });
+    // Получаем детали заявок для времени последнего изменения статуса
+    const details = new Map<string, P2POrderDetail>();
+    for (const tx of completedTransactions) {
+      try {
+        details.set(tx.id, await parser.getOrderInfo(tx.id));
+      } catch (error: any) {
+        console.error(`Не удалось получить детали заявки ${tx.id}:`, error.message);
       }
     }
     
-    // Форматирование транзакций по требуемому формату
-    const formattedRows = completedTransactions.map(tx => {
-      // Преобразование даты
-      const createDate = new Date(parseInt(tx.createDate));
-      const formattedDate = createDate.toISOString().replace('T', ' ').slice(0, 19);
-      
-      // Вычисление цены
-      const amount = parseFloat(tx.amount);
-      const unitPrice = parseFloat(tx.price);
-      const totalPrice = (amount * unitPrice).toFixed(2);
-      
-      // Тип операции
-      const type = tx.side === 0 ? 'BUY' : 'SELL';
-      
-      // Создание оригинальных данных в требуемом формате
-      const originalData = {
-        "Time": formattedDate,
-        "Type": type,
-        "Price": unitPrice.toString(),
-        "Status": "Completed",
-        "Currency": "RUB",
-        "Order No.": tx.id,
-        "Currency_1": "RUB",
-        "Coin Amount": amount.toString(),
-        "Fiat Amount": totalPrice,
-        "p2p-convert": "no",
-        "Counterparty": tx.targetNickName,
-        "Cryptocurrency": tx.tokenId,
-        "Cryptocurrency_1": tx.tokenId,
-        "Transaction Fees": "0"
-      };
-      
-      return [
-        `"${tx.id}"`,
-        `"${tx.id}"`,
-        `"${tx.targetNickName}"`,
-        `"completed"`,
-        `"${tx.userId}"`,
-        `"${createDate.toISOString().replace('T', ' ').slice(0, 23)}"`,
-        `"${createDate.toISOString().replace('T', ' ').slice(0, 23)}"`,
-        `"${amount}"`,
-        `"${tx.tokenId}"`,
-        `"${createDate.toISOString().replace('T', ' ').slice(0, 23)}"`,
-        `"${JSON.stringify(originalData)}"`,
-        `"${totalPrice}"`,
-        `"${type}"`,
-        `"${unitPrice}"`,
-      ].join(',');
-    });
+    if (format !== 'csv') {
+      // JSON Lines и XLSX всегда содержат только полученные транзакции; итоги XLSX считаются processTransactions
+      const records = completedTransactions.map(tx => exportRecordFromOrder(tx, details.get(tx.id)));
+      const written = await createExporter(format).write(outputFilePath, records, parser.processTransactions(completedTransactions));
+      console.log(`Экспорт успешно завершен! Сохранено ${written} транзакций в ${outputFilePath}`);
+      return;
+    }
     
-    // Запись данных в файл
-    const csvContent = [headers, ...formattedRows].join('\n');
-    fs.writeFileSync(outputFilePath, csvContent);
+    // Форматирование транзакций по общей схеме BybitTransaction.csv
+    const rows = completedTransactions.map(tx => toBybitTransactionCsvRow(tx, details.get(tx.id)));
     
-    console.log(`Экспорт успешно завершен! Сохранено ${formattedRows.length} транзакций в ${outputFilePath}`);
+    if (overwrite) {
+      // Полная перезапись файла только полученными транзакциями
+      const written = await writeBybitTransactionCsv(outputFilePath, rows);
+      console.log(`Экспорт успешно завершен! Сохранено ${written} транзакций в ${outputFilePath}`);
+    } else {
+      // Добавляем новые транзакции к файлу по orderNo, сохраняя ранее выгруженные
+      const merge = await mergeIntoBybitTransactionCsv(outputFilePath, rows);
+      console.log(`Экспорт успешно завершен! Добавлено: ${merge.added}, обновлено: ${merge.updated}, без изменений: ${merge.unchanged}. Всего ${merge.rows.length} транзакций в ${outputFilePath}`);
+    }
     
   } catch (error: any) {
     console.error('Ошибка при обработке транзакций:', error.message);
@@ -171,4 +121,12 @@ async function processCompletedTransactions() {
 }
 
 // Запуск обработки транзакций
-processCompletedTransactions();
\ No newline at end of file
+// --overwrite включает полную перезапись файла, --format csv|jsonl|xlsx выбирает формат выгрузки
+const formatIndex = process.argv.indexOf('--format');
+const format = formatIndex >= 0 ? parseExportFormat(process.argv[formatIndex + 1] ?? '') : 'csv';
+if (format) {
+  processCompletedTransactions(process.argv.includes('--overwrite'), format);
+} else {
+  console.error('Неизвестный формат выгрузки, допустимые значения: csv, jsonl, xlsx');
+  process.exitCode = 2;
+}
\ No newline at end of file
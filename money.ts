@@ -0,0 +1,313 @@
+/**
+ * Exact decimal arithmetic for money values.
+ * Token quantities, unit prices, fiat totals and fees are kept as Decimal
+ * (a bigint of units plus a scale) so sums never drift the way binary
+ * floating point does. Rounding happens only where a rule says so.
+ */
+
+/**
+ * How digits beyond the target scale are dropped
+ */
+export type RoundingMode =
+  | 'half-up' // 0.125 -> 0.13, -0.125 -> -0.13
+  | 'half-even' // 0.125 -> 0.12, 0.135 -> 0.14
+  | 'down' // towards zero
+  | 'up'; // away from zero
+
+/**
+ * Rounding rule of a currency or token
+ */
+export interface RoundingRule {
+  scale: number; // digits after the decimal point
+  mode: RoundingMode;
+}
+
+/**
+ * Error thrown for values that are not valid decimals and for division by zero
+ */
+export class DecimalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DecimalError';
+  }
+}
+
+const DECIMAL_PATTERN = /^([+-])?(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+const absBigInt = (value: bigint): bigint => value < 0n ? -value : value;
+
+/**
+ * Divide two bigints and round the quotient
+ */
+function divideRounded(numerator: bigint, denominator: bigint, mode: RoundingMode): bigint {
+  const quotient = numerator / denominator;
+  const remainder = numerator % denominator;
+  if (remainder === 0n) return quotient;
+
+  const sign = (numerator < 0n) !== (denominator < 0n) ? -1n : 1n;
+  const twice = absBigInt(remainder) * 2n;
+  const divisor = absBigInt(denominator);
+
+  let awayFromZero: boolean;
+  switch (mode) {
+    case 'down': awayFromZero = false; break;
+    case 'up': awayFromZero = true; break;
+    case 'half-up': awayFromZero = twice >= divisor; break;
+    case 'half-even': awayFromZero = twice > divisor || (twice === divisor && absBigInt(quotient) % 2n === 1n); break;
+  }
+  return awayFromZero ? quotient + sign : quotient;
+}
+
+/**
+ * Immutable exact decimal number
+ */
+export class Decimal {
+  static readonly ZERO = new Decimal(0n, 0);
+
+  readonly units: bigint; // value multiplied by 10^scale
+  readonly scale: number;
+
+  private constructor(units: bigint, scale: number) {
+    // Trailing zeros are dropped so equal values always have the same representation
+    while (scale > 0 && units % 10n === 0n) {
+      units /= 10n;
+      scale--;
+    }
+    this.units = units;
+    this.scale = scale;
+  }
+
+  /**
+   * Create a decimal from a string ("85.29", "1e-8"), a finite number or another decimal.
+   * Numbers are converted through their shortest string form, so 0.1 becomes exactly 0.1.
+   */
+  static from(value: Decimal | string | number | bigint): Decimal {
+    if (value instanceof Decimal) return value;
+    if (typeof value === 'bigint') return new Decimal(value, 0);
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      throw new DecimalError(`Not a finite number: ${value}`);
+    }
+
+    const text = String(value).trim();
+    const match = DECIMAL_PATTERN.exec(text);
+    if (!match || (!match[2] && !match[3])) {
+      throw new DecimalError(`Not a decimal number: "${text}"`);
+    }
+
+    const [, sign, integer = '', fraction = '', exponentText] = match;
+    const exponent = exponentText ? Number(exponentText) : 0;
+    let units = BigInt((integer + fraction) || '0');
+    let scale = fraction.length - exponent;
+    if (scale < 0) {
+      units *= pow10(-scale);
+      scale = 0;
+    }
+    return new Decimal(sign === '-' ? -units : units, scale);
+  }
+
+  /**
+   * Like from(), but returns undefined instead of throwing
+   */
+  static tryFrom(value: unknown): Decimal | undefined {
+    if (!(value instanceof Decimal) && typeof value !== 'string' && typeof value !== 'number' && typeof value !== 'bigint') {
+      return undefined;
+    }
+    try {
+      return Decimal.from(value);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Sum of several values
+   */
+  static sum(values: Iterable<Decimal | string | number>): Decimal {
+    let total = Decimal.ZERO;
+    for (const value of values) total = total.plus(value);
+    return total;
+  }
+
+  /** Units of this value at a larger scale */
+  private unitsAt(scale: number): bigint {
+    return this.units * pow10(scale - this.scale);
+  }
+
+  plus(other: Decimal | string | number): Decimal {
+    const value = Decimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    return new Decimal(this.unitsAt(scale) + value.unitsAt(scale), scale);
+  }
+
+  minus(other: Decimal | string | number): Decimal {
+    return this.plus(Decimal.from(other).negated());
+  }
+
+  times(other: Decimal | string | number): Decimal {
+    const value = Decimal.from(other);
+    return new Decimal(this.units * value.units, this.scale + value.scale);
+  }
+
+  /**
+   * Divide and round the result
+   * @param other - Divisor
+   * @param scale - Digits after the decimal point of the result
+   * @param mode - Rounding mode (default: half-even)
+   */
+  dividedBy(other: Decimal | string | number, scale: number, mode: RoundingMode = 'half-even'): Decimal {
+    const value = Decimal.from(other);
+    if (value.units === 0n) throw new DecimalError('Division by zero');
+
+    // this / value * 10^scale = (units_a * 10^(scale + scale_b - scale_a)) / units_b
+    const shift = scale + value.scale - this.scale;
+    const numerator = shift >= 0 ? this.units * pow10(shift) : this.units;
+    const denominator = shift >= 0 ? value.units : value.units * pow10(-shift);
+    return new Decimal(divideRounded(numerator, denominator, mode), scale);
+  }
+
+  negated(): Decimal {
+    return new Decimal(-this.units, this.scale);
+  }
+
+  abs(): Decimal {
+    return this.units < 0n ? this.negated() : this;
+  }
+
+  /**
+   * Round to the given number of digits after the decimal point
+   */
+  round(scale: number, mode: RoundingMode = 'half-up'): Decimal {
+    if (this.scale <= scale) return this;
+    return new Decimal(divideRounded(this.units, pow10(this.scale - scale), mode), scale);
+  }
+
+  compare(other: Decimal | string | number): -1 | 0 | 1 {
+    const value = Decimal.from(other);
+    const scale = Math.max(this.scale, value.scale);
+    const a = this.unitsAt(scale);
+    const b = value.unitsAt(scale);
+    return a === b ? 0 : a < b ? -1 : 1;
+  }
+
+  eq(other: Decimal | string | number): boolean {
+    return this.compare(other) === 0;
+  }
+
+  lt(other: Decimal | string | number): boolean {
+    return this.compare(other) < 0;
+  }
+
+  gt(other: Decimal | string | number): boolean {
+    return this.compare(other) > 0;
+  }
+
+  isZero(): boolean {
+    return this.units === 0n;
+  }
+
+  isNegative(): boolean {
+    return this.units < 0n;
+  }
+
+  /**
+   * Plain notation with exactly `scale` digits after the decimal point
+   */
+  toFixed(scale: number, mode: RoundingMode = 'half-up'): string {
+    const rounded = this.round(scale, mode);
+    const digits = absBigInt(rounded.unitsAt(scale)).toString().padStart(scale + 1, '0');
+    const integer = digits.slice(0, digits.length - scale);
+    const fraction = scale > 0 ? `.${digits.slice(digits.length - scale)}` : '';
+    return `${rounded.units < 0n ? '-' : ''}${integer}${fraction}`;
+  }
+
+  /**
+   * Shortest plain notation, e.g. "442143.36" or "5184"
+   */
+  toString(): string {
+    return this.toFixed(this.scale);
+  }
+
+  /**
+   * Nearest binary floating point value, for display and charts only
+   */
+  toNumber(): number {
+    return Number(this.toString());
+  }
+
+  /**
+   * Decimals are serialized as strings so JSON output stays exact
+   */
+  toJSON(): string {
+    return this.toString();
+  }
+}
+
+/**
+ * Rounding of fiat amounts by currency. Accounting amounts are rounded half-up to the smallest unit.
+ */
+export const FIAT_ROUNDING: Record<string, RoundingRule> = {
+  RUB: { scale: 2, mode: 'half-up' },
+  USD: { scale: 2, mode: 'half-up' },
+  EUR: { scale: 2, mode: 'half-up' },
+  KZT: { scale: 2, mode: 'half-up' },
+  UAH: { scale: 2, mode: 'half-up' },
+  BYN: { scale: 2, mode: 'half-up' },
+  TRY: { scale: 2, mode: 'half-up' },
+  JPY: { scale: 0, mode: 'half-up' },
+  KRW: { scale: 0, mode: 'half-up' },
+  VND: { scale: 0, mode: 'half-up' }
+};
+
+/**
+ * Rounding of token quantities. Quantities are truncated: Bybit never credits fractions below the token precision.
+ */
+export const TOKEN_ROUNDING: Record<string, RoundingRule> = {
+  USDT: { scale: 4, mode: 'down' },
+  USDC: { scale: 4, mode: 'down' },
+  BTC: { scale: 8, mode: 'down' },
+  ETH: { scale: 8, mode: 'down' }
+};
+
+export const DEFAULT_FIAT_ROUNDING: RoundingRule = { scale: 2, mode: 'half-up' };
+export const DEFAULT_TOKEN_ROUNDING: RoundingRule = { scale: 8, mode: 'down' };
+
+/**
+ * Round a fiat amount by the rule of its currency
+ * @param value - Amount
+ * @param currencyId - Fiat currency code, e.g. RUB
+ */
+export function roundFiat(value: Decimal | string | number, currencyId: string): Decimal {
+  const rule = FIAT_ROUNDING[currencyId.toUpperCase()] ?? DEFAULT_FIAT_ROUNDING;
+  return Decimal.from(value).round(rule.scale, rule.mode);
+}
+
+/**
+ * Round a token quantity by the rule of its token
+ * @param value - Quantity
+ * @param tokenId - Token code, e.g. USDT
+ */
+export function roundToken(value: Decimal | string | number, tokenId: string): Decimal {
+  const rule = TOKEN_ROUNDING[tokenId.toUpperCase()] ?? DEFAULT_TOKEN_ROUNDING;
+  return Decimal.from(value).round(rule.scale, rule.mode);
+}
+
+/**
+ * Format a fiat amount with exactly the number of digits of its currency, e.g. "442143.30"
+ * @param value - Amount
+ * @param currencyId - Fiat currency code
+ */
+export function formatFiat(value: Decimal | string | number, currencyId: string): string {
+  const rule = FIAT_ROUNDING[currencyId.toUpperCase()] ?? DEFAULT_FIAT_ROUNDING;
+  return Decimal.from(value).toFixed(rule.scale, rule.mode);
+}
+
+/**
+ * Fiat total of a token quantity at a unit price, rounded by the currency rule
+ * @param quantity - Token quantity
+ * @param price - Unit price in fiat
+ * @param currencyId - Fiat currency code
+ */
+export function fiatTotal(quantity: Decimal | string | number, price: Decimal | string | number, currencyId: string): Decimal {
+  return roundFiat(Decimal.from(quantity).times(price), currencyId);
+}
@@ -0,0 +1,171 @@
+/**
+ * Actions on P2P orders (mark paid, release, chat messages and files).
+ * Holds input validation, the process-wide release guard and the audit trail
+ * written to the AuditLog model for every attempted action; a parser refuses
+ * order actions while no audit trail is configured.
+ * Cancelling is not an action here: the P2P API has no endpoint for it, orders
+ * are cancelled by the buyer in the Bybit app or by Bybit when the payment time runs out.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+
+/**
+ * Action performed on an order
+ */
+export type OrderAction = 'markPaid' | 'release' | 'sendMessage' | 'uploadFile';
+
+/**
+ * Content types accepted by /v5/p2p/order/message/send
+ */
+export type ChatContentType = 'str' | 'pic' | 'pdf' | 'video';
+
+/**
+ * File extensions accepted by /v5/p2p/oss/upload_file and the chat content type they are sent as
+ */
+export const CHAT_FILE_TYPES: Record<string, ChatContentType> = {
+  jpg: 'pic',
+  jpeg: 'pic',
+  png: 'pic',
+  pdf: 'pdf',
+  mp4: 'video'
+};
+
+/**
+ * Audit record of a single order action
+ */
+export interface OrderActionAuditEntry {
+  action: OrderAction;
+  orderNo: string;
+  success: boolean;
+  params: Record<string, unknown>; // request parameters (file contents excluded)
+  previousStatus?: number; // order status before the action, when it was checked
+  result?: unknown; // API result on success
+  error?: string; // error message on failure
+}
+
+/**
+ * Storage of order action audit records
+ */
+export interface OrderActionAudit {
+  /** Whether the action has already succeeded for the order */
+  hasSucceeded(orderNo: string, action: OrderAction): Promise<boolean>;
+  /** Store an audit record */
+  record(entry: OrderActionAuditEntry): Promise<void>;
+}
+
+/**
+ * Error thrown when an order action is rejected before reaching the API
+ */
+export class OrderActionError extends Error {
+  action: OrderAction;
+  orderNo: string;
+
+  constructor(action: OrderAction, orderNo: string, message: string) {
+    super(`Cannot ${action} order ${orderNo}: ${message}`);
+    this.name = 'OrderActionError';
+    this.action = action;
+    this.orderNo = orderNo;
+  }
+}
+
+/**
+ * Check that an order number looks like a Bybit order id
+ * @param action - Action being validated
+ * @param orderNo - Order number
+ */
+export function assertOrderNo(action: OrderAction, orderNo: string): void {
+  if (typeof orderNo !== 'string' || !/^\d{1,32}$/.test(orderNo)) {
+    throw new OrderActionError(action, String(orderNo), 'order number must be a non-empty string of digits');
+  }
+}
+
+/**
+ * Chat content type of a file by its name
+ * @param fileName - File name with extension
+ * @returns Content type or undefined when the extension is not supported
+ */
+export function getChatFileType(fileName: string): ChatContentType | undefined {
+  const extension = fileName.split('.').pop()?.toLowerCase() ?? '';
+  return fileName.includes('.') ? CHAT_FILE_TYPES[extension] : undefined;
+}
+
+/**
+ * Guard against releasing the same order twice from this process.
+ * Shared by all parser instances: a release that is in flight or already done
+ * is never sent again, even when the parsers were created for the same key separately.
+ */
+export class ReleaseGuard {
+  private released = new Set<string>();
+  private inFlight = new Map<string, Promise<boolean>>();
+
+  /**
+   * Run a release once per order number
+   * @param orderNo - Order number
+   * @param release - Performs the release, resolves to true when the order was released by this call
+   * @returns Result of the first call; false for orders that were already released
+   */
+  run(orderNo: string, release: () => Promise<boolean>): Promise<boolean> {
+    if (this.released.has(orderNo)) return Promise.resolve(false);
+
+    const pending = this.inFlight.get(orderNo);
+    if (pending) return pending.then(() => false);
+
+    const promise = release()
+      .then(result => {
+        this.released.add(orderNo);
+        return result;
+      })
+      .finally(() => this.inFlight.delete(orderNo));
+    this.inFlight.set(orderNo, promise);
+    return promise;
+  }
+}
+
+/**
+ * Release guard shared by all parser instances in the process
+ */
+export const sharedReleaseGuard = new ReleaseGuard();
+
+/**
+ * Order action audit stored in the AuditLog model.
+ * Records use entityType "BybitOrder" and keep the order number in entityKey
+ * because Bybit order numbers do not fit into the integer entityId.
+ */
+export class PrismaOrderActionAudit implements OrderActionAudit {
+  static readonly ENTITY_TYPE = 'BybitOrder';
+
+  /**
+   * @param prisma - Prisma client
+   * @param userId - User who performs the actions
+   */
+  constructor(private prisma: PrismaClient, private userId: number) {}
+
+  async hasSucceeded(orderNo: string, action: OrderAction): Promise<boolean> {
+    const entry = await this.prisma.auditLog.findFirst({
+      where: {
+        entityType: PrismaOrderActionAudit.ENTITY_TYPE,
+        entityKey: orderNo,
+        AND: [
+          { newValue: { path: ['action'], equals: action } },
+          { newValue: { path: ['success'], equals: true } }
+        ]
+      },
+      select: { id: true }
+    });
+    return entry !== null;
+  }
+
+  async record(entry: OrderActionAuditEntry): Promise<void> {
+    await this.prisma.auditLog.create({
+      data: {
+        entityType: PrismaOrderActionAudit.ENTITY_TYPE,
+        entityId: 0,
+        entityKey: entry.orderNo,
+        action: entry.action === 'sendMessage' || entry.action === 'uploadFile' ? 'CREATE' : 'UPDATE',
+        userId: this.userId,
+        oldValue: entry.previousStatus === undefined ? undefined : { status: entry.previousStatus },
+        newValue: JSON.parse(JSON.stringify(entry))
+      }
+    });
+  }
+}
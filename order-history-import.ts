@@ -0,0 +1,454 @@
+/**
+ * Import of P2P order history files into BybitTransaction / BybitTransactionFromCabinet.
+ * Accepts the order history Bybit lets users download (CSV or XLSX) and our
+ * own BybitTransaction.csv. Orders are matched on orderNo: a plan lists the
+ * rows to create and the fields to change, so it can be reviewed as a dry
+ * run before anything is written.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import { parseCsv } from './csv';
+import { Decimal } from './money';
+import { FieldReader, OrderSide, OrderStatus, ORDER_STATUS_LABELS, storedOrderStatus, storedOrderType, type DecodeIssue } from './p2p-order';
+import { BYBIT_TRANSACTION_COLUMNS, loadBybitTransactionCsv } from './transaction-csv';
+import { excelSerialToDate, readXlsx } from './xlsx';
+
+/**
+ * Layout of an order history file
+ */
+export type OrderHistoryFormat =
+  | 'bybit' // order history downloaded from the Bybit web interface
+  | 'ledger'; // BybitTransaction.csv written by index.ts
+
+/**
+ * Order read from a history file
+ */
+export interface ImportedOrder {
+  orderNo: string;
+  side: OrderSide;
+  status: OrderStatus;
+  tokenId: string;
+  currencyId: string;
+  price: Decimal;
+  tokenQuantity: Decimal;
+  fiatAmount: Decimal;
+  fee?: Decimal; // undefined when the file has no fee column
+  counterparty?: string;
+  dateTime: Date;
+  originalData: Record<string, unknown>; // the file row by column name
+  line: number; // line of the file, for messages
+}
+
+/**
+ * Row that could not be imported
+ */
+export interface RejectedHistoryRow {
+  line: number;
+  issues: DecodeIssue[];
+}
+
+export interface OrderHistoryParseResult {
+  format: OrderHistoryFormat;
+  orders: ImportedOrder[];
+  rejected: RejectedHistoryRow[];
+  duplicates: number; // rows repeating an orderNo seen earlier in the file; the last one wins
+}
+
+export interface OrderHistoryParseOptions {
+  utcOffsetMinutes?: number; // offset of the times in a Bybit file from UTC (default: 0)
+}
+
+/**
+ * Table and owner the orders are imported for
+ */
+export type ImportTarget =
+  | { kind: 'user'; userId: number } // BybitTransaction
+  | { kind: 'cabinet'; cabinetId: number }; // BybitTransactionFromCabinet
+
+export interface ImportFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+/**
+ * What an import would do, computed without writing anything
+ */
+export interface OrderImportPlan {
+  target: ImportTarget;
+  create: ImportedOrder[];
+  update: Array<{ id: number; order: ImportedOrder; changes: ImportFieldChange[] }>;
+  unchanged: ImportedOrder[];
+  conflicts: Array<{ order: ImportedOrder; ownerId: number }>; // orderNo already stored for another user or cabinet
+}
+
+export interface OrderImportResult {
+  created: number;
+  updated: number;
+  failed: Array<{ orderNo: string; message: string }>;
+}
+
+/**
+ * Columns of the Bybit order history file.
+ * Repeated headers (Currency, Cryptocurrency) get a numeric suffix, as in the originalData written by index.ts.
+ */
+const BYBIT_COLUMNS = {
+  orderNo: 'Order No.',
+  type: 'Type',
+  price: 'Price',
+  status: 'Status',
+  currency: 'Currency',
+  token: 'Cryptocurrency',
+  tokenQuantity: 'Coin Amount',
+  fiatAmount: 'Fiat Amount',
+  fee: 'Transaction Fees',
+  counterparty: 'Counterparty',
+  time: 'Time'
+} as const;
+
+const STATUS_BY_TEXT = new Map<string, OrderStatus>([
+  ...Object.entries(ORDER_STATUS_LABELS).map(([code, label]): [string, OrderStatus] => [label.toLowerCase(), Number(code)]),
+  ['canceled', OrderStatus.Cancelled],
+  ['cancelled by system', OrderStatus.Cancelled]
+]);
+
+const CHUNK_SIZE = 500;
+
+/**
+ * Give repeated header names a suffix: Currency, Currency_1, Currency_2...
+ */
+function uniqueHeaders(header: string[]): string[] {
+  const seen = new Map<string, number>();
+  return header.map(name => {
+    const trimmed = name.trim();
+    const count = seen.get(trimmed) ?? 0;
+    seen.set(trimmed, count + 1);
+    return count === 0 ? trimmed : `${trimmed}_${count}`;
+  });
+}
+
+/**
+ * Parse a date of the file: "2025-04-08 04:20:46[.000]" or an Excel serial number
+ * @returns UTC date or undefined when the value is not a date
+ */
+function parseHistoryTime(value: string, utcOffsetMinutes: number): Date | undefined {
+  const text = value.trim();
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return new Date(excelSerialToDate(Number(text)).getTime() - utcOffsetMinutes * 60000);
+  }
+  const match = /^(\d{4})-(\d{2})-(\d{2})[ T](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/.exec(text);
+  if (!match) return undefined;
+  const [, year, month, day, hours, minutes, seconds = '0', millis = '0'] = match;
+  const utc = Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hours), Number(minutes), Number(seconds), Number(millis.padEnd(3, '0')));
+  return new Date(utc - utcOffsetMinutes * 60000);
+}
+
+/**
+ * Read the side, status and time that need more than FieldReader offers
+ */
+function readCommonFields(
+  read: FieldReader,
+  fields: { type: string; status: string; time: string },
+  utcOffsetMinutes: number
+): { side: OrderSide; status: OrderStatus; dateTime: Date } {
+  const type = read.string(fields.type).toUpperCase();
+  const side = type === 'BUY' ? OrderSide.Buy : OrderSide.Sell;
+  if (type && type !== 'BUY' && type !== 'SELL') {
+    read.issues.push({ field: fields.type, problem: 'malformed', value: read.raw[fields.type] });
+  }
+
+  const statusText = read.string(fields.status);
+  const status = STATUS_BY_TEXT.get(statusText.toLowerCase()) ?? OrderStatus.Completed;
+  if (statusText && !STATUS_BY_TEXT.has(statusText.toLowerCase())) {
+    read.issues.push({ field: fields.status, problem: 'malformed', value: statusText });
+  }
+
+  const timeText = read.string(fields.time);
+  const dateTime = parseHistoryTime(timeText, utcOffsetMinutes) ?? new Date(0);
+  if (timeText && dateTime.getTime() === 0) {
+    read.issues.push({ field: fields.time, problem: 'malformed', value: timeText });
+  }
+
+  return { side, status, dateTime };
+}
+
+/**
+ * Map a row of the Bybit order history file
+ */
+function readBybitRow(row: Record<string, string>, line: number, utcOffsetMinutes: number): { order: ImportedOrder; issues: DecodeIssue[] } {
+  // Суммы в выгрузке могут содержать разделители тысяч: "442,143.36"
+  const numeric = (column: string) => row[column]?.replace(/[,\s]/g, '');
+  const read = new FieldReader({
+    ...row,
+    [BYBIT_COLUMNS.price]: numeric(BYBIT_COLUMNS.price),
+    [BYBIT_COLUMNS.tokenQuantity]: numeric(BYBIT_COLUMNS.tokenQuantity),
+    [BYBIT_COLUMNS.fiatAmount]: numeric(BYBIT_COLUMNS.fiatAmount),
+    [BYBIT_COLUMNS.fee]: numeric(BYBIT_COLUMNS.fee)
+  });
+
+  const order: ImportedOrder = {
+    orderNo: read.string(BYBIT_COLUMNS.orderNo),
+    ...readCommonFields(read, BYBIT_COLUMNS, utcOffsetMinutes),
+    tokenId: read.string(BYBIT_COLUMNS.token),
+    currencyId: read.string(BYBIT_COLUMNS.currency),
+    price: read.decimal(BYBIT_COLUMNS.price),
+    tokenQuantity: read.decimal(BYBIT_COLUMNS.tokenQuantity),
+    fiatAmount: read.decimal(BYBIT_COLUMNS.fiatAmount),
+    fee: BYBIT_COLUMNS.fee in row ? read.optionalDecimal(BYBIT_COLUMNS.fee) : undefined,
+    counterparty: read.optionalString(BYBIT_COLUMNS.counterparty),
+    originalData: row,
+    line
+  };
+
+  return { order, issues: read.issues };
+}
+
+/**
+ * Map a row of BybitTransaction.csv; currency and fee come from its originalData
+ */
+function readLedgerRow(row: Record<string, string>, line: number): { order: ImportedOrder; issues: DecodeIssue[] } {
+  const read = new FieldReader(row);
+  let originalData: Record<string, unknown> = {};
+  try {
+    const parsed = JSON.parse(row.originalData || '{}');
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) originalData = parsed;
+  } catch {
+    read.issues.push({ field: 'originalData', problem: 'malformed', value: row.originalData });
+  }
+  const original = new FieldReader(originalData);
+
+  const order: ImportedOrder = {
+    orderNo: read.string('orderNo'),
+    // dateTime хранится в UTC, смещение применяется только к выгрузке Bybit
+    ...readCommonFields(read, { type: 'type', status: 'status', time: 'dateTime' }, 0),
+    tokenId: read.string('asset'),
+    currencyId: original.optionalString(BYBIT_COLUMNS.currency) ?? '',
+    price: read.decimal('unitPrice'),
+    tokenQuantity: read.decimal('amount'),
+    fiatAmount: read.decimal('totalPrice'),
+    fee: originalData[BYBIT_COLUMNS.fee] !== undefined ? original.optionalDecimal(BYBIT_COLUMNS.fee) : undefined,
+    counterparty: read.optionalString('counterparty'),
+    originalData,
+    line
+  };
+
+  return { order, issues: [...read.issues, ...original.issues] };
+}
+
+/**
+ * Detect the layout of a file from its header
+ */
+export function detectOrderHistoryFormat(header: string[]): OrderHistoryFormat | undefined {
+  const names = header.map(name => name.trim());
+  if (BYBIT_TRANSACTION_COLUMNS.every(column => names.includes(column))) return 'ledger';
+  if (names.includes(BYBIT_COLUMNS.orderNo) && names.includes(BYBIT_COLUMNS.fiatAmount)) return 'bybit';
+  return undefined;
+}
+
+/**
+ * Map records of a history file to orders
+ * @param records - Records of the file; title rows before the header are skipped
+ * @param options - Time zone of the Bybit file
+ * @returns Orders by orderNo, rejected rows and the number of repeated orders
+ * @throws Error if no known header is found
+ */
+export function parseOrderHistoryRecords(records: string[][], options: OrderHistoryParseOptions = {}): OrderHistoryParseResult {
+  const headerIndex = records.findIndex(record => detectOrderHistoryFormat(record) !== undefined);
+  if (headerIndex < 0) {
+    throw new Error('Unknown order history file: no "Order No." or BybitTransaction.csv header found');
+  }
+
+  const header = uniqueHeaders(records[headerIndex]!);
+  const format = detectOrderHistoryFormat(header)!;
+  const byOrderNo = new Map<string, ImportedOrder>();
+  const rejected: RejectedHistoryRow[] = [];
+  let duplicates = 0;
+
+  records.slice(headerIndex + 1).forEach((record, index) => {
+    if (record.every(value => value.trim() === '')) return;
+    const line = headerIndex + index + 2;
+    const row: Record<string, string> = {};
+    header.forEach((name, column) => {
+      row[name] = record[column]?.trim() ?? '';
+    });
+
+    const { order, issues } = format === 'ledger'
+      ? readLedgerRow(row, line)
+      : readBybitRow(row, line, options.utcOffsetMinutes ?? 0);
+    if (issues.length > 0) {
+      rejected.push({ line, issues });
+      return;
+    }
+    if (byOrderNo.has(order.orderNo)) duplicates++;
+    byOrderNo.set(order.orderNo, order);
+  });
+
+  return { format, orders: [...byOrderNo.values()], rejected, duplicates };
+}
+
+/**
+ * Read a history file: .xlsx (first sheet with a known header) or .csv
+ * @param filepath - Path to the file
+ * @param options - Time zone of the Bybit file
+ */
+export async function readOrderHistoryFile(filepath: string, options: OrderHistoryParseOptions = {}): Promise<OrderHistoryParseResult> {
+  if (path.extname(filepath).toLowerCase() === '.xlsx') {
+    const sheets = readXlsx(new Uint8Array(fs.readFileSync(filepath)));
+    const sheet = sheets.find(candidate => candidate.rows.some(row => detectOrderHistoryFormat(row) !== undefined));
+    return parseOrderHistoryRecords(sheet?.rows ?? [], options);
+  }
+
+  const text = fs.readFileSync(filepath, 'utf8');
+  const firstLine = parseCsv(text.split(/\r?\n/, 1)[0] ?? '')[0] ?? [];
+  if (detectOrderHistoryFormat(firstLine) === 'ledger') {
+    // Для собственного файла используем общий загрузчик: он восстанавливает файлы старого формата
+    const rows = await loadBybitTransactionCsv(filepath);
+    return parseOrderHistoryRecords([[...BYBIT_TRANSACTION_COLUMNS], ...rows.map(row => BYBIT_TRANSACTION_COLUMNS.map(column => row[column]))], options);
+  }
+  return parseOrderHistoryRecords(parseCsv(text), options);
+}
+
+/**
+ * Column values of an order for the target table; optional fields missing in the file are left out
+ */
+function toTargetFields(order: ImportedOrder): Record<string, any> {
+  const fields: Record<string, any> = {
+    status: storedOrderStatus(order.status),
+    type: storedOrderType(order.side),
+    amount: order.tokenQuantity.toString(),
+    asset: order.tokenId,
+    dateTime: order.dateTime,
+    totalPrice: order.fiatAmount.toString(),
+    unitPrice: order.price.toString()
+  };
+  if (order.currencyId) fields.fiatCurrency = order.currencyId;
+  if (order.fee !== undefined) fields.fee = order.fee.toString();
+  if (order.counterparty !== undefined) fields.counterparty = order.counterparty;
+  return fields;
+}
+
+/**
+ * Comparable text of a stored or imported value
+ */
+function comparable(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (value instanceof Date) return value.toISOString();
+  const text = String(value);
+  const decimal = /^-?\d+(\.\d+)?$/.test(text) ? Decimal.tryFrom(text) : undefined;
+  return decimal ? decimal.toString() : text;
+}
+
+/**
+ * Compare the orders of a file with the target table without writing anything
+ * @param prisma - Prisma client
+ * @param target - User or cabinet the orders belong to
+ * @param orders - Orders of the file
+ */
+export async function planOrderHistoryImport(prisma: PrismaClient, target: ImportTarget, orders: ImportedOrder[]): Promise<OrderImportPlan> {
+  const plan: OrderImportPlan = { target, create: [], update: [], unchanged: [], conflicts: [] };
+  const table: any = target.kind === 'user' ? prisma.bybitTransaction : prisma.bybitTransactionFromCabinet;
+
+  for (let start = 0; start < orders.length; start += CHUNK_SIZE) {
+    const chunk = orders.slice(start, start + CHUNK_SIZE);
+    // orderNo уникален во всей таблице, поэтому ищем без фильтра по владельцу
+    const existing: any[] = await table.findMany({ where: { orderNo: { in: chunk.map(order => order.orderNo) } } });
+    const byOrderNo = new Map(existing.map(row => [row.orderNo as string, row]));
+
+    for (const order of chunk) {
+      const row = byOrderNo.get(order.orderNo);
+      if (!row) {
+        plan.create.push(order);
+        continue;
+      }
+
+      const owner = target.kind === 'user' ? row.userId : row.cabinetId;
+      const expectedOwner = target.kind === 'user' ? target.userId : target.cabinetId;
+      if (owner !== expectedOwner) {
+        plan.conflicts.push({ order, ownerId: owner });
+        continue;
+      }
+
+      const changes = Object.entries(toTargetFields(order))
+        .filter(([field, value]) => comparable(row[field]) !== comparable(value))
+        .map(([field, value]) => ({ field, from: comparable(row[field]), to: comparable(value) }));
+      if (changes.length > 0) {
+        plan.update.push({ id: row.id, order, changes });
+      } else {
+        plan.unchanged.push(order);
+      }
+    }
+  }
+
+  return plan;
+}
+
+/**
+ * Human readable diff of a plan, one line per created, changed or conflicting order
+ */
+export function formatImportPlan(plan: OrderImportPlan): string {
+  const owner = plan.target.kind === 'user' ? `пользователь ${plan.target.userId}` : `кабинет ${plan.target.cabinetId}`;
+  const lines = [
+    `Импорт (${owner}): новых ${plan.create.length}, изменится ${plan.update.length}, без изменений ${plan.unchanged.length}, конфликтов ${plan.conflicts.length}`
+  ];
+
+  for (const order of plan.create) {
+    const side = order.side === OrderSide.Buy ? 'BUY' : 'SELL';
+    lines.push(`+ ${order.orderNo} ${order.dateTime.toISOString()} ${side} ${order.tokenQuantity} ${order.tokenId} за ${order.fiatAmount} ${order.currencyId} (${ORDER_STATUS_LABELS[order.status]})`);
+  }
+  for (const { order, changes } of plan.update) {
+    lines.push(`~ ${order.orderNo} ${changes.map(change => `${change.field}: ${change.from || '(пусто)'} -> ${change.to}`).join(', ')}`);
+  }
+  for (const { order, ownerId } of plan.conflicts) {
+    const other = plan.target.kind === 'user' ? `пользователя ${ownerId}` : `кабинета ${ownerId}`;
+    lines.push(`! ${order.orderNo} уже сохранен для ${other}`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Write a plan: create new orders and update changed fields. Conflicts are never touched.
+ * @param prisma - Prisma client
+ * @param plan - Plan made by planOrderHistoryImport
+ * @returns Number of created and updated rows and the orders that failed
+ */
+export async function applyOrderHistoryImport(prisma: PrismaClient, plan: OrderImportPlan): Promise<OrderImportResult> {
+  const { target } = plan;
+  const table: any = target.kind === 'user' ? prisma.bybitTransaction : prisma.bybitTransactionFromCabinet;
+  const owner = target.kind === 'user' ? { userId: target.userId } : { cabinetId: target.cabinetId };
+  const result: OrderImportResult = { created: 0, updated: 0, failed: [] };
+
+  for (const order of plan.create) {
+    try {
+      await table.create({
+        data: {
+          orderNo: order.orderNo,
+          ...owner,
+          counterparty: 'Unknown',
+          ...toTargetFields(order),
+          originalData: order.originalData,
+          updatedAt: new Date()
+        }
+      });
+      result.created++;
+    } catch (error: any) {
+      result.failed.push({ orderNo: order.orderNo, message: error.message });
+    }
+  }
+
+  for (const { id, order } of plan.update) {
+    try {
+      await table.update({
+        where: { id },
+        data: { ...toTargetFields(order), updatedAt: new Date() }
+      });
+      result.updated++;
+    } catch (error: any) {
+      result.failed.push({ orderNo: order.orderNo, message: error.message });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,250 @@
+/**
+ * Status history of stored P2P orders.
+ * The sync service and the pending order poller write a BybitOrderStatusChange
+ * row whenever they see an order in a status different from the last row of
+ * its history, so the path of an order (waiting for payment, appeal,
+ * cancelled...) survives the status column being overwritten. observedAt is
+ * when a sync saw the status, not when Bybit changed it, so it is only as
+ * precise as the sync interval; the exact paidAt/completedAt from the order
+ * details are preferred where the transaction row has them.
+ */
+
+import type { PrismaClient } from '@prisma/client';
+import { OrderStatus, parseStoredOrderStatus, storedOrderStatus } from './p2p-order';
+
+/**
+ * Table and owner the history is read for
+ */
+export type StatusHistoryOwner =
+  | { kind: 'user'; userId: number } // BybitTransaction
+  | { kind: 'cabinet'; cabinetId: number }; // BybitTransactionFromCabinet
+
+/**
+ * Observed transition of an order; statuses are stored values (storedOrderStatus)
+ */
+export interface OrderStatusChange {
+  orderNo: string;
+  fromStatus: string | null; // null when the order was seen for the first time
+  toStatus: string;
+  observedAt: Date;
+}
+
+/**
+ * Statuses an order reaches only after the buyer marked it as paid
+ */
+export const PAID_ORDER_STATUSES: readonly OrderStatus[] = [
+  OrderStatus.WaitingForRelease,
+  OrderStatus.Appealing,
+  OrderStatus.Objecting,
+  OrderStatus.WaitingObjection
+];
+
+/**
+ * Statuses of an order cancelled by a party or by Bybit
+ */
+export const CANCELLED_ORDER_STATUSES: readonly OrderStatus[] = [
+  OrderStatus.Cancelled,
+  OrderStatus.ExceptionCancelled
+];
+
+/**
+ * Stored order with the fields shared by the reports
+ */
+export interface StoredOrderSummary {
+  orderNo: string;
+  type: string; // BUY or SELL
+  status: string;
+  asset: string;
+  totalPrice: string;
+  counterparty: string | null;
+  createdAt: Date; // order creation time on Bybit (dateTime column)
+}
+
+export interface AppealingOrder extends StoredOrderSummary {
+  appealSince: Date | null; // null when the appeal was stored before the history existed
+}
+
+export interface ReleasedOrder extends StoredOrderSummary {
+  paidAt: Date | null;
+  releasedAt: Date;
+  releaseMs: number; // from creation to release
+  paidToReleaseMs: number | null; // from payment to release, when the payment time is known
+}
+
+export interface CancelledAfterPaymentOrder extends StoredOrderSummary {
+  paidAt: Date | null; // null when the payment is known only from the history
+  cancelledAt: Date | null;
+  path: string[]; // statuses in the order they were observed
+}
+
+/**
+ * Whether a stored status value is one of the given statuses
+ */
+function isStatusIn(value: string | null, statuses: readonly OrderStatus[]): boolean {
+  if (value === null) return false;
+  const status = parseStoredOrderStatus(value);
+  return status !== undefined && statuses.includes(status);
+}
+
+/**
+ * When the order last entered the appeal, null if the history has no such transition
+ */
+export function appealStartedAt(changes: OrderStatusChange[]): Date | null {
+  const appeal = changes.filter(change => isStatusIn(change.toStatus, [OrderStatus.Appealing])).pop();
+  return appeal?.observedAt ?? null;
+}
+
+/**
+ * Release time of a completed order: completedAt from the order details or the first observed completion
+ */
+export function releasedAt(completedAt: Date | null, changes: OrderStatusChange[]): Date | null {
+  if (completedAt) return completedAt;
+  return changes.find(change => isStatusIn(change.toStatus, [OrderStatus.Completed]))?.observedAt ?? null;
+}
+
+/**
+ * Whether the order was paid: it has a payment time or passed a status that follows payment
+ */
+export function wasPaid(paidAt: Date | null, changes: OrderStatusChange[]): boolean {
+  return paidAt !== null || changes.some(change =>
+    isStatusIn(change.fromStatus, PAID_ORDER_STATUSES) || isStatusIn(change.toStatus, PAID_ORDER_STATUSES)
+  );
+}
+
+/**
+ * Statuses in the order they were observed, starting with the first stored one
+ */
+export function statusPath(changes: OrderStatusChange[]): string[] {
+  const path: string[] = [];
+  for (const change of changes) {
+    if (change.fromStatus !== null && path.length === 0) path.push(change.fromStatus);
+    if (path[path.length - 1] !== change.toStatus) path.push(change.toStatus);
+  }
+  return path;
+}
+
+function ownerWhere(owner: StatusHistoryOwner): Record<string, number> {
+  return owner.kind === 'user' ? { userId: owner.userId } : { cabinetId: owner.cabinetId };
+}
+
+function dateTimeWhere(range: { from?: Date; to?: Date }): Record<string, unknown> {
+  return range.from || range.to ? { dateTime: { gte: range.from, lte: range.to } } : {};
+}
+
+function transactionTable(prisma: PrismaClient, owner: StatusHistoryOwner): any {
+  return owner.kind === 'user' ? prisma.bybitTransaction : prisma.bybitTransactionFromCabinet;
+}
+
+function summaryFromRow(row: any): StoredOrderSummary {
+  return {
+    orderNo: row.orderNo,
+    type: row.type,
+    status: row.status,
+    asset: row.asset,
+    totalPrice: String(row.totalPrice),
+    counterparty: row.counterparty ?? null,
+    createdAt: row.dateTime
+  };
+}
+
+/**
+ * Observed transitions of the given orders, oldest first, grouped by orderNo
+ */
+async function loadStatusChanges(prisma: PrismaClient, owner: StatusHistoryOwner, orderNos: string[]): Promise<Map<string, OrderStatusChange[]>> {
+  const byOrder = new Map<string, OrderStatusChange[]>();
+  if (orderNos.length === 0) return byOrder;
+
+  const rows: any[] = await prisma.bybitOrderStatusChange.findMany({
+    where: { ...ownerWhere(owner), orderNo: { in: orderNos } },
+    orderBy: [{ observedAt: 'asc' }, { id: 'asc' }]
+  });
+  for (const row of rows) {
+    const changes = byOrder.get(row.orderNo) ?? [];
+    changes.push({ orderNo: row.orderNo, fromStatus: row.fromStatus ?? null, toStatus: row.toStatus, observedAt: row.observedAt });
+    byOrder.set(row.orderNo, changes);
+  }
+  return byOrder;
+}
+
+/**
+ * Observed transitions of one order, oldest first
+ */
+export async function loadStatusTimeline(prisma: PrismaClient, owner: StatusHistoryOwner, orderNo: string): Promise<OrderStatusChange[]> {
+  return (await loadStatusChanges(prisma, owner, [orderNo])).get(orderNo) ?? [];
+}
+
+/**
+ * Orders whose stored status is an appeal, with the time the current appeal was observed
+ */
+export async function findOrdersInAppeal(prisma: PrismaClient, owner: StatusHistoryOwner): Promise<AppealingOrder[]> {
+  const rows: any[] = await transactionTable(prisma, owner).findMany({
+    where: { ...ownerWhere(owner), status: storedOrderStatus(OrderStatus.Appealing) },
+    orderBy: { dateTime: 'asc' }
+  });
+  const changes = await loadStatusChanges(prisma, owner, rows.map(row => row.orderNo));
+
+  return rows.map(row => ({ ...summaryFromRow(row), appealSince: appealStartedAt(changes.get(row.orderNo) ?? []) }));
+}
+
+/**
+ * Completed orders created in the period with the time from creation (and from payment) to release
+ * Orders without a known release time are left out
+ */
+export async function findReleaseTimes(
+  prisma: PrismaClient,
+  owner: StatusHistoryOwner,
+  range: { from?: Date; to?: Date } = {}
+): Promise<ReleasedOrder[]> {
+  const rows: any[] = await transactionTable(prisma, owner).findMany({
+    where: { ...ownerWhere(owner), status: storedOrderStatus(OrderStatus.Completed), ...dateTimeWhere(range) },
+    orderBy: { dateTime: 'asc' }
+  });
+  const changes = await loadStatusChanges(prisma, owner, rows.map(row => row.orderNo));
+
+  const released: ReleasedOrder[] = [];
+  for (const row of rows) {
+    const releaseTime = releasedAt(row.completedAt ?? null, changes.get(row.orderNo) ?? []);
+    if (!releaseTime) continue;
+    const paidAt: Date | null = row.paidAt ?? null;
+    released.push({
+      ...summaryFromRow(row),
+      paidAt,
+      releasedAt: releaseTime,
+      releaseMs: releaseTime.getTime() - row.dateTime.getTime(),
+      paidToReleaseMs: paidAt ? releaseTime.getTime() - paidAt.getTime() : null
+    });
+  }
+  return released;
+}
+
+/**
+ * Cancelled orders created in the period that had been paid before the cancellation
+ */
+export async function findCancelledAfterPayment(
+  prisma: PrismaClient,
+  owner: StatusHistoryOwner,
+  range: { from?: Date; to?: Date } = {}
+): Promise<CancelledAfterPaymentOrder[]> {
+  const rows: any[] = await transactionTable(prisma, owner).findMany({
+    where: {
+      ...ownerWhere(owner),
+      status: { in: CANCELLED_ORDER_STATUSES.map(storedOrderStatus) },
+      ...dateTimeWhere(range)
+    },
+    orderBy: { dateTime: 'asc' }
+  });
+  const changes = await loadStatusChanges(prisma, owner, rows.map(row => row.orderNo));
+
+  return rows
+    .filter(row => wasPaid(row.paidAt ?? null, changes.get(row.orderNo) ?? []))
+    .map(row => {
+      const orderChanges = changes.get(row.orderNo) ?? [];
+      const cancelled = orderChanges.find(change => isStatusIn(change.toStatus, CANCELLED_ORDER_STATUSES));
+      return {
+        ...summaryFromRow(row),
+        paidAt: row.paidAt ?? null,
+        cancelledAt: cancelled?.observedAt ?? null,
+        path: statusPath(orderChanges)
+      };
+    });
+}
@@ -0,0 +1,276 @@
+/**
+ * Typed model of our own P2P advertisements (/v5/p2p/item/*).
+ * Decodes ads returned by the personal ad endpoints and builds the
+ * string-typed request bodies Bybit expects when posting or updating an ad.
+ */
+
+import { FieldReader, OrderSide, isRecord, formatDecodeIssues, type DecodeIssue, type DecodeResult } from './p2p-order';
+
+/**
+ * How the ad price is defined
+ */
+export enum AdPriceType {
+  Fixed = 0,
+  Floating = 1 // price follows the market with a premium in percent
+}
+
+/**
+ * Status of an ad in the personal ad list
+ */
+export enum AdStatus {
+  Online = 10,
+  Offline = 20,
+  Completed = 30
+}
+
+/**
+ * Counterparty requirements of an ad, passed to the API as is
+ */
+export interface TradingPreferences {
+  hasUnPostAd?: number;
+  isKyc?: number;
+  isEmail?: number;
+  isMobile?: number;
+  hasRegisterTime?: number;
+  registerTimeThreshold?: number;
+  orderFinishNumberDay30?: number;
+  completeRateDay30?: string;
+  nationalLimit?: string;
+  hasOrderFinishNumberDay30?: number;
+  hasCompleteRateDay30?: number;
+  hasNationalLimit?: number;
+  [key: string]: unknown;
+}
+
+/**
+ * Own advertisement as returned by /v5/p2p/item/personal/list and /v5/p2p/item/info
+ */
+export interface P2PAd {
+  id: string;
+  side: OrderSide;
+  status: AdStatus;
+  tokenId: string;
+  currencyId: string;
+  priceType: AdPriceType;
+  price: number;
+  premium: number; // percent, used with AdPriceType.Floating
+  quantity: number; // total token quantity of the ad
+  lastQuantity: number; // quantity still available for new orders
+  minAmount: number; // fiat limits of a single order
+  maxAmount: number;
+  paymentIds: string[]; // ids of our payment methods
+  paymentPeriod: number; // minutes the buyer has to pay
+  remark: string;
+  tradingPreferences: TradingPreferences;
+  createdAt?: Date;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Parameters of a new advertisement
+ */
+export interface NewP2PAd {
+  side: OrderSide;
+  tokenId: string;
+  currencyId: string;
+  priceType: AdPriceType;
+  price: number;
+  premium?: number;
+  quantity: number;
+  minAmount: number;
+  maxAmount: number;
+  paymentIds: string[];
+  paymentPeriod: number;
+  remark?: string;
+  tradingPreferences?: TradingPreferences;
+}
+
+/**
+ * Fields of an existing ad that may be changed. Omitted fields keep their current values.
+ */
+export type P2PAdChanges = Partial<Pick<NewP2PAd,
+  'priceType' | 'price' | 'premium' | 'quantity' | 'minAmount' | 'maxAmount' |
+  'paymentIds' | 'paymentPeriod' | 'remark' | 'tradingPreferences'>>;
+
+/**
+ * Filter of the personal ad list
+ */
+export interface P2PAdFilter {
+  status?: AdStatus;
+  side?: OrderSide;
+  tokenId?: string;
+  currencyId?: string;
+}
+
+/**
+ * Ad that failed validation together with its raw data
+ */
+export interface RejectedP2PAd {
+  raw: unknown;
+  issues: DecodeIssue[];
+}
+
+/**
+ * Error thrown when an ad payload cannot be decoded
+ */
+export class P2PAdDecodeError extends Error {
+  issues: DecodeIssue[];
+
+  constructor(issues: DecodeIssue[]) {
+    super(`Invalid P2P ad: ${formatDecodeIssues(issues)}`);
+    this.name = 'P2PAdDecodeError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Error thrown before sending an ad whose parameters are inconsistent
+ */
+export class P2PAdValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid P2P ad parameters: ${problems.join('; ')}`);
+    this.name = 'P2PAdValidationError';
+    this.problems = problems;
+  }
+}
+
+const ORDER_SIDES = Object.values(OrderSide).filter((v): v is OrderSide => typeof v === 'number');
+const AD_STATUSES = Object.values(AdStatus).filter((v): v is AdStatus => typeof v === 'number');
+const AD_PRICE_TYPES = Object.values(AdPriceType).filter((v): v is AdPriceType => typeof v === 'number');
+
+/**
+ * Read payment method ids of an ad: paymentTerms[].id when present, otherwise the "payments" list
+ */
+function readPaymentIds(raw: Record<string, unknown>): string[] {
+  if (Array.isArray(raw.paymentTerms) && raw.paymentTerms.length > 0) {
+    return raw.paymentTerms
+      .filter(isRecord)
+      .map(term => term.id)
+      .filter((id): id is string | number => typeof id === 'string' || typeof id === 'number')
+      .map(String);
+  }
+  return Array.isArray(raw.payments) ? raw.payments.map(String) : [];
+}
+
+/**
+ * Validate and normalize a single ad of the personal ad endpoints
+ * @param raw - Item of result.items or the result of /v5/p2p/item/info
+ * @returns Decoded ad or the list of missing/malformed fields
+ */
+export function decodeP2PAd(raw: unknown): DecodeResult<P2PAd> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ field: '(item)', problem: 'malformed', value: raw }] };
+  }
+
+  const read = new FieldReader(raw);
+  const ad: P2PAd = {
+    id: read.string('id'),
+    side: read.code('side', ORDER_SIDES),
+    status: read.code('status', AD_STATUSES),
+    tokenId: read.string('tokenId'),
+    currencyId: read.string('currencyId'),
+    priceType: read.code('priceType', AD_PRICE_TYPES),
+    price: read.number('price'),
+    premium: read.optionalNumber('premium'),
+    quantity: read.number('quantity'),
+    lastQuantity: read.optionalNumber('lastQuantity'),
+    minAmount: read.number('minAmount'),
+    maxAmount: read.number('maxAmount'),
+    paymentIds: readPaymentIds(raw),
+    paymentPeriod: read.optionalNumber('paymentPeriod', 15),
+    remark: read.optionalString('remark') ?? '',
+    tradingPreferences: isRecord(raw.tradingPreferenceSet) ? raw.tradingPreferenceSet : {},
+    createdAt: read.optionalDate('createDate'),
+    raw
+  };
+
+  return read.result(ad);
+}
+
+/**
+ * Decode a list of ads, skipping invalid items
+ * @param items - result.items of /v5/p2p/item/personal/list
+ * @returns Decoded ads and the issues of rejected items
+ */
+export function decodeP2PAds(items: unknown[]): { ads: P2PAd[]; rejected: RejectedP2PAd[] } {
+  const ads: P2PAd[] = [];
+  const rejected: RejectedP2PAd[] = [];
+
+  for (const item of items) {
+    const result = decodeP2PAd(item);
+    if (result.ok) {
+      ads.push(result.value);
+    } else {
+      rejected.push({ raw: item, issues: result.issues });
+    }
+  }
+
+  return { ads, rejected };
+}
+
+/**
+ * Check ad parameters before they are sent to the API
+ * @param ad - New ad or an existing ad merged with changes
+ * @returns List of problems, empty when the parameters are consistent
+ */
+export function validateAdParams(ad: NewP2PAd): string[] {
+  const problems: string[] = [];
+
+  if (ad.priceType === AdPriceType.Fixed && !(ad.price > 0)) problems.push('price must be positive');
+  if (ad.priceType === AdPriceType.Floating && ad.premium === undefined) problems.push('premium is required for a floating price');
+  if (!(ad.quantity > 0)) problems.push('quantity must be positive');
+  if (!(ad.minAmount > 0)) problems.push('minAmount must be positive');
+  if (ad.maxAmount < ad.minAmount) problems.push('maxAmount must not be less than minAmount');
+  if (ad.paymentIds.length === 0) problems.push('at least one payment method is required');
+  if (ad.paymentIds.length > 5) problems.push('at most 5 payment methods are allowed');
+  if (!Number.isInteger(ad.paymentPeriod) || ad.paymentPeriod <= 0) problems.push('paymentPeriod must be a positive number of minutes');
+
+  return problems;
+}
+
+/**
+ * Apply changes to an existing ad
+ * @param ad - Current state of the ad
+ * @param changes - Fields to change
+ * @returns Full set of ad parameters required by /v5/p2p/item/update
+ */
+export function mergeAdChanges(ad: P2PAd, changes: P2PAdChanges): NewP2PAd {
+  return {
+    side: ad.side,
+    tokenId: ad.tokenId,
+    currencyId: ad.currencyId,
+    priceType: changes.priceType ?? ad.priceType,
+    price: changes.price ?? ad.price,
+    premium: changes.premium ?? ad.premium,
+    quantity: changes.quantity ?? ad.quantity,
+    minAmount: changes.minAmount ?? ad.minAmount,
+    maxAmount: changes.maxAmount ?? ad.maxAmount,
+    paymentIds: changes.paymentIds ?? ad.paymentIds,
+    paymentPeriod: changes.paymentPeriod ?? ad.paymentPeriod,
+    remark: changes.remark ?? ad.remark,
+    tradingPreferences: changes.tradingPreferences ?? ad.tradingPreferences
+  };
+}
+
+/**
+ * Build the request body fields shared by /v5/p2p/item/create and /v5/p2p/item/update.
+ * Bybit expects numbers as strings.
+ * @param ad - Ad parameters
+ * @returns Request body fields
+ */
+export function toAdRequestParams(ad: NewP2PAd): Record<string, unknown> {
+  return {
+    priceType: String(ad.priceType),
+    premium: ad.premium === undefined ? '' : String(ad.premium),
+    price: String(ad.price),
+    minAmount: String(ad.minAmount),
+    maxAmount: String(ad.maxAmount),
+    remark: ad.remark ?? '',
+    tradingPreferenceSet: ad.tradingPreferences ?? {},
+    paymentIds: ad.paymentIds,
+    quantity: String(ad.quantity),
+    paymentPeriod: String(ad.paymentPeriod)
+  };
+}
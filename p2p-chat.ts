@@ -0,0 +1,144 @@
+/**
+ * Typed model of P2P order chat messages (/v5/p2p/order/message/listpage).
+ */
+
+import { FieldReader, isRecord, type DecodeIssue, type DecodeResult } from './p2p-order';
+
+/**
+ * Kind of chat message
+ */
+export type ChatMessageKind = 'text' | 'picture' | 'pdf' | 'video' | 'system';
+
+/**
+ * Who sent a chat message
+ */
+export type ChatSenderRole =
+  | 'self' // our account
+  | 'counterparty' // the other side of the order
+  | 'system' // automatic notices and alarms
+  | 'support'; // Bybit customer support (appeals)
+
+/**
+ * Chat message of a P2P order
+ */
+export interface ChatMessage {
+  id: string;
+  orderId: string;
+  kind: ChatMessageKind;
+  senderRole: ChatSenderRole;
+  senderUserId?: string;
+  senderNickName?: string;
+  text?: string; // message text for text and system messages
+  attachmentUrl?: string; // file URL for pictures, PDFs and videos
+  fileName?: string;
+  createdAt: Date;
+  msgUuid?: string;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Chat message that failed validation together with its raw data
+ */
+export interface RejectedChatMessage {
+  raw: unknown;
+  issues: DecodeIssue[];
+}
+
+const CONTENT_KINDS: Record<string, ChatMessageKind> = {
+  str: 'text',
+  pic: 'picture',
+  pdf: 'pdf',
+  video: 'video'
+};
+
+/**
+ * Determine the sender of a message from roleType/msgType
+ * @param raw - Raw message
+ * @param selfUserId - Our Bybit user ID, used to tell our messages from the counterparty's
+ */
+function readSenderRole(raw: Record<string, unknown>, selfUserId?: string): ChatSenderRole {
+  const roleType = typeof raw.roleType === 'string' ? raw.roleType.toLowerCase() : '';
+  const msgType = raw.msgType === undefined || raw.msgType === null || raw.msgType === '' ? undefined : Number(raw.msgType);
+  if (roleType === 'sys' || roleType === 'alarm' || msgType === 0) return 'system';
+  if (roleType === 'customer_support' || roleType === 'cs') return 'support';
+  if (selfUserId !== undefined && raw.userId !== undefined && String(raw.userId) === selfUserId) return 'self';
+  return 'counterparty';
+}
+
+/**
+ * Turn a file path of the chat into an absolute URL
+ * @param path - "message" field of a file message
+ * @param baseUrl - Base URL used for relative paths
+ */
+function toAttachmentUrl(path: string, baseUrl?: string): string {
+  if (/^https?:\/\//i.test(path) || !baseUrl) return path;
+  return `${baseUrl.replace(/\/$/, '')}/${path.replace(/^\//, '')}`;
+}
+
+/**
+ * Validate and normalize a single chat message
+ * @param raw - Message object of the listpage response
+ * @param selfUserId - Our Bybit user ID (optional)
+ * @param baseUrl - Base URL for relative attachment paths (optional)
+ * @returns Decoded message or the list of missing/malformed fields
+ */
+export function decodeChatMessage(raw: unknown, selfUserId?: string, baseUrl?: string): DecodeResult<ChatMessage> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ field: '(message)', problem: 'malformed', value: raw }] };
+  }
+
+  const read = new FieldReader(raw);
+  const contentType = read.optionalString('contentType') ?? 'str';
+  const senderRole = readSenderRole(raw, selfUserId);
+  const kind = senderRole === 'system' ? 'system' : CONTENT_KINDS[contentType];
+  if (!kind) {
+    read.issues.push({ field: 'contentType', problem: 'malformed', value: raw.contentType });
+  }
+
+  const body = read.optionalString('message');
+  const isFile = kind === 'picture' || kind === 'pdf' || kind === 'video';
+
+  const message: ChatMessage = {
+    id: read.string('id'),
+    orderId: read.optionalString('orderId') ?? '',
+    kind: kind ?? 'text',
+    senderRole,
+    senderUserId: read.optionalString('userId'),
+    senderNickName: read.optionalString('nickName'),
+    text: isFile ? undefined : body,
+    attachmentUrl: isFile && body ? toAttachmentUrl(body, baseUrl) : undefined,
+    fileName: read.optionalString('fileName'),
+    createdAt: read.date('createDate'),
+    msgUuid: read.optionalString('msgUuid'),
+    raw
+  };
+
+  return read.result(message);
+}
+
+/**
+ * Decode a page of chat messages, skipping invalid items
+ * @param items - Messages of the listpage response
+ * @param selfUserId - Our Bybit user ID (optional)
+ * @param baseUrl - Base URL for relative attachment paths (optional)
+ * @returns Decoded messages and the issues of rejected items
+ */
+export function decodeChatMessages(
+  items: unknown[],
+  selfUserId?: string,
+  baseUrl?: string
+): { messages: ChatMessage[]; rejected: RejectedChatMessage[] } {
+  const messages: ChatMessage[] = [];
+  const rejected: RejectedChatMessage[] = [];
+
+  for (const item of items) {
+    const result = decodeChatMessage(item, selfUserId, baseUrl);
+    if (result.ok) {
+      messages.push(result.value);
+    } else {
+      rejected.push({ raw: item, issues: result.issues });
+    }
+  }
+
+  return { messages, rejected };
+}
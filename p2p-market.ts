@@ -0,0 +1,205 @@
+/**
+ * Public P2P market data: online ads (/v5/p2p/item/online) and order-book
+ * snapshots built from them.
+ */
+
+import { FieldReader, OrderSide, isRecord, type DecodeIssue, type DecodeResult } from './p2p-order';
+
+/**
+ * Filter of the online ads list
+ */
+export interface OnlineAdFilter {
+  tokenId: string;
+  currencyId: string;
+  side: OrderSide; // side of the ads: Sell ads are the offers we can buy from
+  paymentMethods?: string[]; // payment method codes
+  pageSize?: number; // default: 100
+  maxPages?: number; // default: 5
+}
+
+/**
+ * Ad of another merchant currently listed on the market
+ */
+export interface OnlineAd {
+  id: string;
+  userId: string;
+  nickName: string;
+  side: OrderSide;
+  tokenId: string;
+  currencyId: string;
+  price: number;
+  lastQuantity: number; // token quantity still available
+  minAmount: number; // fiat limits of a single order
+  maxAmount: number;
+  paymentMethods: string[];
+  recentOrderNum: number;
+  recentExecuteRate: number;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Online ad that failed validation together with its raw data
+ */
+export interface RejectedOnlineAd {
+  raw: unknown;
+  issues: DecodeIssue[];
+}
+
+/**
+ * Average price of filling a fiat volume
+ */
+export interface DepthLevel {
+  volume: number; // fiat volume
+  price: number | null; // volume-weighted price, null when the market is too thin
+}
+
+/**
+ * Aggregated state of one side of the market at a moment in time
+ */
+export interface OrderBookSnapshot {
+  tokenId: string;
+  currencyId: string;
+  side: OrderSide;
+  paymentMethod: string | null;
+  bestPrice: number | null;
+  depth: DepthLevel[];
+  totalQuantity: number; // token quantity of all ads
+  adsCount: number;
+  merchantCount: number; // distinct merchants with active ads
+  capturedAt: Date;
+}
+
+/**
+ * Markets snapshotted by the sync service when no targets are configured
+ */
+export const DEFAULT_MARKET_TARGETS: readonly OnlineAdFilter[] = [
+  { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Sell },
+  { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Buy }
+];
+
+/**
+ * Parse a list of markets, e.g. the BYBIT_MARKET_TARGETS variable.
+ * Targets are separated by commas, each is token/fiat/side with an optional
+ * fourth part of payment method codes joined by "+": USDT/RUB/sell/75+377,USDT/RUB/buy
+ * @param value - Target list
+ * @returns Filters of the online ads list
+ * @throws Error naming the first malformed target
+ */
+export function parseMarketTargets(value: string): OnlineAdFilter[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean).map(entry => {
+    const [tokenId, currencyId, side, payments, ...rest] = entry.split('/').map(part => part.trim());
+    const sides: Record<string, OrderSide> = { buy: OrderSide.Buy, sell: OrderSide.Sell };
+    if (!tokenId || !currencyId || !side || sides[side.toLowerCase()] === undefined || rest.length > 0) {
+      throw new Error(`Invalid market target "${entry}": expected token/fiat/buy|sell[/payment+payment]`);
+    }
+
+    const target: OnlineAdFilter = { tokenId: tokenId.toUpperCase(), currencyId: currencyId.toUpperCase(), side: sides[side.toLowerCase()]! };
+    const paymentMethods = payments?.split('+').map(code => code.trim()).filter(Boolean) ?? [];
+    if (paymentMethods.length) target.paymentMethods = paymentMethods;
+    return target;
+  });
+}
+
+/**
+ * Fiat volumes at which the depth of the market is measured by default
+ */
+export const DEFAULT_DEPTH_VOLUMES = [10000, 50000, 100000, 500000, 1000000];
+
+const ORDER_SIDES = Object.values(OrderSide).filter((v): v is OrderSide => typeof v === 'number');
+
+/**
+ * Validate and normalize a single ad of /v5/p2p/item/online
+ * @param raw - Item of result.items
+ * @returns Decoded ad or the list of missing/malformed fields
+ */
+export function decodeOnlineAd(raw: unknown): DecodeResult<OnlineAd> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ field: '(item)', problem: 'malformed', value: raw }] };
+  }
+
+  const read = new FieldReader(raw);
+  const ad: OnlineAd = {
+    id: read.string('id'),
+    userId: read.string('userId'),
+    nickName: read.optionalString('nickName') ?? '',
+    side: read.code('side', ORDER_SIDES),
+    tokenId: read.string('tokenId'),
+    currencyId: read.string('currencyId'),
+    price: read.number('price'),
+    lastQuantity: read.number('lastQuantity'),
+    minAmount: read.optionalNumber('minAmount'),
+    maxAmount: read.optionalNumber('maxAmount'),
+    paymentMethods: Array.isArray(raw.payments) ? raw.payments.map(String) : [],
+    recentOrderNum: read.optionalNumber('recentOrderNum'),
+    recentExecuteRate: read.optionalNumber('recentExecuteRate'),
+    raw
+  };
+
+  return read.result(ad);
+}
+
+/**
+ * Decode a page of online ads, skipping invalid items
+ * @param items - result.items of /v5/p2p/item/online
+ * @returns Decoded ads and the issues of rejected items
+ */
+export function decodeOnlineAds(items: unknown[]): { ads: OnlineAd[]; rejected: RejectedOnlineAd[] } {
+  const ads: OnlineAd[] = [];
+  const rejected: RejectedOnlineAd[] = [];
+
+  for (const item of items) {
+    const result = decodeOnlineAd(item);
+    if (result.ok) {
+      ads.push(result.value);
+    } else {
+      rejected.push({ raw: item, issues: result.issues });
+    }
+  }
+
+  return { ads, rejected };
+}
+
+/**
+ * Aggregate online ads into an order-book snapshot.
+ * Sell ads are walked from the cheapest price up, buy ads from the highest price down.
+ * @param filter - Market the ads were loaded for
+ * @param ads - Online ads of one side of the market
+ * @param volumes - Fiat volumes to measure the depth at
+ * @param capturedAt - Time the ads were loaded
+ * @returns Snapshot with best price, depth and merchant count
+ */
+export function buildOrderBookSnapshot(
+  filter: Pick<OnlineAdFilter, 'tokenId' | 'currencyId' | 'side' | 'paymentMethods'>,
+  ads: OnlineAd[],
+  volumes: number[] = DEFAULT_DEPTH_VOLUMES,
+  capturedAt: Date = new Date()
+): OrderBookSnapshot {
+  const sorted = ads
+    .filter(ad => ad.lastQuantity > 0 && ad.price > 0)
+    .sort((a, b) => filter.side === OrderSide.Sell ? a.price - b.price : b.price - a.price);
+
+  const depth = volumes.map(volume => {
+    let remaining = volume;
+    let tokens = 0;
+    for (const ad of sorted) {
+      if (remaining <= 0) break;
+      const fiat = Math.min(remaining, ad.lastQuantity * ad.price);
+      tokens += fiat / ad.price;
+      remaining -= fiat;
+    }
+    return { volume, price: remaining > 0 ? null : volume / tokens };
+  });
+
+  return {
+    tokenId: filter.tokenId,
+    currencyId: filter.currencyId,
+    side: filter.side,
+    paymentMethod: filter.paymentMethods?.length ? filter.paymentMethods.join(',') : null,
+    bestPrice: sorted[0]?.price ?? null,
+    depth,
+    totalQuantity: sorted.reduce((sum, ad) => sum + ad.lastQuantity, 0),
+    adsCount: sorted.length,
+    merchantCount: new Set(sorted.map(ad => ad.userId)).size,
+    capturedAt
+  };
+}
@@ -0,0 +1,521 @@
+/**
+ * Typed model of a Bybit P2P order as returned by /v5/p2p/order/simplifyList
+ * and a runtime decoder that validates raw API items before they reach the
+ * rest of the application.
+ */
+
+import { Decimal } from './money';
+
+/**
+ * Order side as reported by the P2P API
+ */
+export enum OrderSide {
+  Buy = 0,
+  Sell = 1
+}
+
+/**
+ * Order status codes as reported by the P2P API
+ */
+export enum OrderStatus {
+  WaitingForChain = 5,
+  WaitingForPayment = 10,
+  WaitingForRelease = 20,
+  Appealing = 30,
+  Cancelled = 40,
+  Completed = 50,
+  Paying = 60,
+  PaymentFailed = 70,
+  ExceptionCancelled = 80,
+  WaitingSelection = 90,
+  Objecting = 100,
+  WaitingObjection = 110
+}
+
+/**
+ * Human readable labels for every order status
+ */
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  [OrderStatus.WaitingForChain]: 'Waiting for chain',
+  [OrderStatus.WaitingForPayment]: 'Waiting for payment',
+  [OrderStatus.WaitingForRelease]: 'Waiting for release',
+  [OrderStatus.Appealing]: 'Appealing',
+  [OrderStatus.Cancelled]: 'Cancelled',
+  [OrderStatus.Completed]: 'Completed',
+  [OrderStatus.Paying]: 'Paying',
+  [OrderStatus.PaymentFailed]: 'Payment failed',
+  [OrderStatus.ExceptionCancelled]: 'Exception cancelled',
+  [OrderStatus.WaitingSelection]: 'Waiting selection',
+  [OrderStatus.Objecting]: 'Objecting',
+  [OrderStatus.WaitingObjection]: 'Waiting objection'
+};
+
+/**
+ * Statuses after which an order never changes again
+ */
+export const FINAL_ORDER_STATUSES: readonly OrderStatus[] = [
+  OrderStatus.Cancelled,
+  OrderStatus.Completed,
+  OrderStatus.ExceptionCancelled
+];
+
+export function isFinalOrderStatus(status: OrderStatus): boolean {
+  return FINAL_ORDER_STATUSES.includes(status);
+}
+
+/**
+ * Parse a status given as its code ("50") or label in any case and spelling ("completed", "waiting-for-release")
+ * @returns Status or undefined if the value is not known
+ */
+export function parseOrderStatus(value: string): OrderStatus | undefined {
+  const normalized = value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  const code = Number(normalized);
+  const entry = Object.entries(ORDER_STATUS_LABELS).find(([status, label]) =>
+    Number.isInteger(code) && normalized !== '' ? Number(status) === code : label.toLowerCase() === normalized
+  );
+  return entry ? Number(entry[0]) as OrderStatus : undefined;
+}
+
+/**
+ * Value of the status column of BybitTransaction and BybitTransactionFromCabinet:
+ * the status label in upper snake case, e.g. COMPLETED or WAITING_FOR_RELEASE
+ */
+export function storedOrderStatus(status: OrderStatus): string {
+  return ORDER_STATUS_LABELS[status].toUpperCase().replace(/\s+/g, '_');
+}
+
+// Значения, которые сервис синхронизации записывал до перехода на общие статусы
+const LEGACY_STORED_STATUSES: Record<string, OrderStatus> = {
+  CANCELED: OrderStatus.Cancelled,
+  PENDING: OrderStatus.WaitingForRelease
+};
+
+/**
+ * Parse a stored status column value, including labels ("Completed") and legacy codes ("CANCELED", "PENDING")
+ * @returns Status or undefined if the value is not known (e.g. the legacy UNKNOWN)
+ */
+export function parseStoredOrderStatus(value: string): OrderStatus | undefined {
+  return parseOrderStatus(value) ?? LEGACY_STORED_STATUSES[value.trim().toUpperCase()];
+}
+
+/**
+ * Value of the type column of BybitTransaction and BybitTransactionFromCabinet
+ */
+export function storedOrderType(side: OrderSide): 'BUY' | 'SELL' {
+  return side === OrderSide.Buy ? 'BUY' : 'SELL';
+}
+
+/**
+ * Parse a side given as "buy"/"sell" or its code ("0"/"1")
+ * @returns Side or undefined if the value is not known
+ */
+export function parseOrderSide(value: string): OrderSide | undefined {
+  switch (value.trim().toLowerCase()) {
+    case 'buy': case '0': return OrderSide.Buy;
+    case 'sell': case '1': return OrderSide.Sell;
+    default: return undefined;
+  }
+}
+
+/**
+ * P2P order with validated and normalized fields
+ */
+export interface P2POrder {
+  id: string;
+  side: OrderSide;
+  status: OrderStatus;
+  tokenId: string;
+  currencyId: string;
+  price: Decimal;
+  fiatAmount: Decimal; // "amount" in the API response
+  tokenQuantity: Decimal; // "notifyTokenQuantity" in the API response
+  fee: Decimal;
+  createdAt: Date;
+  userId: string;
+  counterpartyNickName: string;
+  counterpartyUserId: string;
+  orderType?: string;
+  sellerRealName?: string;
+  buyerRealName?: string;
+  raw: Record<string, unknown>; // original API item, kept for originalData columns
+}
+
+/**
+ * Single problem found while decoding a raw API item
+ */
+export interface DecodeIssue {
+  field: string;
+  problem: 'missing' | 'malformed';
+  value?: unknown;
+}
+
+export type DecodeResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: DecodeIssue[] };
+
+/**
+ * Raw API item that failed validation together with the reasons
+ */
+export interface RejectedP2POrder {
+  raw: unknown;
+  issues: DecodeIssue[];
+}
+
+export interface DecodedP2POrders {
+  orders: P2POrder[];
+  rejected: RejectedP2POrder[];
+}
+
+/**
+ * Error thrown by decodeP2POrderOrThrow when an item is invalid
+ */
+export class P2POrderDecodeError extends Error {
+  issues: DecodeIssue[];
+
+  constructor(issues: DecodeIssue[]) {
+    super(`Invalid P2P order: ${formatDecodeIssues(issues)}`);
+    this.name = 'P2POrderDecodeError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Format decode issues as a short single-line description
+ * @param issues - Issues reported by the decoder
+ * @returns Description like "price (malformed: "abc"), createDate (missing)"
+ */
+export function formatDecodeIssues(issues: DecodeIssue[]): string {
+  return issues
+    .map(issue => issue.problem === 'missing'
+      ? `${issue.field} (missing)`
+      : `${issue.field} (malformed: ${JSON.stringify(issue.value)})`)
+    .join(', ');
+}
+
+/**
+ * Helper collecting issues while reading fields of a raw API item.
+ * Shared by the decoders of all P2P API payloads.
+ */
+export class FieldReader {
+  readonly issues: DecodeIssue[] = [];
+
+  constructor(readonly raw: Record<string, unknown>) {}
+
+  private isBlank(value: unknown): boolean {
+    return value === undefined || value === null || value === '';
+  }
+
+  private missing(field: string): void {
+    this.issues.push({ field, problem: 'missing' });
+  }
+
+  private malformed(field: string, value: unknown): void {
+    this.issues.push({ field, problem: 'malformed', value });
+  }
+
+  /**
+   * Read a required non-empty string (numbers are accepted and stringified)
+   */
+  string(field: string): string {
+    const value = this.raw[field];
+    if (this.isBlank(value)) {
+      this.missing(field);
+      return '';
+    }
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.malformed(field, value);
+      return '';
+    }
+    return String(value);
+  }
+
+  /**
+   * Read an optional string, returning undefined when absent
+   */
+  optionalString(field: string): string | undefined {
+    const value = this.raw[field];
+    if (this.isBlank(value)) return undefined;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.malformed(field, value);
+      return undefined;
+    }
+    return String(value);
+  }
+
+  /**
+   * Read a required decimal number sent either as a number or a numeric string
+   */
+  number(field: string): number {
+    const value = this.raw[field];
+    if (this.isBlank(value)) {
+      this.missing(field);
+      return 0;
+    }
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value.trim()) : NaN;
+    if (!Number.isFinite(parsed)) {
+      this.malformed(field, value);
+      return 0;
+    }
+    return parsed;
+  }
+
+  /**
+   * Read an optional decimal number, returning the fallback when absent
+   */
+  optionalNumber(field: string, fallback: number = 0): number {
+    if (this.isBlank(this.raw[field])) return fallback;
+    return this.number(field);
+  }
+
+  /**
+   * Read a required exact decimal sent either as a numeric string or a number
+   */
+  decimal(field: string): Decimal {
+    const value = this.raw[field];
+    if (this.isBlank(value)) {
+      this.missing(field);
+      return Decimal.ZERO;
+    }
+    const parsed = Decimal.tryFrom(value);
+    if (!parsed) {
+      this.malformed(field, value);
+      return Decimal.ZERO;
+    }
+    return parsed;
+  }
+
+  /**
+   * Read an optional exact decimal, returning the fallback when absent
+   */
+  optionalDecimal(field: string, fallback: Decimal = Decimal.ZERO): Decimal {
+    if (this.isBlank(this.raw[field])) return fallback;
+    return this.decimal(field);
+  }
+
+  /**
+   * Read a required integer code and check that it belongs to the allowed set
+   */
+  code<T extends number>(field: string, allowed: readonly T[]): T {
+    const value = this.raw[field];
+    if (this.isBlank(value)) {
+      this.missing(field);
+      return allowed[0] as T;
+    }
+    const parsed = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isInteger(parsed) || !allowed.includes(parsed as T)) {
+      this.malformed(field, value);
+      return allowed[0] as T;
+    }
+    return parsed as T;
+  }
+
+  /**
+   * Read a required timestamp in milliseconds (number or numeric string)
+   */
+  date(field: string): Date {
+    const value = this.raw[field];
+    if (this.isBlank(value)) {
+      this.missing(field);
+      return new Date(0);
+    }
+    const timestamp = typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN;
+    if (!Number.isInteger(timestamp) || timestamp <= 0) {
+      this.malformed(field, value);
+      return new Date(0);
+    }
+    return new Date(timestamp);
+  }
+
+  /**
+   * Read an optional timestamp in milliseconds, returning undefined when absent
+   */
+  optionalDate(field: string): Date | undefined {
+    const value = this.raw[field];
+    if (this.isBlank(value) || value === '0' || value === 0) return undefined;
+    return this.date(field);
+  }
+
+  /**
+   * Turn the collected issues into a decode result
+   */
+  result<T>(value: T): DecodeResult<T> {
+    return this.issues.length === 0
+      ? { ok: true, value }
+      : { ok: false, issues: this.issues };
+  }
+}
+
+const ORDER_SIDES = Object.values(OrderSide).filter((v): v is OrderSide => typeof v === 'number');
+const ORDER_STATUSES = Object.values(OrderStatus).filter((v): v is OrderStatus => typeof v === 'number');
+
+/**
+ * Check that a value is a plain object so its fields can be read
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Validate and normalize a single simplifyList item
+ * @param raw - Raw item from the API response
+ * @returns Decoded order or the list of missing/malformed fields
+ */
+export function decodeP2POrder(raw: unknown): DecodeResult<P2POrder> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ field: '(item)', problem: 'malformed', value: raw }] };
+  }
+
+  const read = new FieldReader(raw);
+  const order: P2POrder = {
+    id: read.string('id'),
+    side: read.code('side', ORDER_SIDES),
+    status: read.code('status', ORDER_STATUSES),
+    tokenId: read.string('tokenId'),
+    currencyId: read.string('currencyId'),
+    price: read.decimal('price'),
+    fiatAmount: read.decimal('amount'),
+    tokenQuantity: read.decimal('notifyTokenQuantity'),
+    fee: read.optionalDecimal('fee'),
+    createdAt: read.date('createDate'),
+    userId: read.optionalString('userId') ?? '',
+    counterpartyNickName: read.optionalString('targetNickName') ?? '',
+    counterpartyUserId: read.optionalString('targetUserId') ?? '',
+    orderType: read.optionalString('orderType'),
+    sellerRealName: read.optionalString('sellerRealName'),
+    buyerRealName: read.optionalString('buyerRealName'),
+    raw
+  };
+
+  return read.result(order);
+}
+
+/**
+ * Decode a single item and throw if it is invalid
+ * @param raw - Raw item from the API response
+ * @returns Decoded order
+ */
+export function decodeP2POrderOrThrow(raw: unknown): P2POrder {
+  const result = decodeP2POrder(raw);
+  if (!result.ok) {
+    throw new P2POrderDecodeError(result.issues);
+  }
+  return result.value;
+}
+
+/**
+ * Decode a list of simplifyList items, separating valid orders from rejected ones
+ * @param items - Raw items from the API response
+ * @returns Valid orders and rejected items with their issues
+ */
+export function decodeP2POrders(items: unknown[]): DecodedP2POrders {
+  const orders: P2POrder[] = [];
+  const rejected: RejectedP2POrder[] = [];
+
+  for (const item of items) {
+    const result = decodeP2POrder(item);
+    if (result.ok) {
+      orders.push(result.value);
+    } else {
+      rejected.push({ raw: item, issues: result.issues });
+    }
+  }
+
+  return { orders, rejected };
+}
+
+/**
+ * Payment method attached to an order
+ */
+export interface PaymentTerm {
+  id: string;
+  paymentType: string; // payment method code
+  paymentName?: string; // human readable name, when the API provides it
+  realName?: string;
+  accountNo?: string;
+  bankName?: string;
+  branchName?: string;
+}
+
+/**
+ * Full P2P order details as returned by /v5/p2p/order/info
+ */
+export interface P2POrderDetail {
+  id: string;
+  side: OrderSide;
+  status: OrderStatus;
+  tokenId: string;
+  currencyId: string;
+  price: Decimal;
+  fiatAmount: Decimal; // "amount" in the API response
+  tokenQuantity: Decimal; // "quantity" in the API response
+  fee: Decimal;
+  counterpartyUserId: string;
+  counterpartyNickName: string;
+  createdAt: Date;
+  paidAt?: Date; // "transferDate": buyer marked the order as paid
+  updatedAt?: Date; // "updateDate": last status change
+  confirmedPaymentTerm?: PaymentTerm; // payment method the buyer actually used
+  paymentTerms: PaymentTerm[];
+  appealedTimes: number;
+  raw: Record<string, unknown>;
+}
+
+/**
+ * Validate a payment term object of the order info response
+ * @param raw - Raw payment term
+ * @returns Decoded payment term or undefined when the object is empty
+ */
+function decodePaymentTerm(raw: unknown): PaymentTerm | undefined {
+  if (!isRecord(raw) || Object.keys(raw).length === 0) return undefined;
+
+  const read = new FieldReader(raw);
+  const config = isRecord(raw.paymentConfigVo) ? raw.paymentConfigVo : {};
+  return {
+    id: read.optionalString('id') ?? '',
+    paymentType: read.optionalString('paymentType') ?? '',
+    paymentName: typeof config.paymentName === 'string' ? config.paymentName : undefined,
+    realName: read.optionalString('realName'),
+    accountNo: read.optionalString('accountNo'),
+    bankName: read.optionalString('bankName'),
+    branchName: read.optionalString('branchName')
+  };
+}
+
+/**
+ * Validate and normalize the result of /v5/p2p/order/info
+ * @param raw - "result" object of the API response
+ * @returns Decoded order details or the list of missing/malformed fields
+ */
+export function decodeP2POrderDetail(raw: unknown): DecodeResult<P2POrderDetail> {
+  if (!isRecord(raw)) {
+    return { ok: false, issues: [{ field: '(result)', problem: 'malformed', value: raw }] };
+  }
+
+  const read = new FieldReader(raw);
+  const paymentTerms = Array.isArray(raw.paymentTermList)
+    ? raw.paymentTermList.map(decodePaymentTerm).filter((term): term is PaymentTerm => term !== undefined)
+    : [];
+
+  const detail: P2POrderDetail = {
+    id: read.string('id'),
+    side: read.code('side', ORDER_SIDES),
+    status: read.code('status', ORDER_STATUSES),
+    tokenId: read.string('tokenId'),
+    currencyId: read.string('currencyId'),
+    price: read.decimal('price'),
+    fiatAmount: read.decimal('amount'),
+    tokenQuantity: read.decimal('quantity'),
+    fee: read.optionalDecimal('fee'),
+    counterpartyUserId: read.optionalString('targetUserId') ?? '',
+    counterpartyNickName: read.optionalString('targetNickName') ?? '',
+    createdAt: read.date('createDate'),
+    paidAt: read.optionalDate('transferDate'),
+    updatedAt: read.optionalDate('updateDate'),
+    confirmedPaymentTerm: decodePaymentTerm(raw.confirmedPayTerm),
+    paymentTerms,
+    appealedTimes: read.optionalNumber('appealedTimes'),
+    raw
+  };
+
+  return read.result(detail);
+}
@@ -0,0 +1,31 @@
+-- Перевод денежных колонок транзакций Bybit с double precision на точный NUMERIC(30, 8).
+-- Выполняется один раз перед развертыванием версии со схемой, где эти поля имеют тип Decimal:
+--   psql "$DATABASE_URL" -f prisma/sql/decimal-money.sql
+-- Приведение ::numeric берет кратчайшее десятичное представление double, поэтому 85.29 остается 85.29.
+-- Скрипт идемпотентен: повторный запуск по уже переведенным колонкам ничего не меняет.
+
+BEGIN;
+
+ALTER TABLE "BybitTransaction"
+  ALTER COLUMN "amount"     TYPE NUMERIC(30, 8) USING ROUND("amount"::numeric, 8),
+  ALTER COLUMN "totalPrice" TYPE NUMERIC(30, 8) USING ROUND("totalPrice"::numeric, 8),
+  ALTER COLUMN "unitPrice"  TYPE NUMERIC(30, 8) USING ROUND("unitPrice"::numeric, 8),
+  ALTER COLUMN "fee"        TYPE NUMERIC(30, 8) USING ROUND("fee"::numeric, 8);
+
+ALTER TABLE "BybitTransactionFromCabinet"
+  ALTER COLUMN "amount"     TYPE NUMERIC(30, 8) USING ROUND("amount"::numeric, 8),
+  ALTER COLUMN "totalPrice" TYPE NUMERIC(30, 8) USING ROUND("totalPrice"::numeric, 8),
+  ALTER COLUMN "unitPrice"  TYPE NUMERIC(30, 8) USING ROUND("unitPrice"::numeric, 8),
+  ALTER COLUMN "fee"        TYPE NUMERIC(30, 8) USING ROUND("fee"::numeric, 8);
+
+ALTER TABLE IF EXISTS "BybitPendingOrder"
+  ALTER COLUMN "amount"     TYPE NUMERIC(30, 8) USING ROUND("amount"::numeric, 8),
+  ALTER COLUMN "totalPrice" TYPE NUMERIC(30, 8) USING ROUND("totalPrice"::numeric, 8),
+  ALTER COLUMN "unitPrice"  TYPE NUMERIC(30, 8) USING ROUND("unitPrice"::numeric, 8);
+
+COMMIT;
+
+-- Проверка после миграции: суммы в фиате должны совпадать с originalData до копейки
+-- SELECT "orderNo", "totalPrice", "originalData"->>'amount' AS "apiAmount"
+-- FROM "BybitTransactionFromCabinet"
+-- WHERE "originalData" ? 'amount' AND "totalPrice" <> ("originalData"->>'amount')::numeric;
@@ -0,0 +1,49 @@
+-- Перевод столбцов status и type таблиц BybitTransaction и BybitTransactionFromCabinet на общие значения
+-- (storedOrderStatus / storedOrderType в p2p-order.ts): COMPLETED, WAITING_FOR_RELEASE, ..., BUY, SELL.
+-- До этого BybitTransaction хранил "Completed"/"Sell", а BybitTransactionFromCabinet - COMPLETED/CANCELED/PENDING/UNKNOWN,
+-- причем апелляции записывались как COMPLETED. Статус берется из кода API в originalData, если он там есть.
+-- Выполняется один раз при развертывании версии, которая сохраняет заявки во всех статусах:
+--   psql "$DATABASE_URL" -f prisma/sql/normalize-order-status.sql
+-- Скрипт идемпотентен: повторный запуск ничего не меняет.
+
+BEGIN;
+
+CREATE TEMPORARY TABLE "OrderStatusCode" ("code" INTEGER PRIMARY KEY, "status" TEXT NOT NULL) ON COMMIT DROP;
+INSERT INTO "OrderStatusCode" VALUES
+  (5, 'WAITING_FOR_CHAIN'),
+  (10, 'WAITING_FOR_PAYMENT'),
+  (20, 'WAITING_FOR_RELEASE'),
+  (30, 'APPEALING'),
+  (40, 'CANCELLED'),
+  (50, 'COMPLETED'),
+  (60, 'PAYING'),
+  (70, 'PAYMENT_FAILED'),
+  (80, 'EXCEPTION_CANCELLED'),
+  (90, 'WAITING_SELECTION'),
+  (100, 'OBJECTING'),
+  (110, 'WAITING_OBJECTION');
+
+UPDATE "BybitTransaction" t
+SET "status" = COALESCE(
+      (SELECT c."status" FROM "OrderStatusCode" c
+       WHERE t."originalData"->>'status' ~ '^[0-9]+$' AND c."code" = (t."originalData"->>'status')::int),
+      CASE UPPER(t."status") WHEN 'CANCELED' THEN 'CANCELLED' WHEN 'PENDING' THEN 'WAITING_FOR_RELEASE' ELSE UPPER(REPLACE(t."status", ' ', '_')) END
+    ),
+    "type" = UPPER(t."type");
+
+UPDATE "BybitTransactionFromCabinet" t
+SET "status" = COALESCE(
+      (SELECT c."status" FROM "OrderStatusCode" c
+       WHERE t."originalData"->>'status' ~ '^[0-9]+$' AND c."code" = (t."originalData"->>'status')::int),
+      CASE UPPER(t."status") WHEN 'CANCELED' THEN 'CANCELLED' WHEN 'PENDING' THEN 'WAITING_FOR_RELEASE' ELSE UPPER(REPLACE(t."status", ' ', '_')) END
+    ),
+    "type" = UPPER(t."type");
+
+COMMIT;
+
+-- Проверка после миграции: значения вне списка (например, старый UNKNOWN без originalData)
+-- SELECT "status", COUNT(*) FROM "BybitTransactionFromCabinet"
+-- WHERE "status" NOT IN (SELECT "status" FROM (VALUES ('WAITING_FOR_CHAIN'), ('WAITING_FOR_PAYMENT'), ('WAITING_FOR_RELEASE'),
+--   ('APPEALING'), ('CANCELLED'), ('COMPLETED'), ('PAYING'), ('PAYMENT_FAILED'), ('EXCEPTION_CANCELLED'),
+--   ('WAITING_SELECTION'), ('OBJECTING'), ('WAITING_OBJECTION')) AS s("status"))
+-- GROUP BY "status";
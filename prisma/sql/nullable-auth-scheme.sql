@@ -0,0 +1,17 @@
+-- Столбец BybitCabinet.bybitAuthScheme становится необязательным: NULL означает, что схема подписи
+-- определяется по секрету (detectAuthScheme в bybit-signing.ts). Раньше столбец по умолчанию получал HMAC,
+-- поэтому кабинет с закрытым ключом PEM подписывал запросы как HMAC.
+-- Значения HMAC сбрасываются в NULL: для обычного секрета определение все равно дает HMAC,
+-- а для ключа PEM - RSA. Явно указанная схема RSA сохраняется.
+-- Выполняется один раз при развертывании версии с необязательным столбцом:
+--   psql "$DATABASE_URL" -f prisma/sql/nullable-auth-scheme.sql
+-- Скрипт идемпотентен: повторный запуск ничего не меняет.
+
+BEGIN;
+
+ALTER TABLE "BybitCabinet" ALTER COLUMN "bybitAuthScheme" DROP DEFAULT;
+ALTER TABLE "BybitCabinet" ALTER COLUMN "bybitAuthScheme" DROP NOT NULL;
+
+UPDATE "BybitCabinet" SET "bybitAuthScheme" = NULL WHERE "bybitAuthScheme" = 'HMAC';
+
+COMMIT;
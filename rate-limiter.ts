@@ -0,0 +1,215 @@
+/**
+ * Token-bucket rate limiting for Bybit API requests.
+ * Buckets are keyed by API key and endpoint group and live in a registry that
+ * is shared by every BybitP2PParser instance in the process, so several
+ * parsers created for the same key never exceed its limit together.
+ */
+
+/**
+ * Size and refill speed of a token bucket
+ */
+export interface RateLimitConfig {
+  capacity: number; // maximum burst size
+  refillPerSecond: number; // sustained requests per second
+}
+
+/**
+ * Limit information reported by Bybit in X-Bapi-Limit-* response headers
+ */
+export interface LimitStatus {
+  limit?: number; // X-Bapi-Limit
+  remaining?: number; // X-Bapi-Limit-Status
+  resetAt?: number; // X-Bapi-Limit-Reset-Timestamp converted to local time (ms)
+}
+
+/**
+ * Endpoint groups that Bybit limits separately
+ */
+export type EndpointGroup = 'p2p-order' | 'p2p-chat' | 'p2p-item' | 'p2p-user' | 'market' | 'default';
+
+/**
+ * Default limits per endpoint group, refined at runtime from response headers
+ */
+export const DEFAULT_RATE_LIMITS: Record<EndpointGroup, RateLimitConfig> = {
+  'p2p-order': { capacity: 10, refillPerSecond: 10 },
+  'p2p-chat': { capacity: 10, refillPerSecond: 10 },
+  'p2p-item': { capacity: 10, refillPerSecond: 10 },
+  'p2p-user': { capacity: 10, refillPerSecond: 10 },
+  'market': { capacity: 20, refillPerSecond: 20 },
+  'default': { capacity: 5, refillPerSecond: 5 }
+};
+
+/**
+ * Determine the endpoint group of an API path
+ * @param endpoint - API endpoint starting with /
+ * @returns Endpoint group used as part of the bucket key
+ */
+export function getEndpointGroup(endpoint: string): EndpointGroup {
+  if (endpoint.startsWith('/v5/p2p/order/message') || endpoint.startsWith('/v5/p2p/oss')) return 'p2p-chat';
+  if (endpoint.startsWith('/v5/p2p/order')) return 'p2p-order';
+  if (endpoint.startsWith('/v5/p2p/item')) return 'p2p-item';
+  if (endpoint.startsWith('/v5/p2p/user')) return 'p2p-user';
+  if (endpoint.startsWith('/v5/market')) return 'market';
+  return 'default';
+}
+
+/**
+ * Read X-Bapi-Limit-* headers of a response
+ * @param headers - Response headers (names are matched case-insensitively)
+ * @param timeOffset - Server time minus local time, used to convert the reset timestamp
+ * @returns Parsed limit status, empty when the headers are absent
+ */
+export function parseLimitHeaders(headers: Record<string, unknown> | undefined, timeOffset: number = 0): LimitStatus {
+  const read = (name: string): number | undefined => {
+    if (!headers) return undefined;
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    const value = key === undefined ? undefined : Number(headers[key]);
+    return value === undefined || Number.isNaN(value) ? undefined : value;
+  };
+
+  const resetTimestamp = read('x-bapi-limit-reset-timestamp');
+  return {
+    limit: read('x-bapi-limit'),
+    remaining: read('x-bapi-limit-status'),
+    resetAt: resetTimestamp === undefined ? undefined : resetTimestamp - timeOffset
+  };
+}
+
+/**
+ * Token bucket with a FIFO queue of waiting requests
+ */
+export class TokenBucket {
+  private capacity: number;
+  private refillPerSecond: number;
+  private tokens: number;
+  private lastRefill: number = Date.now();
+  private blockedUntil: number = 0;
+  private queue: Array<() => void> = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: RateLimitConfig) {
+    this.capacity = config.capacity;
+    this.refillPerSecond = config.refillPerSecond;
+    this.tokens = config.capacity;
+  }
+
+  /**
+   * Number of requests waiting for a token
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Wait until a request may be sent. Requests are released in call order.
+   */
+  acquire(): Promise<void> {
+    return new Promise(resolve => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+  }
+
+  /**
+   * Apply limit information reported by the server
+   * @param status - Parsed X-Bapi-Limit-* headers
+   */
+  update(status: LimitStatus): void {
+    if (status.limit !== undefined && status.limit > 0 && status.limit !== this.capacity) {
+      this.capacity = status.limit;
+      this.tokens = Math.min(this.tokens, this.capacity);
+    }
+    if (status.remaining !== undefined) {
+      this.tokens = Math.min(this.tokens, status.remaining);
+      if (status.remaining <= 0 && status.resetAt !== undefined) {
+        this.blockUntil(status.resetAt);
+      }
+    }
+  }
+
+  /**
+   * Stop releasing requests until the given local time
+   * @param timestamp - Local time in milliseconds
+   */
+  blockUntil(timestamp: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, timestamp);
+    this.tokens = 0;
+    this.lastRefill = Math.max(this.lastRefill, timestamp);
+  }
+
+  private refill(now: number): void {
+    if (now <= this.lastRefill) return;
+    const elapsed = now - this.lastRefill;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond / 1000);
+    this.lastRefill = now;
+  }
+
+  private drain(): void {
+    if (this.timer) return;
+
+    while (this.queue.length > 0) {
+      const now = Date.now();
+      if (now < this.blockedUntil) {
+        this.schedule(this.blockedUntil - now);
+        return;
+      }
+
+      this.refill(now);
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        this.queue.shift()!();
+        continue;
+      }
+
+      this.schedule(Math.ceil((1 - this.tokens) * 1000 / this.refillPerSecond));
+      return;
+    }
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, delay);
+  }
+}
+
+/**
+ * Registry of token buckets keyed by API key and endpoint group
+ */
+export class RateLimiterRegistry {
+  private buckets = new Map<string, TokenBucket>();
+
+  constructor(private limits: Record<EndpointGroup, RateLimitConfig> = DEFAULT_RATE_LIMITS) {}
+
+  /**
+   * Get (or create) the bucket for an API key and endpoint
+   * @param apiKey - Bybit API key
+   * @param endpoint - API endpoint starting with /
+   * @returns Bucket shared by all requests of this key to the endpoint group
+   */
+  bucket(apiKey: string, endpoint: string): TokenBucket {
+    const group = getEndpointGroup(endpoint);
+    const key = `${apiKey}:${group}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new TokenBucket(this.limits[group]);
+      this.buckets.set(key, bucket);
+    }
+    return bucket;
+  }
+
+  /**
+   * Wait for a token for the given API key and endpoint
+   * @param apiKey - Bybit API key
+   * @param endpoint - API endpoint starting with /
+   */
+  acquire(apiKey: string, endpoint: string): Promise<void> {
+    return this.bucket(apiKey, endpoint).acquire();
+  }
+}
+
+/**
+ * Registry shared by all parser instances in the process
+ */
+export const sharedRateLimiter = new RateLimiterRegistry();
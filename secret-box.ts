@@ -0,0 +1,281 @@
+/**
+ * Envelope encryption of Bybit API secrets stored in User / BybitCabinet.
+ * Every value is encrypted with its own random data key (AES-256-GCM); the
+ * data key is wrapped with the master key and stored next to the ciphertext
+ * together with the master key id. Rotating the master key only re-wraps the
+ * data keys, the secrets themselves are never decrypted into the database.
+ *
+ * Stored value: bybitenc:v1:<master key id>:<wrapped data key>:<iv>:<ciphertext>:<tag>
+ * (all binary parts base64)
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+
+const PREFIX = 'bybitenc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+/**
+ * Default path of the master key file, overridable with BYBIT_MASTER_KEY_FILE
+ */
+export const DEFAULT_MASTER_KEY_FILE = '.bybit-master.key';
+
+/**
+ * Error of decoding or decrypting a stored secret
+ */
+export class SecretBoxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretBoxError';
+  }
+}
+
+/**
+ * Master key and its id (first bytes of its SHA-256, safe to store)
+ */
+export interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * Parse a master key given as base64 or hex
+ * @throws SecretBoxError if it is not 32 bytes long
+ */
+export function parseMasterKey(text: string): MasterKey {
+  const value = text.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value) ? Buffer.from(value, 'hex') : Buffer.from(value, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new SecretBoxError(`Master key must be ${KEY_LENGTH} bytes (base64 or hex), got ${key.length}`);
+  }
+  return { id: crypto.createHash('sha256').update(key).digest('hex').slice(0, 12), key };
+}
+
+/**
+ * New random master key, base64
+ */
+export function generateMasterKey(): string {
+  return crypto.randomBytes(KEY_LENGTH).toString('base64');
+}
+
+/**
+ * Whether a stored value is an encrypted envelope (plaintext rows are not migrated yet)
+ */
+export function isEncryptedSecret(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(PREFIX);
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cipher.getAuthTag() };
+}
+
+function open(key: Buffer, iv: Buffer, ciphertext: Buffer, tag: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Decoded envelope
+ */
+interface Envelope {
+  keyId: string;
+  wrappedKey: Buffer; // iv + зашифрованный ключ данных + tag
+  iv: Buffer;
+  ciphertext: Buffer;
+  tag: Buffer;
+}
+
+function decodeEnvelope(value: string): Envelope {
+  const parts = value.slice(PREFIX.length).split(':');
+  const [keyId, wrappedKey, iv, ciphertext, tag] = parts;
+  if (parts.length !== 5 || keyId === undefined || wrappedKey === undefined || iv === undefined || ciphertext === undefined || tag === undefined) {
+    throw new SecretBoxError('Malformed encrypted secret');
+  }
+  return {
+    keyId,
+    wrappedKey: Buffer.from(wrappedKey, 'base64'),
+    iv: Buffer.from(iv, 'base64'),
+    ciphertext: Buffer.from(ciphertext, 'base64'),
+    tag: Buffer.from(tag, 'base64')
+  };
+}
+
+function encodeEnvelope(envelope: Envelope): string {
+  return PREFIX + [
+    envelope.keyId,
+    envelope.wrappedKey.toString('base64'),
+    envelope.iv.toString('base64'),
+    envelope.ciphertext.toString('base64'),
+    envelope.tag.toString('base64')
+  ].join(':');
+}
+
+/**
+ * Encrypts secrets with the current master key and decrypts them with any known one
+ */
+export class SecretBox {
+  private keys: Map<string, MasterKey>;
+
+  /**
+   * @param current - Master key for new values
+   * @param previous - Older master keys that are still accepted for decryption and rotation
+   */
+  constructor(readonly current: MasterKey, previous: MasterKey[] = []) {
+    this.keys = new Map([...previous, current].map(key => [key.id, key]));
+  }
+
+  /**
+   * Encrypt a secret with a fresh data key
+   */
+  encrypt(plaintext: string): string {
+    const dataKey = crypto.randomBytes(KEY_LENGTH);
+    const wrapped = seal(this.current.key, dataKey);
+    return encodeEnvelope({
+      keyId: this.current.id,
+      wrappedKey: Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag]),
+      ...seal(dataKey, Buffer.from(plaintext, 'utf8'))
+    });
+  }
+
+  /**
+   * Decrypt a stored secret; plaintext values are returned unchanged
+   * @throws SecretBoxError if the master key is unknown or the value was tampered with
+   */
+  decrypt(value: string): string {
+    if (!isEncryptedSecret(value)) return value;
+    const envelope = decodeEnvelope(value);
+    try {
+      return open(this.unwrap(envelope), envelope.iv, envelope.ciphertext, envelope.tag).toString('utf8');
+    } catch (error: any) {
+      if (error instanceof SecretBoxError) throw error;
+      throw new SecretBoxError(`Cannot decrypt secret: ${error.message}`);
+    }
+  }
+
+  /**
+   * Whether a stored value is plaintext or wrapped with an older master key
+   */
+  needsUpdate(value: string): boolean {
+    return !isEncryptedSecret(value) || decodeEnvelope(value).keyId !== this.current.id;
+  }
+
+  /**
+   * Wrap the data key of a stored secret with the current master key; plaintext values are encrypted
+   */
+  rewrap(value: string): string {
+    if (!isEncryptedSecret(value)) return this.encrypt(value);
+    const envelope = decodeEnvelope(value);
+    if (envelope.keyId === this.current.id) return value;
+
+    const wrapped = seal(this.current.key, this.unwrap(envelope));
+    return encodeEnvelope({
+      ...envelope,
+      keyId: this.current.id,
+      wrappedKey: Buffer.concat([wrapped.iv, wrapped.ciphertext, wrapped.tag])
+    });
+  }
+
+  private unwrap(envelope: Envelope): Buffer {
+    const master = this.keys.get(envelope.keyId);
+    if (!master) {
+      throw new SecretBoxError(`Secret is encrypted with unknown master key ${envelope.keyId}`);
+    }
+    const { wrappedKey } = envelope;
+    try {
+      return open(
+        master.key,
+        wrappedKey.subarray(0, IV_LENGTH),
+        wrappedKey.subarray(IV_LENGTH, wrappedKey.length - TAG_LENGTH),
+        wrappedKey.subarray(wrappedKey.length - TAG_LENGTH)
+      );
+    } catch (error: any) {
+      throw new SecretBoxError(`Cannot unwrap data key: ${error.message}`);
+    }
+  }
+}
+
+/**
+ * Build a SecretBox from configuration:
+ * BYBIT_MASTER_KEY or the file BYBIT_MASTER_KEY_FILE (default .bybit-master.key) for the current key,
+ * BYBIT_MASTER_KEY_PREVIOUS (comma separated) for keys being rotated out
+ * @returns SecretBox or undefined when no master key is configured
+ */
+export function loadSecretBox(env: Record<string, string | undefined> = process.env): SecretBox | undefined {
+  let current = env.BYBIT_MASTER_KEY;
+  if (!current) {
+    const filepath = path.resolve(env.BYBIT_MASTER_KEY_FILE || DEFAULT_MASTER_KEY_FILE);
+    if (fs.existsSync(filepath)) current = fs.readFileSync(filepath, 'utf8');
+  }
+  if (!current || current.trim() === '') return undefined;
+
+  const previous = (env.BYBIT_MASTER_KEY_PREVIOUS ?? '')
+    .split(',')
+    .filter(key => key.trim() !== '')
+    .map(parseMasterKey);
+  return new SecretBox(parseMasterKey(current), previous);
+}
+
+/**
+ * Result of re-writing the secret column of one table
+ */
+export interface StoredSecretsResult {
+  table: 'User' | 'BybitCabinet';
+  updated: number;
+  unchanged: number;
+  failed: { id: number; message: string }[];
+}
+
+/**
+ * Encrypt plaintext secrets and re-wrap secrets of older master keys in User and BybitCabinet
+ * Each row is updated only if its value did not change since it was read
+ * @param prisma - Prisma client
+ * @param box - SecretBox with the current (and, for rotation, previous) master keys
+ * @param dryRun - Only count the rows that would change
+ */
+export async function updateStoredSecrets(prisma: PrismaClient, box: SecretBox, dryRun = false): Promise<StoredSecretsResult[]> {
+  const tables: [StoredSecretsResult['table'], any][] = [
+    ['User', prisma.user],
+    ['BybitCabinet', prisma.bybitCabinet]
+  ];
+  const results: StoredSecretsResult[] = [];
+
+  for (const [table, delegate] of tables) {
+    const result: StoredSecretsResult = { table, updated: 0, unchanged: 0, failed: [] };
+    const rows: { id: number; bybitApiSecret: string }[] = await delegate.findMany({
+      where: { bybitApiSecret: { not: null } },
+      select: { id: true, bybitApiSecret: true }
+    });
+
+    for (const row of rows) {
+      if (row.bybitApiSecret === '' || !box.needsUpdate(row.bybitApiSecret)) {
+        result.unchanged++;
+        continue;
+      }
+      try {
+        const value = box.rewrap(row.bybitApiSecret);
+        if (!dryRun) {
+          const { count } = await delegate.updateMany({
+            where: { id: row.id, bybitApiSecret: row.bybitApiSecret },
+            data: { bybitApiSecret: value }
+          });
+          if (count === 0) throw new Error('Value changed while it was being updated');
+        }
+        result.updated++;
+      } catch (error: any) {
+        result.failed.push({ id: row.id, message: error.message });
+      }
+    }
+    results.push(result);
+  }
+
+  return results;
+}
@@ -0,0 +1,59 @@
+import { PrismaClient } from '@prisma/client';
+import { generateMasterKey, loadSecretBox, updateStoredSecrets } from './secret-box';
+
+const USAGE = 'Использование: bun run secrets.ts (generate-key | encrypt | rotate) [--dry-run]';
+
+/**
+ * Управление шифрованием секретов API в таблицах User и BybitCabinet
+ * - generate-key: вывести новый мастер-ключ
+ * - encrypt: зашифровать секреты, которые еще хранятся открытым текстом
+ * - rotate: перешифровать ключи данных новым мастер-ключом
+ *   (BYBIT_MASTER_KEY - новый ключ, BYBIT_MASTER_KEY_PREVIOUS - старые ключи через запятую)
+ */
+async function manageSecrets(args: string[]): Promise<number> {
+  const command = args.find(arg => !arg.startsWith('--'));
+  const dryRun = args.includes('--dry-run');
+
+  if (command === 'generate-key') {
+    console.log(generateMasterKey());
+    return 0;
+  }
+
+  if (command !== 'encrypt' && command !== 'rotate') {
+    console.error(USAGE);
+    return 2;
+  }
+
+  const box = loadSecretBox();
+  if (!box) {
+    console.error('Мастер-ключ не задан: укажите BYBIT_MASTER_KEY или файл BYBIT_MASTER_KEY_FILE');
+    return 2;
+  }
+  if (command === 'rotate' && !process.env.BYBIT_MASTER_KEY_PREVIOUS) {
+    console.error('Для ротации укажите старый мастер-ключ в BYBIT_MASTER_KEY_PREVIOUS, а новый - в BYBIT_MASTER_KEY');
+    return 2;
+  }
+
+  const prisma = new PrismaClient();
+  try {
+    const results = await updateStoredSecrets(prisma, box, dryRun);
+    let failed = 0;
+    for (const result of results) {
+      result.failed.forEach(item => console.error(`${result.table} ${item.id}: ${item.message}`));
+      failed += result.failed.length;
+      console.log(`${result.table}: ${dryRun ? 'будет обновлено' : 'обновлено'} ${result.updated}, без изменений ${result.unchanged}, ошибок ${result.failed.length}`);
+    }
+    console.log(`Текущий мастер-ключ: ${box.current.id}`);
+    if (dryRun) console.log('Dry run: изменения не записаны.');
+    return failed > 0 ? 1 : 0;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+manageSecrets(process.argv.slice(2))
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error('Ошибка:', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,84 @@
+/**
+ * Historical backfill of Bybit orders.
+ * A BybitBackfillJob walks a period backwards from endSyncAt to startSyncAt in
+ * windows of windowDays. After every stored window cursorAt moves to the start
+ * of that window, so a job interrupted by a crash or a restart continues with
+ * the first window that was not finished; storing is idempotent, so redoing
+ * an unfinished window does not duplicate rows.
+ */
+
+/**
+ * Status of a backfill job, same values as the BybitSyncJobStatus enum in schema.prisma
+ */
+export type BackfillJobStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+
+export const DEFAULT_BACKFILL_WINDOW_DAYS = 7;
+
+export const BACKFILL_LIMITS = {
+  windowDays: { min: 1, max: 90 },
+  maxAttempts: 5 // failed runs before the job is marked FAILED
+} as const;
+
+/**
+ * Fields of a job that decide its next window
+ */
+export interface BackfillProgress {
+  startSyncAt: Date; // oldest createDate to fetch
+  endSyncAt: Date; // newest createDate to fetch, the walk starts here
+  cursorAt: Date | null; // everything from cursorAt to endSyncAt is stored
+  windowDays: number;
+}
+
+/**
+ * Error thrown for a backfill request that cannot be started
+ */
+export class BackfillValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid backfill job: ${problems.join('; ')}`);
+    this.name = 'BackfillValidationError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Check the period and window of a new job
+ * @param now - Current time in milliseconds; the period must not end in the future
+ * @returns Problems, empty when the job can be created
+ */
+export function validateBackfill(range: { beginTime: number; endTime: number }, windowDays: number, now: number): string[] {
+  const problems: string[] = [];
+  const { min, max } = BACKFILL_LIMITS.windowDays;
+
+  if (!Number.isFinite(range.beginTime) || !Number.isFinite(range.endTime) || range.beginTime >= range.endTime) {
+    problems.push('period must start before it ends');
+  } else if (range.endTime > now) {
+    problems.push('period must not end in the future');
+  }
+  if (!Number.isInteger(windowDays) || windowDays < min || windowDays > max) {
+    problems.push(`windowDays must be an integer from ${min} to ${max}`);
+  }
+
+  return problems;
+}
+
+/**
+ * Next window of a job, walking from the newest orders to the oldest
+ * @returns Window or null when the whole period is stored
+ */
+export function nextBackfillWindow(job: BackfillProgress): { beginTime: number; endTime: number } | null {
+  const endTime = (job.cursorAt ?? job.endSyncAt).getTime();
+  const startTime = job.startSyncAt.getTime();
+  if (endTime <= startTime) return null;
+  return { beginTime: Math.max(startTime, endTime - job.windowDays * 24 * 60 * 60 * 1000), endTime };
+}
+
+/**
+ * Share of the period already stored, from 0 to 1
+ */
+export function backfillProgress(job: BackfillProgress): number {
+  const total = job.endSyncAt.getTime() - job.startSyncAt.getTime();
+  if (total <= 0 || !job.cursorAt) return job.cursorAt ? 1 : 0;
+  return Math.min(1, (job.endSyncAt.getTime() - job.cursorAt.getTime()) / total);
+}
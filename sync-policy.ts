@@ -0,0 +1,180 @@
+/**
+ * Per-owner sync policy of BybitSyncService.
+ * Every BybitCabinet and User may store a partial policy as JSON in its
+ * syncPolicy column; missing fields fall back to the defaults of the owner
+ * kind. Stored values are validated before use, so a typo in one cabinet
+ * stops only that cabinet instead of syncing it with surprising settings.
+ */
+
+import { isFinalOrderStatus, OrderSide, OrderStatus, parseOrderSide, parseOrderStatus, type P2POrder } from './p2p-order';
+
+/**
+ * What and how often to pull for one cabinet or user
+ */
+export interface SyncPolicy {
+  enabled: boolean; // false: skipped by the periodic sync, manual sync still works
+  lookbackDays: number; // period of the first sync; the sync cursor never lags further behind
+  statuses: OrderStatus[]; // API status filter, empty: all statuses
+  sides: OrderSide[]; // API side filter, empty: both sides
+  tokens: string[]; // one pass per token, empty: all tokens in one pass
+  pageSize: number; // orders per API page
+  intervalMinutes: number; // minimum time between periodic syncs
+  settleMinutes: number; // orders younger than this may still change status, the sync cursor stays behind them
+}
+
+export const SYNC_POLICY_LIMITS = {
+  lookbackDays: { min: 1 / 24, max: 365 },
+  pageSize: { min: 1, max: 100 },
+  intervalMinutes: { min: 1, max: 7 * 24 * 60 },
+  settleMinutes: { min: 0, max: 7 * 24 * 60 }
+} as const;
+
+/**
+ * Cabinets pull every order every 5 minutes, starting with the last 3 days
+ */
+export const DEFAULT_CABINET_SYNC_POLICY: SyncPolicy = {
+  enabled: true,
+  lookbackDays: 3,
+  statuses: [],
+  sides: [],
+  tokens: [],
+  pageSize: 10,
+  intervalMinutes: 5,
+  settleMinutes: 60
+};
+
+/**
+ * Users pull every order like cabinets, with larger pages
+ */
+export const DEFAULT_USER_SYNC_POLICY: SyncPolicy = {
+  ...DEFAULT_CABINET_SYNC_POLICY,
+  pageSize: 20
+};
+
+/**
+ * Error thrown for a stored or requested policy that cannot be used
+ */
+export class SyncPolicyValidationError extends Error {
+  problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid sync policy: ${problems.join('; ')}`);
+    this.name = 'SyncPolicyValidationError';
+    this.problems = problems;
+  }
+}
+
+const POLICY_KEYS = Object.keys(DEFAULT_CABINET_SYNC_POLICY) as (keyof SyncPolicy)[];
+
+/**
+ * Check a complete policy
+ * @returns Problems, empty when the policy is valid
+ */
+export function validateSyncPolicy(policy: SyncPolicy): string[] {
+  const problems: string[] = [];
+  const inRange = (key: keyof typeof SYNC_POLICY_LIMITS, integer: boolean) => {
+    const value = policy[key];
+    const { min, max } = SYNC_POLICY_LIMITS[key];
+    if (typeof value !== 'number' || !Number.isFinite(value) || (integer && !Number.isInteger(value)) || value < min || value > max) {
+      problems.push(`${key} must be ${integer ? 'an integer' : 'a number'} from ${Number(min.toFixed(3))} to ${max}`);
+    }
+  };
+
+  if (typeof policy.enabled !== 'boolean') problems.push('enabled must be true or false');
+  inRange('lookbackDays', false);
+  inRange('pageSize', true);
+  inRange('intervalMinutes', true);
+  inRange('settleMinutes', true);
+  if (!Array.isArray(policy.statuses) || policy.statuses.some(status => !(status in OrderStatus) || typeof status !== 'number')) {
+    problems.push('statuses must be a list of order status codes');
+  }
+  if (!Array.isArray(policy.sides) || policy.sides.some(side => side !== OrderSide.Buy && side !== OrderSide.Sell)) {
+    problems.push('sides must be a list of 0 (buy) and 1 (sell)');
+  }
+  if (!Array.isArray(policy.tokens) || policy.tokens.some(token => typeof token !== 'string' || !/^[A-Z0-9]{2,10}$/.test(token))) {
+    problems.push('tokens must be a list of token ids such as USDT');
+  }
+
+  return problems;
+}
+
+/**
+ * Read a stored policy on top of the defaults.
+ * Statuses and sides may be given as codes or names ("completed", "sell"), tokens in any case.
+ * @param stored - syncPolicy column value (null or a partial policy object)
+ * @param defaults - Defaults of the owner kind
+ * @throws SyncPolicyValidationError listing every problem
+ */
+export function resolveSyncPolicy(stored: unknown, defaults: SyncPolicy): SyncPolicy {
+  if (stored === null || stored === undefined) return { ...defaults };
+  if (typeof stored !== 'object' || Array.isArray(stored)) {
+    throw new SyncPolicyValidationError(['policy must be an object']);
+  }
+
+  const problems: string[] = [];
+  const values = stored as Record<string, unknown>;
+  const unknownKeys = Object.keys(values).filter(key => !(POLICY_KEYS as string[]).includes(key));
+  if (unknownKeys.length > 0) problems.push(`unknown fields: ${unknownKeys.join(', ')}`);
+
+  // Коды и названия статусов и сторон приводим к числам до проверки
+  const list = <T>(value: unknown, parse: (item: string) => T | undefined): unknown =>
+    Array.isArray(value) ? value.map(item => parse(String(item)) ?? item) : value;
+
+  const policy = {
+    ...defaults,
+    ...values,
+    ...('statuses' in values ? { statuses: list(values.statuses, parseOrderStatus) } : {}),
+    ...('sides' in values ? { sides: list(values.sides, parseOrderSide) } : {}),
+    ...('tokens' in values ? { tokens: list(values.tokens, item => item.trim().toUpperCase()) } : {})
+  } as SyncPolicy;
+
+  problems.push(...validateSyncPolicy(policy));
+  if (problems.length > 0) throw new SyncPolicyValidationError(problems);
+  return policy;
+}
+
+const lookbackMs = (policy: SyncPolicy) => Math.round(policy.lookbackDays * 24 * 60 * 60 * 1000);
+
+/**
+ * Lookback period of the policy, ending now
+ * @param now - Current time in milliseconds
+ */
+export function syncPolicyRange(policy: SyncPolicy, now: number): { beginTime: number; endTime: number } {
+  return { beginTime: now - lookbackMs(policy), endTime: now };
+}
+
+/**
+ * Period of a periodic sync: from the sync cursor to now, the lookback period before the first sync
+ * @param cursor - Sync cursor of the owner (syncCursorAt)
+ * @param now - Current time in milliseconds
+ */
+export function incrementalSyncRange(policy: SyncPolicy, cursor: Date | null | undefined, now: number): { beginTime: number; endTime: number } {
+  if (!cursor) return syncPolicyRange(policy, now);
+  return { beginTime: Math.min(cursor.getTime(), now), endTime: now };
+}
+
+/**
+ * Sync cursor after a successful periodic sync: every order created before it is
+ * stored in its final status. The cursor stays settleMinutes behind the end of the
+ * range and behind the oldest order still open, but never lags more than lookbackDays
+ * (an appeal may stay open for weeks) and never moves back.
+ * @param range - Synced period
+ * @param orders - Orders fetched for the period
+ */
+export function advanceSyncCursor(policy: SyncPolicy, range: { beginTime: number; endTime: number }, orders: P2POrder[]): Date {
+  let cursor = range.endTime - policy.settleMinutes * 60 * 1000;
+  for (const order of orders) {
+    if (!isFinalOrderStatus(order.status)) cursor = Math.min(cursor, order.createdAt.getTime());
+  }
+  return new Date(Math.max(cursor, range.endTime - lookbackMs(policy), range.beginTime));
+}
+
+/**
+ * Whether the periodic sync should run for an owner now
+ * @param lastSyncAt - Time of the last sync attempt (lastBybitSyncAt)
+ * @param now - Current time in milliseconds
+ */
+export function isSyncDue(policy: SyncPolicy, lastSyncAt: Date | null | undefined, now: number): boolean {
+  if (!policy.enabled) return false;
+  return !lastSyncAt || now - lastSyncAt.getTime() >= policy.intervalMinutes * 60 * 1000;
+}
@@ -1,37 +1,163 @@
-import { PrismaClient } from '@prisma/client';
+import { PrismaClient, type BybitOrderBookSnapshot, type Prisma } from '@prisma/client';
 import BybitP2PParser from './bybit';
+import { defaultCredentialProvider, MissingCredentialsError, type ChainCredentialProvider, type CredentialOwner } from './credentials';
+import { OrderSide, OrderStatus, storedOrderStatus, storedOrderType, type P2POrder, type P2POrderDetail } from './p2p-order';
+import { AdStatus, type P2PAdChanges, type P2PAdFilter } from './p2p-ad';
+import type { ChatMessage } from './p2p-chat';
+import { buildOrderBookSnapshot, DEFAULT_MARKET_TARGETS, parseMarketTargets, type OnlineAdFilter } from './p2p-market';
+import {
+    advanceSyncCursor,
+    DEFAULT_CABINET_SYNC_POLICY,
+    DEFAULT_USER_SYNC_POLICY,
+    incrementalSyncRange,
+    isSyncDue,
+    resolveSyncPolicy,
+    type SyncPolicy
+} from './sync-policy';
+import {
+    BACKFILL_LIMITS,
+    BackfillValidationError,
+    DEFAULT_BACKFILL_WINDOW_DAYS,
+    nextBackfillWindow,
+    validateBackfill,
+    type BackfillJobStatus
+} from './sync-backfill';
 import * as fs from 'fs';
 import * as path from 'path';
+import { EventEmitter } from 'events';
 import axios from 'axios';
 
+/**
+ * Событие изменения статуса заявки в работе
+ */
+export interface PendingOrderEvent {
+    cabinetId: number;
+    order: P2POrder;
+    previousStatus: OrderStatus | null; // null, если заявка замечена впервые
+}
+
+/**
+ * Период синхронизации (timestamp в миллисекундах)
+ */
+export interface SyncRange {
+    beginTime: number;
+    endTime: number;
+}
+
+/**
+ * Итог синхронизации одного пользователя или кабинета
+ */
+export interface SyncResult {
+    fetched: number; // заявок получено из API
+    created: number; // новых записей в базе
+    updated: number; // записей с измененным статусом
+    error?: string; // сообщение об ошибке, если синхронизация не удалась
+}
+
+/**
+ * Владелец задания дозагрузки истории
+ */
+export type BackfillOwner = Exclude<CredentialOwner, { kind: 'default' }>;
+
+/**
+ * Итог запуска задания дозагрузки истории
+ */
+export interface BackfillResult {
+    jobId: number;
+    status: BackfillJobStatus;
+    windows: number; // окон обработано в этом запуске
+    fetched: number; // счетчики задания за все запуски
+    created: number;
+    updated: number;
+    cursorAt: Date | null; // все заявки от cursorAt до конца периода сохранены
+    error?: string; // сообщение об ошибке, если запуск прервался
+}
+
+/**
+ * Настройки сервиса синхронизации
+ */
+export interface BybitSyncServiceOptions {
+    prisma?: PrismaClient; // по умолчанию создается свой клиент с логированием ошибок
+    credentials?: ChainCredentialProvider; // по умолчанию defaultCredentialProvider
+    baseUrl?: string; // адрес API Bybit, например локальный тестовый сервер
+    logDir?: string; // по умолчанию logs рядом с сервисом
+    marketTargets?: OnlineAdFilter[]; // рынки для снимков стакана; по умолчанию BYBIT_MARKET_TARGETS или USDT/RUB
+}
+
+/**
+ * Результат применения изменения объявлений в одном кабинете
+ */
+export interface CabinetAdChangeResult {
+    cabinetId: number;
+    updated: string[]; // id измененных объявлений
+    failed: { itemId?: string; error: string }[];
+}
+
 /**
  * Сервис синхронизации транзакций Bybit
  * Выполняет периодическую синхронизацию данных для всех пользователей с API ключами
  */
 export class BybitSyncService {
     private prisma: PrismaClient;
+    private credentials: ChainCredentialProvider;
+    private baseUrl?: string;
     private isRunning: boolean = false;
     private syncInterval: NodeJS.Timeout | null = null;
     private dbRetryAttempts: number = 5;
     private dbRetryDelay: number = 5000; // 5 секунд
-    private syncIntervalTime: number = 5 * 60 * 1000; // 5 минут
+    private syncIntervalTime: number = 60 * 1000; // 1 минута; как часто синхронизировать кабинет, решает его политика
+    private isSyncingCabinets: boolean = false;
     private logDir: string = path.join(__dirname, 'logs');
     private processingInterval: NodeJS.Timeout | null = null;
     private processingIntervalTime: number = 10 * 60 * 1000; // 10 минут
+    private pendingInterval: NodeJS.Timeout | null = null;
+    private pendingIntervalTime: number = 30 * 1000; // 30 секунд
+    private isPollingPending: boolean = false;
+    private marketInterval: NodeJS.Timeout | null = null;
+    private marketIntervalTime: number = 5 * 60 * 1000; // 5 минут
+    private backfillInterval: NodeJS.Timeout | null = null;
+    private backfillIntervalTime: number = 60 * 1000; // 1 минута
+    private backfillWindowsPerRun: number = 10; // окон одного задания за запуск, чтобы не занимать API надолго
+    private isRunningBackfill: boolean = false;
     
-    constructor() {
-        // Инициализация клиента Prisma
-        this.prisma = new PrismaClient({
-            log: [
-                { level: 'warn', emit: 'event' },
-                { level: 'error', emit: 'event' }
-            ]
-        });
+    // Рынки, для которых сохраняются снимки стакана объявлений
+    private marketTargets: OnlineAdFilter[];
+    
+    /**
+     * События заявок в работе:
+     * - 'statusChanged' - любая смена статуса (PendingOrderEvent)
+     * - 'waitingForRelease' - заявка перешла в статус "ожидает отпуска" (20)
+     * - 'appealing' - по заявке открыта апелляция (30)
+     */
+    public readonly events: EventEmitter = new EventEmitter();
+    
+    constructor(options: BybitSyncServiceOptions = {}) {
+        if (options.prisma) {
+            this.prisma = options.prisma;
+        } else {
+            // Инициализация клиента Prisma
+            this.prisma = new PrismaClient({
+                log: [
+                    { level: 'warn', emit: 'event' },
+                    { level: 'error', emit: 'event' }
+                ]
+            });
+            
+            // Настройка обработчиков ошибок Prisma
+            this.prisma.$on('error', (e) => {
+                this.logError(`Prisma ошибка: ${e.message}`);
+            });
+        }
         
-        // Настройка обработчиков ошибок Prisma
-        this.prisma.$on('error', (e) => {
-            this.logError(`Prisma ошибка: ${e.message}`);
-        });
+        // Ключи API: переменные окружения, файл секретов, затем столбцы User / BybitCabinet
+        this.credentials = options.credentials ?? defaultCredentialProvider(this.prisma);
+        this.baseUrl = options.baseUrl;
+        // Токен, фиат, сторона и способы оплаты, например BYBIT_MARKET_TARGETS=USDT/RUB/sell/75+377,USDT/RUB/buy
+        this.marketTargets = options.marketTargets
+            ?? (process.env.BYBIT_MARKET_TARGETS ? parseMarketTargets(process.env.BYBIT_MARKET_TARGETS) : [...DEFAULT_MARKET_TARGETS]);
+        if (options.logDir) {
+            this.logDir = options.logDir;
+        }
         
         // Создание директории для логов, если её нет
         if (!fs.existsSync(this.logDir)) {
@@ -80,7 +206,35 @@ export class BybitSyncService {
                 }
             }, this.processingIntervalTime);
             
-            console.log(`Синхронизация будет выполняться каждые ${this.syncIntervalTime / 60000} минут`);
+            // Устанавливаем интервал для отслеживания заявок в работе
+            this.pendingInterval = setInterval(async () => {
+                try {
+                    await this.pollPendingOrders();
+                } catch (error: any) {
+                    this.logError(`Ошибка при отслеживании заявок в работе: ${error.message}`);
+                }
+            }, this.pendingIntervalTime);
+            
+            // Устанавливаем интервал для снимков стакана объявлений
+            this.marketInterval = setInterval(async () => {
+                try {
+                    await this.collectMarketSnapshots();
+                } catch (error: any) {
+                    this.logError(`Ошибка при сохранении снимков рынка: ${error.message}`);
+                }
+            }, this.marketIntervalTime);
+            
+            // Устанавливаем интервал для заданий дозагрузки истории; задания, прерванные перезапуском, продолжаются
+            this.backfillInterval = setInterval(async () => {
+                try {
+                    await this.runPendingBackfillJobs();
+                } catch (error: any) {
+                    this.logError(`Ошибка при выполнении заданий дозагрузки истории: ${error.message}`);
+                }
+            }, this.backfillIntervalTime);
+            
+            console.log(`Политики синхронизации проверяются каждые ${this.syncIntervalTime / 60000} минут`);
+            console.log(`Заявки в работе проверяются каждые ${this.pendingIntervalTime / 1000} секунд`);
             
         } catch (error: any) {
             this.isRunning = false;
@@ -108,6 +262,21 @@ export class BybitSyncService {
             this.processingInterval = null;
         }
         
+        if (this.pendingInterval) {
+            clearInterval(this.pendingInterval);
+            this.pendingInterval = null;
+        }
+        
+        if (this.marketInterval) {
+            clearInterval(this.marketInterval);
+            this.marketInterval = null;
+        }
+        
+        if (this.backfillInterval) {
+            clearInterval(this.backfillInterval);
+            this.backfillInterval = null;
+        }
+        
         try {
             await this.prisma.$disconnect();
             this.isRunning = false;
@@ -118,6 +287,13 @@ export class BybitSyncService {
         }
     }
     
+    /**
+     * Закрытие соединения с базой данных без запуска сервиса (разовые команды CLI)
+     */
+    public async disconnect(): Promise<void> {
+        await this.prisma.$disconnect();
+    }
+    
     /**
      * Подключение к базе данных с механизмом повторных попыток
      */
@@ -152,32 +328,24 @@ export class BybitSyncService {
         this.log('Запуск синхронизации для всех пользователей');
         
         try {
-            // Получаем всех активных пользователей с API ключами Bybit
+            // Получаем всех активных пользователей; ключи API ищет цепочка источников при создании парсера
             const users = await this.prisma.user.findMany({
-                where: {
-                    isActive: true,
-                    AND: [
-                        { bybitApiToken: { not: null } },
-                        { bybitApiToken: { not: '' } },
-                        { bybitApiSecret: { not: null } },
-                        { bybitApiSecret: { not: '' } }
-                    ]
-                }
+                where: { isActive: true }
             });
             
             if (users.length === 0) {
-                this.log('Нет активных пользователей с API ключами Bybit');
+                this.log('Нет активных пользователей');
                 return;
             }
             
             this.log(`Найдено ${users.length} пользователей для синхронизации`);
             
-            // Синхронизация транзакций для каждого пользователя последовательно
+            // Синхронизация транзакций для каждого пользователя последовательно, если пришло время по его политике
             for (const user of users) {
                 try {
+                    const policy = this.scheduledPolicy(user.syncPolicy, DEFAULT_USER_SYNC_POLICY);
+                    if (!isSyncDue(policy, user.lastBybitSyncAt, Date.now())) continue;
                     await this.syncUserTransactions(user);
-                    // Пауза между синхронизацией разных пользователей для снижения нагрузки
-                    await this.sleep(2000);
                 } catch (error: any) {
                     this.logError(`Не удалось синхронизировать пользователя ${user.id}: ${error.message}`);
                 }
@@ -197,217 +365,155 @@ export class BybitSyncService {
     }
     
     /**
-     * Синхронизация транзакций для одного пользователя
+     * Синхронизация транзакций пользователя по его id (для ручного запуска из CLI)
+     * @param userId - id пользователя
+     * @param range - Период; по умолчанию от курсора синхронизации пользователя до текущего момента
      */
-    private async syncUserTransactions(user: any): Promise<void> {
-        if (!user.bybitApiToken || !user.bybitApiSecret) {
-            this.log(`Пользователь ${user.id} не имеет API ключей Bybit`);
-            return;
+    public async syncUser(userId: number, range?: SyncRange): Promise<SyncResult> {
+        const user = await this.prisma.user.findUnique({ where: { id: userId } });
+        if (!user) {
+            throw new Error(`Пользователь ${userId} не найден`);
         }
+        return this.syncUserTransactions(user, range);
+    }
+    
+    /**
+     * Синхронизация транзакций для одного пользователя
+     * @param range - Период; по умолчанию от курсора синхронизации пользователя до текущего момента
+     */
+    private async syncUserTransactions(user: any, range?: SyncRange): Promise<SyncResult> {
+        const result: SyncResult = { fetched: 0, created: 0, updated: 0 };
         
         this.log(`Синхронизация транзакций для пользователя ${user.id}`);
         
         try {
-            // Инициализация парсера Bybit с API ключами пользователя
-            const parser = new BybitP2PParser(user.bybitApiToken, user.bybitApiSecret);
-            await parser.syncTime(); // Важно: синхронизируем время с сервером Bybit
-            
-            // Указываем статус 50 (Completed) для фильтрации при запросе к API
-            const completedStatus = [50]; // 50 = Completed в API Bybit
+            // Политика пользователя: период, фильтры и размер страницы (по умолчанию все заявки за 3 дня, страница 20 заявок)
+            const policy = resolveSyncPolicy(user.syncPolicy, DEFAULT_USER_SYNC_POLICY);
             
-            // Объявляем переменную для хранения транзакций
-            let allCompletedTransactions: any[] = [];
+            // Инициализация парсера Bybit с API ключами пользователя (MissingCredentialsError, если их нет ни в одном источнике)
+            const parser = await this.createParser({ kind: 'user', userId: user.id });
             
-            // Стратегия 1: Запрос с параметрами времени за последние 3 дня
-            this.log(`Пользователь ${user.id}: Стратегия 1 - запрос с параметрами времени`);
-            const endTime = Date.now();
-            const beginTime = endTime - 3 * 24 * 60 * 60 * 1000; // 3 дня назад
+            // Без явного периода синхронизация продолжается с курсора пользователя
+            const syncRange = range ?? incrementalSyncRange(policy, user.syncCursorAt, Date.now());
+            this.log(`Пользователь ${user.id}: Период получения транзакций: ${new Date(syncRange.beginTime).toLocaleString()} - ${new Date(syncRange.endTime).toLocaleString()}`);
             
-            this.log(`Пользователь ${user.id}: Период получения транзакций: ${new Date(beginTime).toLocaleString()} - ${new Date(endTime).toLocaleString()}`);
-            
-            // Запрашиваем последние 10 страниц транзакций
-            let hasSuccess = false;
-            
-            for (let page = 1; page <= 10; page++) {
-                try {
-                    const result = await parser.getAndProcessAllOrders(
-                        page, 
-                        20, 
-                        undefined, 
-                        undefined, 
-                        completedStatus,
-                        beginTime,
-                        endTime
-                    );
-                    
-                    if (result.success && result.data && result.data.transactions.length > 0) {
-                        allCompletedTransactions = [...allCompletedTransactions, ...result.data.transactions];
-                        this.log(`Пользователь ${user.id}: Получено ${result.data.transactions.length} транзакций на странице ${page}`);
-                        hasSuccess = true;
-                        
-                        // Небольшая задержка между запросами страниц для не перегрузки API
-                        await this.sleep(500);
-                    } else {
-                        this.log(`Пользователь ${user.id}: Нет транзакций на странице ${page} или ошибка: ${result.message || 'Неизвестная ошибка'}`);
-                        break; // Если не получили данные, прекращаем запрашивать следующие страницы
-                    }
-                } catch (pageError: any) {
-                    this.logError(`Пользователь ${user.id}: Ошибка при получении страницы ${page}: ${pageError.message}`);
-                    break; // Если ошибка, прекращаем запрашивать следующие страницы
-                }
-            }
-            
-            if (!hasSuccess) {
-                this.log(`Пользователь ${user.id}: Нет результатов со стратегией 1, пробуем стратегию 2`);
-                
-                // Стратегия 2: Без параметров времени
-                for (let page = 1; page <= 10; page++) {
-                    try {
-                        const result = await parser.getAndProcessAllOrders(page, 10, undefined, undefined, completedStatus);
-                        
-                        if (result.success && result.data && result.data.transactions.length > 0) {
-                            allCompletedTransactions = [...allCompletedTransactions, ...result.data.transactions];
-                            this.log(`Пользователь ${user.id}: Получено ${result.data.transactions.length} транзакций на странице ${page} без параметров времени`);
-                            hasSuccess = true;
-                            
-                            // Небольшая задержка между запросами страниц
-                            await this.sleep(500);
-                        } else {
-                            this.log(`Пользователь ${user.id}: Нет транзакций на странице ${page} или ошибка: ${result.message || 'Неизвестная ошибка'}`);
-                            break; // Если не получили данные, прекращаем запрашивать следующие страницы
-                        }
-                    } catch (pageError: any) {
-                        this.logError(`Пользователь ${user.id}: Ошибка при получении страницы ${page} без параметров времени: ${pageError.message}`);
-                        break; // Если ошибка, прекращаем запрашивать следующие страницы
-                    }
-                }
-            }
-            
-            if (!hasSuccess) {
-                this.log(`Пользователь ${user.id}: Нет результатов и со стратегией 2`);
-                this.log(`Пользователь ${user.id}: Новых транзакций не найдено`);
-                await this.updateUserSyncStatus(user.id, 'Новых транзакций не найдено');
-                return;
-            }
+            const transactions = await this.fetchOrders(parser, policy, syncRange);
+            result.fetched = transactions.length;
+            const syncCursorAt = range ? undefined : advanceSyncCursor(policy, syncRange, transactions);
             
             // Проверка наличия полученных транзакций
-            if (allCompletedTransactions.length === 0) {
+            if (transactions.length === 0) {
                 this.log(`Пользователь ${user.id}: Новых транзакций не найдено`);
-                await this.updateUserSyncStatus(user.id, 'Новых транзакций не найдено');
-                return;
+                await this.updateUserSyncStatus(user.id, 'Новых транзакций не найдено', syncCursorAt);
+                return result;
             }
             
-            // Сохранение транзакций в базу данных
-            let savedCount = 0;
-            for (const transaction of allCompletedTransactions) {
-                try {
-                    // Проверяем, что это транзакция типа Sell (продажа) и имеет статус Completed (50)
-                    if (transaction.side !== 1 || transaction.status !== 50) {
-                        // Пропускаем транзакции, которые не являются продажами или не завершены
-                        continue;
-                    }
-                    
-                    // Извлекаем идентификатор заказа из API-ответа
-                    const orderNo = transaction.id || transaction.orderId || '';
-                    
-                    // Проверяем, что orderNo не пустой
-                    if (!orderNo) {
-                        this.logError(`Пользователь ${user.id}: Пропуск транзакции без orderNo: ${JSON.stringify(transaction)}`);
-                        continue;
-                    }
-                    
-                    // Проверяем, существует ли уже транзакция с таким orderNo
-                    const existingTransaction = await this.prisma.bybitTransaction.findFirst({
-                        where: {
-                            orderNo: orderNo,
-                            userId: user.id
-                        }
-                    });
-                    
-                    if (existingTransaction) {
-                        // Если транзакция с таким orderNo уже существует, пропускаем её
-                        this.log(`Пользователь ${user.id}: Пропуск существующей транзакции с orderNo=${orderNo}`);
-                        continue;
+            const stored = await this.storeUserOrders(user.id, parser, transactions);
+            result.created = stored.created;
+            result.updated = stored.updated;
+            
+            this.log(`Пользователь ${user.id}: Сохранено ${stored.created} новых транзакций, обновлено ${stored.updated}`);
+            await this.updateUserSyncStatus(user.id, `Успешно. Сохранено ${stored.created} новых транзакций, обновлено ${stored.updated}`, syncCursorAt);
+            return result;
+            
+        } catch (error: any) {
+            this.logSyncError(`Ошибка при синхронизации транзакций пользователя ${user.id}`, error);
+            await this.updateUserSyncStatus(user.id, `Ошибка: ${error.message}`);
+            return { ...result, error: error.message };
+        }
+    }
+    
+    /**
+     * Сохранение заявок пользователя в BybitTransaction: покупки и продажи во всех статусах
+     * Уже сохраненные заявки обновляются, если изменился статус; каждый увиденный статус пишется в BybitOrderStatusChange
+     */
+    private async storeUserOrders(userId: number, parser: BybitP2PParser, orders: P2POrder[]): Promise<{ created: number; updated: number }> {
+        const result = { created: 0, updated: 0 };
+        for (const transaction of orders) {
+            try {
+                // Идентификатор заказа в API совпадает с номером заявки
+                const orderNo = transaction.id;
+                const status = storedOrderStatus(transaction.status);
+                
+                // Проверяем, существует ли уже транзакция с таким orderNo
+                const existingTransaction = await this.prisma.bybitTransaction.findFirst({
+                    where: {
+                        orderNo: orderNo,
+                        userId: userId
                     }
-                    
-                    // Обработка даты - преобразование из миллисекунд в дату
-                    let dateTime;
-                    try {
-                        // Учитываем разные форматы даты в API
-                        const timestamp = parseInt(transaction.createDate || '0');
-                        if (timestamp > 0) {
-                            dateTime = new Date(timestamp);
-                        } else {
-                            this.logError(`Пользователь ${user.id}: Недействительная дата для транзакции с orderNo=${orderNo}`);
-                            dateTime = new Date(); // используем текущую дату, если не удалось распарсить
-                        }
-                    } catch (e) {
-                        this.logError(`Ошибка при преобразовании даты: ${e.message}`);
-                        dateTime = new Date(); // используем текущую дату в случае ошибки
+                });
+                
+                if (existingTransaction) {
+                    // Обновляем статус и детали заявки (время оплаты и завершения), если статус изменился
+                    if (existingTransaction.status !== status) {
+                        const details = await this.fetchOrderDetailFields(parser, orderNo);
+                        const history = await this.statusChangeOperations(
+                            { kind: 'user', userId }, orderNo, existingTransaction.status, status, transaction.raw as Prisma.InputJsonValue
+                        );
+                        await this.prisma.$transaction([
+                            this.prisma.bybitTransaction.update({
+                                where: { id: existingTransaction.id },
+                                data: { status, originalData: transaction.raw, ...details, updatedAt: new Date() }
+                            }),
+                            ...history
+                        ]);
+                        result.updated++;
                     }
-                    
-                    // Всегда устанавливаем тип "Sell" (так как мы уже отфильтровали ранее)
-                    const type = 'Sell';
-                    
-                    // Обработка числовых значений
-                    const amount = parseFloat(transaction.amount || '0');
-                    const unitPrice = parseFloat(transaction.price || '0');
-                    const totalPrice = amount * unitPrice;
-                    
-                    // Имя контрагента
-                    const counterparty = transaction.targetNickName || 'Unknown';
-                    
-                    // Актив (криптовалюта)
-                    const asset = transaction.tokenId || 'USDT';
-                    
-                    // Всегда устанавливаем статус "Completed" (так как мы уже отфильтровали ранее)
-                    const statusStr = "Completed";
-                    
-                    // Логирование данных для отладки
-                    this.log(`Подготовка к сохранению транзакции: orderNo=${orderNo}, date=${dateTime.toISOString()}, type=${type}, amount=${amount}, price=${unitPrice}`);
-                    
-                    // Создаем новую транзакцию
-                    await this.prisma.bybitTransaction.create({
+                    continue;
+                }
+                
+                // Логирование данных для отладки
+                this.log(`Подготовка к сохранению транзакции: orderNo=${orderNo}, date=${transaction.createdAt.toISOString()}, type=${storedOrderType(transaction.side)}, status=${status}, amount=${transaction.tokenQuantity}, price=${transaction.price}`);
+                
+                // Дополняем запись деталями заявки (комиссия, валюта, способ оплаты)
+                const details = await this.fetchOrderDetailFields(parser, orderNo);
+                
+                // Создаем новую транзакцию; денежные поля передаются строками для точных Decimal колонок
+                // Первый увиденный статус тоже попадает в историю статусов, если опрос заявок в работе не записал его раньше
+                const history = await this.statusChangeOperations(
+                    { kind: 'user', userId }, orderNo, null, status, transaction.raw as Prisma.InputJsonValue
+                );
+                await this.prisma.$transaction([
+                    this.prisma.bybitTransaction.create({
                         data: {
                             orderNo: orderNo,
-                            counterparty: counterparty,
-                            status: statusStr,
-                            userId: user.id,
-                            amount: amount,
-                            asset: asset,
-                            dateTime: dateTime,
-                            originalData: transaction,
-                            totalPrice: totalPrice,
-                            type: type,
-                            unitPrice: unitPrice,
+                            counterparty: transaction.counterpartyNickName || 'Unknown',
+                            status,
+                            userId: userId,
+                            amount: transaction.tokenQuantity.toString(),
+                            asset: transaction.tokenId,
+                            dateTime: transaction.createdAt,
+                            originalData: transaction.raw,
+                            totalPrice: transaction.fiatAmount.toString(),
+                            type: storedOrderType(transaction.side),
+                            unitPrice: transaction.price.toString(),
+                            ...details,
                             updatedAt: new Date()
                         }
-                    });
-                    savedCount++;
-                } catch (dbError: any) {
-                    this.logError(`Пользователь ${user.id}: Ошибка при сохранении транзакции ${transaction.id || 'неизвестная'}: ${dbError.message}`);
-                }
+                    }),
+                    ...history
+                ]);
+                result.created++;
+            } catch (dbError: any) {
+                this.logError(`Пользователь ${userId}: Ошибка при сохранении транзакции ${transaction.id || 'неизвестная'}: ${dbError.message}`);
             }
-            
-            this.log(`Пользователь ${user.id}: Сохранено ${savedCount} новых транзакций`);
-            await this.updateUserSyncStatus(user.id, `Успешно. Сохранено ${savedCount} новых транзакций`);
-            
-        } catch (error: any) {
-            this.logError(`Ошибка при синхронизации транзакций пользователя ${user.id}: ${error.message}`);
-            await this.updateUserSyncStatus(user.id, `Ошибка: ${error.message}`);
         }
+        
+        return result;
     }
     
     /**
      * Обновление статуса и времени последней синхронизации пользователя
+     * @param syncCursorAt - Новый курсор синхронизации (только после успешной периодической синхронизации)
      */
-    private async updateUserSyncStatus(userId: number, status: string): Promise<void> {
+    private async updateUserSyncStatus(userId: number, status: string, syncCursorAt?: Date): Promise<void> {
         try {
             await this.prisma.user.update({
                 where: { id: userId },
                 data: {
                     lastBybitSyncAt: new Date(),
-                    lastBybitSyncStatus: status
+                    lastBybitSyncStatus: status,
+                    ...(syncCursorAt ? { syncCursorAt } : {})
                 }
             });
         } catch (error: any) {
@@ -450,6 +556,13 @@ export class BybitSyncService {
      * Синхронизация всех аккаунтов BybitCabinet
      */
     private async syncAllBybitCabinets(): Promise<void> {
+        // Пропускаем запуск, если предыдущая синхронизация еще не завершилась: иначе два запуска
+        // одновременно сохраняют одни и те же заявки и один из них падает на уникальном orderNo
+        if (this.isSyncingCabinets) {
+            return;
+        }
+        
+        this.isSyncingCabinets = true;
         try {
             // Получаем все активные кабинеты Bybit
             const cabinets = await this.prisma.bybitCabinet.findMany();
@@ -462,12 +575,12 @@ export class BybitSyncService {
             console.log(`Найдено ${cabinets.length} аккаунтов BybitCabinet для синхронизации`);
             this.log(`Начало синхронизации для ${cabinets.length} аккаунтов BybitCabinet`);
             
-            // Синхронизируем каждый кабинет последовательно
+            // Синхронизируем каждый кабинет последовательно, если пришло время по его политике
             for (const cabinet of cabinets) {
                 try {
+                    const policy = this.scheduledPolicy(cabinet.syncPolicy, DEFAULT_CABINET_SYNC_POLICY);
+                    if (!isSyncDue(policy, cabinet.lastBybitSyncAt, Date.now())) continue;
                     await this.syncCabinetTransactions(cabinet);
-                    // Небольшая пауза между синхронизациями разных кабинетов
-                    await this.sleep(1000);
                 } catch (error: any) {
                     this.logError(`Ошибка при синхронизации кабинета ${cabinet.id}: ${error.message}`);
                 }
@@ -478,147 +591,633 @@ export class BybitSyncService {
             
         } catch (error: any) {
             this.logError(`Ошибка при синхронизации аккаунтов BybitCabinet: ${error.message}`);
+        } finally {
+            this.isSyncingCabinets = false;
+        }
+    }
+    
+    /**
+     * Синхронизация транзакций кабинета по его id (для ручного запуска из CLI)
+     * @param cabinetId - id кабинета
+     * @param range - Период; по умолчанию от курсора синхронизации кабинета до текущего момента
+     */
+    public async syncCabinet(cabinetId: number, range?: SyncRange): Promise<SyncResult> {
+        const cabinet = await this.prisma.bybitCabinet.findUnique({ where: { id: cabinetId } });
+        if (!cabinet) {
+            throw new Error(`Кабинет ${cabinetId} не найден`);
         }
+        return this.syncCabinetTransactions(cabinet, range);
     }
     
     /**
      * Синхронизация транзакций для одного аккаунта BybitCabinet
+     * @param range - Период; по умолчанию от курсора синхронизации кабинета до текущего момента
      */
-    private async syncCabinetTransactions(cabinet: any): Promise<void> {
+    private async syncCabinetTransactions(cabinet: any, range?: SyncRange): Promise<SyncResult> {
         console.log(`Синхронизация транзакций для кабинета ${cabinet.id} (${cabinet.bybitEmail})`);
+        const result: SyncResult = { fetched: 0, created: 0, updated: 0 };
         
         try {
-            // Проверка наличия API токенов
-            if (!cabinet.bybitApiToken || !cabinet.bybitApiSecret) {
-                this.logError(`Отсутствуют API ключи для кабинета ${cabinet.id} (${cabinet.bybitEmail})`);
-                await this.updateCabinetSyncStatus(cabinet.id, 'ERROR: Отсутствуют API ключи');
-                return;
-            }
+            // Политика кабинета: период, фильтры и размер страницы (по умолчанию все заявки за 3 дня)
+            const policy = resolveSyncPolicy(cabinet.syncPolicy, DEFAULT_CABINET_SYNC_POLICY);
             
-            // Создаем экземпляр парсера Bybit
-            const parser = new BybitP2PParser(cabinet.bybitApiToken, cabinet.bybitApiSecret);
+            // Создаем экземпляр парсера Bybit (MissingCredentialsError, если ключей нет ни в одном источнике)
+            const parser = await this.createParser({ kind: 'cabinet', cabinetId: cabinet.id });
             
-            // Синхронизируем время с сервером Bybit
-            await parser.syncTime();
+            // Период из параметров или от курсора кабинета до текущего момента
+            const syncRange = range ?? incrementalSyncRange(policy, cabinet.syncCursorAt, Date.now());
+            console.log(`Период синхронизации: ${new Date(syncRange.beginTime).toISOString()} - ${new Date(syncRange.endTime).toISOString()}`);
             
-            // Используем фиксированный диапазон дат для решения проблемы с временными метками
-            // Задаем вручную диапазон за последние 3 дня
+            // Получаем заявки P2P для указанного периода
+            const transactions = await this.fetchOrders(parser, policy, syncRange);
             
-            // Получаем текущую дату
-            const now = new Date();
-            const year = now.getFullYear();
-            const month = now.getMonth();
-            const day = now.getDate();
+            const count = transactions.length;
+            result.fetched = count;
+            const syncCursorAt = range ? undefined : advanceSyncCursor(policy, syncRange, transactions);
+            console.log(`Получено ${count} транзакций для кабинета ${cabinet.id}`);
             
-            // Создаем объекты даты для начала и конца периода
-            const endDate = new Date(year, month, day); // сегодня в 00:00:00
-            const beginDate = new Date(year, month, day - 3); // 3 дня назад в 00:00:00
+            // Если нет транзакций, обновляем только статус и время синхронизации
+            if (count === 0) {
+                await this.updateCabinetSyncStatus(cabinet.id, 'SUCCESS: Нет новых транзакций', syncCursorAt);
+                return result;
+            }
             
-            // Преобразуем в UNIX время в миллисекундах
-            const apiBeginTime = beginDate.getTime();
-            const apiEndTime = endDate.getTime() + (86400 * 1000); // +86400000 = + 24 часа (до конца дня)
+            const stored = await this.storeCabinetOrders(cabinet.id, parser, transactions);
+            result.created = stored.created;
+            result.updated = stored.updated;
             
-            // Логируем реальные даты для отладки
-            console.log(`Период синхронизации: ${beginDate.toISOString()} - ${endDate.toISOString()} (+24 часа)`);
-            console.log(`Даты в формате UNIX (миллисекунды): beginTime=${apiBeginTime}, endTime=${apiEndTime}`);
+            // Обновляем статус, время и курсор синхронизации
+            await this.updateCabinetSyncStatus(cabinet.id, `SUCCESS: Добавлено/обновлено ${count} транзакций`, syncCursorAt);
+            return result;
             
-            // Дополнительная проверка, что даты в адекватном диапазоне (2020-2025 годы)
-            const minTimestamp = new Date('2020-01-01').getTime();
-            const maxTimestamp = new Date('2025-12-31').getTime();
+        } catch (error: any) {
+            this.logSyncError(`Ошибка при синхронизации кабинета ${cabinet.id}`, error);
+            await this.updateCabinetSyncStatus(cabinet.id, `ERROR: ${error.message}`);
+            return { ...result, error: error.message };
+        }
+    }
+    
+    /**
+     * Сохранение заявок кабинета в BybitTransactionFromCabinet: покупки и продажи во всех статусах
+     * Уже сохраненные заявки обновляются, если изменился статус; каждый увиденный статус пишется в BybitOrderStatusChange
+     */
+    private async storeCabinetOrders(cabinetId: number, parser: BybitP2PParser, orders: P2POrder[]): Promise<{ created: number; updated: number }> {
+        const result = { created: 0, updated: 0 };
+        
+        for (const tx of orders) {
+            // Преобразуем формат данных для сохранения в БД
+            const dbRecord = this.transformCabinetTransactionToDbFormat(tx, cabinetId);
             
-            if (apiBeginTime < minTimestamp || apiBeginTime > maxTimestamp) {
-                this.logError(`Недопустимый apiBeginTime: ${apiBeginTime}, выходит за рамки 2020-2025 годов`);
-                return; // Прерываем выполнение, чтобы не отправлять некорректные запросы к API
-            }
+            // Проверяем, существует ли уже такая транзакция
+            const existingTransaction = await this.prisma.bybitTransactionFromCabinet.findUnique({
+                where: { orderNo: dbRecord.orderNo }
+            });
             
-            if (apiEndTime < minTimestamp || apiEndTime > maxTimestamp) {
-                this.logError(`Недопустимый apiEndTime: ${apiEndTime}, выходит за рамки 2020-2025 годов`);
-                return; // Прерываем выполнение
+            if (!existingTransaction) {
+                console.log(`Создание новой записи для транзакции ${dbRecord.orderNo}`);
+                // Дополняем запись деталями заявки (комиссия, валюта, способ оплаты)
+                const details = await this.fetchOrderDetailFields(parser, dbRecord.orderNo);
+                // Создаем новую запись транзакции вместе с первой записью истории статусов
+                const history = await this.statusChangeOperations(
+                    { kind: 'cabinet', cabinetId }, dbRecord.orderNo, null, dbRecord.status, dbRecord.originalData
+                );
+                await this.prisma.$transaction([
+                    this.prisma.bybitTransactionFromCabinet.create({
+                        data: { ...dbRecord, ...details }
+                    }),
+                    ...history
+                ]);
+                result.created++;
+            } else {
+                console.log(`Обновление существующей записи для транзакции ${dbRecord.orderNo}`);
+                // Обновляем статус и детали заявки (время оплаты и завершения), если статус изменился;
+                // переход записывается в историю статусов в той же транзакции, чтобы не потерять его при сбое
+                if (existingTransaction.status !== dbRecord.status) {
+                    const details = await this.fetchOrderDetailFields(parser, dbRecord.orderNo);
+                    const history = await this.statusChangeOperations(
+                        { kind: 'cabinet', cabinetId }, dbRecord.orderNo, existingTransaction.status, dbRecord.status, dbRecord.originalData
+                    );
+                    await this.prisma.$transaction([
+                        this.prisma.bybitTransactionFromCabinet.update({
+                            where: { id: existingTransaction.id },
+                            data: {
+                                status: dbRecord.status,
+                                originalData: dbRecord.originalData,
+                                ...details,
+                                updatedAt: new Date()
+                            }
+                        }),
+                        ...history
+                    ]);
+                    result.updated++;
+                }
             }
+        }
+        
+        return result;
+    }
+    
+    /**
+     * Получение заявок за период с фильтрами политики
+     * Итератор проходит все страницы и делит окно, если API его отклоняет; для каждого токена политики - отдельный проход
+     */
+    private async fetchOrders(parser: BybitP2PParser, policy: SyncPolicy, range: SyncRange): Promise<P2POrder[]> {
+        const orders: P2POrder[] = [];
+        const tokens: (string | undefined)[] = policy.tokens.length > 0 ? policy.tokens : [undefined];
+        
+        for (const tokenId of tokens) {
+            for await (const order of parser.iterateOrders({
+                beginTime: range.beginTime,
+                endTime: range.endTime,
+                tokenId,
+                status: policy.statuses.length > 0 ? policy.statuses : undefined,
+                side: policy.sides.length > 0 ? policy.sides : undefined,
+                pageSize: policy.pageSize
+            })) {
+                orders.push(order);
+            }
+        }
+        
+        return orders;
+    }
+    
+    /**
+     * Политика для расписания периодической синхронизации
+     * Некорректная политика заменяется политикой по умолчанию: синхронизация запустится и запишет ошибку в статус
+     */
+    private scheduledPolicy(stored: unknown, defaults: SyncPolicy): SyncPolicy {
+        try {
+            return resolveSyncPolicy(stored, defaults);
+        } catch {
+            return defaults;
+        }
+    }
+    
+    /**
+     * Создание задания дозагрузки истории
+     * Задание проходит период от конца к началу окнами по windowDays дней и выполняется
+     * периодически работающим сервисом или сразу через runBackfillJob
+     * @param owner - Кабинет или пользователь
+     * @param range - Период по времени создания заявок
+     * @param windowDays - Размер окна в днях
+     * @throws BackfillValidationError для недопустимого периода или окна
+     */
+    public async createBackfillJob(owner: BackfillOwner, range: SyncRange, windowDays: number = DEFAULT_BACKFILL_WINDOW_DAYS): Promise<any> {
+        const problems = validateBackfill(range, windowDays, Date.now());
+        if (problems.length > 0) {
+            throw new BackfillValidationError(problems);
+        }
+        
+        // Проверяем владельца, чтобы не создавать заданий, которые никогда не выполнятся
+        await this.loadBackfillOwner(owner);
+        
+        const job = await this.prisma.bybitBackfillJob.create({
+            data: {
+                ...(owner.kind === 'cabinet' ? { cabinetId: owner.cabinetId } : { userId: owner.userId }),
+                status: 'PENDING',
+                startSyncAt: new Date(range.beginTime),
+                endSyncAt: new Date(range.endTime),
+                windowDays,
+                updatedAt: new Date()
+            }
+        });
+        this.log(`Создано задание дозагрузки истории ${job.id}: ${new Date(range.beginTime).toISOString()} - ${new Date(range.endTime).toISOString()}, окно ${windowDays} дн.`);
+        return job;
+    }
+    
+    /**
+     * Выполнение задания дозагрузки истории с места последней контрольной точки
+     * После каждого сохраненного окна курсор задания сдвигается к началу окна;
+     * ошибка оставляет задание незавершенным, после BACKFILL_LIMITS.maxAttempts ошибок подряд - FAILED
+     * @param jobId - id задания
+     * @param maxWindows - Сколько окон обработать за запуск (по умолчанию до конца периода)
+     */
+    public async runBackfillJob(jobId: number, maxWindows: number = Infinity): Promise<BackfillResult> {
+        let job = await this.prisma.bybitBackfillJob.findUnique({ where: { id: jobId } });
+        if (!job) {
+            throw new Error(`Задание дозагрузки истории ${jobId} не найдено`);
+        }
+        
+        const summary = (windows: number, error?: string): BackfillResult => ({
+            jobId,
+            status: job.status,
+            windows,
+            fetched: job.fetched,
+            created: job.created,
+            updated: job.updated,
+            cursorAt: job.cursorAt ?? null,
+            ...(error ? { error } : {})
+        });
+        if (job.status === 'COMPLETED') {
+            return summary(0);
+        }
+        
+        const owner: BackfillOwner = job.cabinetId !== null && job.cabinetId !== undefined
+            ? { kind: 'cabinet', cabinetId: job.cabinetId }
+            : { kind: 'user', userId: job.userId };
+        let windows = 0;
+        
+        try {
+            job = await this.prisma.bybitBackfillJob.update({
+                where: { id: jobId },
+                data: { status: 'IN_PROGRESS', startedAt: job.startedAt ?? new Date(), updatedAt: new Date() }
+            });
             
-            // Эти строки дублируются выше, поэтому удаляем их
+            // Задание использует фильтры политики владельца, но свой период
+            const row = await this.loadBackfillOwner(owner);
+            const policy = owner.kind === 'cabinet'
+                ? resolveSyncPolicy(row.syncPolicy, DEFAULT_CABINET_SYNC_POLICY)
+                : resolveSyncPolicy(row.syncPolicy, DEFAULT_USER_SYNC_POLICY);
+            const parser = await this.createParser(owner);
             
-            // Вывод параметров для отладки
-            console.log(`Parameters for P2P request: ${JSON.stringify({page: 1, size: 50, beginTime: apiBeginTime, endTime: apiEndTime})}`);
+            let window = nextBackfillWindow(job);
+            while (window && windows < maxWindows) {
+                this.log(`Задание ${jobId}: окно ${new Date(window.beginTime).toISOString()} - ${new Date(window.endTime).toISOString()}`);
+                const orders = await this.fetchOrders(parser, policy, window);
+                const stored = owner.kind === 'cabinet'
+                    ? await this.storeCabinetOrders(owner.cabinetId, parser, orders)
+                    : await this.storeUserOrders(owner.userId, parser, orders);
+                
+                // Контрольная точка: окно сохранено целиком
+                job = await this.prisma.bybitBackfillJob.update({
+                    where: { id: jobId },
+                    data: {
+                        cursorAt: new Date(window.beginTime),
+                        windowOrders: [...job.windowOrders, orders.length],
+                        fetched: job.fetched + orders.length,
+                        created: job.created + stored.created,
+                        updated: job.updated + stored.updated,
+                        attempts: 0,
+                        lastError: null,
+                        updatedAt: new Date()
+                    }
+                });
+                windows++;
+                window = nextBackfillWindow(job);
+            }
             
-            // Получаем и обрабатываем все заявки P2P для указанного периода
-            // Обрабатываем больше страниц для лучшего покрытия данных
-            const result = await parser.getAndProcessAllOrders(1, 10, undefined, undefined, undefined, apiBeginTime, apiEndTime);
+            if (!window) {
+                job = await this.prisma.bybitBackfillJob.update({
+                    where: { id: jobId },
+                    data: { status: 'COMPLETED', finishedAt: new Date(), updatedAt: new Date() }
+                });
+                this.log(`Задание дозагрузки истории ${jobId} завершено: получено ${job.fetched}, создано ${job.created}, обновлено ${job.updated}`);
+            }
+            return summary(windows);
             
-            if (!result.success || !result.data) {
-                this.logError(`Ошибка при получении транзакций для кабинета ${cabinet.id}: ${result.message || 'Неизвестная ошибка'}`);
-                await this.updateCabinetSyncStatus(cabinet.id, `ERROR: ${result.message || 'Ошибка получения данных'}`);
-                return;
+        } catch (error: any) {
+            const attempts = job.attempts + 1;
+            const status: BackfillJobStatus = attempts >= BACKFILL_LIMITS.maxAttempts ? 'FAILED' : 'IN_PROGRESS';
+            this.logError(`Ошибка задания дозагрузки истории ${jobId} (попытка ${attempts}): ${error.message}`);
+            try {
+                job = await this.prisma.bybitBackfillJob.update({
+                    where: { id: jobId },
+                    data: {
+                        status,
+                        attempts,
+                        lastError: error.message,
+                        ...(status === 'FAILED' ? { finishedAt: new Date() } : {}),
+                        updatedAt: new Date()
+                    }
+                });
+            } catch (dbError: any) {
+                this.logError(`Не удалось сохранить ошибку задания ${jobId}: ${dbError.message}`);
             }
+            return summary(windows, error.message);
+        }
+    }
+    
+    /**
+     * Выполнение ожидающих и прерванных заданий дозагрузки истории, по несколько окон на задание
+     */
+    private async runPendingBackfillJobs(): Promise<void> {
+        // Пропускаем запуск, если предыдущий еще не завершился
+        if (this.isRunningBackfill) {
+            return;
+        }
+        
+        this.isRunningBackfill = true;
+        try {
+            const jobs = await this.prisma.bybitBackfillJob.findMany({
+                where: { status: { in: ['PENDING', 'IN_PROGRESS'] } },
+                orderBy: { createdAt: 'asc' }
+            });
             
-            // Получаем массив транзакций
-            const transactions = result.data.transactions;
-            const count = transactions.length;
-            console.log(`Получено ${count} транзакций для кабинета ${cabinet.id}`);
+            for (const job of jobs) {
+                await this.runBackfillJob(job.id, this.backfillWindowsPerRun);
+            }
+        } finally {
+            this.isRunningBackfill = false;
+        }
+    }
+    
+    /**
+     * Кабинет или пользователь задания дозагрузки
+     */
+    private async loadBackfillOwner(owner: BackfillOwner): Promise<any> {
+        const row = owner.kind === 'cabinet'
+            ? await this.prisma.bybitCabinet.findUnique({ where: { id: owner.cabinetId } })
+            : await this.prisma.user.findUnique({ where: { id: owner.userId } });
+        if (!row) {
+            throw new Error(owner.kind === 'cabinet' ? `Кабинет ${owner.cabinetId} не найден` : `Пользователь ${owner.userId} не найден`);
+        }
+        return row;
+    }
+    
+    /**
+     * Запись перехода в историю статусов, если статус отличается от последнего записанного для заявки
+     * Историю пишут и синхронизация, и опрос заявок в работе: оба сравнивают статус с последней записью истории,
+     * а не со своей таблицей, поэтому один переход не записывается дважды
+     * @param knownStatus - Статус из таблицы писателя; используется, если истории заявки еще нет
+     * @returns Операции для $transaction вместе с записью заявки (пустой список, если статус уже записан)
+     */
+    private async statusChangeOperations(
+        owner: BackfillOwner,
+        orderNo: string,
+        knownStatus: string | null,
+        toStatus: string,
+        originalData: Prisma.InputJsonValue,
+        observedAt: Date = new Date()
+    ): Promise<Prisma.PrismaPromise<unknown>[]> {
+        const ownerFields = owner.kind === 'cabinet' ? { cabinetId: owner.cabinetId } : { userId: owner.userId };
+        const latest = await this.prisma.bybitOrderStatusChange.findFirst({
+            where: { ...ownerFields, orderNo },
+            orderBy: [{ observedAt: 'desc' }, { id: 'desc' }]
+        });
+        const fromStatus = latest ? latest.toStatus : knownStatus;
+        if (fromStatus === toStatus) {
+            return [];
+        }
+        return [
+            this.prisma.bybitOrderStatusChange.create({
+                data: { orderNo, ...ownerFields, fromStatus, toStatus, observedAt, originalData }
+            })
+        ];
+    }
+    
+    /**
+     * Проверка заявок в работе для всех кабинетов BybitCabinet
+     * Выполняется чаще основной синхронизации, чтобы вовремя отпускать средства и реагировать на апелляции
+     */
+    private async pollPendingOrders(): Promise<void> {
+        // Пропускаем запуск, если предыдущая проверка еще не завершилась
+        if (this.isPollingPending) {
+            return;
+        }
+        
+        this.isPollingPending = true;
+        try {
+            const cabinets = await this.prisma.bybitCabinet.findMany();
             
-            // Если нет транзакций, обновляем только статус и время синхронизации
-            if (count === 0) {
-                await this.updateCabinetSyncStatus(cabinet.id, 'SUCCESS: Нет новых транзакций');
-                return;
+            for (const cabinet of cabinets) {
+                try {
+                    await this.pollCabinetPendingOrders(cabinet);
+                } catch (error: any) {
+                    this.logSyncError(`Ошибка при проверке заявок в работе кабинета ${cabinet.id}`, error);
+                }
             }
-
-            // 3 transaction sample
-            console.log(`Sample transaction: ${JSON.stringify(transactions[0], null, 2)}\n${JSON.stringify(transactions[1], null, 2)}\n${JSON.stringify(transactions[2], null, 2)}`);
+        } finally {
+            this.isPollingPending = false;
+        }
+    }
+    
+    /**
+     * Сохранение текущих заявок в работе одного кабинета и отправка событий о смене статуса
+     */
+    private async pollCabinetPendingOrders(cabinet: any): Promise<void> {
+        const parser = await this.createParser({ kind: 'cabinet', cabinetId: cabinet.id });
+        const orders = await parser.getPendingOrders();
+        const now = new Date();
+        
+        // Заявки, которые были активны на момент предыдущей проверки
+        const activeOrders = await this.prisma.bybitPendingOrder.findMany({
+            where: { cabinetId: cabinet.id, closedAt: null }
+        });
+        const activeByOrderNo = new Map<string, any>(activeOrders.map((order: any) => [order.orderNo, order]));
+        
+        for (const order of orders) {
+            const previous = activeByOrderNo.get(order.id);
+            activeByOrderNo.delete(order.id);
+            
+            const statusChanged = !previous || previous.status !== order.status;
+            const data = {
+                cabinetId: cabinet.id,
+                status: order.status,
+                type: order.side === OrderSide.Buy ? 'BUY' : 'SELL',
+                asset: order.tokenId,
+                amount: order.tokenQuantity.toString(),
+                totalPrice: order.fiatAmount.toString(),
+                unitPrice: order.price.toString(),
+                counterparty: order.counterpartyNickName || null,
+                orderCreatedAt: order.createdAt,
+                lastSeenAt: now,
+                closedAt: null,
+                originalData: order.raw,
+                updatedAt: now,
+                ...(statusChanged ? { statusChangedAt: now } : {})
+            };
             
-            // Фильтруем транзакции, оставляя только завершенные (COMPLETED, статус 50 или 30)
-            const completedTransactions = transactions.filter(tx => tx.status === 50).filter(tx => tx.side === 1);
-            console.log(`Отфильтровано ${completedTransactions.length} завершенных транзакций из ${transactions.length} общих`);
+            // Опрос заявок в работе видит промежуточные статусы (оплата, апелляция) точнее, чем синхронизация истории;
+            // переход пишется в одной транзакции с записью заявки
+            const history = statusChanged
+                ? await this.statusChangeOperations(
+                    { kind: 'cabinet', cabinetId: cabinet.id },
+                    order.id,
+                    previous ? storedOrderStatus(previous.status) : null,
+                    storedOrderStatus(order.status),
+                    order.raw as Prisma.InputJsonValue,
+                    now
+                )
+                : [];
+            await this.prisma.$transaction([
+                this.prisma.bybitPendingOrder.upsert({
+                    where: { orderNo: order.id },
+                    create: { orderNo: order.id, statusChangedAt: now, ...data },
+                    update: data
+                }),
+                ...history
+            ]);
             
-            // Обрабатываем только завершенные транзакции
-            for (const tx of completedTransactions) {
-                // Преобразуем формат данных для сохранения в БД
-                const dbRecord = this.transformCabinetTransactionToDbFormat(tx, cabinet.id);
-                
-                // Проверяем, существует ли уже такая транзакция
-                const existingTransaction = await this.prisma.bybitTransactionFromCabinet.findUnique({
-                    where: { orderNo: dbRecord.orderNo }
+            if (statusChanged) {
+                this.emitPendingOrderEvent({
+                    cabinetId: cabinet.id,
+                    order,
+                    previousStatus: previous ? previous.status : null
                 });
+            }
+        }
+        
+        // Заявки, которых больше нет в списке, завершены или отменены
+        for (const closed of activeByOrderNo.values()) {
+            await this.prisma.bybitPendingOrder.update({
+                where: { id: closed.id },
+                data: { closedAt: now, updatedAt: now }
+            });
+        }
+    }
+    
+    /**
+     * Отправка событий о смене статуса заявки в работе
+     */
+    private emitPendingOrderEvent(event: PendingOrderEvent): void {
+        const { order, cabinetId } = event;
+        this.emitSafely('statusChanged', event);
+        
+        if (order.status === OrderStatus.WaitingForRelease) {
+            this.log(`Кабинет ${cabinetId}: заявка ${order.id} ожидает отпуска средств`);
+            this.emitSafely('waitingForRelease', event);
+        } else if (order.status === OrderStatus.Appealing) {
+            this.log(`Кабинет ${cabinetId}: по заявке ${order.id} открыта апелляция`);
+            this.emitSafely('appealing', event);
+        }
+    }
+    
+    /**
+     * Вызов обработчиков события по одному: ошибка обработчика только записывается в лог
+     * Иначе исключение прерывает остальные обработчики и проверку остальных заявок кабинета
+     */
+    private emitSafely(eventName: string, event: PendingOrderEvent): void {
+        for (const listener of this.events.rawListeners(eventName)) {
+            try {
+                listener(event);
+            } catch (error: any) {
+                this.logError(`Ошибка обработчика события ${eventName} для заявки ${event.order.id}: ${error.message}`);
+            }
+        }
+    }
+    
+    /**
+     * Сохранение снимков стакана объявлений для всех рынков из marketTargets
+     * Запросы к рынку требуют подписи, поэтому используются ключи первого кабинета, для которого они найдены
+     */
+    private async collectMarketSnapshots(): Promise<void> {
+        const cabinets = await this.prisma.bybitCabinet.findMany({ orderBy: { id: 'asc' } });
+        
+        let parser: BybitP2PParser | undefined;
+        for (const cabinet of cabinets) {
+            try {
+                parser = await this.createParser({ kind: 'cabinet', cabinetId: cabinet.id });
+                break;
+            } catch (error: any) {
+                if (!(error instanceof MissingCredentialsError)) throw error;
+            }
+        }
+        
+        if (!parser) {
+            this.log('Нет кабинетов с API ключами для получения снимков рынка');
+            return;
+        }
+        
+        for (const target of this.marketTargets) {
+            try {
+                const ads = await parser.getOnlineAds(target);
+                const snapshot = buildOrderBookSnapshot(target, ads);
                 
-                if (!existingTransaction) {
-                    console.log(`Создание новой записи для транзакции ${dbRecord.orderNo}`);
-                    // Создаем новую запись транзакции
-                    await this.prisma.bybitTransactionFromCabinet.create({
-                        data: dbRecord
-                    });
-                } else {
-                    console.log(`Обновление существующей записи для транзакции ${dbRecord.orderNo}`);
-                    // Обновляем существующую запись, если статус изменился
-                    if (existingTransaction.status !== dbRecord.status) {
-                        await this.prisma.bybitTransactionFromCabinet.update({
-                            where: { id: existingTransaction.id },
-                            data: {
-                                status: dbRecord.status,
-                                updatedAt: new Date()
-                            }
-                        });
+                await this.prisma.bybitOrderBookSnapshot.create({
+                    data: {
+                        ...snapshot,
+                        depth: snapshot.depth as Prisma.InputJsonValue
                     }
+                });
+            } catch (error: any) {
+                const payments = target.paymentMethods?.length ? `, оплата ${target.paymentMethods.join('+')}` : '';
+                this.logError(`Ошибка при получении снимка рынка ${target.tokenId}/${target.currencyId} (сторона ${target.side}${payments}): ${error.message}`);
+            }
+        }
+    }
+    
+    /**
+     * Снимок рынка, ближайший к указанному времени (не позже него)
+     * Для сравнения unitPrice транзакции с рынком: для своей продажи - сторона Sell (цены конкурирующих продавцов),
+     * для своей покупки - сторона Buy
+     * @param tokenId - Токен, например USDT
+     * @param currencyId - Фиатная валюта, например RUB
+     * @param side - Сторона объявлений
+     * @param at - Время сделки (dateTime транзакции)
+     * @param paymentMethod - Способы оплаты снимка через запятую, как в столбце paymentMethod; null - снимок без фильтра оплаты
+     * @returns Снимок или null, если в пределах двух интервалов сбора снимков нет
+     */
+    public async getMarketSnapshotAt(
+        tokenId: string,
+        currencyId: string,
+        side: OrderSide,
+        at: Date,
+        paymentMethod: string | null = null
+    ): Promise<BybitOrderBookSnapshot | null> {
+        return this.prisma.bybitOrderBookSnapshot.findFirst({
+            where: {
+                tokenId,
+                currencyId,
+                side,
+                paymentMethod,
+                capturedAt: {
+                    lte: at,
+                    gte: new Date(at.getTime() - 2 * this.marketIntervalTime)
                 }
+            },
+            orderBy: { capturedAt: 'desc' }
+        });
+    }
+    
+    /**
+     * Применение одного изменения к объявлениям нескольких кабинетов
+     * В каждом кабинете изменяются все активные объявления, подходящие под фильтр
+     * @param cabinetIds - Идентификаторы кабинетов BybitCabinet
+     * @param filter - Фильтр объявлений (сторона, токен, валюта)
+     * @param changes - Новые значения цены, количества, лимитов или способов оплаты
+     * @returns Результат по каждому кабинету
+     */
+    public async applyAdChange(cabinetIds: number[], filter: P2PAdFilter, changes: P2PAdChanges): Promise<CabinetAdChangeResult[]> {
+        const cabinets = await this.prisma.bybitCabinet.findMany({
+            where: { id: { in: cabinetIds } }
+        });
+        const cabinetsById = new Map<number, any>(cabinets.map((cabinet: any) => [cabinet.id, cabinet]));
+        
+        // Кабинеты обрабатываются параллельно: у каждого свой API ключ и свой лимит запросов
+        return Promise.all(cabinetIds.map(async (cabinetId): Promise<CabinetAdChangeResult> => {
+            const result: CabinetAdChangeResult = { cabinetId, updated: [], failed: [] };
+            const cabinet = cabinetsById.get(cabinetId);
+            
+            if (!cabinet) {
+                result.failed.push({ error: 'Кабинет не найден' });
+                return result;
             }
             
-            // Обновляем статус и время синхронизации
-            await this.updateCabinetSyncStatus(cabinet.id, `SUCCESS: Добавлено/обновлено ${count} транзакций`);
+            try {
+                const parser = await this.createParser({ kind: 'cabinet', cabinetId: cabinet.id });
+                const ads = await parser.getMyAds({ status: AdStatus.Online, ...filter });
+                
+                for (const ad of ads) {
+                    try {
+                        await parser.updateAd(ad.id, changes);
+                        result.updated.push(ad.id);
+                    } catch (error: any) {
+                        result.failed.push({ itemId: ad.id, error: error.message });
+                    }
+                }
+                
+                this.log(`Кабинет ${cabinetId}: изменено объявлений ${result.updated.length}, ошибок ${result.failed.length}`);
+            } catch (error: any) {
+                this.logError(`Ошибка при изменении объявлений кабинета ${cabinetId}: ${error.message}`);
+                result.failed.push({ error: error.message });
+            }
             
-        } catch (error: any) {
-            this.logError(`Ошибка при синхронизации кабинета ${cabinet.id}: ${error.message}`);
-            await this.updateCabinetSyncStatus(cabinet.id, `ERROR: ${error.message}`);
-        }
+            return result;
+        }));
     }
     
     /**
      * Обновление статуса и времени последней синхронизации для кабинета Bybit
+     * @param syncCursorAt - Новый курсор синхронизации (только после успешной периодической синхронизации)
      */
-    private async updateCabinetSyncStatus(cabinetId: number, status: string): Promise<void> {
+    private async updateCabinetSyncStatus(cabinetId: number, status: string, syncCursorAt?: Date): Promise<void> {
         try {
             await this.prisma.bybitCabinet.update({
                 where: { id: cabinetId },
                 data: {
                     lastBybitSyncAt: new Date(),
                     lastBybitSyncStatus: status,
+                    ...(syncCursorAt ? { syncCursorAt } : {}),
                     updatedAt: new Date()
                 }
             });
@@ -630,53 +1229,27 @@ export class BybitSyncService {
     /**
      * Преобразование данных транзакции Bybit в формат для базы данных
      */
-    private transformCabinetTransactionToDbFormat(transaction: any, cabinetId: number): any {
-        // Определяем тип транзакции (BUY или SELL)
-        const type = transaction.side === 0 ? 'BUY' : 'SELL';
-        
-        // Определяем статус
-        let status = 'UNKNOWN';
-        switch (transaction.status) {
-            case 40: status = 'CANCELED'; break;
-            case 50: status = 'COMPLETED'; break;
-            case 30: status = 'COMPLETED'; break;
-            case 20: status = 'PENDING'; break;
-            case 0: status = 'PENDING'; break;
-            default: status = 'UNKNOWN';
-        }
-        
-        // Форматируем дату и время из поля createDate
-        // createDate может быть строкой в формате timestamp в миллисекундах
-        let dateTime;
-        try {
-            // Пробуем преобразовать строку в число и создать дату
-            const timestamp = parseInt(transaction.createDate || '0', 10);
-            if (isNaN(timestamp) || timestamp === 0) {
-                dateTime = new Date();
-            } else {
-                dateTime = new Date(timestamp); // Предполагаем, что timestamp уже в миллисекундах
-            }
-        } catch (e) {
-            console.log(`Ошибка при преобразовании даты: ${e.message}`);
-            dateTime = new Date(); // Устанавливаем текущую дату в случае ошибки
-        }
+    private transformCabinetTransactionToDbFormat(transaction: P2POrder, cabinetId: number): any {
+        // Тип (BUY или SELL) и статус в общих для обеих таблиц значениях
+        const type = storedOrderType(transaction.side);
+        const status = storedOrderStatus(transaction.status);
         
         // Логируем основные поля для отладки
-        console.log(`ID: ${transaction.id}, Side: ${transaction.side}, Status: ${transaction.status}, CreateDate: ${transaction.createDate}`);
-        console.log(`TokenId: ${transaction.tokenId}, Price: ${transaction.price}, Amount: ${transaction.amount}`);
-        console.log(`Преобразованная дата: ${dateTime.toISOString()}`);
+        console.log(`ID: ${transaction.id}, Side: ${transaction.side}, Status: ${transaction.status}, CreateDate: ${transaction.createdAt.toISOString()}`);
+        console.log(`TokenId: ${transaction.tokenId}, Price: ${transaction.price}, Amount: ${transaction.fiatAmount}`);
         
         return {
             orderNo: transaction.id, // Используем id как orderNo
-            counterparty: transaction.targetNickName || 'Unknown',
+            counterparty: transaction.counterpartyNickName || 'Unknown',
             status,
-            amount: parseFloat(transaction.notifyTokenQuantity || '0'),
-            asset: transaction.tokenId || 'Unknown',
-            dateTime,
-            totalPrice: parseFloat(transaction.amount || '0'),
+            // Денежные поля передаются строками, чтобы Decimal колонки получили точное значение
+            amount: transaction.tokenQuantity.toString(),
+            asset: transaction.tokenId,
+            dateTime: transaction.createdAt,
+            totalPrice: transaction.fiatAmount.toString(),
             type,
-            unitPrice: parseFloat(transaction.price || '0'),
-            originalData: transaction,
+            unitPrice: transaction.price.toString(),
+            originalData: transaction.raw,
             cabinetId,
             processed: false,
             extractedPhones: [],
@@ -685,6 +1258,38 @@ export class BybitSyncService {
         };
     }
     
+    /**
+     * Получение деталей заявки через /v5/p2p/order/info для новой транзакции
+     * Возвращает поля для BybitTransaction/BybitTransactionFromCabinet или пустой объект при ошибке
+     */
+    private async fetchOrderDetailFields(parser: BybitP2PParser, orderNo: string): Promise<Record<string, any>> {
+        try {
+            const detail = await parser.getOrderInfo(orderNo);
+            return this.orderDetailToDbFields(detail);
+        } catch (error: any) {
+            this.logError(`Не удалось получить детали заявки ${orderNo}: ${error.message}`);
+            return {};
+        }
+    }
+    
+    /**
+     * Преобразование деталей заявки в поля записи транзакции
+     */
+    private orderDetailToDbFields(detail: P2POrderDetail): Record<string, any> {
+        const paymentTerm = detail.confirmedPaymentTerm;
+        
+        return {
+            fee: detail.fee.toString(),
+            fiatCurrency: detail.currencyId,
+            paymentMethod: paymentTerm ? (paymentTerm.paymentName || paymentTerm.paymentType) : null,
+            counterpartyId: detail.counterpartyUserId || null,
+            paidAt: detail.paidAt ?? null,
+            completedAt: detail.status === OrderStatus.Completed ? (detail.updatedAt ?? null) : null,
+            confirmedPaymentTerm: paymentTerm,
+            detailsFetchedAt: new Date()
+        };
+    }
+    
     /**
      * Обработка непроцессированных транзакций от BybitCabinet
      * Получает сообщения из чата для каждой транзакции и ищет номера телефонов
@@ -692,8 +1297,13 @@ export class BybitSyncService {
     private async processUnprocessedCabinetTransactions(): Promise<void> {
         try {
             // Получаем непроцессированные транзакции
+            // Телефоны ищем только в чатах завершенных продаж: остальные заявки хранятся для учета
             const unprocessedTransactions = await this.prisma.bybitTransactionFromCabinet.findMany({
-                where: { processed: false },
+                where: {
+                    processed: false,
+                    type: storedOrderType(OrderSide.Sell),
+                    status: storedOrderStatus(OrderStatus.Completed)
+                },
                 include: { BybitCabinet: true }
             });
             
@@ -706,20 +1316,10 @@ export class BybitSyncService {
             
             // Обрабатываем каждую транзакцию
             for (const transaction of unprocessedTransactions) {
+                const cabinet = transaction.BybitCabinet;
                 try {
-                    // Проверяем наличие API токенов
-                    const cabinet = transaction.BybitCabinet;
-                    if (!cabinet.bybitApiToken || !cabinet.bybitApiSecret) {
-                        this.log(`Пропуск транзакции ${transaction.id} из-за отсутствия API ключей в кабинете ${cabinet.id}`);
-                        console.log(`Пропуск транзакции ${transaction.id} из-за отсутствия API ключей в кабинете ${cabinet.id}`);
-                        continue;
-                    }
-                    
                     // Получаем сообщения чата для заявки
-                    const chatMessages = await this.getChatMessages(transaction.orderNo, { 
-                        bybitApiKey: cabinet.bybitApiToken, 
-                        bybitApiSecret: cabinet.bybitApiSecret 
-                    });
+                    const chatMessages = await this.getChatMessages(transaction.orderNo, { kind: 'cabinet', cabinetId: cabinet.id });
                     
                     // Если сообщения получены успешно, ищем номера телефонов
                     if (chatMessages && chatMessages.length > 0) {
@@ -749,10 +1349,12 @@ export class BybitSyncService {
                         console.log(`Обработана транзакция ${transaction.id}. Сообщения чата не найдены.`);
                     }
                     
-                    // Небольшая пауза между запросами API
-                    await this.sleep(500);
-                    
                 } catch (error: any) {
+                    // Без ключей транзакция остается необработанной до их появления
+                    if (error instanceof MissingCredentialsError) {
+                        this.log(`Пропуск транзакции ${transaction.id} из-за отсутствия API ключей кабинета ${cabinet.id}: ${error.message}`);
+                        continue;
+                    }
                     this.logError(`Ошибка при обработке транзакции ${transaction.id}: ${error.message}`);
                     
                     // Обновляем запись с ошибкой, но не помечаем как обработанную
@@ -774,14 +1376,8 @@ export class BybitSyncService {
     /**
             for (const transaction of unprocessedTransactions) {
                 try {
-                    // Проверяем наличие API ключей пользователя
-                    if (!transaction.User.bybitApiToken || !transaction.User.bybitApiSecret) {
-                        this.log(`Пропускаем транзакцию ${transaction.orderNo} - пользователь ${transaction.userId} не имеет API ключей`);
-                        continue;
-                    }
-                    
                     // Получаем сообщения чата для заявки
-                    const chatMessages = await this.getChatMessages(transaction.orderNo, transaction.User);
+                    const chatMessages = await this.getChatMessages(transaction.orderNo, { kind: 'user', userId: transaction.userId });
                     
                     if (!chatMessages || chatMessages.length === 0) {
                         this.log(`Нет сообщений чата для заявки ${transaction.orderNo}`);
@@ -832,9 +1428,12 @@ export class BybitSyncService {
         
         try {
             // Находим все транзакции, которые ещё не обработаны
+            // Телефоны ищем только в чатах завершенных продаж: остальные заявки хранятся для учета
             const unprocessedTransactions = await this.prisma.bybitTransaction.findMany({
                 where: {
-                    processed: false
+                    processed: false,
+                    type: storedOrderType(OrderSide.Sell),
+                    status: storedOrderStatus(OrderStatus.Completed)
                 },
                 include: {
                     User: true
@@ -850,19 +1449,10 @@ export class BybitSyncService {
             
             // Обрабатываем каждую транзакцию последовательно
             for (const transaction of unprocessedTransactions) {
+                const user = transaction.User;
                 try {
-                    // Проверяем наличие API ключей пользователя
-                    const user = transaction.User;
-                    if (!user.bybitApiKey || !user.bybitApiSecret) {
-                        console.log(`Пропуск транзакции ${transaction.id} из-за отсутствия API ключей у пользователя ${user.id}`);
-                        continue;
-                    }
-                    
                     // Получаем сообщения чата для заявки
-                    const chatMessages = await this.getChatMessages(transaction.orderNo, {
-                        bybitApiKey: user.bybitApiKey,
-                        bybitApiSecret: user.bybitApiSecret
-                    });
+                    const chatMessages = await this.getChatMessages(transaction.orderNo, { kind: 'user', userId: user.id });
                     
                     // Если сообщения получены успешно, ищем номера телефонов
                     if (chatMessages && chatMessages.length > 0) {
@@ -908,10 +1498,12 @@ export class BybitSyncService {
                         console.log(`Обработана транзакция ${transaction.id}. Сообщения чата не найдены.`);
                     }
                     
-                    // Небольшая пауза между обработкой разных транзакций
-                    await this.sleep(500);
-                    
                 } catch (error: any) {
+                    // Без ключей транзакция остается необработанной до их появления
+                    if (error instanceof MissingCredentialsError) {
+                        this.log(`Пропуск транзакции ${transaction.id} из-за отсутствия API ключей у пользователя ${user.id}: ${error.message}`);
+                        continue;
+                    }
                     this.logError(`Ошибка при обработке транзакции ${transaction.id}: ${error.message}`);
                     
                     // Обновляем запись с ошибкой
@@ -930,27 +1522,35 @@ export class BybitSyncService {
         }
     }
     
+    /**
+     * Создание парсера с ключами пользователя или кабинета
+     * @throws MissingCredentialsError если ключи не найдены ни в одном источнике
+     */
+    private createParser(owner: CredentialOwner): Promise<BybitP2PParser> {
+        return BybitP2PParser.fromCredentials(this.credentials, owner, false, 5000, this.baseUrl);
+    }
+    
+    /**
+     * Запись ошибки синхронизации владельца ключей
+     * Отсутствие ключей - не сбой: пользователь или кабинет просто еще не настроен, поэтому это обычная запись лога
+     */
+    private logSyncError(context: string, error: any): void {
+        if (error instanceof MissingCredentialsError) {
+            this.log(`${context}: ${error.message}`);
+        } else {
+            this.logError(`${context}: ${error.message}`);
+        }
+    }
+    
     /**
      * Получение сообщений чата для указанной заявки через API Bybit
+     * @throws MissingCredentialsError если ключей нет: заявка не должна считаться обработанной без чата
      */
-    private async getChatMessages(orderId: string, user: any): Promise<any[]> {
+    private async getChatMessages(orderId: string, owner: CredentialOwner): Promise<ChatMessage[]> {
+        const parser = await this.createParser(owner);
         try {
-            const parser = new BybitP2PParser(user.bybitApiToken, user.bybitApiSecret);
-            
-            // Параметры запроса к API Bybit
-            const params = {
-                orderId: orderId,
-                size: "100" // Максимальное количество сообщений
-            };
-            
-            // Выполняем запрос к API
-            const response = await parser.p2pRequest('POST', '/v5/p2p/order/message/listpage', params);
-            
-            if (response && response.ret_code === 0 && response.result && Array.isArray(response.result)) {
-                return response.result;
-            }
-            
-            return [];
+            // Загружаем всю историю чата постранично
+            return await parser.getChatMessages(orderId);
             
         } catch (error: any) {
             this.logError(`Ошибка при получении сообщений чата для заявки ${orderId}: ${error.message}`);
@@ -962,7 +1562,7 @@ export class BybitSyncService {
      * Извлечение номеров телефонов из сообщений чата
      * Поддерживает различные форматы номеров телефонов
      */
-    private extractPhoneNumbers(messages: any[]): string[] {
+    private extractPhoneNumbers(messages: ChatMessage[]): string[] {
         const phoneNumbers = new Set<string>();
         
         // Регулярные выражения для разных форматов номеров телефонов
@@ -975,9 +1575,9 @@ export class BybitSyncService {
         ];
         
         for (const message of messages) {
-            // Проверяем только текстовые сообщения
-            if (message.contentType === 'str' && message.message) {
-                const messageText = message.message.toString();
+            // Номера ищем только в текстовых сообщениях пользователей
+            if (message.kind === 'text' && message.text) {
+                const messageText = message.text;
                 
                 // Проверяем каждый шаблон номера телефона
                 for (const pattern of phonePatterns) {
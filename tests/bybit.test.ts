@@ -1,166 +1,198 @@
-import { expect, mock, spyOn, describe, it, beforeEach, afterAll, beforeAll } from "bun:test";
+import { expect, spyOn, describe, it, beforeEach, afterAll, beforeAll } from "bun:test";
 import BybitP2PParser from '@/bybit';
+import { BybitAuthError, BybitParameterError, BybitServerError } from '@/bybit-errors';
+import { P2PAdValidationError } from '@/p2p-ad';
+import { Decimal } from '@/money';
+import { OrderActionError, ReleaseGuard, type OrderActionAuditEntry } from '@/order-actions';
+import { decodeP2POrderOrThrow, OrderStatus } from '@/p2p-order';
+import { parseBybitTransactionCsv } from '@/transaction-csv';
+import { fetchBybitServerTime, ServerClock } from '@/clock-sync';
+import { FakeBybitServer } from './fake-bybit-server';
 import crypto from 'crypto';
 import fs from 'fs';
+import os from 'os';
+import path from 'path';
 
-// First, completely mock the axios module
-const mockGet = mock(async () => ({ data: { retCode: 0, result: { items: [] } } }));
-const mockPost = mock(async () => ({ data: { success: true } }));
-
-// Mock axios module properly
-mock.module('axios', () => {
-  return {
-    get: mockGet,
-    post: mockPost,
-    default: {
-      get: mockGet,
-      post: mockPost,
-    },
-    __esModule: true,
-  };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const rawOrder = (id: string, createDate: number, overrides: Record<string, unknown> = {}) => ({
+  id,
+  side: 1,
+  tokenId: 'USDT',
+  amount: '8529',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '100',
+  fee: '0',
+  targetNickName: 'elisemefor',
+  status: 50,
+  createDate: String(createDate),
+  userId: '414938234',
+  ...overrides
 });
 
-// Mock fs.writeFileSync
-const originalWriteFileSync = fs.writeFileSync;
-fs.writeFileSync = mock(() => {});
+// Заявки аккаунта на стенде: три в апреле 2025 и одна в феврале
+const orders = [
+  rawOrder('1001', Date.parse('2025-04-08T04:20:46Z')),
+  rawOrder('1002', Date.parse('2025-04-07T10:00:00Z'), { side: 0, amount: '1000.1', notifyTokenQuantity: '11.7' }),
+  rawOrder('1003', Date.parse('2025-04-06T12:00:00Z'), { status: 40, amount: '500' }),
+  rawOrder('1000', Date.parse('2025-02-01T00:00:00Z'))
+];
 
-// Clean up after tests
-afterAll(() => {
-  fs.writeFileSync = originalWriteFileSync;
+const chatMessage = (id: number, userId: string) => ({
+  id: String(id),
+  orderId: '1001',
+  userId,
+  contentType: 'str',
+  message: `message ${id}`,
+  createDate: String(Date.parse('2025-04-08T04:21:00Z') + id * 1000)
 });
 
 describe('BybitP2PParser', () => {
-  const apiKey = '2KVut3JZrNzrbSK7bO';
-  const apiSecret = 'JAfkHwP7eZrbczPcOgGTvI8fU37YofwvRLuh';
+  const apiKey = 'test-api-key';
+  const apiSecret = 'test-api-secret';
+  let server: FakeBybitServer;
   let parser: BybitP2PParser;
 
+  beforeAll(() => {
+    server = FakeBybitServer.start({
+      accounts: [{
+        apiKey,
+        apiSecret,
+        userId: '414938234',
+        orders,
+        chats: { '1001': [chatMessage(1, '123456'), chatMessage(2, '414938234'), chatMessage(3, '123456')] }
+      }]
+    });
+  });
+
+  afterAll(() => {
+    server.stop();
+  });
+
   beforeEach(() => {
-    parser = new BybitP2PParser(apiKey, apiSecret);
-    
-    // Reset mocks
-    mockGet.mockClear();
-    mockPost.mockClear();
-    fs.writeFileSync.mockClear();
+    parser = new BybitP2PParser(apiKey, apiSecret, false, 5000, server.url);
+    parser.retryPolicy = { maxRetries: 3, baseDelayMs: 1, maxDelayMs: 5 };
+    // Свои часы у каждого теста, чтобы смещение одного теста не влияло на другие
+    parser.clock = new ServerClock(fetchBybitServerTime(server.url), { samples: 3 });
+    server.requests.length = 0;
+    server.clockOffsetMs = 0;
   });
 
   describe('constructor', () => {
     it('should initialize with correct properties', () => {
-      expect(parser.apiKey).toBe(apiKey);
-      expect(parser.apiSecret).toBe(apiSecret);
-      expect(parser.baseUrl).toBe('https://api.bybit.com');
+      const mainnetParser = new BybitP2PParser(apiKey, apiSecret);
+      expect(mainnetParser.apiKey).toBe(apiKey);
+      expect(mainnetParser.apiSecret).toBe(apiSecret);
+      expect(mainnetParser.baseUrl).toBe('https://api.bybit.com');
     });
 
     it('should use testnet URL when testnet is true', () => {
       const testnetParser = new BybitP2PParser(apiKey, apiSecret, true);
       expect(testnetParser.baseUrl).toBe('https://api-testnet.bybit.com');
     });
+
+    it('should use a custom base URL without the trailing slash', () => {
+      const localParser = new BybitP2PParser(apiKey, apiSecret, true, 5000, 'http://127.0.0.1:8080/');
+      expect(localParser.baseUrl).toBe('http://127.0.0.1:8080');
+    });
   });
 
   describe('generateSignature', () => {
-    it('should generate correct signature', () => {
-      const parameters = 'param1=value1&param2=value2';
+    it('should sign timestamp, api key, recv window and the payload of the method', () => {
       const timestamp = '1617985776000';
-      const expectedSign = crypto
+      const sign = (payload: string) => crypto
         .createHmac('sha256', apiSecret)
-        .update(timestamp + apiKey + parameters)
+        .update(timestamp + apiKey + '5000' + payload)
         .digest('hex');
 
-      const signature = parser.generateSignature(parameters, timestamp);
-      expect(signature).toBe(expectedSign);
+      expect(parser.generateSignature(timestamp, 'GET', '/v5/test', 'a=1&b=2', '{"c":3}')).toBe(sign('a=1&b=2'));
+      expect(parser.generateSignature(timestamp, 'POST', '/v5/test', 'a=1&b=2', '{"c":3}')).toBe(sign('{"c":3}'));
     });
   });
 
-  describe('makeRequest', () => {
-    it('should make GET request with correct parameters', async () => {
-      const endpoint = '/v5/asset/exchange/order-record';
-      const params = { limit: 20, coin: 'BTC' };
-      const mockResponse = { retCode: 0, result: { items: [] } };
-      
-      mockGet.mockResolvedValue({ data: mockResponse });
-      
-      const result = await parser.makeRequest(endpoint, 'GET', params);
-      
-      expect(mockGet).toHaveBeenCalled();
-      expect(mockGet.mock.calls.length).toBe(1);
-      expect(mockGet.mock.calls[0][0]).toContain(endpoint);
-      
-      // Test each parameter individually rather than depending on order
-      expect(mockGet.mock.calls[0][0]).toContain('coin=BTC');
-      expect(mockGet.mock.calls[0][0]).toContain('limit=20');
-      
-      expect(result).toEqual(mockResponse);
+  describe('request', () => {
+    it('should sign GET and POST requests the way Bybit verifies them', async () => {
+      const getResult = await parser.request('GET', '/v5/p2p/user/personal/info', { coin: 'USDT', limit: 20 });
+      const postResult = await parser.request('POST', '/v5/p2p/order/simplifyList', { page: 1, size: 10 });
+
+      expect(getResult.result?.userId).toBe('414938234');
+      expect(postResult.result?.count).toBe(4);
+      expect(server.requestsTo('/v5/market/time')).toHaveLength(3);
+      expect(server.requestsTo('/v5/p2p/user/personal/info')[0]?.params).toEqual({ coin: 'USDT', limit: '20' });
     });
 
-    it('should make POST request with correct parameters', async () => {
-      const endpoint = '/test-endpoint';
-      const params = { param1: 'value1', param2: 'value2' };
-      const mockResponse = { success: true };
-      
-      mockPost.mockResolvedValue({ data: mockResponse });
-      
-      const result = await parser.makeRequest(endpoint, 'POST', params);
-      
-      expect(mockPost).toHaveBeenCalled();
-      expect(mockPost.mock.calls.length).toBe(1);
-      expect(mockPost.mock.calls[0][0]).toBe('https://api.bybit.com/test-endpoint');
-      expect(mockPost.mock.calls[0][1]).toEqual(params);
-      expect(result).toEqual(mockResponse);
+    it('should normalize retCode responses', async () => {
+      const result = await parser.request('POST', '/v5/p2p/order/simplifyList', { page: 1 });
+
+      expect(result.ret_code).toBe(0);
+      expect(result.ret_msg).toBe('SUCCESS');
     });
 
-    it('should handle request errors', async () => {
-      const endpoint = '/test-endpoint';
-      const error = new Error('Request failed with status code 404');
-      error.response = { data: { error: 'API error' } };
-      
-      mockGet.mockRejectedValue(error);
-      
-      await expect(parser.makeRequest(endpoint, 'GET', {})).rejects.toThrow('Request failed with status code 404');
+    it('should retry rate limited requests', async () => {
+      server.failNext('/v5/p2p/order/simplifyList', { retCode: 10006, retMsg: 'Too many visits!' });
+
+      const result = await parser.request('POST', '/v5/p2p/order/simplifyList');
+
+      expect(result.ret_code).toBe(0);
+      expect(server.requestsTo('/v5/p2p/order/simplifyList').map(request => request.retCode)).toEqual([10006, 0]);
+    });
+
+    it('should re-sync time when the server clock moves away', async () => {
+      await parser.syncTime();
+      server.clockOffsetMs = 60 * 1000;
+
+      await parser.request('POST', '/v5/p2p/user/personal/info');
+
+      expect(server.requestsTo('/v5/p2p/user/personal/info').map(request => request.retCode)).toEqual([10002, 0]);
+      expect(server.requestsTo('/v5/market/time')).toHaveLength(6);
+      expect(parser.timeOffset).toBeGreaterThan(55 * 1000);
+    });
+
+    it('should retry writes only when the server did not process them', async () => {
+      server.failNext('/v5/p2p/order/simplifyList', { retCode: 10016, retMsg: 'Internal error' });
+
+      await expect(parser.request('POST', '/v5/p2p/order/simplifyList', {}, { idempotent: false })).rejects.toBeInstanceOf(BybitServerError);
+      expect(server.requestsTo('/v5/p2p/order/simplifyList').map(request => request.retCode)).toEqual([10016]);
+
+      server.failNext('/v5/p2p/order/simplifyList', { retCode: 10006, retMsg: 'Too many visits!' });
+
+      await parser.request('POST', '/v5/p2p/order/simplifyList', {}, { idempotent: false });
+      expect(server.requestsTo('/v5/p2p/order/simplifyList').map(request => request.retCode)).toEqual([10016, 10006, 0]);
+    });
+
+    it('should not retry authentication errors', async () => {
+      const wrongSecret = new BybitP2PParser(apiKey, 'wrong-secret', false, 5000, server.url);
+
+      await expect(wrongSecret.request('POST', '/v5/p2p/user/personal/info')).rejects.toBeInstanceOf(BybitAuthError);
+      expect(server.requestsTo('/v5/p2p/user/personal/info').map(request => request.retCode)).toEqual([10004]);
     });
   });
 
-  describe('getP2PTradeHistory', () => {
-    it('should call makeRequest with correct parameters', async () => {
-      const mockResponse = { retCode: 0, result: { items: [] } };
-      
-      // Spy on makeRequest method
-      const makeRequestSpy = spyOn(parser, 'makeRequest');
-      makeRequestSpy.mockResolvedValue(mockResponse);
-      
-      await parser.getP2PTradeHistory({ 
-        coin: 'BTC', 
-        limit: 50, 
-        orderType: 'buy',
-        startTime: 1617985776000,
-        endTime: 1617985876000
-      });
-      
-      expect(makeRequestSpy).toHaveBeenCalledTimes(1);
-      expect(makeRequestSpy).toHaveBeenCalledWith(
-        '/v5/asset/exchange/order-record',
-        'GET',
-        {
-          coin: 'BTC',
-          limit: 50,
-          orderType: 'buy',
-          startTime: 1617985776000,
-          endTime: 1617985876000
-        }
+  describe('getAndProcessAllOrders', () => {
+    it('should fetch every page of filtered orders and process them', async () => {
+      const result = await parser.getAndProcessAllOrders(
+        1, 1, 'USDT', undefined, [OrderStatus.Completed],
+        Date.parse('2025-04-01T00:00:00Z'), Date.parse('2025-04-08T00:00:00Z') - 1
       );
+
+      expect(result.success).toBe(true);
+      expect(result.data?.transactions.map(order => order.id)).toEqual(['1002']);
+      expect(server.requestsTo('/v5/p2p/order/simplifyList')[0]?.params).toMatchObject({ status: [OrderStatus.Completed], tokenId: 'USDT' });
+
+      const all = await parser.getAndProcessAllOrders(1, 1, undefined, undefined, [OrderStatus.Completed]);
+      expect(all.data?.transactions.map(order => order.id)).toEqual(['1001', '1002', '1000']);
+      expect(all.data?.summary.sell.volume.toString()).toBe('17058');
     });
 
-    it('should handle optional parameters', async () => {
-      const mockResponse = { retCode: 0, result: { items: [] } };
-      
-      const makeRequestSpy = spyOn(parser, 'makeRequest');
-      makeRequestSpy.mockResolvedValue(mockResponse);
-      
-      await parser.getP2PTradeHistory();
-      
-      expect(makeRequestSpy).toHaveBeenCalledWith(
-        '/v5/asset/exchange/order-record',
-        'GET',
-        { limit: 20 }
-      );
+    it('should handle API errors', async () => {
+      server.failNext('/v5/p2p/order/simplifyList', { retCode: 10003, retMsg: 'API key is invalid.', httpStatus: 401 });
+
+      const result = await parser.getAndProcessAllOrders();
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('API key is invalid.');
+      expect(result.error).toBeInstanceOf(BybitAuthError);
     });
   });
 
@@ -171,201 +203,403 @@ describe('BybitP2PParser', () => {
       expect(result).toEqual({
         totalCount: 0,
         summary: {
-          buy: { count: 0, volume: 0 },
-          sell: { count: 0, volume: 0 }
+          buy: { count: 0, volume: Decimal.ZERO },
+          sell: { count: 0, volume: Decimal.ZERO }
         },
         byCoin: {},
         transactions: []
       });
     });
 
-    it('should process transactions correctly', () => {
-      const transactions = [
-        {
-          orderType: 'buy',
-          tokenId: 'BTC',
-          amount: '1.5',
-          fiatAmount: '45000',
-          createdTime: 1617985776000
-        },
-        {
-          orderType: 'sell',
-          tokenId: 'ETH',
-          amount: '10',
-          fiatAmount: '20000',
-          createdTime: 1617985876000
-        },
-        {
-          orderType: 'buy',
-          tokenId: 'BTC',
-          amount: '0.5',
-          fiatAmount: '15000',
-          createdTime: 1617985976000
-        }
-      ];
-      
-      const result = parser.processTransactions(transactions);
-      
-      expect(result.totalCount).toBe(3);
-      expect(result.summary.buy.count).toBe(2);
-      expect(result.summary.buy.volume).toBe(60000);
-      expect(result.summary.sell.count).toBe(1);
-      expect(result.summary.sell.volume).toBe(20000);
-      expect(result.byCoin.BTC.buy.count).toBe(2);
-      expect(result.byCoin.BTC.buy.tokenVolume).toBe(2);
-      expect(result.byCoin.ETH.sell.count).toBe(1);
-      expect(result.byCoin.ETH.sell.tokenVolume).toBe(10);
-    });
-
-    it('should handle different API response structures', () => {
-      const transactions = [
-        {
-          side: 'buy',           // Different field name
-          coin: 'BTC',           // Different field name
-          quantity: '1.5',       // Different field name
-          totalAmount: '45000',  // Different field name
-          timestamp: 1617985776000 // Different field name
-        },
-        {
-          orderType: 'sell',
-          asset: 'ETH',          // Different field name
-          size: '10',            // Different field name
-          value: '20000',        // Different field name
-          time: 1617985876000    // Different field name
-        }
-      ];
-      
-      const result = parser.processTransactions(transactions);
-      
-      expect(result.totalCount).toBe(2);
+    it('should sum fiat and token volumes exactly by side and coin', () => {
+      const result = parser.processTransactions(orders.map(decodeP2POrderOrThrow));
+
+      expect(result.totalCount).toBe(4);
       expect(result.summary.buy.count).toBe(1);
-      expect(result.summary.buy.volume).toBe(45000);
-      expect(result.summary.sell.count).toBe(1);
-      expect(result.summary.sell.volume).toBe(20000);
-      expect(result.byCoin.BTC.buy.tokenVolume).toBe(1.5);
-      expect(result.byCoin.ETH.sell.tokenVolume).toBe(10);
+      expect(result.summary.buy.volume.toString()).toBe('1000.1');
+      expect(result.summary.sell.count).toBe(3);
+      expect(result.summary.sell.volume.toString()).toBe('17558');
+      expect(result.byCoin.USDT?.buy.tokenVolume.toString()).toBe('11.7');
+      expect(result.byCoin.USDT?.sell.tokenVolume.toString()).toBe('300');
     });
   });
 
-  describe('getAndProcessP2PHistory', () => {
-    it('should fetch and process transactions successfully', async () => {
-      const mockTransactions = [
-        {
-          orderType: 'buy',
-          tokenId: 'BTC',
-          amount: '1.5',
-          fiatAmount: '45000',
-          createdTime: 1617985776000
+  describe('iterateOrders', () => {
+    const makeItem = (id: string) => ({
+      id,
+      side: 1,
+      tokenId: 'USDT',
+      amount: '8500',
+      currencyId: 'RUB',
+      price: '85',
+      notifyTokenQuantity: '100',
+      status: 50,
+      createDate: '1744086046000'
+    });
+
+    it('should bisect the window when the API rejects the range', async () => {
+      const getAllOrdersSpy = spyOn(parser, 'getAllOrders');
+      getAllOrdersSpy.mockImplementation(async (page, size, tokenId, side, status, beginTime = 0, endTime = 0) => {
+        if (endTime - beginTime > 1000) {
+          throw new BybitParameterError(10001, 'Request parameter error', '/v5/p2p/order/simplifyList');
         }
-      ];
-      
-      const mockResponse = {
-        retCode: 0,
-        result: {
-          items: mockTransactions
+        return { ret_code: 0, result: { count: 1, items: [makeItem(`order-${beginTime}`)] } };
+      });
+
+      const ids: string[] = [];
+      for await (const order of parser.iterateOrders({ beginTime: 0, endTime: 2000, minWindowMs: 100 })) {
+        ids.push(order.id);
+      }
+
+      expect(ids).toEqual(['order-1001', 'order-0']);
+    });
+
+    it('should de-duplicate orders returned by several windows', async () => {
+      const getAllOrdersSpy = spyOn(parser, 'getAllOrders');
+      getAllOrdersSpy.mockImplementation(async (page, size, tokenId, side, status, beginTime = 0, endTime = 0) => {
+        if (endTime - beginTime > 1000) {
+          return { ret_code: 0, result: { count: 500, items: [makeItem('same')] } };
         }
+        return { ret_code: 0, result: { count: 1, items: [makeItem('same')] } };
+      });
+
+      const ids: string[] = [];
+      for await (const order of parser.iterateOrders({ beginTime: 0, endTime: 2000, maxPagesPerWindow: 2, minWindowMs: 100 })) {
+        ids.push(order.id);
+      }
+
+      expect(ids).toEqual(['same']);
+    });
+
+    it('should read every page of a window that cannot be split any further', async () => {
+      const getAllOrdersSpy = spyOn(parser, 'getAllOrders');
+      getAllOrdersSpy.mockImplementation(async (page, size) => ({
+        ret_code: 0,
+        result: { count: 5, items: [makeItem(`order-${page}-1`), makeItem(`order-${page}-2`)].slice(0, page === 3 ? 1 : size) }
+      }));
+
+      const ids: string[] = [];
+      for await (const order of parser.iterateOrders({ beginTime: 0, endTime: 100, pageSize: 2, maxPagesPerWindow: 1, minWindowMs: 100 })) {
+        ids.push(order.id);
+      }
+
+      expect(ids).toEqual(['order-1-1', 'order-1-2', 'order-2-1', 'order-2-2', 'order-3-1']);
+      expect(getAllOrdersSpy.mock.calls.map(call => call[0])).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('updateAd', () => {
+    const rawAd = {
+      id: '1898988222063644672',
+      side: 1,
+      status: 10,
+      tokenId: 'USDT',
+      currencyId: 'RUB',
+      priceType: 0,
+      price: '85.1',
+      premium: '',
+      quantity: '1000',
+      lastQuantity: '800',
+      minAmount: '1000',
+      maxAmount: '50000',
+      paymentTerms: [{ id: '11' }],
+      paymentPeriod: '15',
+      remark: 'fast',
+      tradingPreferenceSet: { isKyc: 1 }
+    };
+
+    it('should merge changes into the current ad before updating', async () => {
+      const requestSpy = spyOn(parser, 'request');
+      requestSpy.mockImplementation(async (method: string, endpoint: string) =>
+        endpoint === '/v5/p2p/item/info' ? { ret_code: 0, result: rawAd } : { ret_code: 0, result: {} });
+
+      await parser.updateAd(rawAd.id, { price: 86.5 });
+
+      expect(requestSpy).toHaveBeenLastCalledWith('POST', '/v5/p2p/item/update', expect.objectContaining({
+        id: rawAd.id,
+        actionType: 'MODIFY',
+        price: '86.5',
+        quantity: '1000',
+        minAmount: '1000',
+        paymentIds: ['11'],
+        tradingPreferenceSet: { isKyc: 1 }
+      }));
+    });
+
+    it('should not send inconsistent limits', async () => {
+      const requestSpy = spyOn(parser, 'request');
+      requestSpy.mockResolvedValue({ ret_code: 0, result: rawAd });
+
+      await expect(parser.updateAd(rawAd.id, { maxAmount: 500 })).rejects.toThrow(P2PAdValidationError);
+      expect(requestSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('releaseOrder', () => {
+    const orderInfo = (status: number) => ({
+      id: '1909461388398374912',
+      side: 1,
+      tokenId: 'USDT',
+      currencyId: 'RUB',
+      price: '85',
+      quantity: '100',
+      amount: '8500',
+      status,
+      createDate: '1744086046000'
+    });
+
+    const setup = (status: number) => {
+      const entries: OrderActionAuditEntry[] = [];
+      parser.releaseGuard = new ReleaseGuard();
+      parser.orderAudit = {
+        hasSucceeded: async (orderNo, action) => entries.some(e => e.orderNo === orderNo && e.action === action && e.success),
+        record: async entry => { entries.push(entry); }
       };
-      
-      const getP2PTradeHistorySpy = spyOn(parser, 'getP2PTradeHistory');
-      getP2PTradeHistorySpy.mockResolvedValue(mockResponse);
-      
-      const result = await parser.getAndProcessP2PHistory({ limit: 50 });
-      
-      expect(getP2PTradeHistorySpy).toHaveBeenCalledWith({ limit: 50 });
-      expect(result.success).toBe(true);
-      expect(result.data.totalCount).toBe(1);
+      const requestSpy = spyOn(parser, 'request');
+      requestSpy.mockImplementation(async (method: string, endpoint: string) =>
+        endpoint === '/v5/p2p/order/info' ? { ret_code: 0, result: orderInfo(status) } : { ret_code: 0, result: {} });
+      return { entries, requestSpy };
+    };
+
+    const finishCalls = (requestSpy: any) =>
+      requestSpy.mock.calls.filter((call: any[]) => call[1] === '/v5/p2p/order/finish').length;
+
+    it('should release an order only once for concurrent and repeated calls', async () => {
+      const { entries, requestSpy } = setup(20);
+
+      const results = await Promise.all([parser.releaseOrder('1909461388398374912'), parser.releaseOrder('1909461388398374912')]);
+      const repeated = await parser.releaseOrder('1909461388398374912');
+
+      expect(results).toEqual([true, false]);
+      expect(repeated).toBe(false);
+      expect(finishCalls(requestSpy)).toBe(1);
+      expect(entries).toEqual([expect.objectContaining({ action: 'release', success: true, previousStatus: 20 })]);
     });
 
-    it('should handle API errors', async () => {
-      const mockResponse = {
-        retCode: 10001,
-        retMsg: 'API key invalid'
+    it('should skip orders that are already completed', async () => {
+      const { requestSpy } = setup(50);
+
+      expect(await parser.releaseOrder('1909461388398374912')).toBe(false);
+      expect(finishCalls(requestSpy)).toBe(0);
+    });
+
+    it('should refuse orders in appeal and audit the attempt', async () => {
+      const { entries, requestSpy } = setup(30);
+
+      await expect(parser.releaseOrder('1909461388398374912')).rejects.toThrow(OrderActionError);
+      expect(finishCalls(requestSpy)).toBe(0);
+      expect(entries[0]?.success).toBe(false);
+    });
+  });
+
+  describe('order actions', () => {
+    const orderNo = '1909461388398374912';
+    const buyOrderInfo = (status: number) => ({
+      id: orderNo,
+      side: 0,
+      tokenId: 'USDT',
+      currencyId: 'RUB',
+      price: '85',
+      quantity: '100',
+      amount: '8500',
+      status,
+      createDate: '1744086046000',
+      paymentTermList: [{ id: '77', paymentType: '377' }]
+    });
+
+    const setup = (status: number = 10) => {
+      const entries: OrderActionAuditEntry[] = [];
+      parser.orderAudit = {
+        hasSucceeded: async () => false,
+        record: async entry => { entries.push(entry); }
       };
-      
-      const getP2PTradeHistorySpy = spyOn(parser, 'getP2PTradeHistory');
-      getP2PTradeHistorySpy.mockResolvedValue(mockResponse);
-      
-      const result = await parser.getAndProcessP2PHistory();
-      
-      expect(result.success).toBe(false);
-      expect(result.message).toBe('API key invalid');
+      const requestSpy = spyOn(parser, 'request');
+      requestSpy.mockImplementation(async (method: string, endpoint: string) => {
+        if (endpoint === '/v5/p2p/order/info') return { ret_code: 0, result: buyOrderInfo(status) };
+        if (endpoint === '/v5/p2p/oss/upload_file') return { ret_code: 0, result: { url: '/fiat/p2p/oss/receipt.png' } };
+        return { ret_code: 0, result: {} };
+      });
+      const calls = (endpoint: string) => requestSpy.mock.calls.filter((call: any[]) => call[1] === endpoint);
+      return { entries, calls };
+    };
+
+    it('should refuse every action without an audit trail', async () => {
+      const requestSpy = spyOn(parser, 'request');
+
+      await expect(parser.releaseOrder(orderNo)).rejects.toThrow('no audit trail configured');
+      await expect(parser.markOrderPaid(orderNo, '377', '77')).rejects.toThrow(OrderActionError);
+      await expect(parser.sendChatMessage(orderNo, 'Оплатил')).rejects.toThrow(OrderActionError);
+      await expect(parser.uploadChatFile(orderNo, 'receipt.png', new Uint8Array([1]))).rejects.toThrow(OrderActionError);
+      expect(requestSpy).not.toHaveBeenCalled();
     });
 
-    it('should handle exceptions', async () => {
-      const error = new Error('Network error');
-      
-      const getP2PTradeHistorySpy = spyOn(parser, 'getP2PTradeHistory');
-      getP2PTradeHistorySpy.mockRejectedValue(error);
-      
-      const result = await parser.getAndProcessP2PHistory();
-      
-      expect(result.success).toBe(false);
-      expect(result.message).toBe('Network error');
+    it('should mark a buy order as paid with a payment term of the order', async () => {
+      const { entries, calls } = setup(10);
+
+      expect(await parser.markOrderPaid(orderNo, '377', '77')).toBe(true);
+      expect(calls('/v5/p2p/order/pay').map(call => call[2])).toEqual([{ orderId: orderNo, paymentType: '377', paymentId: '77' }]);
+      expect(calls('/v5/p2p/order/pay')[0]?.[3]).toEqual({ idempotent: false });
+      expect(entries).toEqual([expect.objectContaining({ action: 'markPaid', success: true, previousStatus: 10 })]);
+
+      await expect(parser.markOrderPaid(orderNo, '377', '78')).rejects.toThrow('payment term 78 does not belong to the order');
+      expect(calls('/v5/p2p/order/pay')).toHaveLength(1);
+      expect(entries[1]).toMatchObject({ action: 'markPaid', success: false });
+    });
+
+    it('should not pay an order that is already paid', async () => {
+      const { calls } = setup(20);
+
+      expect(await parser.markOrderPaid(orderNo, '377', '77')).toBe(false);
+      expect(calls('/v5/p2p/order/pay')).toHaveLength(0);
+    });
+
+    it('should send chat messages with a message UUID and audit them', async () => {
+      const { entries, calls } = setup();
+
+      const msgUuid = await parser.sendChatMessage(orderNo, 'Оплатил');
+
+      expect(msgUuid).toMatch(/^[0-9a-f]{32}$/);
+      expect(calls('/v5/p2p/order/message/send').map(call => call[2])).toEqual([{ orderId: orderNo, message: 'Оплатил', contentType: 'str', msgUuid }]);
+      expect(entries).toEqual([expect.objectContaining({ action: 'sendMessage', success: true })]);
+      await expect(parser.sendChatMessage(orderNo, '  ')).rejects.toThrow('message must not be empty');
+    });
+
+    it('should upload a file and post its URL to the chat', async () => {
+      const { entries, calls } = setup();
+
+      const url = await parser.uploadChatFile(orderNo, 'receipt.png', new Uint8Array([1, 2, 3]));
+
+      expect(url).toBe('/fiat/p2p/oss/receipt.png');
+      expect(calls('/v5/p2p/oss/upload_file')[0]?.[2]).toBeInstanceOf(FormData);
+      expect(calls('/v5/p2p/order/message/send')[0]?.[2]).toMatchObject({ orderId: orderNo, message: url, contentType: 'pic', fileName: 'receipt.png' });
+      // Содержимое файла в аудит не попадает
+      expect(entries).toEqual([expect.objectContaining({ action: 'uploadFile', success: true, params: { orderId: orderNo, fileName: 'receipt.png', size: 3, contentType: 'pic' } })]);
+      await expect(parser.uploadChatFile(orderNo, 'archive.zip', new Uint8Array([1]))).rejects.toThrow('unsupported file type');
     });
   });
 
-  describe('exportToCSV', () => {
-    it('should export transactions to CSV file', () => {
-      const transactions = [
-        {
-          orderId: '123456',
-          orderType: 'buy',
-          tokenId: 'BTC',
-          amount: '1.5',
-          fiatId: 'USD',
-          fiatAmount: '45000',
-          price: '30000',
-          status: 'completed',
-          createdTime: 1617985776000
-        }
-      ];
-      
-      const filepath = './export.csv';
-      
-      parser.exportToCSV(transactions, filepath);
-      
-      expect(fs.writeFileSync).toHaveBeenCalledTimes(1);
-      expect(fs.writeFileSync.mock.calls[0][0]).toBe(filepath);
-      
-      const csvContent = fs.writeFileSync.mock.calls[0][1];
-      expect(csvContent).toContain('Date,Order ID,Type,Coin,Amount,Fiat Currency,Fiat Amount,Price,Status');
-      expect(csvContent).toContain('123456,buy,BTC,1.5,USD,45000,30000,completed');
+  describe('getChatMessages', () => {
+    const makeMessage = (id: number) => ({
+      id: String(id),
+      orderId: '1909461388398374912',
+      userId: id % 2 === 0 ? '414938234' : '123456',
+      contentType: 'str',
+      message: `message ${id}`,
+      createDate: String(1744086046000 - id * 1000)
+    });
+
+    it('should page through the whole history and return it in chronological order', async () => {
+      const requestSpy = spyOn(parser, 'request');
+      requestSpy.mockImplementation(async (method: string, endpoint: string, params: any) => {
+        if (endpoint === '/v5/p2p/user/personal/info') return { ret_code: 0, result: { userId: '414938234' } };
+        // Newest messages first, 5 messages in total
+        const ids = [1, 2, 3, 4, 5].slice((Number(params.currentPage) - 1) * 2, Number(params.currentPage) * 2);
+        return { ret_code: 0, result: ids.map(makeMessage) };
+      });
+
+      const messages = await parser.getChatMessages('1909461388398374912', 2);
+
+      expect(messages.map(message => message.id)).toEqual(['5', '4', '3', '2', '1']);
+      expect(messages[1]?.senderRole).toBe('self');
+      expect(messages[0]?.senderRole).toBe('counterparty');
+      expect(requestSpy.mock.calls.filter((call: any[]) => call[1] === '/v5/p2p/order/message/listpage').length).toBe(3);
+    });
+  });
+
+  describe('stand-in server', () => {
+    it('should split ranges the API rejects and walk them to the end', async () => {
+      const ids: string[] = [];
+      for await (const order of parser.iterateOrders({
+        beginTime: Date.parse('2025-03-30T00:00:00Z'),
+        endTime: Date.parse('2025-04-10T00:00:00Z'),
+        minWindowMs: DAY_MS
+      })) {
+        ids.push(order.id);
+      }
+
+      expect(ids).toEqual(['1001', '1002', '1003']);
+      expect(server.requestsTo('/v5/p2p/order/simplifyList').map(request => request.retCode)).toEqual([10001, 0, 0]);
+    });
+
+    it('should read the whole chat of an order', async () => {
+      const messages = await parser.getChatMessages('1001', 2);
+
+      expect(messages.map(message => [message.id, message.senderRole])).toEqual([
+        ['1', 'counterparty'],
+        ['2', 'self'],
+        ['3', 'counterparty']
+      ]);
+      expect(server.requestsTo('/v5/p2p/order/message/listpage')).toHaveLength(2);
+    });
+
+    it('should page through the orders in progress', async () => {
+      const pending = FakeBybitServer.start({
+        accounts: [{
+          apiKey,
+          apiSecret,
+          userId: '414938234',
+          orders: [
+            rawOrder('2001', Date.parse('2025-04-08T10:00:00Z'), { status: 10 }),
+            rawOrder('2002', Date.parse('2025-04-08T09:00:00Z'), { status: 20 }),
+            rawOrder('2003', Date.parse('2025-04-08T08:00:00Z'), { status: 30 }),
+            rawOrder('2004', Date.parse('2025-04-08T07:00:00Z'))
+          ]
+        }]
+      });
+      try {
+        const pendingParser = new BybitP2PParser(apiKey, apiSecret, false, 5000, pending.url);
+        pendingParser.clock = new ServerClock(fetchBybitServerTime(pending.url), { samples: 3 });
+
+        const found = await pendingParser.getPendingOrders({ pageSize: 2 });
+
+        expect(found.map(order => [order.id, order.status])).toEqual([
+          ['2001', OrderStatus.WaitingForPayment],
+          ['2002', OrderStatus.WaitingForRelease],
+          ['2003', OrderStatus.Appealing]
+        ]);
+        expect(pending.requestsTo('/v5/p2p/order/pending/simplifyList').map(request => request.params)).toEqual([
+          { page: 1, size: 2 },
+          { page: 2, size: 2 }
+        ]);
+      } finally {
+        pending.stop();
+      }
+    });
+
+    it('should fetch order details', async () => {
+      const detail = await parser.getOrderInfo('1003');
+
+      expect(detail.status).toBe(OrderStatus.Cancelled);
+      expect(detail.fiatAmount.toString()).toBe('500');
+      await expect(parser.getOrderInfo('404')).rejects.toThrow('The order does not exist.');
+    });
+  });
+
+  describe('exportToMatchingFormat', () => {
+    const filepath = path.join(os.tmpdir(), `bybit-export-${process.pid}.csv`);
+
+    afterAll(() => {
+      fs.rmSync(filepath, { force: true });
+    });
+
+    it('should export orders in the BybitTransaction.csv format', () => {
+      expect(parser.exportToMatchingFormat(orders.slice(0, 2).map(decodeP2POrderOrThrow), filepath)).toBe(true);
+
+      const rows = parseBybitTransactionCsv(fs.readFileSync(filepath, 'utf8'));
+      expect(rows.map(row => [row.orderNo, row.type, row.totalPrice])).toEqual([
+        ['1001', 'SELL', '8529.00'],
+        ['1002', 'BUY', '1000.10']
+      ]);
     });
 
     it('should handle empty transactions', () => {
-      const result = parser.exportToCSV([], './export.csv');
-      
-      expect(result).toBe(false);
-      expect(fs.writeFileSync).not.toHaveBeenCalled();
+      expect(parser.exportToMatchingFormat([], filepath)).toBe(false);
     });
 
     it('should handle file write errors', () => {
-      const transactions = [
-        {
-          orderId: '123456',
-          orderType: 'buy',
-          tokenId: 'BTC',
-          amount: '1.5',
-          fiatId: 'USD',
-          fiatAmount: '45000',
-          price: '30000',
-          status: 'completed',
-          createdTime: 1617985776000
-        }
-      ];
-      
-      // Mock implementation that throws an error
-      const originalMock = fs.writeFileSync;
-      fs.writeFileSync = mock(() => {
-        throw new Error('Write error');
-      });
-      
-      const result = parser.exportToCSV(transactions, './export.csv');
-      
-      expect(result).toBe(false);
-      
-      // Restore the original mock
-      fs.writeFileSync = originalMock;
+      const missingDirectory = path.join(os.tmpdir(), `bybit-missing-${process.pid}`, 'export.csv');
+
+      expect(parser.exportToMatchingFormat(orders.map(decodeP2POrderOrThrow), missingDirectory)).toBe(false);
     });
   });
-});
\ No newline at end of file
+});
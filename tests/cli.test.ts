@@ -0,0 +1,260 @@
+import { expect, describe, it } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import BybitP2PParser, { type P2POrderFilter } from '@/bybit';
+import { MissingCredentialsError, type CredentialOwner } from '@/credentials';
+import { ExitCode, formatTable, runCli, type CliEnvironment } from '@/cli';
+import { decodeP2POrderOrThrow, OrderStatus, type P2POrder } from '@/p2p-order';
+import type { ChatMessage } from '@/p2p-chat';
+import type { BackfillOwner, BackfillResult, SyncRange, SyncResult } from '@/sync-service';
+
+const rawOrder = {
+  id: '1909461388398374912',
+  side: 1,
+  tokenId: 'USDT',
+  amount: '442143.36',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '5184',
+  fee: '0',
+  targetNickName: 'elisemefor',
+  status: 50,
+  createDate: '1744086046000',
+  userId: '414938234'
+};
+const orders: P2POrder[] = [
+  decodeP2POrderOrThrow(rawOrder),
+  decodeP2POrderOrThrow({ ...rawOrder, id: '2', side: 0, amount: '1000.1', notifyTokenQuantity: '11.7' }),
+  decodeP2POrderOrThrow({ ...rawOrder, id: '3', status: 40, amount: '500' })
+];
+
+/**
+ * Парсер без сетевых запросов: заявки из массива, запросы фильтров сохраняются
+ */
+function fakeParser(filters: P2POrderFilter[] = []): BybitP2PParser {
+  const parser = new BybitP2PParser('test-api-key', 'test-api-secret');
+  parser.syncTime = async () => {};
+  parser.iterateOrders = async function* (filter: P2POrderFilter) {
+    filters.push(filter);
+    yield* orders;
+  };
+  parser.getOrderInfo = async () => { throw new Error('detail unavailable'); };
+  parser.getChatMessages = async (orderId: string): Promise<ChatMessage[]> => [
+    { id: '1', orderId, kind: 'text', senderRole: 'counterparty', senderNickName: 'elisemefor', text: 'Оплатил', createdAt: new Date('2025-04-08T04:25:00Z'), raw: {} },
+    { id: '2', orderId, kind: 'text', senderRole: 'self', text: 'Спасибо', createdAt: new Date('2025-04-08T04:26:00Z'), raw: {} }
+  ];
+  return parser;
+}
+
+/**
+ * Окружение CLI с выводом в массивы
+ */
+function fakeEnvironment(overrides: Partial<CliEnvironment> = {}) {
+  const output = { stdout: '', stderr: '' };
+  const env: CliEnvironment = {
+    stdout: text => { output.stdout += text; },
+    stderr: text => { output.stderr += text; },
+    prisma: () => { throw new Error('database is not available in this test'); },
+    parser: async () => fakeParser(),
+    syncService: () => { throw new Error('sync service is not available in this test'); },
+    now: () => new Date('2025-04-10T00:00:00Z'),
+    ...overrides
+  };
+  return { env, output };
+}
+
+describe('runCli', () => {
+  it('should reject unknown commands and options with the usage exit code', async () => {
+    const { env, output } = fakeEnvironment();
+
+    expect(await runCli(['deploy'], env)).toBe(ExitCode.Usage);
+    expect(output.stderr).toContain('Неизвестная команда "deploy"');
+    expect(await runCli(['summary', '--colour'], env)).toBe(ExitCode.Usage);
+    expect(await runCli(['summary', '--side', 'long', '--json'], env)).toBe(ExitCode.Usage);
+    expect(JSON.parse(output.stdout)).toEqual({ error: '--side: ожидается buy или sell, получено "long"', exitCode: 2 });
+  });
+
+  it('should report missing credentials with their own exit code', async () => {
+    const { env, output } = fakeEnvironment({
+      parser: async (owner: CredentialOwner) => { throw new MissingCredentialsError(owner, ['environment']); }
+    });
+
+    expect(await runCli(['chat', '1', '--cabinet', '3'], env)).toBe(ExitCode.MissingCredentials);
+    expect(output.stderr).toContain('No Bybit API credentials for cabinet 3');
+  });
+
+  it('should print a summary of filtered API orders as JSON', async () => {
+    const filters: P2POrderFilter[] = [];
+    const { env, output } = fakeEnvironment({ parser: async () => fakeParser(filters) });
+
+    const code = await runCli(['summary', '--status', 'completed', '--from', '2025-04-01', '--to', '2025-04-08', '--json'], env);
+    expect(code).toBe(ExitCode.Success);
+    expect(filters[0]).toMatchObject({
+      beginTime: Date.parse('2025-04-01T00:00:00Z'),
+      endTime: Date.parse('2025-04-08T23:59:59.999Z'),
+      status: [OrderStatus.Completed]
+    });
+
+    const result = JSON.parse(output.stdout);
+    expect(result.count).toBe(2);
+    expect(result.summary).toEqual({ buy: { count: 1, volume: '1000.1' }, sell: { count: 1, volume: '442143.36' } });
+    expect(result.byCoin.USDT.sell.tokenVolume).toBe('5184');
+  });
+
+  it('should print the summary of stored rows as tables', async () => {
+    const rows = [
+      { orderNo: '1', type: 'SELL', status: 'COMPLETED', asset: 'USDT', unitPrice: '85.29', amount: '100', totalPrice: '8529', fee: '0', dateTime: new Date('2025-04-08T00:00:00Z'), originalData: {} },
+      { orderNo: '2', type: 'SELL', status: 'CANCELED', asset: 'USDT', unitPrice: '85.29', amount: '1', totalPrice: '85.29', fee: '0', dateTime: new Date('2025-04-08T00:00:00Z'), originalData: {} }
+    ];
+    let where: any;
+    const prisma = {
+      bybitTransactionFromCabinet: { findMany: async (query: any) => { where = query.where; return rows; } }
+    } as unknown as PrismaClient;
+    const { env, output } = fakeEnvironment({ prisma: () => prisma });
+
+    expect(await runCli(['summary', '--source', 'db', '--cabinet', '3', '--status', '50'], env)).toBe(ExitCode.Success);
+    expect(where).toEqual({ cabinetId: 3 });
+    expect(output.stdout).toContain('Заявок: 1 (кабинет 3, все время)');
+    expect(output.stdout).toContain('Продажа       1          8529\nИтого         1          8529');
+    expect(output.stdout).toContain('USDT   Продажа       1          8529            100');
+  });
+
+  it('should report stored orders by their status history', async () => {
+    const rows = [
+      { orderNo: '1', type: 'SELL', status: 'COMPLETED', asset: 'USDT', totalPrice: '8529', counterparty: 'elisemefor', dateTime: new Date('2025-04-08T10:00:00Z'), paidAt: new Date('2025-04-08T10:04:00Z'), completedAt: null }
+    ];
+    const changes = [
+      { orderNo: '1', fromStatus: 'WAITING_FOR_RELEASE', toStatus: 'COMPLETED', observedAt: new Date('2025-04-08T11:02:03Z') }
+    ];
+    const prisma = {
+      bybitTransaction: { findMany: async () => rows },
+      bybitOrderStatusChange: { findMany: async () => changes }
+    } as unknown as PrismaClient;
+    const { env, output } = fakeEnvironment({ prisma: () => prisma });
+
+    expect(await runCli(['report', 'release-times', '--user', '5'], env)).toBe(ExitCode.Success);
+    expect(output.stdout).toContain('2025-04-08T11:02:03.000Z  1:02:03     0:58:03');
+    expect(output.stdout).toContain('Среднее время от создания до отпуска: 1:02:03 (1 заявок)');
+
+    expect(await runCli(['report', 'disputes', '--user', '5'], env)).toBe(ExitCode.Usage);
+    expect(await runCli(['timeline', '1'], env)).toBe(ExitCode.Usage);
+    expect(output.stderr).toContain('timeline требует --cabinet <id> или --user <id>');
+  });
+
+  it('should release an order and write the audit record of the actor', async () => {
+    const parser = fakeParser();
+    parser.getOrderInfo = BybitP2PParser.prototype.getOrderInfo;
+    const requests: string[] = [];
+    parser.request = async (_method, endpoint) => {
+      requests.push(endpoint);
+      return endpoint === '/v5/p2p/order/info'
+        ? { ret_code: 0, result: { ...rawOrder, quantity: '5184', status: 20 } }
+        : { ret_code: 0, result: {} };
+    };
+    const audit: any[] = [];
+    const prisma = {
+      auditLog: {
+        findFirst: async () => null,
+        create: async ({ data }: any) => { audit.push(data); return data; }
+      }
+    } as unknown as PrismaClient;
+    const { env, output } = fakeEnvironment({ prisma: () => prisma, parser: async () => parser });
+
+    expect(await runCli(['order', 'release', '1909461388398374912', '--cabinet', '3'], env)).toBe(ExitCode.Usage);
+    expect(output.stderr).toContain('order требует --actor <id пользователя>');
+
+    expect(await runCli(['order', 'release', '1909461388398374912', '--cabinet', '3', '--actor', '5'], env)).toBe(ExitCode.Success);
+    expect(output.stdout).toContain('Средства по заявке 1909461388398374912 отпущены');
+    expect(requests).toEqual(['/v5/p2p/order/info', '/v5/p2p/order/finish']);
+    expect(audit).toEqual([expect.objectContaining({ entityKey: '1909461388398374912', userId: 5, newValue: expect.objectContaining({ action: 'release', success: true }) })]);
+  });
+
+  it('should export API orders to the chosen format', async () => {
+    const filepath = path.join(os.tmpdir(), `bybit-cli-${Date.now()}.jsonl`);
+    const { env, output } = fakeEnvironment();
+
+    try {
+      expect(await runCli(['export', '--output', filepath, '--side', 'sell', '--json'], env)).toBe(ExitCode.Success);
+      expect(JSON.parse(output.stdout)).toMatchObject({ format: 'jsonl', output: filepath, source: 'api', count: 2 });
+      // Детали заявок недоступны: выгрузка продолжается, ошибка уходит в stderr
+      expect(output.stderr).toContain('Не удалось получить детали заявки 1909461388398374912');
+
+      const lines = fs.readFileSync(filepath, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => [line.orderNo, line.side, line.status])).toEqual([
+        ['1909461388398374912', 'SELL', 'Completed'],
+        ['3', 'SELL', 'Cancelled']
+      ]);
+    } finally {
+      fs.rmSync(filepath, { force: true });
+    }
+  });
+
+  it('should sync a cabinet over the given period and fail when the service reports an error', async () => {
+    const calls: Array<[number, SyncRange | undefined]> = [];
+    const service = {
+      syncCabinet: async (cabinetId: number, range?: SyncRange): Promise<SyncResult> => {
+        calls.push([cabinetId, range]);
+        return { fetched: 4, created: 1, updated: 0, error: 'API timeout' };
+      },
+      syncUser: async (): Promise<SyncResult> => ({ fetched: 0, created: 0, updated: 0 }),
+      createBackfillJob: async () => { throw new Error('not used'); },
+      runBackfillJob: async () => { throw new Error('not used'); }
+    };
+    const { env, output } = fakeEnvironment({ syncService: () => service });
+
+    expect(await runCli(['sync', '--cabinet', '7', '--from', '2025-04-01T00:00:00Z', '--json'], env)).toBe(ExitCode.Failure);
+    expect(calls).toEqual([[7, { beginTime: Date.parse('2025-04-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') }]]);
+    expect(JSON.parse(output.stdout)).toMatchObject({ owner: { kind: 'cabinet', cabinetId: 7 }, fetched: 4, created: 1, error: 'API timeout' });
+
+    expect(await runCli(['sync'], env)).toBe(ExitCode.Usage);
+  });
+
+  it('should create a backfill job and resume it by id', async () => {
+    const created: Array<[BackfillOwner, SyncRange, number | undefined]> = [];
+    const runs: number[] = [];
+    const service = {
+      syncCabinet: async (): Promise<SyncResult> => ({ fetched: 0, created: 0, updated: 0 }),
+      syncUser: async (): Promise<SyncResult> => ({ fetched: 0, created: 0, updated: 0 }),
+      createBackfillJob: async (owner: BackfillOwner, range: SyncRange, windowDays?: number) => {
+        created.push([owner, range, windowDays]);
+        return { id: 12 };
+      },
+      runBackfillJob: async (jobId: number): Promise<BackfillResult> => {
+        runs.push(jobId);
+        return runs.length === 1
+          ? { jobId, status: 'IN_PROGRESS', windows: 2, fetched: 30, created: 12, updated: 0, cursorAt: new Date('2025-03-27T00:00:00Z'), error: 'API timeout' }
+          : { jobId, status: 'COMPLETED', windows: 3, fetched: 51, created: 20, updated: 1, cursorAt: new Date('2025-03-01T00:00:00Z') };
+      }
+    };
+    const { env, output } = fakeEnvironment({ syncService: () => service });
+
+    expect(await runCli(['backfill', '--cabinet', '7', '--from', '2025-03-01', '--window', '7'], env)).toBe(ExitCode.Failure);
+    expect(created).toEqual([[{ kind: 'cabinet', cabinetId: 7 }, { beginTime: Date.parse('2025-03-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') }, 7]]);
+    expect(output.stdout).toContain('Продолжить: bybitparser backfill --job 12');
+
+    expect(await runCli(['backfill', '--job', '12', '--json'], env)).toBe(ExitCode.Success);
+    expect(runs).toEqual([12, 12]);
+    expect(output.stdout).toContain('"status": "COMPLETED"');
+
+    expect(await runCli(['backfill', '--cabinet', '7'], env)).toBe(ExitCode.Usage);
+    expect(await runCli(['backfill', '--job', '12', '--user', '3'], env)).toBe(ExitCode.Usage);
+  });
+
+  it('should print the chat of an order', async () => {
+    const { env, output } = fakeEnvironment();
+
+    expect(await runCli(['chat', '42'], env)).toBe(ExitCode.Success);
+    expect(output.stdout).toBe(
+      '2025-04-08T04:25:00.000Z  elisemefor  Оплатил\n' +
+      '2025-04-08T04:26:00.000Z  я           Спасибо\n'
+    );
+  });
+});
+
+describe('formatTable', () => {
+  it('should align columns and right-align numbers', () => {
+    expect(formatTable([['Side', 'Orders'], ['Buy', 3], ['Sell', 12]])).toBe('Side  Orders\nBuy        3\nSell      12');
+  });
+});
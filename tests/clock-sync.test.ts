@@ -0,0 +1,133 @@
+import { expect, describe, it } from "bun:test";
+import BybitP2PParser from '@/bybit';
+import { ClockRegistry, estimateOffset, ServerClock, type ServerTimeSource } from '@/clock-sync';
+
+/**
+ * Локальные часы и сервер, опережающий их на serverOffset.
+ * Каждый запрос идет rtt[i] мс; сервер отвечает временем середины запроса,
+ * если не задан skew[i] - сдвиг момента ответа внутри запроса
+ */
+function simulatedServer(serverOffset: number, rtts: number[], skews: number[] = []) {
+  let local = 1_000_000;
+  let calls = 0;
+  const source: ServerTimeSource = async () => {
+    const rtt = rtts[calls % rtts.length]!;
+    const skew = skews[calls % Math.max(skews.length, 1)] ?? 0;
+    calls++;
+    const answeredAt = local + rtt / 2 + skew;
+    local += rtt;
+    return answeredAt + serverOffset;
+  };
+  return {
+    source,
+    localNow: () => local,
+    advance: (ms: number) => { local += ms; },
+    get calls() { return calls; }
+  };
+}
+
+describe('estimateOffset', () => {
+  it('should take the median offset and report the spread', () => {
+    expect(estimateOffset([
+      { offsetMs: 1000, rttMs: 40 },
+      { offsetMs: 1300, rttMs: 600 },
+      { offsetMs: 990, rttMs: 20 }
+    ])).toEqual({ offsetMs: 1000, maxRttMs: 600, spreadMs: 300 });
+    expect(estimateOffset([{ offsetMs: 10, rttMs: 1 }, { offsetMs: 20, rttMs: 1 }]).offsetMs).toBe(15);
+    expect(() => estimateOffset([])).toThrow('No clock samples');
+  });
+});
+
+describe('ServerClock', () => {
+  it('should correct samples by half of the round trip and ignore outliers', async () => {
+    // Один запрос задержался на обратном пути: сервер ответил в самом начале
+    const server = simulatedServer(2500, [40, 400, 60], [0, -200, 0]);
+    const clock = new ServerClock(server.source, { samples: 3 }, server.localNow);
+
+    await clock.sync();
+
+    expect(clock.offsetMs).toBe(2500);
+    expect(clock.synced).toBe(true);
+    expect(clock.now()).toBe(server.localNow() + 2500);
+    expect(clock.lastEstimate).toEqual({ offsetMs: 2500, maxRttMs: 400, spreadMs: 200 });
+  });
+
+  it('should share one measurement between concurrent syncs', async () => {
+    const server = simulatedServer(0, [10]);
+    const clock = new ServerClock(server.source, { samples: 4 }, server.localNow);
+
+    await Promise.all([clock.sync(), clock.sync(), clock.ensureSynced()]);
+
+    expect(server.calls).toBe(4);
+  });
+
+  it('should re-sync once the interval has passed', async () => {
+    const server = simulatedServer(100, [10]);
+    const clock = new ServerClock(server.source, { samples: 1, resyncIntervalMs: 60000 }, server.localNow);
+
+    await clock.ensureSynced();
+    server.advance(30000);
+    await clock.ensureSynced();
+    expect(server.calls).toBe(1);
+
+    server.advance(30000);
+    await clock.ensureSynced();
+    expect(server.calls).toBe(2);
+  });
+
+  it('should keep the previous offset when a sync fails and back off', async () => {
+    let local = 0;
+    let fail = false;
+    let calls = 0;
+    const clock = new ServerClock(async () => {
+      calls++;
+      if (fail) throw new Error('connect ECONNREFUSED');
+      return local + 700;
+    }, { samples: 2, retryAfterFailureMs: 5000, resyncIntervalMs: 1000 }, () => local);
+
+    await clock.sync();
+    fail = true;
+    local += 2000;
+
+    await expect(clock.sync()).rejects.toThrow('ECONNREFUSED');
+    expect(clock.offsetMs).toBe(700);
+    expect(clock.lastError).toBe('connect ECONNREFUSED');
+
+    // Сразу после ошибки запросы не ждут новой синхронизации
+    await clock.ensureSynced();
+    expect(calls).toBe(4);
+
+    fail = false;
+    local += 5000;
+    await clock.ensureSynced();
+    expect(calls).toBe(6);
+    expect(clock.lastError).toBeUndefined();
+  });
+
+  it('should raise recv_window with the network jitter within bounds', async () => {
+    const calm = simulatedServer(0, [50]);
+    const calmClock = new ServerClock(calm.source, { samples: 3 }, calm.localNow);
+    const slow = simulatedServer(0, [3000, 3500], [0, 500]);
+    const slowClock = new ServerClock(slow.source, { samples: 2 }, slow.localNow);
+    const awful = simulatedServer(0, [30000]);
+    const awfulClock = new ServerClock(awful.source, { samples: 1, maxRecvWindowMs: 20000 }, awful.localNow);
+
+    expect(calmClock.recvWindow(5000)).toBe(5000);
+    await Promise.all([calmClock.sync(), slowClock.sync(), awfulClock.sync()]);
+
+    expect(calmClock.recvWindow(5000)).toBe(5000);
+    expect(slowClock.recvWindow(5000)).toBe(7500);
+    expect(awfulClock.recvWindow(5000)).toBe(20000);
+    expect(awfulClock.recvWindow(30000)).toBe(30000);
+  });
+});
+
+describe('ClockRegistry', () => {
+  it('should give every parser of an API server the same clock', () => {
+    const registry = new ClockRegistry();
+
+    expect(registry.clock('http://127.0.0.1:1')).toBe(registry.clock('http://127.0.0.1:1'));
+    expect(registry.clock('http://127.0.0.1:1')).not.toBe(registry.clock('http://127.0.0.1:2'));
+    expect(new BybitP2PParser('a', 'b', true).clock).toBe(new BybitP2PParser('c', 'd', true).clock);
+  });
+});
@@ -0,0 +1,108 @@
+import { expect, describe, it } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import BybitP2PParser from '@/bybit';
+import {
+  ChainCredentialProvider,
+  DatabaseCredentialProvider,
+  DEFAULT_OWNER,
+  EnvCredentialProvider,
+  FileCredentialProvider,
+  MissingCredentialsError
+} from '@/credentials';
+
+describe('EnvCredentialProvider', () => {
+  const provider = new EnvCredentialProvider({
+    BYBIT_API_KEY: 'default-key',
+    BYBIT_API_SECRET: 'default-secret',
+    BYBIT_API_KEY_USER_7: 'user-key',
+    BYBIT_API_SECRET_USER_7: 'user-secret',
+    BYBIT_API_KEY_CABINET_3: 'cabinet-key',
+    BYBIT_API_SECRET_CABINET_3: ' '
+  });
+
+  it('should read the default pair and per-owner suffixes', async () => {
+    expect(await provider.resolve(DEFAULT_OWNER)).toEqual({
+      apiKey: 'default-key', apiSecret: 'default-secret', source: 'env BYBIT_API_KEY'
+    });
+    expect((await provider.resolve({ kind: 'user', userId: 7 }))?.apiKey).toBe('user-key');
+  });
+
+  it('should ignore incomplete pairs', async () => {
+    expect(await provider.resolve({ kind: 'cabinet', cabinetId: 3 })).toBeUndefined();
+    expect(await provider.resolve({ kind: 'user', userId: 8 })).toBeUndefined();
+  });
+});
+
+describe('FileCredentialProvider', () => {
+  it('should read keys of the default account, users and cabinets', async () => {
+    const filepath = path.join(os.tmpdir(), `bybit-secrets-${Date.now()}.json`);
+    fs.writeFileSync(filepath, JSON.stringify({
+      default: { apiKey: 'file-key', apiSecret: 'file-secret' },
+      cabinets: { '3': { apiKey: 'cabinet-key', apiSecret: 'cabinet-secret' } }
+    }));
+
+    try {
+      const provider = new FileCredentialProvider(filepath);
+      expect((await provider.resolve(DEFAULT_OWNER))?.apiSecret).toBe('file-secret');
+      expect((await provider.resolve({ kind: 'cabinet', cabinetId: 3 }))?.apiKey).toBe('cabinet-key');
+      expect(await provider.resolve({ kind: 'user', userId: 1 })).toBeUndefined();
+    } finally {
+      fs.unlinkSync(filepath);
+    }
+  });
+
+  it('should return nothing when the file does not exist', async () => {
+    const provider = new FileCredentialProvider(path.join(os.tmpdir(), 'missing-bybit-secrets.json'));
+    expect(await provider.resolve(DEFAULT_OWNER)).toBeUndefined();
+  });
+});
+
+describe('DatabaseCredentialProvider', () => {
+  const prisma = {
+    user: { findUnique: async ({ where }: any) => where.id === 1 ? { bybitApiToken: 'db-key', bybitApiSecret: 'db-secret' } : null },
+    bybitCabinet: { findUnique: async () => ({ bybitApiToken: 'cabinet-key', bybitApiSecret: null }) }
+  } as unknown as PrismaClient;
+  const provider = new DatabaseCredentialProvider(prisma);
+
+  it('should read the columns of users and cabinets', async () => {
+    expect(await provider.resolve({ kind: 'user', userId: 1 })).toEqual({
+      apiKey: 'db-key', apiSecret: 'db-secret', source: 'database user 1'
+    });
+    expect(await provider.resolve({ kind: 'user', userId: 2 })).toBeUndefined();
+    expect(await provider.resolve({ kind: 'cabinet', cabinetId: 3 })).toBeUndefined();
+    expect(await provider.resolve(DEFAULT_OWNER)).toBeUndefined();
+  });
+});
+
+describe('ChainCredentialProvider', () => {
+  it('should prefer earlier providers', async () => {
+    const chain = new ChainCredentialProvider([
+      new EnvCredentialProvider({ BYBIT_API_KEY_USER_1: 'env-key', BYBIT_API_SECRET_USER_1: 'env-secret' }),
+      new EnvCredentialProvider({ BYBIT_API_KEY_USER_1: 'other-key', BYBIT_API_SECRET_USER_1: 'other-secret' })
+    ]);
+    expect((await chain.require({ kind: 'user', userId: 1 })).apiKey).toBe('env-key');
+  });
+
+  it('should list every place that was checked when keys are missing', async () => {
+    const chain = new ChainCredentialProvider([
+      new EnvCredentialProvider({}),
+      new FileCredentialProvider(path.join(os.tmpdir(), 'missing-bybit-secrets.json'))
+    ]);
+
+    const error = await chain.require({ kind: 'cabinet', cabinetId: 5 }).catch(error => error);
+    expect(error).toBeInstanceOf(MissingCredentialsError);
+    expect(error.message).toContain('cabinet 5');
+    expect(error.message).toContain('BYBIT_API_KEY_CABINET_5');
+    expect(error.message).toContain('missing-bybit-secrets.json (cabinets.5)');
+  });
+
+  it('should build a parser from the resolved keys', async () => {
+    const chain = new ChainCredentialProvider([
+      new EnvCredentialProvider({ BYBIT_API_KEY: 'test-api-key', BYBIT_API_SECRET: 'test-api-secret' })
+    ]);
+    expect(await BybitP2PParser.fromCredentials(chain)).toBeInstanceOf(BybitP2PParser);
+  });
+});
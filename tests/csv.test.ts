@@ -0,0 +1,96 @@
+import { expect, describe, it } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CsvError, CsvParser, UTF8_BOM, formatCsv, formatCsvField, parseCsv, readCsvRecords, writeCsvFile } from '@/csv';
+
+describe('formatCsvField', () => {
+  it('should quote only fields that need it', () => {
+    expect(formatCsvField('plain')).toBe('plain');
+    expect(formatCsvField('a,b')).toBe('"a,b"');
+    expect(formatCsvField('line\nbreak')).toBe('"line\nbreak"');
+    expect(formatCsvField('{"Type":"SELL"}')).toBe('"{""Type"":""SELL""}"');
+    expect(formatCsvField(null)).toBe('');
+  });
+
+  it('should respect the delimiter and quoteAll', () => {
+    expect(formatCsvField('a,b', { delimiter: ';' })).toBe('a,b');
+    expect(formatCsvField('a;b', { delimiter: ';' })).toBe('"a;b"');
+    expect(formatCsvField(5184, { quoteAll: true })).toBe('"5184"');
+  });
+});
+
+describe('parseCsv', () => {
+  it('should round-trip quotes, delimiters and line breaks', () => {
+    const rows = [
+      ['id', 'originalData', 'note'],
+      ['1', JSON.stringify({ Time: '2025-04-08 04:20:46', 'Order No.': '1' }), 'multi\r\nline, "quoted"'],
+      ['2', '', ' spaced ']
+    ];
+
+    expect(parseCsv(formatCsv(rows))).toEqual(rows);
+    expect(parseCsv(formatCsv(rows, { quoteAll: true, delimiter: ';' }), { delimiter: ';' })).toEqual(rows);
+  });
+
+  it('should accept LF line breaks, a missing final break and a BOM', () => {
+    expect(parseCsv(`${UTF8_BOM}a,b\n1,2`)).toEqual([['a', 'b'], ['1', '2']]);
+    expect(formatCsv([['a']], { bom: true })).toBe(`${UTF8_BOM}a\r\n`);
+  });
+
+  it('should reject stray and unterminated quotes with the line number', () => {
+    expect(() => parseCsv('a,b\n"x"y,2\n')).toThrow(CsvError);
+    expect(() => parseCsv('a,b\n1,x"y\n')).toThrow('CSV line 2: unexpected quote inside an unquoted field');
+    expect(() => parseCsv('a,"open\n')).toThrow('unterminated quoted field');
+  });
+});
+
+describe('CsvParser', () => {
+  it('should parse input split at any position', () => {
+    const text = formatCsv([['a', 'b "c"'], ['1\r\n2', '3']]);
+    const parser = new CsvParser();
+    const records = [...text].flatMap(char => parser.push(char));
+
+    expect([...records, ...parser.end()]).toEqual([['a', 'b "c"'], ['1\r\n2', '3']]);
+  });
+
+  it('should stream records from byte chunks', async () => {
+    const bytes = new TextEncoder().encode('name,city\r\n"Ёлка","Москва"\r\n');
+    async function* chunks() {
+      // Разрезаем посередине многобайтового символа
+      yield Buffer.from(bytes.slice(0, 13));
+      yield Buffer.from(bytes.slice(13));
+    }
+
+    const records: string[][] = [];
+    for await (const record of readCsvRecords(chunks())) records.push(record);
+
+    expect(records).toEqual([['name', 'city'], ['Ёлка', 'Москва']]);
+  });
+});
+
+describe('writeCsvFile', () => {
+  async function* slowRows() {
+    for (const row of [['name', 'city'], ['Ёлка', 'Москва']]) {
+      await new Promise(resolve => setTimeout(resolve, 20));
+      yield row;
+    }
+  }
+
+  it('should write rows of an async iterable', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'csv-write-'));
+    try {
+      const filepath = path.join(dir, 'out.csv');
+
+      expect(await writeCsvFile(filepath, slowRows(), { bom: true })).toBe(2);
+      expect(fs.readFileSync(filepath, 'utf8')).toBe(`${UTF8_BOM}name,city\r\nЁлка,Москва\r\n`);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('should reject when the file cannot be opened while rows are awaited', async () => {
+    const filepath = path.join(os.tmpdir(), `csv-missing-${process.pid}`, 'out.csv');
+
+    await expect(writeCsvFile(filepath, slowRows())).rejects.toThrow('ENOENT');
+  });
+});
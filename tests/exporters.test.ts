@@ -0,0 +1,170 @@
+import { expect, describe, it } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import BybitP2PParser from '@/bybit';
+import { decodeP2POrderOrThrow, OrderSide } from '@/p2p-order';
+import { parseBybitTransactionCsv, toBybitTransactionCsvRow } from '@/transaction-csv';
+import { excelSerialToDate, readXlsx } from '@/xlsx';
+import {
+  createExporter,
+  exportFormatFromPath,
+  exportRecordFromOrder,
+  exportRecordFromStoredRow,
+  loadExportRecords,
+  parseExportFormat,
+  summarizeExportRecords,
+  type StoredTransactionRow
+} from '@/exporters';
+
+const rawOrder = {
+  id: '1909461388398374912',
+  side: 1,
+  tokenId: 'USDT',
+  amount: '442143.36',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '5184',
+  fee: '0',
+  targetNickName: 'elisemefor',
+  status: 50,
+  createDate: '1744086046000',
+  userId: '414938234'
+};
+const orders = [
+  decodeP2POrderOrThrow(rawOrder),
+  decodeP2POrderOrThrow({ ...rawOrder, id: '2', side: 0, amount: '1000.1', notifyTokenQuantity: '11.7' })
+];
+const records = orders.map(order => exportRecordFromOrder(order));
+
+const withTempFile = async (extension: string, run: (filepath: string) => Promise<void>) => {
+  const filepath = path.join(os.tmpdir(), `bybit-export-${Date.now()}${extension}`);
+  try {
+    await run(filepath);
+  } finally {
+    fs.rmSync(filepath, { force: true });
+  }
+};
+
+describe('exporters', () => {
+  it('should write the BybitTransaction.csv layout', async () => {
+    await withTempFile('.csv', async filepath => {
+      expect(await createExporter('csv').write(filepath, records)).toBe(2);
+      expect(parseBybitTransactionCsv(fs.readFileSync(filepath, 'utf8'))).toEqual(orders.map(order => toBybitTransactionCsvRow(order)));
+    });
+  });
+
+  it('should write one JSON object per line with exact money values', async () => {
+    await withTempFile('.jsonl', async filepath => {
+      await createExporter('jsonl').write(filepath, records);
+      const lines = fs.readFileSync(filepath, 'utf8').trimEnd().split('\n').map(line => JSON.parse(line));
+
+      expect(lines.length).toBe(2);
+      expect(lines[0]).toMatchObject({
+        orderNo: '1909461388398374912',
+        side: 'SELL',
+        status: 'Completed',
+        fiatAmount: '442143.36',
+        dateTime: '2025-04-08T04:20:46.000Z'
+      });
+      expect(lines[1].side).toBe('BUY');
+    });
+  });
+
+  it('should write an XLSX workbook with typed cells and a summary sheet', async () => {
+    await withTempFile('.xlsx', async filepath => {
+      await createExporter('xlsx').write(filepath, records, new BybitP2PParser('key', 'secret').processTransactions(orders));
+      const [transactions, summary] = readXlsx(new Uint8Array(fs.readFileSync(filepath)));
+
+      const row = transactions?.rows[1] ?? [];
+      expect(excelSerialToDate(Number(row[1])).toISOString()).toBe('2025-04-08T04:20:46.000Z');
+      expect([row[0], ...row.slice(3, 9)]).toEqual(['1909461388398374912', 'SELL', 'Completed', 'USDT', '5184', '85.29', '442143.36']);
+      expect(summary?.name).toBe('Summary');
+      expect(summary?.rows.slice(0, 4)).toEqual([
+        ['Side', 'Orders', 'Fiat volume'],
+        ['Buy', '1', '1000.1'],
+        ['Sell', '1', '442143.36'],
+        ['Total', '2', '443143.46']
+      ]);
+      expect(summary?.rows[6]).toEqual(['USDT', 'Buy', '1', '1000.1', '11.7']);
+    });
+  });
+});
+
+describe('exportRecordFromStoredRow', () => {
+  it('should map a row of BybitTransactionFromCabinet', () => {
+    const record = exportRecordFromStoredRow({
+      orderNo: '1909461388398374912',
+      counterparty: 'elisemefor',
+      status: 'COMPLETED',
+      amount: { toString: () => '5184' },
+      asset: 'USDT',
+      dateTime: new Date('2025-04-08T04:20:46.000Z'),
+      updatedAt: new Date('2025-04-09T00:00:00.000Z'),
+      totalPrice: '442143.36000000',
+      type: 'SELL',
+      unitPrice: '85.29',
+      fee: null,
+      fiatCurrency: null,
+      completedAt: null,
+      originalData: rawOrder
+    } as unknown as StoredTransactionRow); // Decimal столбцы Prisma отдает объектами с toString
+
+    expect(record.statusLabel).toBe('Completed');
+    expect(record.side).toBe(OrderSide.Sell);
+    expect(record.currencyId).toBe('RUB');
+    expect(record.userId).toBe('414938234');
+    expect(record.tokenQuantity.toString()).toBe('5184');
+    expect(record.fee.isZero()).toBe(true);
+    expect(record.updatedAt.toISOString()).toBe('2025-04-09T00:00:00.000Z');
+  });
+});
+
+describe('loadExportRecords', () => {
+  it('should read the table of the source in the period', async () => {
+    const queries: any[] = [];
+    const row = { orderNo: '1', status: 'CANCELLED', type: 'BUY', asset: 'USDT', amount: '10', totalPrice: '900', unitPrice: '90', dateTime: new Date('2025-04-08T00:00:00Z') };
+    const prisma = {
+      bybitTransaction: {
+        findMany: async (query: any) => {
+          queries.push(['user', query]);
+          return [row];
+        }
+      },
+      bybitTransactionFromCabinet: {
+        findMany: async (query: any) => {
+          queries.push(['cabinet', query]);
+          return [];
+        }
+      }
+    } as unknown as PrismaClient;
+    const from = new Date('2025-04-01T00:00:00Z');
+
+    const records = await loadExportRecords(prisma, { kind: 'user', userId: 5 }, { from });
+    await loadExportRecords(prisma, { kind: 'cabinet', cabinetId: 3 });
+
+    expect(records.map(record => [record.orderNo, record.side, record.statusLabel])).toEqual([['1', OrderSide.Buy, 'Cancelled']]);
+    expect(queries).toEqual([
+      ['user', { where: { userId: 5, dateTime: { gte: from, lte: undefined } }, orderBy: { dateTime: 'asc' } }],
+      ['cabinet', { where: { cabinetId: 3 }, orderBy: { dateTime: 'asc' } }]
+    ]);
+  });
+});
+
+describe('summarizeExportRecords', () => {
+  it('should match processTransactions', () => {
+    const processed = new BybitP2PParser('key', 'secret').processTransactions(orders);
+
+    expect(summarizeExportRecords(records)).toEqual({ summary: processed.summary, byCoin: processed.byCoin });
+  });
+});
+
+describe('parseExportFormat', () => {
+  it('should accept format names and file extensions', () => {
+    expect(parseExportFormat('XLSX')).toBe('xlsx');
+    expect(parseExportFormat('json')).toBe('jsonl');
+    expect(parseExportFormat('parquet')).toBeUndefined();
+    expect(exportFormatFromPath('/tmp/orders.jsonl')).toBe('jsonl');
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * In-process stand-in for the Bybit V5 API used by the end-to-end tests.
+ * Requests are authenticated like Bybit does it: the X-BAPI-* headers are
+ * required, the timestamp must fall into the receive window of the server
+ * clock and the signature of
+ * timestamp + api key + recv window + (query string | raw body)
+ * is HMAC-SHA256 (hex) for system-generated keys or RSA-SHA256 (base64) for
+ * self-generated ones.
+ *
+ * Implemented endpoints: /v5/market/time, /v5/p2p/order/simplifyList,
+ * /v5/p2p/order/pending/simplifyList, /v5/p2p/order/info,
+ * /v5/p2p/order/message/listpage, /v5/p2p/user/personal/info, /v5/p2p/item/online.
+ */
+
+import crypto from 'crypto';
+
+/**
+ * API key of the stand-in and the data its account owns
+ */
+export interface FakeBybitAccount {
+  apiKey: string;
+  apiSecret?: string; // HMAC key
+  rsaPublicKey?: string; // PEM public key of a self-generated RSA key, instead of apiSecret
+  userId: string;
+  orders?: Record<string, unknown>[]; // raw simplifyList items
+  chats?: Record<string, Record<string, unknown>[]>; // raw chat messages by order id
+}
+
+export interface FakeBybitServerOptions {
+  accounts: FakeBybitAccount[];
+  clockOffsetMs?: number; // server clock minus local clock
+  maxRangeMs?: number; // longer simplifyList windows are rejected with 10001 (default: 7 days)
+  maxPageSize?: number; // default: 100
+  onlineAds?: Record<string, unknown>[]; // raw /v5/p2p/item/online items of every market
+}
+
+/**
+ * Request seen by the stand-in
+ */
+export interface FakeBybitRequest {
+  method: string;
+  path: string;
+  apiKey?: string;
+  params: Record<string, any>;
+  retCode: number;
+}
+
+/**
+ * Error returned instead of the next response of an endpoint
+ */
+export interface FakeBybitError {
+  retCode: number;
+  retMsg: string;
+  httpStatus?: number; // default: 200, as Bybit answers most errors
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Статусы завершенных заявок: они не попадают в список заявок в работе
+const FINAL_STATUSES = [40, 50, 80];
+
+class FakeBybitFailure extends Error {
+  constructor(readonly retCode: number, readonly retMsg: string, readonly httpStatus: number = 200) {
+    super(retMsg);
+  }
+}
+
+const PARAMETER_ERROR = (detail: string) => new FakeBybitFailure(10001, `Request parameter error: ${detail}`);
+
+export class FakeBybitServer {
+  readonly requests: FakeBybitRequest[] = [];
+  clockOffsetMs: number;
+  private accounts: Map<string, FakeBybitAccount>;
+  private failures = new Map<string, FakeBybitError[]>();
+  private server: ReturnType<typeof Bun.serve>;
+
+  private constructor(private options: FakeBybitServerOptions) {
+    this.clockOffsetMs = options.clockOffsetMs ?? 0;
+    this.accounts = new Map(options.accounts.map(account => [account.apiKey, account]));
+    this.server = Bun.serve({ port: 0, hostname: '127.0.0.1', fetch: request => this.handle(request) });
+  }
+
+  /**
+   * Start the stand-in on a free local port
+   */
+  static start(options: FakeBybitServerOptions): FakeBybitServer {
+    return new FakeBybitServer(options);
+  }
+
+  get url(): string {
+    return `http://127.0.0.1:${this.server.port}`;
+  }
+
+  /**
+   * Answer the next requests to an endpoint with an error
+   * @param path - Endpoint, e.g. /v5/p2p/order/simplifyList
+   * @param error - Error code and message
+   * @param times - Number of requests to fail (default: 1)
+   */
+  failNext(path: string, error: FakeBybitError, times: number = 1): void {
+    const queue = this.failures.get(path) ?? [];
+    for (let i = 0; i < times; i++) queue.push(error);
+    this.failures.set(path, queue);
+  }
+
+  /**
+   * Requests to an endpoint
+   */
+  requestsTo(path: string): FakeBybitRequest[] {
+    return this.requests.filter(request => request.path === path);
+  }
+
+  stop(): void {
+    this.server.stop(true);
+  }
+
+  private now(): number {
+    return Date.now() + this.clockOffsetMs;
+  }
+
+  private async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const body = request.method === 'POST' ? await request.text() : '';
+    const queryString = url.search.slice(1);
+    const record: FakeBybitRequest = {
+      method: request.method,
+      path: url.pathname,
+      apiKey: request.headers.get('X-BAPI-API-KEY') ?? undefined,
+      params: request.method === 'POST' ? (body ? JSON.parse(body) : {}) : Object.fromEntries(url.searchParams),
+      retCode: 0
+    };
+    this.requests.push(record);
+
+    try {
+      const injected = this.failures.get(url.pathname)?.shift();
+      if (injected) throw new FakeBybitFailure(injected.retCode, injected.retMsg, injected.httpStatus);
+
+      if (url.pathname === '/v5/market/time') {
+        const now = this.now();
+        return this.reply({ timeSecond: String(Math.floor(now / 1000)), timeNano: `${now}000000` });
+      }
+
+      const account = this.authenticate(request, request.method === 'GET' ? queryString : body);
+      switch (url.pathname) {
+        case '/v5/p2p/order/simplifyList': return this.reply(this.listOrders(account, record.params));
+        case '/v5/p2p/order/pending/simplifyList': return this.reply(this.listPendingOrders(account, record.params));
+        case '/v5/p2p/order/info': return this.reply(this.orderInfo(account, record.params));
+        case '/v5/p2p/order/message/listpage': return this.reply(this.chatPage(account, record.params));
+        case '/v5/p2p/item/online': return this.reply(this.onlineAds(record.params));
+        case '/v5/p2p/user/personal/info': return this.reply({ userId: account.userId, nickName: `user${account.userId}` });
+        default:
+          record.retCode = 404;
+          return new Response('Not Found', { status: 404 });
+      }
+    } catch (error) {
+      if (!(error instanceof FakeBybitFailure)) throw error;
+      record.retCode = error.retCode;
+      return Response.json(
+        { retCode: error.retCode, retMsg: error.retMsg, result: {}, retExtInfo: {}, time: this.now() },
+        { status: error.httpStatus }
+      );
+    }
+  }
+
+  private reply(result: unknown): Response {
+    return Response.json(
+      { retCode: 0, retMsg: 'SUCCESS', result, retExtInfo: {}, time: this.now() },
+      {
+        headers: {
+          'X-Bapi-Limit': '20',
+          'X-Bapi-Limit-Status': '19',
+          'X-Bapi-Limit-Reset-Timestamp': String(this.now() + 1000)
+        }
+      }
+    );
+  }
+
+  /**
+   * Check the API key, the timestamp and the signature
+   * @param payload - Query string of a GET request or the raw body of a POST request
+   */
+  private authenticate(request: Request, payload: string): FakeBybitAccount {
+    const apiKey = request.headers.get('X-BAPI-API-KEY') ?? '';
+    const sign = request.headers.get('X-BAPI-SIGN') ?? '';
+    const timestamp = request.headers.get('X-BAPI-TIMESTAMP') ?? '';
+    const recvWindow = request.headers.get('X-BAPI-RECV-WINDOW') ?? '5000';
+
+    const account = this.accounts.get(apiKey);
+    if (!account) throw new FakeBybitFailure(10003, 'API key is invalid.', 401);
+
+    const serverTime = this.now();
+    const requestTime = Number(timestamp);
+    if (!Number.isFinite(requestTime) || requestTime < serverTime - Number(recvWindow) || requestTime >= serverTime + 1000) {
+      throw new FakeBybitFailure(
+        10002,
+        `invalid request, please check your server timestamp or recv_window param. req_timestamp[${timestamp}],server_timestamp[${serverTime}],recv_window[${recvWindow}]`
+      );
+    }
+
+    const origin = timestamp + apiKey + recvWindow + payload;
+    const valid = account.rsaPublicKey
+      ? crypto.verify('RSA-SHA256', Buffer.from(origin), account.rsaPublicKey, Buffer.from(sign, 'base64'))
+      : sign === crypto.createHmac('sha256', account.apiSecret ?? '').update(origin).digest('hex');
+    if (!valid) throw new FakeBybitFailure(10004, `error sign! origin_string[${origin}]`, 401);
+
+    return account;
+  }
+
+  private listOrders(account: FakeBybitAccount, params: Record<string, any>) {
+    const page = Number(params.page ?? 1);
+    const size = Number(params.size ?? 10);
+    if (!Number.isInteger(page) || page < 1) throw PARAMETER_ERROR('page');
+    if (!Number.isInteger(size) || size < 1 || size > (this.options.maxPageSize ?? 100)) throw PARAMETER_ERROR('size');
+
+    const hasBegin = params.beginTime !== undefined;
+    const hasEnd = params.endTime !== undefined;
+    if (hasBegin !== hasEnd) throw PARAMETER_ERROR('beginTime and endTime must be set together');
+    const beginTime = Number(params.beginTime);
+    const endTime = Number(params.endTime);
+    if (hasBegin && (!(beginTime <= endTime) || endTime - beginTime > (this.options.maxRangeMs ?? 7 * DAY_MS))) {
+      throw PARAMETER_ERROR('time range');
+    }
+
+    const asList = (value: unknown): number[] | undefined =>
+      value === undefined ? undefined : (Array.isArray(value) ? value : [value]).map(Number);
+    const statuses = asList(params.status);
+    const sides = asList(params.side);
+
+    const items = (account.orders ?? [])
+      .filter(order => !hasBegin || (Number(order.createDate) >= beginTime && Number(order.createDate) <= endTime))
+      .filter(order => !statuses || statuses.includes(Number(order.status)))
+      .filter(order => !sides || sides.includes(Number(order.side)))
+      .filter(order => !params.tokenId || order.tokenId === params.tokenId)
+      .sort((a, b) => Number(b.createDate) - Number(a.createDate));
+
+    return { count: items.length, items: items.slice((page - 1) * size, page * size) };
+  }
+
+  private listPendingOrders(account: FakeBybitAccount, params: Record<string, any>) {
+    const pending = (account.orders ?? []).filter(order => !FINAL_STATUSES.includes(Number(order.status)));
+    return this.listOrders({ ...account, orders: pending }, params);
+  }
+
+  private onlineAds(params: Record<string, any>) {
+    const page = Number(params.page ?? 1);
+    const size = Number(params.size ?? 10);
+    const payments: string[] | undefined = params.payment;
+    const items = (this.options.onlineAds ?? [])
+      .filter(ad => ad.tokenId === params.tokenId && ad.currencyId === params.currencyId && String(ad.side) === String(params.side))
+      .filter(ad => !payments || (ad.payments as string[]).some(payment => payments.includes(payment)));
+    return { count: items.length, items: items.slice((page - 1) * size, page * size) };
+  }
+
+  private orderInfo(account: FakeBybitAccount, params: Record<string, any>) {
+    const order = (account.orders ?? []).find(candidate => candidate.id === params.orderId);
+    if (!order) throw new FakeBybitFailure(912100027, 'The order does not exist.');
+    return { ...order, quantity: order.notifyTokenQuantity, updateDate: order.createDate };
+  }
+
+  private chatPage(account: FakeBybitAccount, params: Record<string, any>) {
+    if (!(account.orders ?? []).some(order => order.id === params.orderId)) {
+      throw new FakeBybitFailure(912100027, 'The order does not exist.');
+    }
+    const page = Number(params.currentPage ?? 1);
+    const size = Number(params.size ?? 30);
+    // Сообщения отдаются от новых к старым, как в Bybit
+    const messages = [...(account.chats?.[params.orderId] ?? [])]
+      .sort((a, b) => Number(b.createDate) - Number(a.createDate));
+    return { result: messages.slice((page - 1) * size, page * size), totalCount: messages.length };
+  }
+}
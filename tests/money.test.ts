@@ -0,0 +1,56 @@
+import { expect, describe, it } from "bun:test";
+import { Decimal, DecimalError, fiatTotal, formatFiat, roundFiat, roundToken } from '@/money';
+
+describe('Decimal', () => {
+  it('should add without binary floating point drift', () => {
+    const total = Decimal.sum(Array.from({ length: 1000 }, () => '0.1'));
+    expect(total.toString()).toBe('100');
+
+    let float = 0;
+    for (let i = 0; i < 1000; i++) float += 0.1;
+    expect(float).not.toBe(100);
+  });
+
+  it('should parse strings, numbers and exponents', () => {
+    expect(Decimal.from('442143.360').toString()).toBe('442143.36');
+    expect(Decimal.from(85.29).toString()).toBe('85.29');
+    expect(Decimal.from('1e-8').toString()).toBe('0.00000001');
+    expect(Decimal.from('-.5').toString()).toBe('-0.5');
+    expect(Decimal.from('1.5e3').toString()).toBe('1500');
+    expect(() => Decimal.from('12,5')).toThrow(DecimalError);
+    expect(Decimal.tryFrom(NaN)).toBeUndefined();
+  });
+
+  it('should multiply and divide exactly', () => {
+    expect(Decimal.from('5184').times('85.29').toString()).toBe('442143.36');
+    expect(Decimal.from('442143.36').dividedBy('5184', 2).toString()).toBe('85.29');
+    expect(Decimal.from('1').dividedBy('3', 4).toString()).toBe('0.3333');
+    expect(() => Decimal.from('1').dividedBy(0, 2)).toThrow(DecimalError);
+  });
+
+  it('should round by the requested mode', () => {
+    expect(Decimal.from('0.125').round(2, 'half-up').toString()).toBe('0.13');
+    expect(Decimal.from('-0.125').round(2, 'half-up').toString()).toBe('-0.13');
+    expect(Decimal.from('0.125').round(2, 'half-even').toString()).toBe('0.12');
+    expect(Decimal.from('0.135').round(2, 'half-even').toString()).toBe('0.14');
+    expect(Decimal.from('0.129').round(2, 'down').toString()).toBe('0.12');
+    expect(Decimal.from('0.121').round(2, 'up').toString()).toBe('0.13');
+  });
+
+  it('should compare and serialize', () => {
+    expect(Decimal.from('1.10').eq('1.1')).toBe(true);
+    expect(Decimal.from('-2').lt('1')).toBe(true);
+    expect(Decimal.from('0.5').toFixed(2)).toBe('0.50');
+    expect(JSON.stringify({ amount: Decimal.from('85.29') })).toBe('{"amount":"85.29"}');
+  });
+});
+
+describe('currency rules', () => {
+  it('should round fiat by currency and tokens down', () => {
+    expect(roundFiat('100.005', 'RUB').toString()).toBe('100.01');
+    expect(roundFiat('100.5', 'JPY').toString()).toBe('101');
+    expect(roundToken('1.23456789', 'USDT').toString()).toBe('1.2345');
+    expect(formatFiat('442143.3', 'rub')).toBe('442143.30');
+    expect(fiatTotal('58.6238', '85.29', 'RUB').toString()).toBe('5000.02');
+  });
+});
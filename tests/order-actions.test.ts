@@ -0,0 +1,112 @@
+import { expect, describe, it } from "bun:test";
+import type { PrismaClient } from '@prisma/client';
+import { assertOrderNo, getChatFileType, OrderActionError, PrismaOrderActionAudit, ReleaseGuard } from '@/order-actions';
+
+describe('ReleaseGuard', () => {
+  it('should run the release once for concurrent calls', async () => {
+    const guard = new ReleaseGuard();
+    let calls = 0;
+    const release = async () => {
+      calls++;
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return true;
+    };
+
+    const results = await Promise.all([guard.run('1', release), guard.run('1', release), guard.run('2', release)]);
+
+    expect(results).toEqual([true, false, true]);
+    expect(calls).toBe(2);
+    expect(await guard.run('1', release)).toBe(false);
+  });
+
+  it('should allow another attempt after a failed release', async () => {
+    const guard = new ReleaseGuard();
+
+    await expect(guard.run('1', async () => { throw new Error('network'); })).rejects.toThrow('network');
+    expect(await guard.run('1', async () => true)).toBe(true);
+  });
+});
+
+describe('validation', () => {
+  it('should accept only numeric order numbers', () => {
+    expect(() => assertOrderNo('release', '1909461388398374912')).not.toThrow();
+    expect(() => assertOrderNo('release', '')).toThrow(OrderActionError);
+    expect(() => assertOrderNo('release', '19094 or 1=1')).toThrow(OrderActionError);
+  });
+
+  it('should map file extensions to chat content types', () => {
+    expect(getChatFileType('receipt.JPG')).toBe('pic');
+    expect(getChatFileType('statement.pdf')).toBe('pdf');
+    expect(getChatFileType('archive.zip')).toBeUndefined();
+    expect(getChatFileType('pdf')).toBeUndefined();
+  });
+});
+
+describe('PrismaOrderActionAudit', () => {
+  /**
+   * Prisma с таблицей AuditLog в памяти; findFirst понимает фильтры по полям newValue
+   */
+  function fakePrisma() {
+    const rows: any[] = [];
+    const queries: any[] = [];
+    const prisma = {
+      auditLog: {
+        create: async ({ data }: any) => {
+          rows.push(data);
+          return data;
+        },
+        findFirst: async ({ where }: any) => {
+          queries.push(where);
+          const found = rows.find(row =>
+            row.entityType === where.entityType &&
+            row.entityKey === where.entityKey &&
+            where.AND.every((filter: any) => row.newValue[filter.newValue.path[0]] === filter.newValue.equals));
+          return found ? { id: 1 } : null;
+        }
+      }
+    };
+    return { prisma: prisma as unknown as PrismaClient, rows, queries };
+  }
+
+  it('should store actions with the order number and the acting user', async () => {
+    const { prisma, rows } = fakePrisma();
+    const audit = new PrismaOrderActionAudit(prisma, 5);
+
+    await audit.record({ action: 'release', orderNo: '1909461388398374912', success: true, params: { orderId: '1909461388398374912' }, previousStatus: 20 });
+    await audit.record({ action: 'sendMessage', orderNo: '1909461388398374912', success: false, params: {}, error: 'network' });
+
+    expect(rows).toEqual([
+      {
+        entityType: 'BybitOrder',
+        entityId: 0,
+        entityKey: '1909461388398374912',
+        action: 'UPDATE',
+        userId: 5,
+        oldValue: { status: 20 },
+        newValue: { action: 'release', orderNo: '1909461388398374912', success: true, params: { orderId: '1909461388398374912' }, previousStatus: 20 }
+      },
+      expect.objectContaining({ action: 'CREATE', oldValue: undefined, newValue: expect.objectContaining({ success: false, error: 'network' }) })
+    ]);
+  });
+
+  it('should find only successful actions of the same kind', async () => {
+    const { prisma, queries } = fakePrisma();
+    const audit = new PrismaOrderActionAudit(prisma, 5);
+
+    await audit.record({ action: 'release', orderNo: '1', success: false, params: {}, error: 'order is Appealing' });
+    await audit.record({ action: 'markPaid', orderNo: '1', success: true, params: {} });
+    expect(await audit.hasSucceeded('1', 'release')).toBe(false);
+
+    await audit.record({ action: 'release', orderNo: '1', success: true, params: {} });
+    expect(await audit.hasSucceeded('1', 'release')).toBe(true);
+    expect(await audit.hasSucceeded('2', 'release')).toBe(false);
+    expect(queries[0]).toEqual({
+      entityType: 'BybitOrder',
+      entityKey: '1',
+      AND: [
+        { newValue: { path: ['action'], equals: 'release' } },
+        { newValue: { path: ['success'], equals: true } }
+      ]
+    });
+  });
+});
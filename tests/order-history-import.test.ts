@@ -0,0 +1,114 @@
+import { expect, describe, it } from "bun:test";
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import { OrderSide, OrderStatus } from '@/p2p-order';
+import {
+  formatImportPlan,
+  parseOrderHistoryRecords,
+  planOrderHistoryImport,
+  readOrderHistoryFile
+} from '@/order-history-import';
+
+const bybitHeader = [
+  'Order No.', 'Type', 'Cryptocurrency', 'Price', 'Currency', 'Coin Amount', 'Cryptocurrency',
+  'Fiat Amount', 'Currency', 'Transaction Fees', 'Counterparty', 'Status', 'Time', 'p2p-convert'
+];
+const bybitRow = [
+  '1909461388398374912', 'SELL', 'USDT', '85.29', 'RUB', '5184', 'USDT',
+  '442,143.36', 'RUB', '0', 'elisemefor', 'Completed', '2025-04-08 07:20:46', 'no'
+];
+
+describe('parseOrderHistoryRecords', () => {
+  it('should map rows of the Bybit order history file', () => {
+    const result = parseOrderHistoryRecords([['P2P Order History'], bybitHeader, bybitRow], { utcOffsetMinutes: 180 });
+
+    expect(result.format).toBe('bybit');
+    expect(result.rejected).toEqual([]);
+    const order = result.orders[0]!;
+    expect(order.orderNo).toBe('1909461388398374912');
+    expect(order.side).toBe(OrderSide.Sell);
+    expect(order.status).toBe(OrderStatus.Completed);
+    expect(order.fiatAmount.toString()).toBe('442143.36');
+    expect(order.dateTime.toISOString()).toBe('2025-04-08T04:20:46.000Z');
+    expect(order.originalData['Currency_1']).toBe('RUB');
+    expect(order.line).toBe(3);
+  });
+
+  it('should reject malformed rows and count repeated orders', () => {
+    const broken = [...bybitRow];
+    broken[0] = '2';
+    broken[3] = 'n/a';
+    broken[11] = 'Lost';
+
+    const result = parseOrderHistoryRecords([bybitHeader, bybitRow, bybitRow, broken]);
+
+    expect(result.orders.length).toBe(1);
+    expect(result.duplicates).toBe(1);
+    expect(result.rejected).toEqual([{
+      line: 4,
+      issues: [
+        { field: 'Status', problem: 'malformed', value: 'Lost' },
+        { field: 'Price', problem: 'malformed', value: 'n/a' }
+      ]
+    }]);
+  });
+
+  it('should read our own BybitTransaction.csv', async () => {
+    const result = await readOrderHistoryFile(path.join(import.meta.dir, '..', 'BybitTransaction.csv'));
+
+    expect(result.format).toBe('ledger');
+    expect(result.orders.length).toBe(20);
+    expect(result.orders[0]?.currencyId).toBe('RUB');
+    expect(result.orders[0]?.fee?.toString()).toBe('0');
+    expect(result.orders[0]?.dateTime.toISOString()).toBe('2025-04-08T04:20:46.000Z');
+  });
+});
+
+describe('planOrderHistoryImport', () => {
+  it('should split orders into new, changed, unchanged and conflicting', async () => {
+    const row = (orderNo: string) => bybitRow.map((value, index) => index === 0 ? orderNo : value);
+    const { orders } = parseOrderHistoryRecords([
+      bybitHeader,
+      row('1'),
+      row('2'),
+      row('3'),
+      row('4')
+    ]);
+    const stored = {
+      orderNo: '',
+      cabinetId: 7,
+      status: 'COMPLETED',
+      type: 'SELL',
+      amount: '5184',
+      asset: 'USDT',
+      dateTime: new Date('2025-04-08T07:20:46.000Z'),
+      totalPrice: '442143.36000000',
+      unitPrice: '85.29',
+      fiatCurrency: 'RUB',
+      fee: '0',
+      counterparty: 'elisemefor'
+    };
+    const prisma = {
+      bybitTransactionFromCabinet: {
+        findMany: async () => [
+          { ...stored, id: 12, orderNo: '2' },
+          { ...stored, id: 13, orderNo: '3', status: 'PENDING' },
+          { ...stored, id: 14, orderNo: '4', cabinetId: 8 }
+        ]
+      }
+    } as unknown as PrismaClient;
+
+    const plan = await planOrderHistoryImport(prisma, { kind: 'cabinet', cabinetId: 7 }, orders);
+
+    expect(plan.create.map(order => order.orderNo)).toEqual(['1']);
+    expect(plan.unchanged.map(order => order.orderNo)).toEqual(['2']);
+    expect(plan.update).toEqual([{ id: 13, order: orders[2]!, changes: [{ field: 'status', from: 'PENDING', to: 'COMPLETED' }] }]);
+    expect(plan.conflicts).toEqual([{ order: orders[3]!, ownerId: 8 }]);
+    expect(formatImportPlan(plan).split('\n')).toEqual([
+      'Импорт (кабинет 7): новых 1, изменится 1, без изменений 1, конфликтов 1',
+      '+ 1 2025-04-08T07:20:46.000Z SELL 5184 USDT за 442143.36 RUB (Completed)',
+      '~ 3 status: PENDING -> COMPLETED',
+      '! 4 уже сохранен для кабинета 8'
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { expect, describe, it } from "bun:test";
+import type { PrismaClient } from '@prisma/client';
+import {
+  appealStartedAt,
+  findCancelledAfterPayment,
+  findOrdersInAppeal,
+  findReleaseTimes,
+  loadStatusTimeline,
+  releasedAt,
+  statusPath,
+  wasPaid,
+  type OrderStatusChange
+} from '@/order-status-history';
+
+const at = (time: string) => new Date(`2025-04-08T${time}Z`);
+
+const change = (orderNo: string, fromStatus: string | null, toStatus: string, time: string): OrderStatusChange =>
+  ({ orderNo, fromStatus, toStatus, observedAt: at(time) });
+
+const row = (orderNo: string, status: string, overrides: Record<string, unknown> = {}) => ({
+  orderNo,
+  type: 'SELL',
+  status,
+  asset: 'USDT',
+  totalPrice: '8529',
+  counterparty: 'elisemefor',
+  dateTime: at('10:00:00'),
+  paidAt: null,
+  completedAt: null,
+  cabinetId: 3,
+  ...overrides
+});
+
+/**
+ * Prisma с таблицей транзакций кабинета и историей статусов; запросы сохраняются
+ */
+function fakePrisma(rows: any[], changes: any[]) {
+  const queries: any[] = [];
+  const prisma = {
+    bybitTransactionFromCabinet: {
+      findMany: async (query: any) => {
+        queries.push(query.where);
+        const statuses: string[] = typeof query.where.status === 'string' ? [query.where.status] : query.where.status.in;
+        return rows.filter(candidate => statuses.includes(candidate.status));
+      }
+    },
+    bybitOrderStatusChange: {
+      findMany: async ({ where }: any) => changes.filter(candidate => where.orderNo.in.includes(candidate.orderNo))
+    }
+  };
+  return { prisma: prisma as unknown as PrismaClient, queries };
+}
+
+describe('status timeline helpers', () => {
+  const changes = [
+    change('1', null, 'WAITING_FOR_PAYMENT', '10:00:00'),
+    change('1', 'WAITING_FOR_PAYMENT', 'APPEALING', '10:20:00'),
+    change('1', 'APPEALING', 'WAITING_FOR_RELEASE', '11:00:00'),
+    change('1', 'WAITING_FOR_RELEASE', 'APPEALING', '11:30:00'),
+    change('1', 'APPEALING', 'COMPLETED', '12:00:00')
+  ];
+
+  it('should find the start of the current appeal', () => {
+    expect(appealStartedAt(changes.slice(0, 4))).toEqual(at('11:30:00'));
+    expect(appealStartedAt(changes.slice(0, 1))).toBeNull();
+  });
+
+  it('should prefer the release time from the order details', () => {
+    expect(releasedAt(at('11:59:30'), changes)).toEqual(at('11:59:30'));
+    expect(releasedAt(null, changes)).toEqual(at('12:00:00'));
+    expect(releasedAt(null, changes.slice(0, 2))).toBeNull();
+  });
+
+  it('should tell paid orders by the payment time or the statuses they passed', () => {
+    expect(wasPaid(at('10:05:00'), [])).toBe(true);
+    expect(wasPaid(null, [change('2', null, 'WAITING_FOR_PAYMENT', '10:00:00'), change('2', 'WAITING_FOR_PAYMENT', 'CANCELLED', '10:15:00')])).toBe(false);
+    // История началась после оплаты: первый статус известен только как fromStatus
+    expect(wasPaid(null, [change('3', 'WAITING_FOR_RELEASE', 'CANCELLED', '10:15:00')])).toBe(true);
+  });
+
+  it('should list the observed statuses without repeats', () => {
+    expect(statusPath(changes)).toEqual(['WAITING_FOR_PAYMENT', 'APPEALING', 'WAITING_FOR_RELEASE', 'APPEALING', 'COMPLETED']);
+    // Опрос заявок в работе и синхронизация могут увидеть один и тот же статус
+    expect(statusPath([
+      change('4', 'WAITING_FOR_PAYMENT', 'WAITING_FOR_RELEASE', '10:00:00'),
+      change('4', null, 'WAITING_FOR_RELEASE', '10:01:00'),
+      change('4', 'WAITING_FOR_RELEASE', 'CANCELLED', '10:30:00')
+    ])).toEqual(['WAITING_FOR_PAYMENT', 'WAITING_FOR_RELEASE', 'CANCELLED']);
+  });
+});
+
+describe('status history queries', () => {
+  it('should list orders in appeal with the time the appeal was observed', async () => {
+    const { prisma, queries } = fakePrisma(
+      [row('1', 'APPEALING'), row('2', 'APPEALING'), row('3', 'COMPLETED')],
+      [change('1', null, 'WAITING_FOR_RELEASE', '10:10:00'), change('1', 'WAITING_FOR_RELEASE', 'APPEALING', '10:40:00')]
+    );
+
+    const orders = await findOrdersInAppeal(prisma, { kind: 'cabinet', cabinetId: 3 });
+
+    expect(queries[0]).toEqual({ cabinetId: 3, status: 'APPEALING' });
+    expect(orders.map(order => [order.orderNo, order.appealSince])).toEqual([['1', at('10:40:00')], ['2', null]]);
+  });
+
+  it('should measure the time from creation and from payment to release', async () => {
+    const { prisma, queries } = fakePrisma(
+      [
+        row('1', 'COMPLETED', { paidAt: at('10:05:00'), completedAt: at('10:15:00') }),
+        row('2', 'COMPLETED'),
+        row('3', 'COMPLETED')
+      ],
+      [change('2', 'WAITING_FOR_RELEASE', 'COMPLETED', '11:00:00')]
+    );
+    const range = { from: at('00:00:00'), to: at('23:59:59') };
+
+    const orders = await findReleaseTimes(prisma, { kind: 'cabinet', cabinetId: 3 }, range);
+
+    expect(queries[0]).toEqual({ cabinetId: 3, status: 'COMPLETED', dateTime: { gte: range.from, lte: range.to } });
+    // У заявки 3 нет ни времени завершения, ни истории: она не попадает в отчет
+    expect(orders.map(order => [order.orderNo, order.releaseMs, order.paidToReleaseMs])).toEqual([
+      ['1', 15 * 60 * 1000, 10 * 60 * 1000],
+      ['2', 60 * 60 * 1000, null]
+    ]);
+  });
+
+  it('should find cancelled orders that had been paid', async () => {
+    const { prisma, queries } = fakePrisma(
+      [
+        row('1', 'CANCELLED'),
+        row('2', 'CANCELLED'),
+        row('3', 'EXCEPTION_CANCELLED', { paidAt: at('10:05:00') })
+      ],
+      [
+        change('1', null, 'WAITING_FOR_PAYMENT', '10:00:00'),
+        change('1', 'WAITING_FOR_PAYMENT', 'WAITING_FOR_RELEASE', '10:05:00'),
+        change('1', 'WAITING_FOR_RELEASE', 'APPEALING', '10:30:00'),
+        change('1', 'APPEALING', 'CANCELLED', '12:00:00'),
+        change('2', null, 'WAITING_FOR_PAYMENT', '10:00:00'),
+        change('2', 'WAITING_FOR_PAYMENT', 'CANCELLED', '10:15:00')
+      ]
+    );
+
+    const orders = await findCancelledAfterPayment(prisma, { kind: 'cabinet', cabinetId: 3 });
+
+    expect(queries[0]).toEqual({ cabinetId: 3, status: { in: ['CANCELLED', 'EXCEPTION_CANCELLED'] } });
+    expect(orders.map(order => [order.orderNo, order.paidAt, order.cancelledAt])).toEqual([
+      ['1', null, at('12:00:00')],
+      ['3', at('10:05:00'), null]
+    ]);
+    expect(orders[0]?.path).toEqual(['WAITING_FOR_PAYMENT', 'WAITING_FOR_RELEASE', 'APPEALING', 'CANCELLED']);
+  });
+
+  it('should read the timeline of one order of a user', async () => {
+    let where: any;
+    const prisma = {
+      bybitOrderStatusChange: {
+        findMany: async (query: any) => {
+          where = query.where;
+          return [{ orderNo: '1', fromStatus: null, toStatus: 'COMPLETED', observedAt: at('10:00:00'), originalData: {} }];
+        }
+      }
+    } as unknown as PrismaClient;
+
+    expect(await loadStatusTimeline(prisma, { kind: 'user', userId: 5 }, '1')).toEqual([change('1', null, 'COMPLETED', '10:00:00')]);
+    expect(where).toEqual({ userId: 5, orderNo: { in: ['1'] } });
+  });
+});
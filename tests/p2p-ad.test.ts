@@ -0,0 +1,92 @@
+import { expect, describe, it } from "bun:test";
+import { OrderSide } from '@/p2p-order';
+import {
+  AdPriceType,
+  AdStatus,
+  decodeP2PAd,
+  decodeP2PAds,
+  mergeAdChanges,
+  toAdRequestParams,
+  validateAdParams
+} from '@/p2p-ad';
+
+const rawAd = {
+  id: '1898988222063644672',
+  side: '1',
+  status: 10,
+  tokenId: 'USDT',
+  currencyId: 'RUB',
+  priceType: 0,
+  price: '85.1',
+  premium: '',
+  quantity: '1000',
+  lastQuantity: '800',
+  minAmount: '1000',
+  maxAmount: '50000',
+  payments: ['377', '14'],
+  paymentPeriod: '15',
+  remark: 'fast',
+  createDate: '1744086046000'
+};
+
+describe('decodeP2PAd', () => {
+  it('should decode a personal ad list item', () => {
+    const result = decodeP2PAd(rawAd);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.side).toBe(OrderSide.Sell);
+    expect(result.value.status).toBe(AdStatus.Online);
+    expect(result.value.priceType).toBe(AdPriceType.Fixed);
+    expect(result.value.price).toBe(85.1);
+    expect(result.value.lastQuantity).toBe(800);
+    expect(result.value.paymentIds).toEqual(['377', '14']);
+    expect(result.value.paymentPeriod).toBe(15);
+  });
+
+  it('should prefer payment term ids over payment types', () => {
+    const result = decodeP2PAd({ ...rawAd, paymentTerms: [{ id: 5521, paymentType: '377' }] });
+
+    expect(result.ok && result.value.paymentIds).toEqual(['5521']);
+  });
+
+  it('should skip ads with malformed fields', () => {
+    const result = decodeP2PAds([rawAd, { ...rawAd, status: 99 }]);
+
+    expect(result.ads.length).toBe(1);
+    expect(result.rejected[0]?.issues).toEqual([{ field: 'status', problem: 'malformed', value: 99 }]);
+  });
+});
+
+describe('ad parameters', () => {
+  const decoded = decodeP2PAd(rawAd);
+  if (!decoded.ok) throw new Error('fixture must decode');
+  const ad = decoded.value;
+
+  it('should keep current values for fields that are not changed', () => {
+    const merged = mergeAdChanges(ad, { price: 86, maxAmount: 60000 });
+
+    expect(merged.price).toBe(86);
+    expect(merged.maxAmount).toBe(60000);
+    expect(merged.minAmount).toBe(1000);
+    expect(merged.paymentIds).toEqual(['377', '14']);
+  });
+
+  it('should report inconsistent parameters', () => {
+    const problems = validateAdParams(mergeAdChanges(ad, { minAmount: 70000, paymentIds: [] }));
+
+    expect(problems).toEqual([
+      'maxAmount must not be less than minAmount',
+      'at least one payment method is required'
+    ]);
+  });
+
+  it('should serialize numbers as strings', () => {
+    const params = toAdRequestParams(mergeAdChanges(ad, {}));
+
+    expect(params.price).toBe('85.1');
+    expect(params.priceType).toBe('0');
+    expect(params.paymentPeriod).toBe('15');
+  });
+});
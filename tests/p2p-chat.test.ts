@@ -0,0 +1,61 @@
+import { expect, describe, it } from "bun:test";
+import { decodeChatMessage, decodeChatMessages } from '@/p2p-chat';
+
+const rawMessage = {
+  id: '1001',
+  orderId: '1909461388398374912',
+  userId: '123456',
+  nickName: 'elisemefor',
+  contentType: 'str',
+  message: 'Перевел, +7 999 123 45 67',
+  msgType: 1,
+  roleType: 'user',
+  createDate: '1744086046000',
+  msgUuid: 'a1b2c3'
+};
+
+describe('decodeChatMessage', () => {
+  it('should decode a text message of the counterparty', () => {
+    const result = decodeChatMessage(rawMessage, '414938234');
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.kind).toBe('text');
+    expect(result.value.senderRole).toBe('counterparty');
+    expect(result.value.text).toBe('Перевел, +7 999 123 45 67');
+    expect(result.value.createdAt.getTime()).toBe(1744086046000);
+  });
+
+  it('should expose attachment URLs of pictures', () => {
+    const result = decodeChatMessage(
+      { ...rawMessage, userId: '414938234', contentType: 'pic', message: '/fiat/p2p/oss/show/receipt.png', fileName: 'receipt.png' },
+      '414938234',
+      'https://api.bybit.com'
+    );
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.kind).toBe('picture');
+    expect(result.value.senderRole).toBe('self');
+    expect(result.value.text).toBeUndefined();
+    expect(result.value.attachmentUrl).toBe('https://api.bybit.com/fiat/p2p/oss/show/receipt.png');
+  });
+
+  it('should recognize system notices and support messages', () => {
+    const system = decodeChatMessage({ ...rawMessage, msgType: 0, roleType: 'sys', userId: '' });
+    const support = decodeChatMessage({ ...rawMessage, roleType: 'customer_support' });
+
+    expect(system.ok && system.value.kind).toBe('system');
+    expect(system.ok && system.value.senderRole).toBe('system');
+    expect(support.ok && support.value.senderRole).toBe('support');
+  });
+
+  it('should reject unknown content types', () => {
+    const result = decodeChatMessages([rawMessage, { ...rawMessage, id: '1002', contentType: 'sticker' }]);
+
+    expect(result.messages.length).toBe(1);
+    expect(result.rejected[0]?.issues).toEqual([{ field: 'contentType', problem: 'malformed', value: 'sticker' }]);
+  });
+});
@@ -0,0 +1,92 @@
+import { expect, describe, it } from "bun:test";
+import { OrderSide } from '@/p2p-order';
+import { buildOrderBookSnapshot, decodeOnlineAds, parseMarketTargets, type OnlineAd } from '@/p2p-market';
+
+const makeAd = (id: string, userId: string, price: number, lastQuantity: number): OnlineAd => ({
+  id,
+  userId,
+  nickName: `merchant-${userId}`,
+  side: OrderSide.Sell,
+  tokenId: 'USDT',
+  currencyId: 'RUB',
+  price,
+  lastQuantity,
+  minAmount: 1000,
+  maxAmount: 100000,
+  paymentMethods: ['377'],
+  recentOrderNum: 10,
+  recentExecuteRate: 99,
+  raw: {}
+});
+
+describe('decodeOnlineAds', () => {
+  it('should decode online ads and skip malformed ones', () => {
+    const raw = {
+      id: '1',
+      userId: '42',
+      nickName: 'trader',
+      side: 1,
+      tokenId: 'USDT',
+      currencyId: 'RUB',
+      price: '90.5',
+      lastQuantity: '1000',
+      minAmount: '500',
+      maxAmount: '90000',
+      payments: ['377', 14]
+    };
+
+    const result = decodeOnlineAds([raw, { ...raw, id: '2', price: 'n/a' }]);
+
+    expect(result.ads.length).toBe(1);
+    expect(result.ads[0]?.price).toBe(90.5);
+    expect(result.ads[0]?.paymentMethods).toEqual(['377', '14']);
+    expect(result.rejected[0]?.issues).toEqual([{ field: 'price', problem: 'malformed', value: 'n/a' }]);
+  });
+});
+
+describe('buildOrderBookSnapshot', () => {
+  const ads = [
+    makeAd('a', '1', 92, 1000),
+    makeAd('b', '2', 90, 100),
+    makeAd('c', '1', 91, 500),
+    makeAd('d', '3', 89, 0)
+  ];
+
+  it('should walk sell ads from the cheapest price', () => {
+    const snapshot = buildOrderBookSnapshot(
+      { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Sell },
+      ads,
+      [9000, 54500, 1000000]
+    );
+
+    expect(snapshot.bestPrice).toBe(90);
+    expect(snapshot.depth[0]).toEqual({ volume: 9000, price: 90 });
+    // 9000 RUB at 90 and 45500 RUB at 91 buy 600 USDT
+    expect(snapshot.depth[1]?.price).toBeCloseTo(54500 / 600, 10);
+    expect(snapshot.depth[2]).toEqual({ volume: 1000000, price: null });
+    expect(snapshot.adsCount).toBe(3);
+    expect(snapshot.merchantCount).toBe(2);
+    expect(snapshot.totalQuantity).toBe(1600);
+  });
+
+  it('should walk buy ads from the highest price', () => {
+    const snapshot = buildOrderBookSnapshot({ tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Buy }, ads, []);
+
+    expect(snapshot.bestPrice).toBe(92);
+  });
+});
+
+describe('parseMarketTargets', () => {
+  it('should read token, fiat, side and payment methods', () => {
+    expect(parseMarketTargets('usdt/rub/sell/75+377, USDT/KZT/buy')).toEqual([
+      { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Sell, paymentMethods: ['75', '377'] },
+      { tokenId: 'USDT', currencyId: 'KZT', side: OrderSide.Buy }
+    ]);
+  });
+
+  it('should reject malformed targets', () => {
+    expect(() => parseMarketTargets('USDT/RUB')).toThrow('Invalid market target "USDT/RUB"');
+    expect(() => parseMarketTargets('USDT/RUB/both')).toThrow('Invalid market target');
+    expect(() => parseMarketTargets('USDT/RUB/sell/75/extra')).toThrow('Invalid market target');
+  });
+});
@@ -0,0 +1,170 @@
+import { expect, describe, it } from "bun:test";
+import {
+  OrderSide,
+  OrderStatus,
+  decodeP2POrder,
+  decodeP2POrderDetail,
+  decodeP2POrderOrThrow,
+  decodeP2POrders,
+  P2POrderDecodeError,
+  parseOrderSide,
+  parseOrderStatus,
+  parseStoredOrderStatus,
+  storedOrderStatus,
+  storedOrderType
+} from '@/p2p-order';
+
+const rawOrder = {
+  id: '1909461388398374912',
+  side: 1,
+  tokenId: 'USDT',
+  orderType: 'ORIGIN',
+  amount: '442143.36',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '5184',
+  notifyTokenId: 'USDT',
+  fee: '0',
+  targetNickName: 'elisemefor',
+  targetUserId: '123456',
+  status: 50,
+  createDate: '1744086046000',
+  userId: '414938234'
+};
+
+describe('decodeP2POrder', () => {
+  it('should decode a valid simplifyList item', () => {
+    const result = decodeP2POrder(rawOrder);
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.id).toBe('1909461388398374912');
+    expect(result.value.side).toBe(OrderSide.Sell);
+    expect(result.value.status).toBe(OrderStatus.Completed);
+    expect(result.value.price.toString()).toBe('85.29');
+    expect(result.value.fiatAmount.toString()).toBe('442143.36');
+    expect(result.value.tokenQuantity.toString()).toBe('5184');
+    expect(result.value.createdAt.getTime()).toBe(1744086046000);
+    expect(result.value.counterpartyNickName).toBe('elisemefor');
+    expect(result.value.raw).toBe(rawOrder);
+  });
+
+  it('should report missing and malformed fields', () => {
+    const { createDate, ...withoutDate } = rawOrder;
+    const result = decodeP2POrder({ ...withoutDate, price: 'abc', status: 42 });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+
+    expect(result.issues).toEqual([
+      { field: 'status', problem: 'malformed', value: 42 },
+      { field: 'price', problem: 'malformed', value: 'abc' },
+      { field: 'createDate', problem: 'missing' }
+    ]);
+  });
+
+  it('should reject non-object items', () => {
+    const result = decodeP2POrder(null);
+    expect(result.ok).toBe(false);
+  });
+
+  it('should throw P2POrderDecodeError in strict mode', () => {
+    expect(() => decodeP2POrderOrThrow({ ...rawOrder, id: '' })).toThrow(P2POrderDecodeError);
+  });
+});
+
+describe('decodeP2POrders', () => {
+  it('should separate valid orders from rejected items', () => {
+    const result = decodeP2POrders([rawOrder, { ...rawOrder, side: 7 }]);
+
+    expect(result.orders.length).toBe(1);
+    expect(result.rejected.length).toBe(1);
+    expect(result.rejected[0]?.issues).toEqual([{ field: 'side', problem: 'malformed', value: 7 }]);
+  });
+});
+
+describe('decodeP2POrderDetail', () => {
+  it('should decode order info with the confirmed payment term', () => {
+    const result = decodeP2POrderDetail({
+      id: '1909461388398374912',
+      side: 1,
+      tokenId: 'USDT',
+      currencyId: 'RUB',
+      price: '85.29',
+      quantity: '5184',
+      amount: '442143.36',
+      fee: '1.5',
+      targetUserId: '98765',
+      targetNickName: 'elisemefor',
+      status: 50,
+      createDate: '1744086046000',
+      transferDate: '1744086346000',
+      updateDate: '1744086646000',
+      confirmedPayTerm: {
+        id: '11',
+        paymentType: '377',
+        realName: 'Ivan I.',
+        paymentConfigVo: { paymentName: 'Sberbank' }
+      },
+      paymentTermList: [{ id: '11', paymentType: '377' }, {}]
+    });
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    expect(result.value.fee.toString()).toBe('1.5');
+    expect(result.value.tokenQuantity.toString()).toBe('5184');
+    expect(result.value.paidAt?.getTime()).toBe(1744086346000);
+    expect(result.value.updatedAt?.getTime()).toBe(1744086646000);
+    expect(result.value.confirmedPaymentTerm?.paymentName).toBe('Sberbank');
+    expect(result.value.paymentTerms.length).toBe(1);
+  });
+
+  it('should report malformed status timestamps', () => {
+    const result = decodeP2POrderDetail({ ...rawOrder, quantity: '5184', transferDate: 'yesterday' });
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.issues).toEqual([{ field: 'transferDate', problem: 'malformed', value: 'yesterday' }]);
+  });
+});
+
+describe('parseOrderStatus', () => {
+  it('should accept codes and labels in any spelling', () => {
+    expect(parseOrderStatus('50')).toBe(OrderStatus.Completed);
+    expect(parseOrderStatus('Completed')).toBe(OrderStatus.Completed);
+    expect(parseOrderStatus('waiting-for-release')).toBe(OrderStatus.WaitingForRelease);
+    expect(parseOrderStatus('payment_failed')).toBe(OrderStatus.PaymentFailed);
+  });
+
+  it('should reject unknown statuses', () => {
+    expect(parseOrderStatus('55')).toBeUndefined();
+    expect(parseOrderStatus('done')).toBeUndefined();
+    expect(parseOrderStatus('')).toBeUndefined();
+  });
+});
+
+describe('stored order values', () => {
+  it('should write one spelling for both tables and read legacy values', () => {
+    expect(storedOrderStatus(OrderStatus.Completed)).toBe('COMPLETED');
+    expect(storedOrderStatus(OrderStatus.WaitingForRelease)).toBe('WAITING_FOR_RELEASE');
+    expect(storedOrderType(OrderSide.Buy)).toBe('BUY');
+
+    for (const status of Object.values(OrderStatus).filter((value): value is OrderStatus => typeof value === 'number')) {
+      expect(parseStoredOrderStatus(storedOrderStatus(status))).toBe(status);
+    }
+    expect(parseStoredOrderStatus('Completed')).toBe(OrderStatus.Completed);
+    expect(parseStoredOrderStatus('CANCELED')).toBe(OrderStatus.Cancelled);
+    expect(parseStoredOrderStatus('PENDING')).toBe(OrderStatus.WaitingForRelease);
+    expect(parseStoredOrderStatus('UNKNOWN')).toBeUndefined();
+  });
+});
+
+describe('parseOrderSide', () => {
+  it('should accept names and codes', () => {
+    expect(parseOrderSide('BUY')).toBe(OrderSide.Buy);
+    expect(parseOrderSide('1')).toBe(OrderSide.Sell);
+    expect(parseOrderSide('short')).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { expect, describe, it } from "bun:test";
+import { RateLimiterRegistry, TokenBucket, getEndpointGroup, parseLimitHeaders } from '@/rate-limiter';
+
+describe('TokenBucket', () => {
+  it('should release requests in order once tokens refill', async () => {
+    const bucket = new TokenBucket({ capacity: 1, refillPerSecond: 50 });
+    const order: number[] = [];
+
+    const startedAt = Date.now();
+    await Promise.all([1, 2, 3].map(n => bucket.acquire().then(() => order.push(n))));
+
+    expect(order).toEqual([1, 2, 3]);
+    // Two of the three requests had to wait ~20ms each for a token
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(35);
+  });
+
+  it('should wait for the reset timestamp when the server reports no remaining requests', async () => {
+    const bucket = new TokenBucket({ capacity: 10, refillPerSecond: 1000 });
+    const resetAt = Date.now() + 50;
+
+    bucket.update({ remaining: 0, resetAt });
+    await bucket.acquire();
+
+    expect(Date.now()).toBeGreaterThanOrEqual(resetAt);
+  });
+});
+
+describe('RateLimiterRegistry', () => {
+  it('should share buckets by API key and endpoint group', () => {
+    const registry = new RateLimiterRegistry();
+
+    expect(registry.bucket('key', '/v5/p2p/order/simplifyList')).toBe(registry.bucket('key', '/v5/p2p/order/info'));
+    expect(registry.bucket('key', '/v5/p2p/order/simplifyList')).not.toBe(registry.bucket('key', '/v5/p2p/order/message/listpage'));
+    expect(registry.bucket('key', '/v5/p2p/order/simplifyList')).not.toBe(registry.bucket('other', '/v5/p2p/order/simplifyList'));
+  });
+});
+
+describe('parseLimitHeaders', () => {
+  it('should read X-Bapi-Limit headers case-insensitively', () => {
+    const status = parseLimitHeaders({
+      'x-bapi-limit': '10',
+      'X-Bapi-Limit-Status': '3',
+      'x-bapi-limit-reset-timestamp': '1700000001000'
+    }, 1000);
+
+    expect(status).toEqual({ limit: 10, remaining: 3, resetAt: 1700000000000 });
+  });
+
+  it('should classify endpoints into groups', () => {
+    expect(getEndpointGroup('/v5/p2p/order/message/listpage')).toBe('p2p-chat');
+    expect(getEndpointGroup('/v5/market/time')).toBe('market');
+  });
+});
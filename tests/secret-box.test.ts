@@ -0,0 +1,134 @@
+import { expect, describe, it } from "bun:test";
+import type { PrismaClient } from '@prisma/client';
+import { DatabaseCredentialProvider } from '@/credentials';
+import {
+  generateMasterKey,
+  isEncryptedSecret,
+  loadSecretBox,
+  parseMasterKey,
+  SecretBox,
+  SecretBoxError,
+  updateStoredSecrets
+} from '@/secret-box';
+
+const oldKey = parseMasterKey(generateMasterKey());
+const newKey = parseMasterKey(generateMasterKey());
+
+describe('SecretBox', () => {
+  const box = new SecretBox(oldKey);
+
+  it('should encrypt every value with its own data key', () => {
+    const first = box.encrypt('api-secret');
+    const second = box.encrypt('api-secret');
+
+    expect(isEncryptedSecret(first)).toBe(true);
+    expect(first).not.toContain('api-secret');
+    expect(first).not.toBe(second);
+    expect(box.decrypt(first)).toBe('api-secret');
+    expect(box.decrypt(second)).toBe('api-secret');
+  });
+
+  it('should pass plaintext values through', () => {
+    expect(box.decrypt('legacy-secret')).toBe('legacy-secret');
+    expect(box.needsUpdate('legacy-secret')).toBe(true);
+  });
+
+  it('should reject tampered values', () => {
+    const value = box.encrypt('api-secret');
+    const parts = value.split(':');
+    parts[6] = Buffer.from('x'.repeat(10)).toString('base64');
+    expect(() => box.decrypt(parts.join(':'))).toThrow(SecretBoxError);
+  });
+
+  it('should re-wrap only the data key when the master key rotates', () => {
+    const value = box.encrypt('api-secret');
+    const rotating = new SecretBox(newKey, [oldKey]);
+
+    expect(rotating.needsUpdate(value)).toBe(true);
+    const rotated = rotating.rewrap(value);
+    expect(rotated.split(':')[2]).toBe(newKey.id);
+    expect(rotated.split(':').slice(4)).toEqual(value.split(':').slice(4)); // шифротекст секрета не меняется
+    expect(rotating.needsUpdate(rotated)).toBe(false);
+
+    // После ротации старый ключ больше не нужен
+    expect(new SecretBox(newKey).decrypt(rotated)).toBe('api-secret');
+    expect(() => new SecretBox(newKey).decrypt(value)).toThrow('unknown master key');
+  });
+
+  it('should parse hex and base64 master keys', () => {
+    const hex = newKey.key.toString('hex');
+    expect(parseMasterKey(hex).id).toBe(newKey.id);
+    expect(() => parseMasterKey('c2hvcnQ=')).toThrow(SecretBoxError);
+  });
+});
+
+describe('loadSecretBox', () => {
+  it('should load the current and previous master keys from the environment', () => {
+    const box = loadSecretBox({
+      BYBIT_MASTER_KEY: newKey.key.toString('base64'),
+      BYBIT_MASTER_KEY_PREVIOUS: oldKey.key.toString('hex')
+    });
+    expect(box?.current.id).toBe(newKey.id);
+    expect(box?.decrypt(new SecretBox(oldKey).encrypt('api-secret'))).toBe('api-secret');
+  });
+
+  it('should return nothing when no master key is configured', () => {
+    expect(loadSecretBox({ BYBIT_MASTER_KEY_FILE: '/nonexistent/bybit-master.key' })).toBeUndefined();
+  });
+});
+
+/**
+ * Таблица в памяти с findMany/updateMany, как у Prisma
+ */
+function fakeTable(rows: { id: number; bybitApiSecret: string | null }[]) {
+  return {
+    rows,
+    findMany: async () => rows.filter(row => row.bybitApiSecret !== null).map(row => ({ ...row })),
+    updateMany: async ({ where, data }: any) => {
+      const row = rows.find(row => row.id === where.id && row.bybitApiSecret === where.bybitApiSecret);
+      if (row) row.bybitApiSecret = data.bybitApiSecret;
+      return { count: row ? 1 : 0 };
+    }
+  };
+}
+
+describe('updateStoredSecrets', () => {
+  it('should encrypt plaintext rows and re-wrap rows of older keys', async () => {
+    const users = fakeTable([
+      { id: 1, bybitApiSecret: 'user-secret' },
+      { id: 2, bybitApiSecret: new SecretBox(oldKey).encrypt('old-secret') },
+      { id: 3, bybitApiSecret: null }
+    ]);
+    const cabinets = fakeTable([{ id: 5, bybitApiSecret: new SecretBox(newKey).encrypt('cabinet-secret') }]);
+    const prisma = { user: users, bybitCabinet: cabinets } as unknown as PrismaClient;
+    const box = new SecretBox(newKey, [oldKey]);
+
+    const dryRun = await updateStoredSecrets(prisma, box, true);
+    expect(dryRun.map(result => result.updated)).toEqual([2, 0]);
+    expect(users.rows[0]?.bybitApiSecret).toBe('user-secret');
+
+    const results = await updateStoredSecrets(prisma, box);
+    expect(results).toEqual([
+      { table: 'User', updated: 2, unchanged: 0, failed: [] },
+      { table: 'BybitCabinet', updated: 0, unchanged: 1, failed: [] }
+    ]);
+    expect(users.rows.slice(0, 2).map(row => new SecretBox(newKey).decrypt(row.bybitApiSecret!))).toEqual(['user-secret', 'old-secret']);
+  });
+});
+
+describe('DatabaseCredentialProvider with encrypted secrets', () => {
+  const encrypted = new SecretBox(newKey).encrypt('db-secret');
+  const prisma = {
+    user: { findUnique: async () => ({ bybitApiToken: 'db-key', bybitApiSecret: encrypted }) }
+  } as unknown as PrismaClient;
+
+  it('should decrypt the secret transparently', async () => {
+    const provider = new DatabaseCredentialProvider(prisma, new SecretBox(newKey));
+    expect((await provider.resolve({ kind: 'user', userId: 1 }))?.apiSecret).toBe('db-secret');
+  });
+
+  it('should fail clearly without a master key', async () => {
+    const provider = new DatabaseCredentialProvider(prisma);
+    await expect(provider.resolve({ kind: 'user', userId: 1 })).rejects.toThrow('no master key is configured');
+  });
+});
@@ -0,0 +1,39 @@
+import { expect, describe, it } from "bun:test";
+import { backfillProgress, nextBackfillWindow, validateBackfill } from '@/sync-backfill';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('backfill windows', () => {
+  const job = {
+    startSyncAt: new Date('2025-03-01T00:00:00Z'),
+    endSyncAt: new Date('2025-03-20T00:00:00Z'),
+    cursorAt: null as Date | null,
+    windowDays: 7
+  };
+
+  it('should walk the period backwards and stop at its start', () => {
+    expect(nextBackfillWindow(job)).toEqual({ beginTime: Date.parse('2025-03-13T00:00:00Z'), endTime: Date.parse('2025-03-20T00:00:00Z') });
+    expect(nextBackfillWindow({ ...job, cursorAt: new Date('2025-03-06T00:00:00Z') })).toEqual({
+      beginTime: Date.parse('2025-03-01T00:00:00Z'),
+      endTime: Date.parse('2025-03-06T00:00:00Z')
+    });
+    expect(nextBackfillWindow({ ...job, cursorAt: job.startSyncAt })).toBeNull();
+  });
+
+  it('should report the share of the period already stored', () => {
+    expect(backfillProgress(job)).toBe(0);
+    expect(backfillProgress({ ...job, cursorAt: new Date('2025-03-10T12:00:00Z') })).toBe(0.5);
+    expect(backfillProgress({ ...job, cursorAt: job.startSyncAt })).toBe(1);
+  });
+
+  it('should reject empty, future and oversized requests', () => {
+    const now = Date.parse('2025-04-10T00:00:00Z');
+
+    expect(validateBackfill({ beginTime: now - 30 * DAY_MS, endTime: now }, 7, now)).toEqual([]);
+    expect(validateBackfill({ beginTime: now, endTime: now - DAY_MS }, 7, now)).toEqual(['period must start before it ends']);
+    expect(validateBackfill({ beginTime: now - DAY_MS, endTime: now + DAY_MS }, 120, now)).toEqual([
+      'period must not end in the future',
+      'windowDays must be an integer from 1 to 90'
+    ]);
+  });
+});
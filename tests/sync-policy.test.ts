@@ -0,0 +1,103 @@
+import { expect, describe, it } from "bun:test";
+import { decodeP2POrderOrThrow, OrderSide, OrderStatus } from '@/p2p-order';
+import {
+  advanceSyncCursor,
+  DEFAULT_CABINET_SYNC_POLICY,
+  DEFAULT_USER_SYNC_POLICY,
+  incrementalSyncRange,
+  isSyncDue,
+  resolveSyncPolicy,
+  syncPolicyRange,
+  SyncPolicyValidationError
+} from '@/sync-policy';
+
+describe('resolveSyncPolicy', () => {
+  it('should fall back to the defaults of the owner kind', () => {
+    expect(resolveSyncPolicy(null, DEFAULT_CABINET_SYNC_POLICY)).toEqual(DEFAULT_CABINET_SYNC_POLICY);
+    expect(resolveSyncPolicy({}, DEFAULT_USER_SYNC_POLICY)).toMatchObject({ statuses: [], sides: [], pageSize: 20 });
+  });
+
+  it('should accept names of statuses and sides and tokens in any case', () => {
+    const policy = resolveSyncPolicy(
+      { statuses: ['completed', 40], sides: ['sell'], tokens: [' usdt', 'BTC'], lookbackDays: 0.5, pageSize: 100 },
+      DEFAULT_CABINET_SYNC_POLICY
+    );
+
+    expect(policy).toEqual({
+      ...DEFAULT_CABINET_SYNC_POLICY,
+      statuses: [OrderStatus.Completed, 40 as OrderStatus],
+      sides: [OrderSide.Sell],
+      tokens: ['USDT', 'BTC'],
+      lookbackDays: 0.5,
+      pageSize: 100
+    });
+  });
+
+  it('should list every problem of an invalid policy', () => {
+    let error: unknown;
+    try {
+      resolveSyncPolicy({ lookbackDays: 400, pageSize: 2.5, sides: ['both'], interval: 5 }, DEFAULT_CABINET_SYNC_POLICY);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(SyncPolicyValidationError);
+    expect((error as SyncPolicyValidationError).problems).toEqual([
+      'unknown fields: interval',
+      'lookbackDays must be a number from 0.042 to 365',
+      'pageSize must be an integer from 1 to 100',
+      'sides must be a list of 0 (buy) and 1 (sell)'
+    ]);
+    expect(() => resolveSyncPolicy('3 days', DEFAULT_CABINET_SYNC_POLICY)).toThrow('policy must be an object');
+  });
+});
+
+describe('sync schedule', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+
+  it('should end the period now whatever the year', () => {
+    expect(syncPolicyRange({ ...DEFAULT_CABINET_SYNC_POLICY, lookbackDays: 2 }, now)).toEqual({
+      beginTime: Date.parse('2026-10-17T12:00:00Z'),
+      endTime: now
+    });
+  });
+
+  it('should wait for the interval and skip disabled owners', () => {
+    const policy = { ...DEFAULT_CABINET_SYNC_POLICY, intervalMinutes: 30 };
+
+    expect(isSyncDue(policy, null, now)).toBe(true);
+    expect(isSyncDue(policy, new Date(now - 29 * 60 * 1000), now)).toBe(false);
+    expect(isSyncDue(policy, new Date(now - 30 * 60 * 1000), now)).toBe(true);
+    expect(isSyncDue({ ...policy, enabled: false }, null, now)).toBe(false);
+  });
+});
+
+describe('sync cursor', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+  const HOUR_MS = 60 * 60 * 1000;
+  const policy = { ...DEFAULT_CABINET_SYNC_POLICY, lookbackDays: 3, settleMinutes: 60 };
+  const order = (id: string, createdAt: number, status: OrderStatus) => decodeP2POrderOrThrow({
+    id, side: 1, tokenId: 'USDT', amount: '100', currencyId: 'RUB', price: '90', notifyTokenQuantity: '1.11',
+    fee: '0', targetNickName: 'buyer', status, createDate: String(createdAt), userId: '1'
+  });
+
+  it('should continue from the cursor and use the lookback before the first sync', () => {
+    expect(incrementalSyncRange(policy, null, now)).toEqual({ beginTime: now - 72 * HOUR_MS, endTime: now });
+    expect(incrementalSyncRange(policy, new Date(now - 20 * 24 * HOUR_MS), now)).toEqual({ beginTime: now - 20 * 24 * HOUR_MS, endTime: now });
+  });
+
+  it('should stay behind open orders but never lag more than the lookback', () => {
+    const range = { beginTime: now - 10 * HOUR_MS, endTime: now };
+
+    expect(advanceSyncCursor(policy, range, [order('1', now - 2 * HOUR_MS, OrderStatus.Completed)]).getTime()).toBe(now - HOUR_MS);
+    expect(advanceSyncCursor(policy, range, [
+      order('1', now - 2 * HOUR_MS, OrderStatus.Completed),
+      order('2', now - 4 * HOUR_MS, OrderStatus.Appealing)
+    ]).getTime()).toBe(now - 4 * HOUR_MS);
+    // Курсор не уходит назад от начала периода
+    expect(advanceSyncCursor(policy, range, [order('3', now - 12 * HOUR_MS, OrderStatus.WaitingForPayment)]).getTime()).toBe(range.beginTime);
+    // Апелляция двухнедельной давности не держит курсор дольше lookbackDays
+    const catchUp = { beginTime: now - 20 * 24 * HOUR_MS, endTime: now };
+    expect(advanceSyncCursor(policy, catchUp, [order('4', now - 14 * 24 * HOUR_MS, OrderStatus.Appealing)]).getTime()).toBe(now - 72 * HOUR_MS);
+  });
+});
@@ -0,0 +1,493 @@
+import { expect, describe, it, beforeAll, afterAll } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { PrismaClient } from '@prisma/client';
+import { ChainCredentialProvider, EnvCredentialProvider } from '@/credentials';
+import { OrderSide } from '@/p2p-order';
+import { BackfillValidationError } from '@/sync-backfill';
+import { BybitSyncService } from '@/sync-service';
+import { FakeBybitServer } from './fake-bybit-server';
+
+const rawOrder = (id: string, createDate: string, overrides: Record<string, unknown> = {}) => ({
+  id,
+  side: 1,
+  tokenId: 'USDT',
+  amount: '8529',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '100',
+  fee: '0.1',
+  targetNickName: 'elisemefor',
+  status: 50,
+  createDate: String(Date.parse(createDate)),
+  userId: '414938234',
+  ...overrides
+});
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Prisma с кабинетом и таблицей транзакций в памяти
+ */
+function fakePrisma(syncPolicy: unknown = null, columns: Record<string, unknown> = {}) {
+  const cabinet: Record<string, any> = {
+    id: 7,
+    bybitEmail: 'cabinet@example.com',
+    bybitApiToken: 'cabinet-key',
+    bybitApiSecret: 'stored-secret',
+    syncPolicy,
+    syncCursorAt: null as Date | null,
+    lastBybitSyncStatus: null as string | null,
+    ...columns
+  };
+  const transactions = new Map<string, any>();
+  const jobs = new Map<number, any>();
+  const statusChanges: any[] = [];
+  const pendingOrders = new Map<string, any>();
+  const snapshots: any[] = [];
+  const calls = { cabinetFindMany: 0, transactions: [] as number[] };
+  let nextId = 1;
+
+  const prisma = {
+    $transaction: async (operations: Promise<unknown>[]) => {
+      calls.transactions.push(operations.length);
+      return Promise.all(operations);
+    },
+    bybitCabinet: {
+      findUnique: async ({ where }: any) => (where.id === cabinet.id ? cabinet : null),
+      findFirst: async () => cabinet,
+      // Условия вида { column: { not: value } } проверяются, как это делает Prisma
+      findMany: async (query: any = {}) => {
+        calls.cabinetFindMany++;
+        const conditions: any[] = query.where?.AND ?? [];
+        const matches = conditions.every(condition =>
+          Object.entries(condition).every(([column, filter]: [string, any]) => cabinet[column] !== filter.not));
+        return matches ? [cabinet] : [];
+      },
+      update: async ({ data }: any) => Object.assign(cabinet, data)
+    },
+    bybitTransactionFromCabinet: {
+      findUnique: async ({ where }: any) => (transactions.has(where.orderNo) ? { ...transactions.get(where.orderNo) } : null),
+      create: async ({ data }: any) => {
+        const row = { id: nextId++, ...data };
+        transactions.set(row.orderNo, row);
+        return row;
+      },
+      update: async ({ where, data }: any) => {
+        const row = [...transactions.values()].find(candidate => candidate.id === where.id);
+        return Object.assign(row, data);
+      }
+    },
+    bybitBackfillJob: {
+      findUnique: async ({ where }: any) => (jobs.has(where.id) ? { ...jobs.get(where.id) } : null),
+      create: async ({ data }: any) => {
+        const job = { id: jobs.size + 1, cabinetId: null, userId: null, cursorAt: null, windowOrders: [], fetched: 0, created: 0, updated: 0, attempts: 0, startedAt: null, ...data };
+        jobs.set(job.id, job);
+        return { ...job };
+      },
+      update: async ({ where, data }: any) => ({ ...Object.assign(jobs.get(where.id), data) })
+    },
+    bybitOrderStatusChange: {
+      findFirst: async ({ where }: any) => statusChanges
+        .filter(change => change.orderNo === where.orderNo && change.cabinetId === where.cabinetId)
+        .pop() ?? null,
+      create: async ({ data }: any) => {
+        statusChanges.push(data);
+        return data;
+      }
+    },
+    bybitOrderBookSnapshot: {
+      create: async ({ data }: any) => {
+        snapshots.push(data);
+        return data;
+      },
+      findFirst: async ({ where }: any) => snapshots
+        .filter(snapshot => snapshot.tokenId === where.tokenId && snapshot.currencyId === where.currencyId && snapshot.side === where.side)
+        .filter(snapshot => snapshot.paymentMethod === where.paymentMethod)
+        .filter(snapshot => snapshot.capturedAt >= where.capturedAt.gte && snapshot.capturedAt <= where.capturedAt.lte)
+        .pop() ?? null
+    },
+    bybitPendingOrder: {
+      findMany: async ({ where }: any) => [...pendingOrders.values()]
+        .filter(order => order.cabinetId === where.cabinetId && order.closedAt === null)
+        .map(order => ({ ...order })),
+      upsert: async ({ where, create, update }: any) => {
+        const existing = pendingOrders.get(where.orderNo);
+        const row = existing ? Object.assign(existing, update) : { id: nextId++, ...create };
+        pendingOrders.set(row.orderNo, row);
+        return row;
+      },
+      update: async ({ where, data }: any) => {
+        const row = [...pendingOrders.values()].find(candidate => candidate.id === where.id);
+        return Object.assign(row, data);
+      }
+    }
+  };
+
+  return { prisma: prisma as unknown as PrismaClient, cabinet, transactions, jobs, statusChanges, pendingOrders, snapshots, calls };
+}
+
+describe('BybitSyncService against the stand-in server', () => {
+  let server: FakeBybitServer;
+  let logDir: string;
+
+  beforeAll(() => {
+    server = FakeBybitServer.start({
+      // Часы стенда уходят вперед на полчаса: без синхронизации времени запросы отклоняются
+      clockOffsetMs: 30 * 60 * 1000,
+      accounts: [{
+        apiKey: 'cabinet-key',
+        apiSecret: 'cabinet-secret',
+        userId: '414938234',
+        orders: [
+          rawOrder('1001', '2025-04-08T04:20:46Z'),
+          rawOrder('1002', '2025-04-07T10:00:00Z', { side: 0 }),
+          rawOrder('1003', '2025-04-06T12:00:00Z', { status: 40 }),
+          rawOrder('1004', '2025-04-05T08:30:00Z', { amount: '1000.5' }),
+          rawOrder('0999', '2025-03-01T00:00:00Z')
+        ]
+      }]
+    });
+    logDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bybit-sync-'));
+  });
+
+  afterAll(() => {
+    server.stop();
+    fs.rmSync(logDir, { recursive: true, force: true });
+  });
+
+  it('should store orders of every side and status once', async () => {
+    const { prisma, cabinet, transactions } = fakePrisma();
+    const service = new BybitSyncService({
+      prisma,
+      credentials: new ChainCredentialProvider([
+        new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+      ]),
+      baseUrl: server.url,
+      logDir
+    });
+    const range = { beginTime: Date.parse('2025-04-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') };
+
+    const first = await service.syncCabinet(7, range);
+
+    expect(first).toEqual({ fetched: 4, created: 4, updated: 0 });
+    expect([...transactions.keys()]).toEqual(['1001', '1002', '1003', '1004']);
+    expect(transactions.get('1004')).toMatchObject({ cabinetId: 7, type: 'SELL', status: 'COMPLETED', totalPrice: '1000.5', fee: '0.1', fiatCurrency: 'RUB' });
+    expect(transactions.get('1002')).toMatchObject({ type: 'BUY', status: 'COMPLETED' });
+    expect(transactions.get('1003')).toMatchObject({ type: 'SELL', status: 'CANCELLED' });
+    expect(cabinet.lastBybitSyncStatus).toStartWith('SUCCESS');
+    expect(server.requests.some(request => request.retCode === 10002)).toBe(false);
+    expect(server.requestsTo('/v5/p2p/order/simplifyList')[0]?.params).toMatchObject({ beginTime: range.beginTime, endTime: range.endTime });
+
+    const second = await service.syncCabinet(7, range);
+
+    expect(second).toEqual({ fetched: 4, created: 0, updated: 0 });
+    expect(transactions.size).toBe(4);
+  });
+
+  it('should skip a scheduled sync while the previous one is still running', async () => {
+    const { prisma, cabinet, calls } = fakePrisma();
+    const service = new BybitSyncService({
+      prisma,
+      credentials: new ChainCredentialProvider([
+        new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+      ]),
+      baseUrl: server.url,
+      logDir
+    });
+    const scheduled = service as unknown as { syncAllBybitCabinets(): Promise<void> };
+
+    await Promise.all([scheduled.syncAllBybitCabinets(), scheduled.syncAllBybitCabinets()]);
+
+    expect(calls.cabinetFindMany).toBe(1);
+    expect(cabinet.lastBybitSyncStatus).toStartWith('SUCCESS');
+
+    // После завершения следующий запуск снова выполняется
+    await scheduled.syncAllBybitCabinets();
+    expect(calls.cabinetFindMany).toBe(2);
+  });
+
+  it('should take the keys of a cabinet from the credential chain', async () => {
+    const { prisma, cabinet, transactions } = fakePrisma(null, { bybitApiToken: null, bybitApiSecret: null });
+    const service = new BybitSyncService({
+      prisma,
+      credentials: new ChainCredentialProvider([
+        new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+      ]),
+      baseUrl: server.url,
+      logDir
+    });
+
+    // Столбцы ключей кабинета пусты, но периодическая синхронизация его не пропускает
+    await (service as unknown as { syncAllBybitCabinets(): Promise<void> }).syncAllBybitCabinets();
+    expect(cabinet.lastBybitSyncStatus).toStartWith('SUCCESS');
+
+    const result = await service.syncCabinet(7, { beginTime: Date.parse('2025-04-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') });
+    expect(result).toEqual({ fetched: 4, created: 4, updated: 0 });
+    expect(transactions.size).toBe(4);
+
+    // Ключей нет ни в одном источнике: ошибка называет все проверенные места
+    const unconfigured = new BybitSyncService({ prisma, credentials: new ChainCredentialProvider([new EnvCredentialProvider({})]), baseUrl: server.url, logDir });
+    const missing = await unconfigured.syncCabinet(7);
+    expect(missing.error).toContain('No Bybit API credentials for cabinet 7');
+    expect(cabinet.lastBybitSyncStatus).toStartWith('ERROR: No Bybit API credentials');
+  });
+
+  it('should pull only what the cabinet policy asks for', async () => {
+    const { prisma, cabinet, transactions } = fakePrisma({ statuses: ['completed'], sides: ['sell'], tokens: ['usdt'], pageSize: 50 });
+    const service = new BybitSyncService({
+      prisma,
+      credentials: new ChainCredentialProvider([
+        new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+      ]),
+      baseUrl: server.url,
+      logDir
+    });
+    server.requests.length = 0;
+
+    const result = await service.syncCabinet(7, { beginTime: Date.parse('2025-04-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') });
+
+    expect(result).toEqual({ fetched: 2, created: 2, updated: 0 });
+    expect([...transactions.keys()]).toEqual(['1001', '1004']);
+    expect(server.requestsTo('/v5/p2p/order/simplifyList')[0]?.params).toMatchObject({ status: [50], side: [1], tokenId: 'USDT', size: 50 });
+
+    // С ошибкой в политике кабинет не синхронизируется, ошибка попадает в статус
+    cabinet.syncPolicy = { lookbackDays: 0, sides: ['both'] };
+    const invalid = await service.syncCabinet(7);
+
+    expect(invalid.error).toContain('Invalid sync policy');
+    expect(cabinet.lastBybitSyncStatus).toContain('lookbackDays');
+  });
+
+  it('should continue from the sync cursor and keep it behind open orders', async () => {
+    const now = Date.now();
+    const orders = [
+      rawOrder('2001', new Date(now - 2 * HOUR_MS).toISOString()),
+      rawOrder('2002', new Date(now - 5 * HOUR_MS).toISOString(), { status: 20 }),
+      rawOrder('2003', new Date(now - 30 * HOUR_MS).toISOString())
+    ];
+    const recent = FakeBybitServer.start({
+      accounts: [{ apiKey: 'cabinet-key', apiSecret: 'cabinet-secret', userId: '414938234', orders }]
+    });
+    try {
+      const { prisma, cabinet, transactions, statusChanges } = fakePrisma();
+      const service = new BybitSyncService({
+        prisma,
+        credentials: new ChainCredentialProvider([
+          new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+        ]),
+        baseUrl: recent.url,
+        logDir
+      });
+      cabinet.syncCursorAt = new Date(now - 2 * 24 * HOUR_MS);
+
+      expect(await service.syncCabinet(7)).toEqual({ fetched: 3, created: 3, updated: 0 });
+      expect(recent.requestsTo('/v5/p2p/order/simplifyList')[0]?.params.beginTime).toBe(now - 2 * 24 * HOUR_MS);
+      // Заявка 2002 ждет отпуска средств: курсор остается на ней
+      expect(cabinet.syncCursorAt?.getTime()).toBe(now - 5 * HOUR_MS);
+      expect(transactions.get('2002')).toMatchObject({ status: 'WAITING_FOR_RELEASE' });
+
+      // Явный период не сдвигает курсор
+      await service.syncCabinet(7, { beginTime: now - 10 * HOUR_MS, endTime: Date.now() });
+      expect(cabinet.syncCursorAt?.getTime()).toBe(now - 5 * HOUR_MS);
+
+      // Средства отпущены: статус записи обновляется, курсор уходит вперед
+      orders[1]!.status = 50;
+      expect(await service.syncCabinet(7)).toEqual({ fetched: 2, created: 0, updated: 1 });
+      expect(transactions.get('2002')).toMatchObject({ status: 'COMPLETED' });
+      expect(cabinet.syncCursorAt!.getTime()).toBeGreaterThan(now - 2 * HOUR_MS);
+      // История хранит каждый увиденный статус заявки вместе с ответом API
+      expect(statusChanges.filter(change => change.orderNo === '2002')).toEqual([
+        expect.objectContaining({ cabinetId: 7, fromStatus: null, toStatus: 'WAITING_FOR_RELEASE' }),
+        expect.objectContaining({ cabinetId: 7, fromStatus: 'WAITING_FOR_RELEASE', toStatus: 'COMPLETED', originalData: expect.objectContaining({ status: 50 }) })
+      ]);
+    } finally {
+      recent.stop();
+    }
+  });
+
+  it('should store orders in progress and report their status changes', async () => {
+    const orders = [
+      rawOrder('3001', '2025-04-08T10:00:00Z', { status: 10 }),
+      rawOrder('3002', '2025-04-08T09:00:00Z', { status: 20 })
+    ];
+    const pending = FakeBybitServer.start({
+      accounts: [{ apiKey: 'cabinet-key', apiSecret: 'cabinet-secret', userId: '414938234', orders }]
+    });
+    try {
+      const { prisma, pendingOrders } = fakePrisma();
+      const service = new BybitSyncService({
+        prisma,
+        credentials: new ChainCredentialProvider([
+          new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+        ]),
+        baseUrl: pending.url,
+        logDir
+      });
+      const poll = () => (service as unknown as { pollPendingOrders(): Promise<void> }).pollPendingOrders();
+      const events: string[] = [];
+      for (const name of ['statusChanged', 'waitingForRelease', 'appealing']) {
+        service.events.on(name, (event: any) => events.push(`${name} ${event.order.id} ${event.previousStatus}`));
+      }
+      // Ошибка обработчика не прерывает проверку остальных заявок кабинета
+      service.events.prependListener('statusChanged', () => {
+        throw new Error('listener failed');
+      });
+
+      await poll();
+
+      expect(events).toEqual(['statusChanged 3001 null', 'statusChanged 3002 null', 'waitingForRelease 3002 null']);
+      expect(pendingOrders.get('3001')).toMatchObject({ cabinetId: 7, status: 10, type: 'SELL', totalPrice: '8529', closedAt: null });
+      expect(pendingOrders.get('3002')).toMatchObject({ status: 20, closedAt: null });
+      const firstChangeAt = pendingOrders.get('3001').statusChangedAt;
+
+      // Без изменений событий нет; покупатель открыл апелляцию, вторая заявка завершена
+      events.length = 0;
+      await poll();
+      expect(events).toEqual([]);
+
+      orders[0]!.status = 30;
+      orders[1]!.status = 50;
+      await poll();
+
+      expect(events).toEqual(['statusChanged 3001 10', 'appealing 3001 10']);
+      expect(pendingOrders.get('3001')).toMatchObject({ status: 30, closedAt: null });
+      expect(pendingOrders.get('3001').statusChangedAt.getTime()).toBeGreaterThanOrEqual(firstChangeAt.getTime());
+      expect(pendingOrders.get('3002')).toMatchObject({ status: 20, closedAt: expect.any(Date) });
+      expect(fs.readFileSync(path.join(logDir, `sync-${new Date().toISOString().split('T')[0]}.log`), 'utf8')).toContain('listener failed');
+    } finally {
+      pending.stop();
+    }
+  });
+
+  it('should record each transition once when the poller and the sync both see it', async () => {
+    const orders = [rawOrder('4001', '2025-04-08T10:00:00Z', { status: 20 })];
+    const pending = FakeBybitServer.start({
+      accounts: [{ apiKey: 'cabinet-key', apiSecret: 'cabinet-secret', userId: '414938234', orders }]
+    });
+    try {
+      const { prisma, statusChanges, calls } = fakePrisma();
+      const service = new BybitSyncService({
+        prisma,
+        credentials: new ChainCredentialProvider([
+          new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+        ]),
+        baseUrl: pending.url,
+        logDir
+      });
+      const poll = () => (service as unknown as { pollPendingOrders(): Promise<void> }).pollPendingOrders();
+      const range = { beginTime: Date.parse('2025-04-08T00:00:00Z'), endTime: Date.parse('2025-04-09T00:00:00Z') };
+
+      // Опрос пишет заявку в работе и первый статус одной транзакцией
+      await poll();
+      expect(calls.transactions).toEqual([2]);
+
+      // Синхронизация создает запись заявки, но статус уже есть в истории
+      await service.syncCabinet(7, range);
+      orders[0]!.status = 50;
+      await poll();
+      await service.syncCabinet(7, range);
+
+      expect(statusChanges.map(change => [change.fromStatus, change.toStatus])).toEqual([
+        [null, 'WAITING_FOR_RELEASE'],
+        ['WAITING_FOR_RELEASE', 'COMPLETED']
+      ]);
+    } finally {
+      pending.stop();
+    }
+  });
+
+  it('should snapshot the configured markets', async () => {
+    const onlineAd = (id: string, userId: string, side: number, price: string, payments: string[]) =>
+      ({ id, userId, nickName: `merchant-${userId}`, side, tokenId: 'USDT', currencyId: 'RUB', price, lastQuantity: '1000', payments });
+    const market = FakeBybitServer.start({
+      accounts: [{ apiKey: 'cabinet-key', apiSecret: 'cabinet-secret', userId: '414938234' }],
+      onlineAds: [
+        onlineAd('1', '11', 1, '90', ['377']),
+        onlineAd('2', '12', 1, '91', ['377', '75']),
+        onlineAd('3', '13', 1, '89', ['75']),
+        onlineAd('4', '14', 0, '88', ['377'])
+      ]
+    });
+    try {
+      const { prisma, snapshots } = fakePrisma();
+      const service = new BybitSyncService({
+        prisma,
+        credentials: new ChainCredentialProvider([
+          new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+        ]),
+        baseUrl: market.url,
+        logDir,
+        marketTargets: [
+          { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Sell, paymentMethods: ['377'] },
+          { tokenId: 'USDT', currencyId: 'RUB', side: OrderSide.Buy }
+        ]
+      });
+      const collect = () => (service as unknown as { collectMarketSnapshots(): Promise<void> }).collectMarketSnapshots();
+
+      await collect();
+
+      expect(market.requestsTo('/v5/p2p/item/online').map(request => request.params.payment)).toEqual([['377'], undefined]);
+      expect(snapshots).toEqual([
+        expect.objectContaining({ side: OrderSide.Sell, paymentMethod: '377', bestPrice: 90, adsCount: 2, merchantCount: 2 }),
+        expect.objectContaining({ side: OrderSide.Buy, paymentMethod: null, bestPrice: 88, adsCount: 1 })
+      ]);
+      expect(await service.getMarketSnapshotAt('USDT', 'RUB', OrderSide.Sell, new Date(), '377')).toBe(snapshots[0]);
+      expect(await service.getMarketSnapshotAt('USDT', 'RUB', OrderSide.Sell, new Date())).toBeNull();
+
+      // Ошибка одного рынка не мешает сохранить остальные
+      market.failNext('/v5/p2p/item/online', { retCode: 10001, retMsg: 'Request parameter error' });
+      await collect();
+      expect(snapshots.map(snapshot => snapshot.side)).toEqual([OrderSide.Sell, OrderSide.Buy, OrderSide.Buy]);
+    } finally {
+      market.stop();
+    }
+  });
+
+  it('should backfill history in windows and resume after a failure', async () => {
+    const { prisma, jobs, transactions } = fakePrisma();
+    const credentials = new ChainCredentialProvider([
+      new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'cabinet-secret' })
+    ]);
+    const service = new BybitSyncService({ prisma, credentials, baseUrl: server.url, logDir });
+    const range = { beginTime: Date.parse('2025-03-01T00:00:00Z'), endTime: Date.parse('2025-04-10T00:00:00Z') };
+
+    await expect(service.createBackfillJob({ kind: 'cabinet', cabinetId: 7 }, range, 0)).rejects.toBeInstanceOf(BackfillValidationError);
+    const job = await service.createBackfillJob({ kind: 'cabinet', cabinetId: 7 }, range, 7);
+
+    const first = await service.runBackfillJob(job.id, 2);
+    expect(first).toMatchObject({ status: 'IN_PROGRESS', windows: 2, fetched: 4, created: 4, cursorAt: new Date('2025-03-27T00:00:00Z') });
+
+    server.failNext('/v5/p2p/order/simplifyList', { retCode: 10003, retMsg: 'API key is invalid.', httpStatus: 401 });
+    const failed = await service.runBackfillJob(job.id);
+    expect(failed.error).toContain('10003');
+    expect(jobs.get(job.id)).toMatchObject({ status: 'IN_PROGRESS', attempts: 1, cursorAt: new Date('2025-03-27T00:00:00Z') });
+
+    // После перезапуска новый экземпляр сервиса продолжает с контрольной точки
+    const restarted = new BybitSyncService({ prisma, credentials, baseUrl: server.url, logDir });
+    const resumed = await restarted.runBackfillJob(job.id);
+
+    expect(resumed).toMatchObject({ status: 'COMPLETED', windows: 4, fetched: 5, created: 5, cursorAt: new Date('2025-03-01T00:00:00Z') });
+    expect(jobs.get(job.id)).toMatchObject({ windowOrders: [4, 0, 0, 0, 0, 1], attempts: 0, lastError: null });
+    expect([...transactions.keys()]).toEqual(['1001', '1002', '1003', '1004', '0999']);
+    expect(await restarted.runBackfillJob(job.id)).toMatchObject({ status: 'COMPLETED', windows: 0 });
+  });
+
+  it('should report errors of the API in the result', async () => {
+    const { prisma, cabinet } = fakePrisma();
+    const service = new BybitSyncService({
+      prisma,
+      credentials: new ChainCredentialProvider([
+        new EnvCredentialProvider({ BYBIT_API_KEY_CABINET_7: 'cabinet-key', BYBIT_API_SECRET_CABINET_7: 'rotated-secret' })
+      ]),
+      baseUrl: server.url,
+      logDir
+    });
+
+    const result = await service.syncCabinet(7, { beginTime: Date.parse('2025-04-01T00:00:00Z'), endTime: Date.parse('2025-04-02T00:00:00Z') });
+
+    expect(result.error).toContain('Bybit API error 10004');
+    expect(cabinet.lastBybitSyncStatus).toStartWith('ERROR: Bybit API error 10004');
+  });
+});
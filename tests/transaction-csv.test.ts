@@ -0,0 +1,151 @@
+import { expect, describe, it } from "bun:test";
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { decodeP2POrderOrThrow } from '@/p2p-order';
+import {
+  BYBIT_TRANSACTION_COLUMNS,
+  formatBybitTransactionCsv,
+  mergeBybitTransactionRows,
+  mergeIntoBybitTransactionCsv,
+  parseBybitTransactionCsv,
+  parseLegacyBybitTransactionCsv,
+  readBybitTransactionCsv,
+  toBybitTransactionCsvRow,
+  writeBybitTransactionCsv
+} from '@/transaction-csv';
+
+const order = decodeP2POrderOrThrow({
+  id: '1909461388398374912',
+  side: 1,
+  tokenId: 'USDT',
+  amount: '442143.36',
+  currencyId: 'RUB',
+  price: '85.29',
+  notifyTokenQuantity: '5184',
+  fee: '0',
+  targetNickName: 'elisemefor',
+  status: 50,
+  createDate: '1744086046000',
+  userId: '414938234'
+});
+
+const samplePath = path.join(import.meta.dir, '..', 'BybitTransaction.csv');
+
+describe('toBybitTransactionCsvRow', () => {
+  it('should produce the row stored in BybitTransaction.csv', async () => {
+    const rows = [];
+    for await (const row of readBybitTransactionCsv(samplePath)) rows.push(row);
+
+    expect(rows.length).toBe(20);
+    expect(toBybitTransactionCsvRow(order)).toEqual(rows[0]!);
+  });
+});
+
+describe('BybitTransaction.csv files', () => {
+  it('should write files that read back unchanged', async () => {
+    const filepath = path.join(os.tmpdir(), `bybit-transactions-${Date.now()}.csv`);
+    const rows = [toBybitTransactionCsvRow(order)];
+
+    try {
+      expect(await writeBybitTransactionCsv(filepath, rows, { bom: true })).toBe(1);
+      expect(parseBybitTransactionCsv(fs.readFileSync(filepath, 'utf8'))).toEqual(rows);
+    } finally {
+      fs.rmSync(filepath, { force: true });
+    }
+  });
+
+  it('should reject files with other columns', () => {
+    expect(() => parseBybitTransactionCsv('id,orderNo\r\n1,1\r\n')).toThrow('CSV line 1: expected header');
+  });
+
+  it('should recover files of the old export with unescaped JSON quotes', () => {
+    const row = toBybitTransactionCsvRow(order);
+    const legacy = [
+      BYBIT_TRANSACTION_COLUMNS.map(column => `"${column}"`).join(','),
+      BYBIT_TRANSACTION_COLUMNS.map(column => `"${row[column]}"`).join(',')
+    ].join('\n');
+
+    expect(parseLegacyBybitTransactionCsv(legacy)).toEqual([row]);
+    expect(parseBybitTransactionCsv(formatBybitTransactionCsv([row]))).toEqual([row]);
+  });
+});
+
+describe('mergeBybitTransactionRows', () => {
+  const row = (orderNo: string, dateTime: string, status: string = 'completed') => ({
+    ...toBybitTransactionCsvRow(order),
+    id: orderNo,
+    orderNo,
+    dateTime,
+    status
+  });
+
+  it('should add new orders, update changed ones and keep the rest', () => {
+    const existing = [
+      row('3', '2025-04-08 03:00:00.000', 'appealing'),
+      row('2', '2025-04-08 02:00:00.000'),
+      row('1', '2025-04-08 01:00:00.000')
+    ];
+    const incoming = [
+      row('4', '2025-04-08 04:00:00.000'),
+      row('3', '2025-04-08 03:00:00.000'),
+      row('2', '2025-04-08 02:00:00.000')
+    ];
+
+    const result = mergeBybitTransactionRows(existing, incoming);
+
+    expect(result.added).toBe(1);
+    expect(result.updated).toBe(1);
+    expect(result.unchanged).toBe(1);
+    expect(result.rows.map(r => r.orderNo)).toEqual(['4', '3', '2', '1']);
+    expect(result.rows[1]?.status).toBe('completed');
+  });
+
+  it('should order rows with equal dateTime by orderNo', () => {
+    const result = mergeBybitTransactionRows(
+      [row('9', '2025-04-08 01:00:00.000')],
+      [row('10', '2025-04-08 01:00:00.000'), row('8', '2025-04-08 01:00:00.000')]
+    );
+
+    expect(result.rows.map(r => r.orderNo)).toEqual(['10', '9', '8']);
+  });
+});
+
+describe('mergeIntoBybitTransactionCsv', () => {
+  it('should keep rows of earlier runs in the file', async () => {
+    const filepath = path.join(os.tmpdir(), `bybit-ledger-${Date.now()}.csv`);
+    const first = toBybitTransactionCsvRow(order);
+    const second = { ...first, id: '2', orderNo: '2', dateTime: '2025-04-09 00:00:00.000' };
+
+    try {
+      await mergeIntoBybitTransactionCsv(filepath, [first]);
+      const result = await mergeIntoBybitTransactionCsv(filepath, [second]);
+
+      expect(result.added).toBe(1);
+      expect(parseBybitTransactionCsv(fs.readFileSync(filepath, 'utf8'))).toEqual([second, first]);
+    } finally {
+      fs.rmSync(filepath, { force: true });
+    }
+  });
+
+  it('should not leave the temporary file when writing fails', async () => {
+    const filepath = path.join(os.tmpdir(), `bybit-ledger-${Date.now()}.csv`);
+    const first = toBybitTransactionCsvRow(order);
+    // Достаточно строк, чтобы временный файл успел открыться до сбоя
+    const rows = Array.from({ length: 500 }, (_, i) => ({ ...first, id: String(i), orderNo: String(i) }));
+    Object.defineProperty(rows[0], 'amount', {
+      get() {
+        throw new Error('disk full');
+      }
+    });
+
+    try {
+      await expect(mergeIntoBybitTransactionCsv(filepath, rows)).rejects.toThrow('disk full');
+      expect(fs.existsSync(`${filepath}.tmp`)).toBe(false);
+      expect(fs.existsSync(filepath)).toBe(false);
+    } finally {
+      fs.rmSync(filepath, { force: true });
+      fs.rmSync(`${filepath}.tmp`, { force: true });
+    }
+  });
+});
@@ -0,0 +1,32 @@
+import { expect, describe, it } from "bun:test";
+import { XlsxError, excelSerialToDate, readXlsx, writeXlsx } from '@/xlsx';
+
+describe('writeXlsx / readXlsx', () => {
+  it('should round-trip sheets with text, numbers and gaps', () => {
+    const data = writeXlsx([
+      { name: 'Orders', rows: [['Order No.', 'Fiat Amount', 'Note'], ['1909461388398374912', 442143.36, 'a < b & "c"'], [], ['x', null, true]] },
+      { name: 'Summary', rows: [['Total', 5184]] }
+    ]);
+
+    const sheets = readXlsx(data);
+
+    expect(sheets.map(sheet => sheet.name)).toEqual(['Orders', 'Summary']);
+    expect(sheets[0]?.rows).toEqual([
+      ['Order No.', 'Fiat Amount', 'Note'],
+      ['1909461388398374912', '442143.36', 'a < b & "c"'],
+      [],
+      ['x', '', 'TRUE']
+    ]);
+    expect(sheets[1]?.rows).toEqual([['Total', '5184']]);
+  });
+
+  it('should reject files that are not workbooks', () => {
+    expect(() => readXlsx(new TextEncoder().encode('id,orderNo\n'))).toThrow(XlsxError);
+  });
+});
+
+describe('excelSerialToDate', () => {
+  it('should convert serial numbers with a time of day', () => {
+    expect(excelSerialToDate(45755.18108796296).toISOString()).toBe('2025-04-08T04:20:46.000Z');
+  });
+});
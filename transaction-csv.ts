@@ -0,0 +1,366 @@
+/**
+ * Schema of BybitTransaction.csv: the 14 columns of the BybitTransaction table
+ * exported by index.ts and BybitP2PParser.exportToMatchingFormat. Both export
+ * paths build rows here, so the files they produce are identical and can be
+ * read back with readBybitTransactionCsv.
+ */
+
+import fs from 'fs';
+import { formatCsv, parseCsv, readCsvFile, writeCsvFile, CsvError, UTF8_BOM, type CsvOptions } from './csv';
+import { formatFiat, type Decimal } from './money';
+import { OrderSide, ORDER_STATUS_LABELS, type P2POrder, type P2POrderDetail } from './p2p-order';
+
+/**
+ * Columns of BybitTransaction.csv in file order
+ */
+export const BYBIT_TRANSACTION_COLUMNS = [
+  'id',
+  'orderNo',
+  'counterparty',
+  'status',
+  'userId',
+  'createdAt',
+  'updatedAt',
+  'amount',
+  'asset',
+  'dateTime',
+  'originalData',
+  'totalPrice',
+  'type',
+  'unitPrice'
+] as const;
+
+export type BybitTransactionCsvColumn = typeof BYBIT_TRANSACTION_COLUMNS[number];
+
+/**
+ * One row of BybitTransaction.csv, every value as written to the file
+ */
+export type BybitTransactionCsvRow = Record<BybitTransactionCsvColumn, string>;
+
+/**
+ * Result of merging fresh rows into an existing file
+ */
+export interface BybitTransactionMergeResult {
+  rows: BybitTransactionCsvRow[]; // merged rows, newest first
+  added: number; // orders that were not in the file
+  updated: number; // orders whose row changed, e.g. a new status
+  unchanged: number; // orders fetched again with identical rows
+}
+
+/**
+ * Options the file is written with: every field quoted, as in the original export
+ */
+export const BYBIT_TRANSACTION_CSV_OPTIONS: CsvOptions = { quoteAll: true };
+
+/**
+ * Format a date the way BybitTransaction.csv stores it: "2025-04-08 04:20:46.000" (UTC)
+ */
+export function formatCsvDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 23);
+}
+
+/**
+ * Fields a BybitTransaction.csv row is built from, shared by API orders and stored rows
+ */
+export interface BybitTransactionCsvSource {
+  orderNo: string;
+  userId: string; // Bybit user ID of our account
+  side: OrderSide;
+  statusLabel: string; // e.g. "Completed"
+  tokenId: string;
+  currencyId: string;
+  price: Decimal;
+  tokenQuantity: Decimal;
+  fiatAmount: Decimal;
+  fee: Decimal;
+  counterparty: string;
+  dateTime: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Build a CSV row from its fields
+ * @param source - Order fields
+ * @returns Row with all 14 columns
+ */
+export function formatBybitTransactionCsvRow(source: BybitTransactionCsvSource): BybitTransactionCsvRow {
+  const type = source.side === OrderSide.Buy ? 'BUY' : 'SELL';
+  const totalPrice = formatFiat(source.fiatAmount, source.currencyId);
+
+  // originalData повторяет колонки выгрузки истории заявок из веб-интерфейса Bybit
+  const originalData = {
+    "Time": source.dateTime.toISOString().replace('T', ' ').slice(0, 19),
+    "Type": type,
+    "Price": source.price.toString(),
+    "Status": source.statusLabel,
+    "Currency": source.currencyId,
+    "Order No.": source.orderNo,
+    "Currency_1": source.currencyId,
+    "Coin Amount": source.tokenQuantity.toString(),
+    "Fiat Amount": totalPrice,
+    "p2p-convert": "no",
+    "Counterparty": source.counterparty,
+    "Cryptocurrency": source.tokenId,
+    "Cryptocurrency_1": source.tokenId,
+    "Transaction Fees": source.fee.toString()
+  };
+
+  return {
+    id: source.orderNo,
+    orderNo: source.orderNo,
+    counterparty: source.counterparty,
+    status: source.statusLabel.toLowerCase(),
+    userId: source.userId,
+    createdAt: formatCsvDate(source.dateTime),
+    updatedAt: formatCsvDate(source.updatedAt),
+    amount: source.tokenQuantity.toString(),
+    asset: source.tokenId,
+    dateTime: formatCsvDate(source.dateTime),
+    originalData: JSON.stringify(originalData),
+    totalPrice,
+    type,
+    unitPrice: source.price.toString()
+  };
+}
+
+/**
+ * Row fields of an API order
+ * @param order - Decoded order
+ * @param detail - Order details; updatedAt falls back to the creation time when they are unknown
+ */
+export function orderToCsvSource(order: P2POrder, detail?: P2POrderDetail): BybitTransactionCsvSource {
+  return {
+    orderNo: order.id, // the order ID is the order number shown by Bybit
+    userId: order.userId,
+    side: order.side,
+    statusLabel: ORDER_STATUS_LABELS[order.status],
+    tokenId: order.tokenId,
+    currencyId: order.currencyId,
+    price: order.price,
+    tokenQuantity: order.tokenQuantity,
+    fiatAmount: order.fiatAmount,
+    fee: order.fee,
+    counterparty: order.counterpartyNickName,
+    dateTime: order.createdAt,
+    updatedAt: detail?.updatedAt ?? order.createdAt
+  };
+}
+
+/**
+ * Build a CSV row from an order
+ * @param order - Decoded order
+ * @param detail - Order details (see orderToCsvSource)
+ * @returns Row with all 14 columns
+ */
+export function toBybitTransactionCsvRow(order: P2POrder, detail?: P2POrderDetail): BybitTransactionCsvRow {
+  return formatBybitTransactionCsvRow(orderToCsvSource(order, detail));
+}
+
+/**
+ * Values of a row in column order
+ */
+export function bybitTransactionCsvValues(row: BybitTransactionCsvRow): string[] {
+  return BYBIT_TRANSACTION_COLUMNS.map(column => row[column]);
+}
+
+/**
+ * Check the header record of a file
+ * @throws CsvError if the columns differ from BYBIT_TRANSACTION_COLUMNS
+ */
+function assertHeader(header: string[] | undefined): void {
+  const expected = BYBIT_TRANSACTION_COLUMNS.join(',');
+  if (!header || header.join(',') !== expected) {
+    throw new CsvError(`expected header "${expected}", got "${header?.join(',') ?? ''}"`, 1);
+  }
+}
+
+/**
+ * Turn a record into a row, checking the number of fields
+ */
+function toRow(record: string[], line: number): BybitTransactionCsvRow {
+  if (record.length !== BYBIT_TRANSACTION_COLUMNS.length) {
+    throw new CsvError(`expected ${BYBIT_TRANSACTION_COLUMNS.length} fields, got ${record.length}`, line);
+  }
+  const row = {} as BybitTransactionCsvRow;
+  BYBIT_TRANSACTION_COLUMNS.forEach((column, index) => {
+    row[column] = record[index] ?? '';
+  });
+  return row;
+}
+
+const isBlankRecord = (record: string[]): boolean => record.length === 1 && record[0] === '';
+
+/**
+ * Format rows as a complete BybitTransaction.csv document including the header
+ * @param rows - Rows to write
+ * @param options - Overrides of BYBIT_TRANSACTION_CSV_OPTIONS (e.g. bom for Excel)
+ */
+export function formatBybitTransactionCsv(rows: BybitTransactionCsvRow[], options: CsvOptions = {}): string {
+  return formatCsv(
+    [[...BYBIT_TRANSACTION_COLUMNS], ...rows.map(bybitTransactionCsvValues)],
+    { ...BYBIT_TRANSACTION_CSV_OPTIONS, ...options }
+  );
+}
+
+/**
+ * Parse a complete BybitTransaction.csv document
+ * @param text - File contents
+ * @returns Rows without the header
+ */
+export function parseBybitTransactionCsv(text: string): BybitTransactionCsvRow[] {
+  const [header, ...records] = parseCsv(text).filter(record => !isBlankRecord(record));
+  assertHeader(header);
+  return records.map((record, index) => toRow(record, index + 2));
+}
+
+/**
+ * Stream rows of a BybitTransaction.csv file
+ * @param filepath - Path to the file
+ */
+export async function* readBybitTransactionCsv(filepath: string): AsyncGenerator<BybitTransactionCsvRow> {
+  let line = 0;
+  for await (const record of readCsvFile(filepath)) {
+    if (isBlankRecord(record)) continue;
+    line++;
+    if (line === 1) {
+      assertHeader(record);
+      continue;
+    }
+    yield toRow(record, line);
+  }
+}
+
+/**
+ * Write rows to a BybitTransaction.csv file, header first
+ * @param filepath - Path to the file (overwritten)
+ * @param rows - Rows to write
+ * @param options - Overrides of BYBIT_TRANSACTION_CSV_OPTIONS (e.g. bom for Excel)
+ * @returns Number of rows written, without the header
+ */
+export async function writeBybitTransactionCsv(
+  filepath: string,
+  rows: Iterable<BybitTransactionCsvRow> | AsyncIterable<BybitTransactionCsvRow>,
+  options: CsvOptions = {}
+): Promise<number> {
+  async function* records(): AsyncGenerator<string[]> {
+    yield [...BYBIT_TRANSACTION_COLUMNS];
+    for await (const row of rows) yield bybitTransactionCsvValues(row);
+  }
+  const written = await writeCsvFile(filepath, records(), { ...BYBIT_TRANSACTION_CSV_OPTIONS, ...options });
+  return written - 1;
+}
+
+/**
+ * Recover rows of a file written by the old exporter, which quoted every field
+ * but did not escape the quotes inside originalData.
+ * The first 10 and the last 3 fields never contain quotes, so everything between them is originalData.
+ * @param text - File contents
+ * @returns Rows without the header
+ */
+export function parseLegacyBybitTransactionCsv(text: string): BybitTransactionCsvRow[] {
+  const content = text.startsWith(UTF8_BOM) ? text.slice(1) : text;
+  const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
+  return lines.slice(1).map((line, index) => {
+    const inner = line.trim().replace(/^"/, '').replace(/"$/, '');
+    const parts = inner.split('","');
+    if (parts.length < BYBIT_TRANSACTION_COLUMNS.length) {
+      throw new CsvError('cannot recover a row of the old export format', index + 2);
+    }
+    const head = parts.slice(0, 10);
+    const tail = parts.slice(parts.length - 3);
+    const originalData = parts.slice(10, parts.length - 3).join('","');
+    return toRow([...head, originalData, ...tail], index + 2);
+  });
+}
+
+/**
+ * Merge fresh rows into existing ones keyed by orderNo.
+ * Rows of orders that are not fetched again are kept, so the file works as a running ledger.
+ * The result is sorted by dateTime, newest first; rows with equal dateTime are ordered by orderNo.
+ * @param existing - Rows already stored in the file
+ * @param incoming - Freshly exported rows
+ * @returns Merged rows and the number of added, updated and unchanged orders
+ */
+export function mergeBybitTransactionRows(
+  existing: BybitTransactionCsvRow[],
+  incoming: BybitTransactionCsvRow[]
+): BybitTransactionMergeResult {
+  const byOrderNo = new Map<string, BybitTransactionCsvRow>();
+  for (const row of existing) byOrderNo.set(row.orderNo, row);
+
+  let added = 0;
+  let updated = 0;
+  let unchanged = 0;
+  for (const row of incoming) {
+    const current = byOrderNo.get(row.orderNo);
+    if (!current) {
+      added++;
+    } else if (BYBIT_TRANSACTION_COLUMNS.some(column => current[column] !== row[column])) {
+      updated++;
+    } else {
+      unchanged++;
+    }
+    byOrderNo.set(row.orderNo, row);
+  }
+
+  // dateTime хранится в формате "YYYY-MM-DD HH:mm:ss.SSS", поэтому строки сравниваются лексикографически
+  const rows = [...byOrderNo.values()].sort((a, b) =>
+    b.dateTime.localeCompare(a.dateTime) || compareOrderNo(b.orderNo, a.orderNo)
+  );
+
+  return { rows, added, updated, unchanged };
+}
+
+/**
+ * Compare numeric order numbers without losing precision
+ */
+function compareOrderNo(a: string, b: string): number {
+  return a.length - b.length || a.localeCompare(b);
+}
+
+/**
+ * Read all rows of a file, recovering files of the old export format
+ * @param filepath - Path to the file
+ * @returns Rows, empty when the file does not exist
+ */
+export async function loadBybitTransactionCsv(filepath: string): Promise<BybitTransactionCsvRow[]> {
+  if (!fs.existsSync(filepath)) return [];
+
+  const rows: BybitTransactionCsvRow[] = [];
+  try {
+    for await (const row of readBybitTransactionCsv(filepath)) rows.push(row);
+    return rows;
+  } catch (error) {
+    if (!(error instanceof CsvError)) throw error;
+    // Файлы старого формата содержат неэкранированные кавычки в originalData
+    return parseLegacyBybitTransactionCsv(fs.readFileSync(filepath, 'utf8'));
+  }
+}
+
+/**
+ * Merge fresh rows into a BybitTransaction.csv file instead of overwriting it
+ * @param filepath - Path to the file; created when missing
+ * @param incoming - Freshly exported rows
+ * @param options - Overrides of BYBIT_TRANSACTION_CSV_OPTIONS
+ * @returns Counts of added, updated and unchanged orders and the merged rows
+ */
+export async function mergeIntoBybitTransactionCsv(
+  filepath: string,
+  incoming: BybitTransactionCsvRow[],
+  options: CsvOptions = {}
+): Promise<BybitTransactionMergeResult> {
+  const existing = await loadBybitTransactionCsv(filepath);
+  const result = mergeBybitTransactionRows(existing, incoming);
+
+  // Пишем во временный файл и переименовываем, чтобы сбой записи не испортил журнал
+  const tempPath = `${filepath}.tmp`;
+  try {
+    await writeBybitTransactionCsv(tempPath, result.rows, options);
+  } catch (error) {
+    fs.rmSync(tempPath, { force: true });
+    throw error;
+  }
+  fs.renameSync(tempPath, filepath);
+
+  return result;
+}
@@ -0,0 +1,363 @@
+/**
+ * Minimal XLSX (Office Open XML spreadsheet) reading and writing.
+ * Only cell values are supported: strings, numbers, booleans and dates of
+ * every sheet. Styles, formulas and merged cells are ignored when reading;
+ * the only style written is the date format. The ZIP container is handled
+ * with zlib, so no extra dependencies are needed.
+ */
+
+import zlib from 'zlib';
+
+/**
+ * Sheet of a workbook with cell values as text
+ */
+export interface XlsxSheet {
+  name: string;
+  rows: string[][];
+}
+
+/**
+ * Value of a cell to write: numbers and dates become typed cells, strings stay text
+ */
+export type XlsxCellValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Sheet to write
+ */
+export interface XlsxSheetInput {
+  name: string;
+  rows: XlsxCellValue[][];
+}
+
+/**
+ * Error thrown for files that are not valid XLSX workbooks
+ */
+export class XlsxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'XlsxError';
+  }
+}
+
+const DATE_FORMAT = 'yyyy-mm-dd hh:mm:ss';
+
+const textDecoder = new TextDecoder('utf-8');
+const textEncoder = new TextEncoder();
+
+/**
+ * Read the entries of a ZIP archive
+ * @returns File contents by path
+ */
+function unzip(data: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  // Конец центрального каталога ищем с конца: после него может идти комментарий до 64 КБ
+  let eocd = -1;
+  for (let offset = data.length - 22; offset >= Math.max(0, data.length - 22 - 0xffff); offset--) {
+    if (view.getUint32(offset, true) === 0x06054b50) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new XlsxError('not a ZIP archive');
+
+  const entryCount = view.getUint16(eocd + 10, true);
+  let offset = view.getUint32(eocd + 16, true);
+  const files = new Map<string, Uint8Array>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new XlsxError('corrupt ZIP central directory');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = textDecoder.decode(data.subarray(offset + 46, offset + 46 + nameLength));
+
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const compressed = data.subarray(dataStart, dataStart + compressedSize);
+    if (method === 0) {
+      files.set(name, compressed);
+    } else if (method === 8) {
+      files.set(name, new Uint8Array(zlib.inflateRawSync(compressed)));
+    } else {
+      throw new XlsxError(`unsupported ZIP compression method ${method} for ${name}`);
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return files;
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (const byte of data) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Pack files into a ZIP archive with deflate compression
+ */
+function zip(files: Array<[string, Uint8Array]>): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const [name, content] of files) {
+    const nameBytes = textEncoder.encode(name);
+    const compressed = new Uint8Array(zlib.deflateRawSync(content));
+    const crc = crc32(content);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true); // version needed: 2.0
+    local.setUint16(6, 0x0800, true); // names are UTF-8
+    local.setUint16(8, 8, true); // deflate
+    local.setUint32(14, crc, true);
+    local.setUint32(18, compressed.length, true);
+    local.setUint32(22, content.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014b50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint16(10, 8, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, compressed.length, true);
+    entry.setUint32(24, content.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), nameBytes, compressed);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+    offset += 30 + nameBytes.length + compressed.length;
+  }
+
+  const centralSize = central.reduce((size, chunk) => size + chunk.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, new Uint8Array(end.buffer)];
+  const result = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+/**
+ * Decode XML entities of a text node or attribute
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (_, entity: string) => {
+    switch (entity.toLowerCase()) {
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'amp': return '&';
+      case 'quot': return '"';
+      case 'apos': return "'";
+    }
+    const code = entity[1] === 'x' || entity[1] === 'X' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+    return String.fromCodePoint(code);
+  });
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Управляющие символы кроме табуляции и переводов строк запрещены в XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '');
+}
+
+const attribute = (attributes: string, name: string): string | undefined => {
+  const match = new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attributes);
+  return match ? decodeXml(match[1]!) : undefined;
+};
+
+/**
+ * Concatenated text of all <t> elements, skipping phonetic hints
+ */
+function richText(xml: string): string {
+  const withoutPhonetics = xml.replace(/<rPh\b[\s\S]*?<\/rPh>/g, '');
+  let text = '';
+  for (const match of withoutPhonetics.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)) text += decodeXml(match[1]!);
+  return text;
+}
+
+/**
+ * Zero-based column index of a cell reference such as "AB12"
+ */
+function columnIndex(reference: string): number {
+  let index = 0;
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) index = index * 26 + char.charCodeAt(0) - 64;
+  return index - 1;
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) name = String.fromCharCode(65 + (n - 1) % 26) + name;
+  return name;
+}
+
+/**
+ * Parse the cells of a worksheet
+ */
+function parseSheet(xml: string, sharedStrings: string[]): string[][] {
+  const rows: string[][] = [];
+
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(attribute(rowMatch[1]!, 'r'));
+    const rowIndex = Number.isInteger(rowNumber) && rowNumber > 0 ? rowNumber - 1 : rows.length;
+    while (rows.length < rowIndex) rows.push([]);
+
+    const row: string[] = [];
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]!;
+      const content = cellMatch[2] ?? '';
+      const reference = attribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : row.length;
+      const value = /<v>([\s\S]*?)<\/v>/.exec(content)?.[1];
+
+      let text: string;
+      switch (attribute(attributes, 't')) {
+        case 's': text = sharedStrings[Number(value)] ?? ''; break;
+        case 'inlineStr': text = richText(content); break;
+        case 'b': text = value === '1' ? 'TRUE' : 'FALSE'; break;
+        default: text = value === undefined ? '' : decodeXml(value);
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = text;
+    }
+    rows[rowIndex] = row;
+  }
+
+  return rows;
+}
+
+/**
+ * Read all sheets of a workbook
+ * @param data - Contents of an .xlsx file
+ * @returns Sheets in workbook order with cell values as text (dates stay Excel serial numbers)
+ * @throws XlsxError if the file is not a workbook
+ */
+export function readXlsx(data: Uint8Array): XlsxSheet[] {
+  const files = unzip(data);
+  const read = (name: string): string | undefined => {
+    const content = files.get(name);
+    return content ? textDecoder.decode(content) : undefined;
+  };
+
+  const workbook = read('xl/workbook.xml');
+  if (!workbook) throw new XlsxError('xl/workbook.xml is missing');
+
+  const sharedStrings = [...(read('xl/sharedStrings.xml') ?? '').matchAll(/<si\b[^>]*>([\s\S]*?)<\/si>/g)]
+    .map(match => richText(match[1]!));
+
+  const targets = new Map<string, string>();
+  for (const match of (read('xl/_rels/workbook.xml.rels') ?? '').matchAll(/<Relationship\b([^>]*?)\/?>/g)) {
+    const id = attribute(match[1]!, 'Id');
+    const target = attribute(match[1]!, 'Target');
+    if (id && target) targets.set(id, target.startsWith('/') ? target.slice(1) : `xl/${target}`);
+  }
+
+  return [...workbook.matchAll(/<sheet\b([^>]*?)\/?>/g)].map((match, index) => {
+    const attributes = match[1]!;
+    const path = targets.get(attribute(attributes, 'r:id') ?? '') ?? `xl/worksheets/sheet${index + 1}.xml`;
+    const xml = read(path);
+    if (!xml) throw new XlsxError(`${path} is missing`);
+    return { name: attribute(attributes, 'name') ?? `Sheet${index + 1}`, rows: parseSheet(xml, sharedStrings) };
+  });
+}
+
+/**
+ * Build a workbook
+ * @param sheets - Sheets in order; names are cut to the 31 characters Excel allows
+ * @returns Contents of an .xlsx file
+ */
+export function writeXlsx(sheets: XlsxSheetInput[]): Uint8Array {
+  if (sheets.length === 0) throw new XlsxError('a workbook needs at least one sheet');
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+  const sheetXml = (sheet: XlsxSheetInput): string => {
+    const rows = sheet.rows.map((row, rowIndex) => {
+      const cells = row.map((value, columnIndex) => {
+        if (value === null || value === undefined || value === '') return '';
+        const reference = `${columnName(columnIndex)}${rowIndex + 1}`;
+        if (typeof value === 'number' && Number.isFinite(value)) return `<c r="${reference}"><v>${value}</v></c>`;
+        if (value instanceof Date) return `<c r="${reference}" s="1"><v>${dateToExcelSerial(value)}</v></c>`;
+        if (typeof value === 'boolean') return `<c r="${reference}" t="b"><v>${value ? 1 : 0}</v></c>`;
+        return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(String(value))}</t></is></c>`;
+      });
+      return `<row r="${rowIndex + 1}">${cells.join('')}</row>`;
+    });
+    return `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${rows.join('')}</sheetData></worksheet>`;
+  };
+
+  const files: Array<[string, string]> = [
+    ['[Content_Types].xml', `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">`
+      + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+      + '<Default Extension="xml" ContentType="application/xml"/>'
+      + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+      + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+      + sheets.map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+      + '</Types>'],
+    ['_rels/.rels', `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+      + '</Relationships>'],
+    ['xl/workbook.xml', `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>`
+      + sheets.map((sheet, i) => `<sheet name="${encodeXml(sheet.name.slice(0, 31))}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`).join('')
+      + '</sheets></workbook>'],
+    ['xl/_rels/workbook.xml.rels', `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">`
+      + sheets.map((_, i) => `<Relationship Id="rId${i + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`).join('')
+      + `<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+      + '</Relationships>'],
+    // Стиль 1 - формат даты и времени для ячеек Date
+    ['xl/styles.xml', `${xmlHeader}<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">`
+      + `<numFmts count="1"><numFmt numFmtId="164" formatCode="${DATE_FORMAT}"/></numFmts>`
+      + '<fonts count="1"><font><sz val="11"/><name val="Calibri"/></font></fonts>'
+      + '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>'
+      + '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>'
+      + '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>'
+      + '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>'
+      + '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>'
+      + '</styleSheet>'],
+    ...sheets.map((sheet, i): [string, string] => [`xl/worksheets/sheet${i + 1}.xml`, sheetXml(sheet)])
+  ];
+
+  return zip(files.map(([name, content]) => [name, textEncoder.encode(content)]));
+}
+
+/**
+ * Convert an Excel date serial number (days since 1899-12-30) to a date
+ * @param serial - Serial number, the fraction is the time of day
+ */
+export function excelSerialToDate(serial: number): Date {
+  return new Date(Math.round((serial - 25569) * 86400000));
+}
+
+/**
+ * Convert a date to an Excel serial number; Excel has no time zones, so the UTC time is stored
+ */
+export function dateToExcelSerial(date: Date): number {
+  return date.getTime() / 86400000 + 25569;
+}